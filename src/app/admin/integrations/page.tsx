@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { AdminLayout } from '@/components/admin/AdminLayout';
 import { useAuth } from '@/contexts/AuthContext';
+import { CompanyMatchSettingsPanel } from '@/components/hubspot/CompanyMatchSettingsPanel';
 
 interface Integration {
   id: string;
@@ -397,6 +398,10 @@ export default function IntegrationsPage() {
           })}
         </div>
 
+        {hubspotConnected && user?.accountId && (
+          <CompanyMatchSettingsPanel accountId={user.accountId} onResult={setMessage} />
+        )}
+
         {/* Info card */}
         <div className="bg-primary-50 border border-primary-200 rounded-lg p-4">
           <div className="flex items-start gap-3">
@@ -2,6 +2,8 @@
 
 import { useState, useEffect } from 'react';
 import { AdminLayout } from '@/components/admin/AdminLayout';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchRequiredProperties, saveRequiredProperties } from '@/lib/client/requiredProperties';
 
 type ObjectType = 'contacts' | 'companies' | 'deals';
 
@@ -25,6 +27,8 @@ const OBJECT_TYPE_COLORS: Record<ObjectType, string> = {
 };
 
 export default function RequiredPropertiesPage() {
+  const { user } = useAuth();
+  const accountId = user?.accountId || '';
   const [properties, setProperties] = useState<HubSpotProperty[]>([]);
   const [requiredFields, setRequiredFields] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -34,8 +38,8 @@ export default function RequiredPropertiesPage() {
   const [search, setSearch] = useState('');
 
   useEffect(() => {
-    fetchData();
-  }, []);
+    if (accountId) fetchData();
+  }, [accountId]);
 
   const fetchData = async () => {
     setIsLoading(true);
@@ -47,16 +51,8 @@ export default function RequiredPropertiesPage() {
         setProperties(propertiesData.properties);
       }
 
-      // Fetch saved required fields from app_settings
-      const settingRes = await fetch('/api/admin/app-settings?key=required_properties');
-      const settingJson = await settingRes.json();
-
-      if (settingJson.data) {
-        const parsed = typeof settingJson.data === 'string' ? JSON.parse(settingJson.data) : settingJson.data;
-        if (Array.isArray(parsed)) {
-          setRequiredFields(parsed);
-        }
-      }
+      // Fetch the account's saved required fields
+      setRequiredFields(await fetchRequiredProperties(accountId));
     } catch (err) {
       console.error('Error fetching data:', err);
     } finally {
@@ -77,15 +73,10 @@ export default function RequiredPropertiesPage() {
     setIsSaving(true);
     setSaveMessage(null);
     try {
-      const saveRes = await fetch('/api/admin/app-settings', {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ key: 'required_properties', value: JSON.stringify(requiredFields) }),
-      });
-      const saveJson = await saveRes.json();
+      const saveError = await saveRequiredProperties(accountId, requiredFields);
 
-      if (saveJson.error) {
-        setSaveMessage({ type: 'error', text: 'Failed to save: ' + saveJson.error });
+      if (saveError) {
+        setSaveMessage({ type: 'error', text: 'Failed to save: ' + saveError });
       } else {
         setSaveMessage({ type: 'success', text: 'Required properties saved successfully' });
       }
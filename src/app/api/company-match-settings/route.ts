@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSupabase } from '@/lib/supabase';
+import { fetchCompanyMatchSettings, readCompanyMatchSettings } from '@/lib/companyMatching';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const accountId = request.nextUrl.searchParams.get('accountId');
+    if (!accountId) {
+      return NextResponse.json({ error: 'Account ID required' }, { status: 400 });
+    }
+
+    return NextResponse.json({ data: await fetchCompanyMatchSettings(accountId) });
+  } catch (err) {
+    console.error('Error fetching company match settings:', err);
+    return NextResponse.json({ error: 'Failed to fetch company match settings' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { accountId, settings: body } = await request.json();
+    if (!accountId) {
+      return NextResponse.json({ error: 'Account ID required' }, { status: 400 });
+    }
+
+    const settings = readCompanyMatchSettings(body);
+    const { error } = await getServerSupabase()
+      .from('company_match_settings')
+      .upsert(
+        {
+          account_id: accountId,
+          signals: settings.signals,
+          name_threshold: settings.nameThreshold,
+          name_location_threshold: settings.nameLocationThreshold,
+          personal_domains: settings.personalDomains,
+          tie_break: settings.tieBreak,
+        },
+        { onConflict: 'account_id' }
+      );
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    return NextResponse.json({ success: true, data: settings });
+  } catch (err) {
+    console.error('Error saving company match settings:', err);
+    return NextResponse.json({ error: 'Failed to save company match settings' }, { status: 500 });
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAccountContext } from '@/lib/hubspot';
+import { fetchStaticContactLists } from '@/lib/hubspotLists';
+
+export const dynamic = 'force-dynamic';
+
+// GET - Static contact lists a sync can add its contacts to (?query= filters by name)
+export async function GET(request: NextRequest) {
+  const accountId = request.headers.get('x-account-id') || '';
+  try {
+    const account = await getAccountContext(accountId);
+    const lists = await fetchStaticContactLists(account, request.nextUrl.searchParams.get('query') || '');
+    return NextResponse.json({ lists });
+  } catch (error) {
+    console.error('Error fetching HubSpot lists:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch HubSpot lists' },
+      { status: 500 }
+    );
+  }
+}
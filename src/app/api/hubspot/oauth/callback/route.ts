@@ -105,8 +105,9 @@ export async function GET(request: NextRequest) {
     const { persisted } = await setTokens(tokens, accountId, portalId);
     resetClient(accountId);
 
-    // Invalidate cached connection status for this account
-    cache.invalidate(CACHE_KEYS.hubspotConnection(accountId));
+    // Invalidate everything cached for this account (connection status,
+    // owners and company lookups of a previously connected portal)
+    cache.invalidatePrefix(CACHE_KEYS.account(accountId));
 
     // If tokens could not be persisted to the database, the connection will
     // appear lost after a page reload or new deployment. Fail loudly so the
@@ -113,7 +113,6 @@ export async function DELETE(request: NextRequest) {
 
   await clearTokens(accountId);
   const removedHeadings = await removeAllHubSpotHeadingsAsync(accountId);
-  cache.invalidate(CACHE_KEYS.hubspotConnection(accountId));
-  cache.invalidate(CACHE_KEYS.hubspotOwners(accountId));
+  cache.invalidatePrefix(CACHE_KEYS.account(accountId));
   return NextResponse.json({ success: true, connected: false, removedHeadings });
 }
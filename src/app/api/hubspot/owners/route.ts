@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getHubSpotOwners } from '@/lib/hubspot';
+import { getAccountContext, getHubSpotOwners } from '@/lib/hubspot';
 import { cache, CACHE_TTL, CACHE_KEYS } from '@/lib/cache';
 
 export const dynamic = 'force-dynamic';
@@ -7,13 +7,14 @@ export const dynamic = 'force-dynamic';
 export async function GET(request: NextRequest) {
   const accountId = request.headers.get('x-account-id') || '';
   try {
-    const cacheKey = CACHE_KEYS.hubspotOwners(accountId);
+    const account = await getAccountContext(accountId);
+    const cacheKey = CACHE_KEYS.hubspotOwners(account);
     const cached = cache.get<{ id: string; name: string; email: string }[]>(cacheKey);
     if (cached) {
       return NextResponse.json({ owners: cached });
     }
 
-    const owners = await getHubSpotOwners();
+    const owners = await getHubSpotOwners(account);
     cache.set(cacheKey, owners, CACHE_TTL.OWNERS);
     return NextResponse.json({ owners });
   } catch (error) {
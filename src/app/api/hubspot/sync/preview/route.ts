@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getValidAccessToken } from '@/lib/hubspot';
+import { createBatchContext, previewContactRows } from '@/lib/hubspotBatch';
+import type { HubSpotObjectType } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+// POST - Dry-run a sync: same rows as /api/hubspot/sync, nothing is written
+export async function POST(request: NextRequest) {
+  try {
+    const { rows, taskAssigneeId, objectType = 'contacts' } = await request.json() as {
+      rows: { contactProperties: Record<string, string>; companyProperties: Record<string, string> }[];
+      taskAssigneeId: string;
+      objectType?: HubSpotObjectType;
+    };
+
+    if (!Array.isArray(rows)) {
+      return NextResponse.json({ error: 'rows are required' }, { status: 400 });
+    }
+    if (objectType !== 'contacts') {
+      return NextResponse.json({ error: 'Sync preview is available for contact imports' }, { status: 400 });
+    }
+
+    const accountId = request.headers.get('x-account-id') || '';
+    const token = await getValidAccessToken(accountId);
+    if (!token) {
+      return NextResponse.json(
+        { error: 'HubSpot OAuth token is missing or expired. Please reconnect HubSpot in Admin > Integrations.' },
+        { status: 401 }
+      );
+    }
+
+    const ctx = await createBatchContext(accountId);
+    const preview = await previewContactRows(
+      ctx,
+      rows.map((row, rowIndex) => ({
+        rowIndex,
+        contactProperties: row.contactProperties || {},
+        companyProperties: row.companyProperties || {},
+      })),
+      taskAssigneeId
+    );
+
+    return NextResponse.json(preview);
+  } catch (err) {
+    console.error('Error previewing HubSpot sync:', err);
+    return NextResponse.json({ error: 'Failed to preview HubSpot sync' }, { status: 500 });
+  }
+}
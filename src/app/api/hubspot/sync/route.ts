@@ -1,6 +1,11 @@
 import { NextRequest } from 'next/server';
-import { processRowForHubSpot, getValidAccessToken, resetClient } from '@/lib/hubspot';
-import { upsertCrmRecord } from '@/lib/crmRecords';
+import { processRowForHubSpot, getValidAccessToken, getAccountContext, resetClient } from '@/lib/hubspot';
+import { createBatchContext, syncContactChunk, HUBSPOT_BATCH_SIZE, type ContactBatchOutcome } from '@/lib/hubspotBatch';
+import { upsertCrmRecord, linkCrmRecords, type CrmRecordRef } from '@/lib/crmRecords';
+import { fetchPropertyPolicies, countSkippedProperties } from '@/lib/propertyPolicies';
+import { fetchCompanyMatchSettings } from '@/lib/companyMatching';
+import { addContactsToList, readSyncListTarget } from '@/lib/hubspotLists';
+import type { HubSpotCompany, HubSpotDeal, HubSpotObjectType } from '@/types';
 import { logInfo, logError, logSuccess } from '@/lib/logger';
 
 export const dynamic = 'force-dynamic';
@@ -8,6 +13,27 @@ export const dynamic = 'force-dynamic';
 interface SyncRow {
   contactProperties: Record<string, string>;
   companyProperties: Record<string, string>;
+  // Multi-object imports: deal columns plus the keys rows of the same
+  // company/deal share, so each is created in HubSpot only once
+  dealProperties?: Record<string, string>;
+  companyKey?: string;
+  dealKey?: string;
+}
+
+const AUTH_EXPIRED_MESSAGE = 'HubSpot OAuth token expired. Please reconnect HubSpot in Admin > Integrations and try again.';
+
+// Result line for a row that failed to sync
+function errorResult(objectType: HubSpotObjectType, rowIndex: number, row: SyncRow, error: string) {
+  return {
+    objectType,
+    rowIndex,
+    contact: { email: row.contactProperties?.email || '' },
+    matchedCompany: null,
+    matchConfidence: 0,
+    matchType: 'no_match',
+    taskCreated: false,
+    error,
+  };
 }
 
 // Check if an error is a HubSpot 401 authentication error
@@ -29,6 +55,10 @@ function isAuthError(error: unknown): boolean {
   return false;
 }
 
+// POST - Sync rows sent in the request, streaming progress as NDJSON.
+// There is no upload session here (sessionId is the wizard's log session), so
+// nothing is recorded in the sync ledger and these syncs can't be rolled back;
+// imports that need a rollback go through /api/pipeline/sync.
 export async function POST(request: NextRequest) {
   const encoder = new TextEncoder();
 
@@ -36,15 +66,21 @@ export async function POST(request: NextRequest) {
     async start(controller) {
       try {
         const body = await request.json();
-        const { rows, taskAssigneeId, sessionId } = body as {
+        const { rows, taskAssigneeId, sessionId, objectType = 'contacts', fileName = '' } = body as {
           rows: SyncRow[];
           taskAssigneeId: string;
           sessionId: string;
+          // Record type of the import; contact imports may also carry company/deal columns
+          objectType?: HubSpotObjectType;
+          // Static contact list to add the synced contacts to, and the file name its template uses
+          list?: unknown;
+          fileName?: string;
         };
+        const listTarget = readSyncListTarget(body.list);
 
         const accountId = request.headers.get('x-account-id') || '';
 
-        await logInfo('hubspot', `Starting sync for ${rows.length} rows`, sessionId);
+        await logInfo('hubspot', `Starting ${objectType} sync for ${rows.length} rows`, sessionId);
 
         // Force a fresh token check before starting the sync batch.
         // This ensures we pick up any re-authenticated tokens from the DB.
@@ -59,15 +95,7 @@ export async function POST(request: NextRequest) {
               encoder.encode(
                 JSON.stringify({
                   type: 'result',
-                  result: {
-                    rowIndex: i,
-                    contact: { email: rows[i].contactProperties?.email || '' },
-                    matchedCompany: null,
-                    matchConfidence: 0,
-                    matchType: 'no_match',
-                    taskCreated: false,
-                    error: errMsg,
-                  },
+                  result: errorResult(objectType, i, rows[i], errMsg),
                 }) + '\n'
               )
             );
@@ -76,7 +104,121 @@ export async function POST(request: NextRequest) {
           return;
         }
 
+        // Contact imports go through HubSpot's batch endpoints, 100 rows per
+        // call, under the portal's rate limiter. Results are still streamed
+        // per row. Company, deal and mixed imports are synced row by row below.
+        // Values overwrite policies kept from HubSpot, by objectType.property
+        const skippedCounts: Record<string, number> = {};
+        const logSkipped = async () => {
+          const total = Object.values(skippedCounts).reduce((sum, n) => sum + n, 0);
+          if (total > 0) {
+            await logInfo('hubspot', `Overwrite policies kept ${total} existing HubSpot values`, sessionId, { skipped: skippedCounts });
+          }
+        };
+
+        // Contacts the sync created or updated, for the list
+        const syncedContactIds: string[] = [];
+        const addToList = async () => {
+          if (!listTarget || syncedContactIds.length === 0) return;
+          try {
+            const list = await addContactsToList(await getAccountContext(accountId), listTarget, syncedContactIds, fileName);
+            await logInfo('hubspot', `Added ${list.added} contacts to HubSpot list "${list.listName}"`, sessionId, { listId: list.listId });
+            controller.enqueue(encoder.encode(JSON.stringify({ type: 'list', list }) + '\n'));
+          } catch (error) {
+            const errMsg = error instanceof Error ? error.message : 'Unknown error';
+            await logError('hubspot', 'Failed to add contacts to the HubSpot list', sessionId, { error: errMsg });
+            controller.enqueue(encoder.encode(JSON.stringify({ type: 'list', error: errMsg }) + '\n'));
+          }
+        };
+
+        const isMixed = rows.some((row) => row.companyKey || row.dealKey);
+        if (objectType === 'contacts' && !isMixed) {
+          const ctx = await createBatchContext(accountId);
+          let completed = 0;
+
+          for (let start = 0; start < rows.length; start += HUBSPOT_BATCH_SIZE) {
+            const chunkRows = rows.slice(start, start + HUBSPOT_BATCH_SIZE).map((row, offset) => ({
+              rowIndex: start + offset,
+              contactProperties: row.contactProperties || {},
+              companyProperties: row.companyProperties || {},
+            }));
+
+            let outcomes: ContactBatchOutcome[];
+            let abort = false;
+            try {
+              outcomes = await syncContactChunk(ctx, chunkRows, taskAssigneeId);
+            } catch (error) {
+              // Auth is broken — fail this and all remaining rows; otherwise only this chunk
+              abort = isAuthError(error);
+              const errMsg = abort ? AUTH_EXPIRED_MESSAGE : error instanceof Error ? error.message : 'Unknown error';
+              await logError('hubspot', `Error syncing rows ${start + 1}-${start + chunkRows.length}`, sessionId, { error });
+              const failedRows = abort ? rows.length - start : chunkRows.length;
+              outcomes = [];
+              for (let j = start; j < start + failedRows; j++) outcomes.push({ rowIndex: j, error: errMsg });
+            }
+
+            for (const outcome of outcomes) {
+              const row = rows[outcome.rowIndex];
+              completed++;
+              controller.enqueue(
+                encoder.encode(JSON.stringify({ type: 'progress', completed, total: rows.length }) + '\n')
+              );
+
+              if (!outcome.result) {
+                controller.enqueue(
+                  encoder.encode(
+                    JSON.stringify({
+                      type: 'result',
+                      result: errorResult(objectType, outcome.rowIndex, row, outcome.error || 'Unknown error'),
+                    }) + '\n'
+                  )
+                );
+                continue;
+              }
+
+              // Store in local CRM records (non-blocking — don't fail sync on CRM error)
+              try {
+                const linked: CrmRecordRef[] = [];
+                if (row.contactProperties && Object.keys(row.contactProperties).length > 0) {
+                  const cr = await upsertCrmRecord(accountId, 'contacts', row.contactProperties, outcome.result.contact.id, sessionId);
+                  if (cr) linked.push({ id: cr.id, objectType: 'contacts' });
+                }
+                if (row.companyProperties && Object.keys(row.companyProperties).length > 0) {
+                  const cr = await upsertCrmRecord(accountId, 'companies', row.companyProperties, outcome.result.matchedCompany?.id, sessionId);
+                  if (cr) linked.push({ id: cr.id, objectType: 'companies' });
+                }
+                await linkCrmRecords(linked);
+              } catch (crmErr) {
+                console.error(`CRM storage error for row ${outcome.rowIndex}:`, crmErr);
+              }
+
+              countSkippedProperties(skippedCounts, outcome.result.skippedProperties);
+              if (outcome.result.contact?.id) syncedContactIds.push(outcome.result.contact.id);
+              controller.enqueue(
+                encoder.encode(JSON.stringify({ type: 'result', result: outcome.result }) + '\n')
+              );
+            }
+
+            if (abort) break;
+          }
+
+          await addToList();
+          await logSkipped();
+          await logSuccess('hubspot', `Sync complete for ${rows.length} rows`, sessionId);
+          controller.close();
+          return;
+        }
+
         let consecutiveAuthErrors = 0;
+        const [account, policies, matchSettings] = await Promise.all([
+          getAccountContext(accountId),
+          fetchPropertyPolicies(accountId),
+          fetchCompanyMatchSettings(accountId),
+        ]);
+
+        // Companies and deals already synced by an earlier row of this batch
+        const companiesByKey = new Map<string, HubSpotCompany>();
+        const dealsByKey = new Map<string, HubSpotDeal>();
 
         for (let i = 0; i < rows.length; i++) {
           try {
@@ -94,24 +236,63 @@ export async function POST(request: NextRequest) {
             // Log row data for debugging
             console.log(`Sync row ${i}: contactProps=${JSON.stringify(Object.keys(rows[i].contactProperties || {}))}, companyProps=${JSON.stringify(Object.keys(rows[i].companyProperties || {}))}`);
 
-            // Process the row with separated contact/company properties
+            const { companyKey, dealKey, dealProperties } = rows[i];
+
+            // Process the row with separated contact/company/deal properties
             const result = await processRowForHubSpot(
+              account,
               i,
               rows[i].contactProperties || {},
               rows[i].companyProperties || {},
-              taskAssigneeId
+              taskAssigneeId,
+              {
+                objectType,
+                dealProps: dealProperties,
+                existingCompany: companyKey ? companiesByKey.get(companyKey) : undefined,
+                existingDeal: dealKey ? dealsByKey.get(dealKey) : undefined,
+                policies,
+                matchSettings,
+              }
             );
 
             consecutiveAuthErrors = 0; // Reset on success
+            countSkippedProperties(skippedCounts, result.skippedProperties);
+
+            // HubSpot ids of the records the row produced
+            let contactId: string | undefined;
+            let company: HubSpotCompany | null = null;
+            let deal: HubSpotDeal | null = null;
+            if (result.objectType === 'contacts') {
+              contactId = result.contact?.id;
+              company = result.matchedCompany;
+              deal = result.deal || null;
+            } else if (result.objectType === 'companies') {
+              company = result.company;
+            } else {
+              company = result.associatedCompany;
+              deal = result.deal;
+            }
+
+            if (contactId) syncedContactIds.push(contactId);
+            if (companyKey && company) companiesByKey.set(companyKey, company);
+            if (dealKey && deal) dealsByKey.set(dealKey, deal);
 
             // Store in local CRM records (non-blocking — don't fail sync on CRM error)
             try {
-              if (rows[i].contactProperties && Object.keys(rows[i].contactProperties).length > 0) {
-                await upsertCrmRecord(accountId, 'contacts', rows[i].contactProperties, result.contact?.id, sessionId);
+              const linked: CrmRecordRef[] = [];
+              if (objectType === 'contacts' && rows[i].contactProperties && Object.keys(rows[i].contactProperties).length > 0) {
+                const cr = await upsertCrmRecord(accountId, 'contacts', rows[i].contactProperties, contactId, sessionId);
+                if (cr) linked.push({ id: cr.id, objectType: 'contacts' });
               }
               if (rows[i].companyProperties && Object.keys(rows[i].companyProperties).length > 0) {
-                await upsertCrmRecord(accountId, 'companies', rows[i].companyProperties, result.matchedCompany?.id, sessionId);
+                const cr = await upsertCrmRecord(accountId, 'companies', rows[i].companyProperties, company?.id, sessionId);
+                if (cr) linked.push({ id: cr.id, objectType: 'companies' });
+              }
+              if (dealProperties && Object.keys(dealProperties).length > 0) {
+                const cr = await upsertCrmRecord(accountId, 'deals', dealProperties, deal?.id, sessionId);
+                if (cr) linked.push({ id: cr.id, objectType: 'deals' });
               }
+              await linkCrmRecords(linked);
             } catch (crmErr) {
               console.error(`CRM storage error for row ${i}:`, crmErr);
             }
@@ -136,8 +317,7 @@ export async function POST(request: NextRequest) {
 
               if (consecutiveAuthErrors >= 2) {
                 // Auth is truly broken — abort remaining rows with clear message
-                const errMsg = 'HubSpot OAuth token expired. Please reconnect HubSpot in Admin > Integrations and try again.';
-                await logError('hubspot', errMsg, sessionId);
+                await logError('hubspot', AUTH_EXPIRED_MESSAGE, sessionId);
 
                 // Send error for current and all remaining rows
                 for (let j = i; j < rows.length; j++) {
@@ -145,15 +325,7 @@ export async function POST(request: NextRequest) {
                     encoder.encode(
                       JSON.stringify({
                         type: 'result',
-                        result: {
-                          rowIndex: j,
-                          contact: { email: rows[j].contactProperties?.email || '' },
-                          matchedCompany: null,
-                          matchConfidence: 0,
-                          matchType: 'no_match',
-                          taskCreated: false,
-                          error: errMsg,
-                        },
+                        result: errorResult(objectType, j, rows[j], AUTH_EXPIRED_MESSAGE),
                       }) + '\n'
                     )
                   );
@@ -172,21 +344,15 @@ export async function POST(request: NextRequest) {
               encoder.encode(
                 JSON.stringify({
                   type: 'result',
-                  result: {
-                    rowIndex: i,
-                    contact: { email: rows[i].contactProperties?.email || '' },
-                    matchedCompany: null,
-                    matchConfidence: 0,
-                    matchType: 'no_match',
-                    taskCreated: false,
-                    error: error instanceof Error ? error.message : 'Unknown error',
-                  },
+                  result: errorResult(objectType, i, rows[i], error instanceof Error ? error.message : 'Unknown error'),
                 }) + '\n'
               )
             );
           }
         }
 
+        await addToList();
+        await logSkipped();
         await logSuccess('hubspot', `Sync complete for ${rows.length} rows`, sessionId);
         controller.close();
       } catch (error) {
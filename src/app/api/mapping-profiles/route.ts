@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSupabase } from '@/lib/supabase';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const accountId = request.nextUrl.searchParams.get('accountId');
+    if (!accountId) {
+      return NextResponse.json({ error: 'Account ID required' }, { status: 400 });
+    }
+
+    const db = getServerSupabase();
+    const { data, error } = await db
+      .from('mapping_profiles')
+      .select('*')
+      .eq('account_id', accountId)
+      .order('name');
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    return NextResponse.json({ data: data || [] });
+  } catch (err) {
+    console.error('Error fetching mapping profiles:', err);
+    return NextResponse.json({ error: 'Failed to fetch mapping profiles' }, { status: 500 });
+  }
+}
+
+// Save a profile — saving under an existing name replaces that profile
+export async function POST(request: NextRequest) {
+  try {
+    const { accountId, userId, profile } = await request.json();
+    if (!accountId || !profile?.name?.trim()) {
+      return NextResponse.json({ error: 'Account ID and profile name required' }, { status: 400 });
+    }
+
+    const db = getServerSupabase();
+    const { data, error } = await db
+      .from('mapping_profiles')
+      .upsert(
+        {
+          account_id: accountId,
+          name: profile.name.trim(),
+          object_type: profile.objectType || null,
+          headers: profile.headers || [],
+          column_mapping: profile.columnMapping || {},
+          question_answers: profile.questionAnswers || {},
+          question_column_values: profile.questionColumnValues || {},
+          rule_overrides: profile.ruleOverrides || {},
+          created_by: userId || null,
+        },
+        { onConflict: 'account_id,name' }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    return NextResponse.json({ data });
+  } catch (err) {
+    console.error('Error saving mapping profile:', err);
+    return NextResponse.json({ error: 'Failed to save mapping profile' }, { status: 500 });
+  }
+}
+
+// Record that a profile was applied to an import
+export async function PUT(request: NextRequest) {
+  try {
+    const { accountId, id } = await request.json();
+    const db = getServerSupabase();
+
+    const { data: existing, error: fetchError } = await db
+      .from('mapping_profiles')
+      .select('use_count')
+      .eq('account_id', accountId)
+      .eq('id', id)
+      .single();
+
+    if (fetchError) {
+      return NextResponse.json({ error: fetchError.message }, { status: 500 });
+    }
+
+    const { error } = await db
+      .from('mapping_profiles')
+      .update({ use_count: (existing?.use_count || 0) + 1, last_used_at: new Date().toISOString() })
+      .eq('account_id', accountId)
+      .eq('id', id);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error('Error updating mapping profile:', err);
+    return NextResponse.json({ error: 'Failed to update mapping profile' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { accountId, id } = await request.json();
+    const db = getServerSupabase();
+    const { error } = await db
+      .from('mapping_profiles')
+      .delete()
+      .eq('account_id', accountId)
+      .eq('id', id);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error('Error deleting mapping profile:', err);
+    return NextResponse.json({ error: 'Failed to delete mapping profile' }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cancelPipelineJob } from '@/lib/pipelineJobs';
+
+export const dynamic = 'force-dynamic';
+
+// POST - Cancel an enrichment or sync job
+// A queued job stops right away; a running one after its current batch. The
+// job can be resumed later from where it stopped.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: jobId } = await params;
+
+    const accountId = request.headers.get('x-account-id');
+    if (!accountId) {
+      return NextResponse.json({ success: false, error: 'Account ID is required' }, { status: 400 });
+    }
+
+    const result = await cancelPipelineJob(jobId, accountId);
+    if ('error' in result) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({ success: true, job: result.job });
+  } catch (error) {
+    console.error('Pipeline job cancel error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to cancel job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  fetchPipelineJob,
+  INLINE_WORK_MS,
+  jobUserName,
+  resumePipelineJob,
+  runPipelineWorker,
+} from '@/lib/pipelineJobs';
+
+export const dynamic = 'force-dynamic';
+
+// POST - Resume a cancelled or failed job after its last processed row
+// Queues the job again and works on it for a while, like the enrich and sync
+// routes; whatever is left is picked up by the worker route
+// (/api/pipeline/jobs/work).
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: jobId } = await params;
+
+    const accountId = request.headers.get('x-account-id');
+    if (!accountId) {
+      return NextResponse.json({ success: false, error: 'Account ID is required' }, { status: 400 });
+    }
+
+    const result = await resumePipelineJob(
+      jobId,
+      accountId,
+      await jobUserName(request.cookies.get('auth_token')?.value)
+    );
+    if ('error' in result) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    await runPipelineWorker({ jobId: result.job.id, budgetMs: INLINE_WORK_MS });
+
+    return NextResponse.json({ success: true, job: (await fetchPipelineJob(jobId)) || result.job });
+  } catch (error) {
+    console.error('Pipeline job resume error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to resume job' },
+      { status: 500 }
+    );
+  }
+}
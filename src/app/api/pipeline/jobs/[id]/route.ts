@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchPipelineJob } from '@/lib/pipelineJobs';
+
+export const dynamic = 'force-dynamic';
+
+// GET - Status and progress of an enrichment or sync job
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: jobId } = await params;
+
+    const accountId = request.headers.get('x-account-id');
+    if (!accountId) {
+      return NextResponse.json({ success: false, error: 'Account ID is required' }, { status: 400 });
+    }
+
+    const job = await fetchPipelineJob(jobId, accountId);
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, job });
+  } catch (error) {
+    console.error('Pipeline job status error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch job' },
+      { status: 500 }
+    );
+  }
+}
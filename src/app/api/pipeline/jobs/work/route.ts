@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runPipelineWorker, WORKER_RUN_MS } from '@/lib/pipelineJobs';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/pipeline/jobs/work
+ *
+ * Runs queued enrichment and sync jobs, and resumes jobs whose worker stopped
+ * responding (their lease ran out), for up to WORKER_RUN_MS. Meant to be
+ * called every minute by a cron service (Vercel Cron, external scheduler, etc.)
+ * so jobs keep going after the request that started them has ended.
+ *
+ * Requires the CRON_SECRET header.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const cronSecret = request.headers.get('x-cron-secret');
+    const expectedSecret = process.env.CRON_SECRET;
+    if (!cronSecret || !expectedSecret || cronSecret !== expectedSecret) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const jobIds = await runPipelineWorker({ budgetMs: WORKER_RUN_MS });
+
+    return NextResponse.json({ success: true, jobsRun: jobIds.length, jobIds });
+  } catch (error) {
+    console.error('Pipeline worker error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Pipeline worker failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { getServerSupabase } from '@/lib/supabase';
+import { deleteChunks } from '@/lib/chunkedUpload';
 
 export const dynamic = 'force-dynamic';
 
@@ -48,6 +49,9 @@ export async function POST() {
         continue;
       }
 
+      // Chunks of an upload that was never finalized
+      await deleteChunks(session.id);
+
       // Mark session as expired, clear stored file content (keep metadata for audit)
       await getServerSupabase()
         .from('upload_sessions')
@@ -58,6 +62,12 @@ export async function POST() {
         })
         .eq('id', session.id);
 
+      // Past retention the import can no longer be rolled back
+      await getServerSupabase()
+        .from('sync_ledger')
+        .delete()
+        .eq('session_id', session.id);
+
       purgedCount++;
       purgedSessions.push(session.id);
       console.log(`Purged expired session ${session.id} (${session.file_name}, ${session.total_rows} rows)`);
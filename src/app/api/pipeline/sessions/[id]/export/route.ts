@@ -1,6 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSupabase } from '@/lib/supabase';
 import Papa from 'papaparse';
+import { fetchAllUploadRows } from '@/lib/pipelineValidation';
+import {
+  countRowDetails,
+  filterRowDetails,
+  formatRowDetails,
+  hasValidationDetailFilter,
+  readRowDetails,
+  readValidationDetailFilter,
+} from '@/lib/validationDetails';
 
 export const dynamic = 'force-dynamic';
 
@@ -8,8 +17,12 @@ export const dynamic = 'force-dynamic';
 // Query params:
 //   filter: 'all' | 'clean' | 'flagged'
 //     all = every row
-//     clean = rows without errors (status != 'failed')
-//     flagged = rows with errors (status = 'failed')
+//     clean = rows without errors (status not 'failed' or 'invalid')
+//     flagged = rows with errors (status 'failed' or 'invalid')
+//   kind, type, field, rule: only rows with a validation error, warning or
+//     change matching all of them (see ValidationDetailFilter)
+//   details=1: only rows with any validation error, warning or change
+// Detail-filtered and flagged exports add _errors, _warnings and _changes columns.
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -17,10 +30,13 @@ export async function GET(
   try {
     const { id: sessionId } = await params;
     const filter = request.nextUrl.searchParams.get('filter') || 'all';
+    const detailFilter = readValidationDetailFilter(request.nextUrl.searchParams);
+    const detailsOnly = hasValidationDetailFilter(detailFilter) || request.nextUrl.searchParams.get('details') === '1';
+    const withDetails = filter === 'flagged' || detailsOnly;
 
     // Get session info (scoped to account if provided)
     const accountId = request.headers.get('x-account-id');
-    let sessionQuery = supabase
+    let sessionQuery = getServerSupabase()
       .from('upload_sessions')
       .select('file_name, status, expires_at')
       .eq('id', sessionId);
@@ -35,39 +51,43 @@ export async function GET(
       );
     }
 
-    // Build row query
-    let query = supabase
-      .from('upload_rows')
-      .select('row_index, raw_data, enriched_data, status, error_message')
-      .eq('session_id', sessionId)
-      .order('row_index');
-
-    if (filter === 'clean') {
-      query = query.neq('status', 'failed');
-    } else if (filter === 'flagged') {
-      query = query.eq('status', 'failed');
-    }
-
-    const { data: rows, error: rowsError } = await query;
-
-    if (rowsError) {
+    let rows: Record<string, unknown>[];
+    try {
+      rows = await fetchAllUploadRows(
+        sessionId,
+        'row_index, raw_data, validated_data, enriched_data, status, error_message, validation_errors, validation_warnings, validation_changes'
+      );
+    } catch (err) {
+      console.error('Export row fetch error:', err);
       return NextResponse.json(
         { success: false, error: 'Failed to fetch rows' },
         { status: 500 }
       );
     }
 
-    if (!rows || rows.length === 0) {
+    // Flagged rows failed to sync or failed validation
+    if (filter === 'clean') {
+      rows = rows.filter((row) => row.status !== 'failed' && row.status !== 'invalid');
+    } else if (filter === 'flagged') {
+      rows = rows.filter((row) => row.status === 'failed' || row.status === 'invalid');
+    }
+
+    const detailedRows = rows
+      .map((row) => ({ row, details: filterRowDetails(readRowDetails(row), detailFilter) }))
+      .filter(({ details }) => !detailsOnly || countRowDetails(details) > 0);
+
+    if (detailedRows.length === 0) {
       return NextResponse.json(
         { success: false, error: 'No rows found for this filter' },
         { status: 404 }
       );
     }
 
-    // Merge raw_data + enriched_data for each row
-    const exportRows = rows.map((row) => {
-      const merged = {
+    // Merge raw_data + validated_data + enriched_data for each row
+    const exportRows = detailedRows.map(({ row, details }) => {
+      const merged: Record<string, unknown> = {
         ...(row.raw_data as Record<string, unknown>),
+        ...(row.validated_data as Record<string, unknown>),
         ...(row.enriched_data as Record<string, unknown>),
       };
 
@@ -76,6 +96,13 @@ export async function GET(
         merged['_error'] = row.error_message;
       }
 
+      if (withDetails) {
+        const formatted = formatRowDetails(details);
+        merged['_errors'] = formatted.errors;
+        merged['_warnings'] = formatted.warnings;
+        merged['_changes'] = formatted.changes;
+      }
+
       return merged;
     });
 
@@ -84,7 +111,12 @@ export async function GET(
 
     // Build filename
     const baseName = (session.file_name || 'export').replace(/\.[^/.]+$/, '');
-    const suffix = filter === 'clean' ? '_clean' : filter === 'flagged' ? '_flagged' : '';
+    const suffix = [
+      filter === 'clean' ? '_clean' : filter === 'flagged' ? '_flagged' : '',
+      ...[detailFilter.kind, detailFilter.rule, detailFilter.field, detailFilter.type]
+        .filter(Boolean)
+        .map((part) => `_${String(part).replace(/[^a-zA-Z0-9-]+/g, '-')}`),
+    ].join('');
     const fileName = `${baseName}${suffix}_export.csv`;
 
     return new NextResponse(csv, {
@@ -0,0 +1,207 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { ParsedRow, RerunComparison } from '@/types';
+import { getServerSupabase } from '@/lib/supabase';
+import { parseFileContent } from '@/lib/fileParser';
+import { isFileEncoding } from '@/lib/textEncoding';
+import {
+  describeValidation,
+  fetchAllUploadRows,
+  insertValidatedRows,
+  validatePipelineRows,
+  type PipelineValidation,
+} from '@/lib/pipelineValidation';
+import { compareRuns, readRowDetails, type ComparedRow } from '@/lib/validationDetails';
+
+export const dynamic = 'force-dynamic';
+
+// POST - Re-run a past import with the account's current rules
+// Uses the import's stored rows (or its stored file when rows have since been
+// synced or purged) with the same field mappings, question answers and rule
+// overrides. Creates a new session linked to the original via rerun_of and
+// returns how the new run compares with the original one.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: sessionId } = await params;
+
+    const accountId = request.headers.get('x-account-id');
+    if (!accountId) {
+      return NextResponse.json({ success: false, error: 'Account ID is required' }, { status: 400 });
+    }
+
+    const { data: original, error: sessionError } = await getServerSupabase()
+      .from('upload_sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .eq('account_id', accountId)
+      .single();
+
+    if (sessionError || !original) {
+      return NextResponse.json(
+        { success: false, error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    if (original.status === 'expired') {
+      return NextResponse.json(
+        { success: false, error: 'This import has expired and its data has been purged' },
+        { status: 410 }
+      );
+    }
+
+    // Prefer the stored rows: they are exactly what the original run saw. Synced
+    // rows are deleted, so once some are gone fall back to the stored file.
+    const storedRows = await fetchAllUploadRows(
+      sessionId,
+      'row_index, raw_data, validated_data, validation_errors'
+    );
+    let sourceRows: ParsedRow[];
+    let before: ComparedRow[] | null = null;
+
+    if (storedRows.length > 0 && storedRows.length >= (original.total_rows || 0)) {
+      sourceRows = storedRows.map((row) => (row.raw_data || {}) as ParsedRow);
+      before = storedRows.map((row) => ({
+        data: { ...(row.raw_data as ParsedRow), ...((row.validated_data || {}) as ParsedRow) },
+        errors: readRowDetails(row).errors,
+      }));
+    } else if (original.file_content) {
+      try {
+        const buffer = Buffer.from(original.file_content as string, 'base64');
+        const content = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+        // Read the file the way the upload did: same sheets, same charset
+        sourceRows = parseFileContent(content, original.file_name, original.file_type, {
+          sheets: original.source_sheets || undefined,
+          encoding: isFileEncoding(original.file_encoding) ? original.file_encoding : undefined,
+        }).rows;
+      } catch (err) {
+        console.error('Re-run file parse error:', err);
+        return NextResponse.json(
+          { success: false, error: 'The stored file could not be read' },
+          { status: 400 }
+        );
+      }
+    } else {
+      return NextResponse.json(
+        { success: false, error: 'Neither the rows nor the file of this import are stored, so it cannot be re-run' },
+        { status: 400 }
+      );
+    }
+
+    if (sourceRows.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'This import has no rows to re-run' },
+        { status: 400 }
+      );
+    }
+
+    const fieldMappings = (original.field_mappings || {}) as Record<string, string>;
+    const questionAnswers = (original.question_answers || {}) as Record<string, string>;
+    const ruleOverrides = (original.rule_overrides || {}) as Record<string, boolean>;
+
+    let validation: PipelineValidation;
+    try {
+      validation = await validatePipelineRows(accountId, sourceRows, fieldMappings, {
+        questionAnswers,
+        ruleOverrides,
+      });
+    } catch (err) {
+      console.error('Re-run validation error:', err);
+      return NextResponse.json(
+        { success: false, error: 'Failed to validate rows' },
+        { status: 500 }
+      );
+    }
+
+    const sessionInsert: Record<string, unknown> = {
+      account_id: accountId,
+      file_name: original.file_name,
+      status: 'validating',
+      total_rows: sourceRows.length,
+      field_mappings: fieldMappings,
+      enrichment_config_ids: original.enrichment_config_ids || [],
+      question_answers: questionAnswers,
+      rule_overrides: ruleOverrides,
+      rerun_of: sessionId,
+    };
+    if (original.user_id) sessionInsert.user_id = original.user_id;
+    if (original.file_content) sessionInsert.file_content = original.file_content;
+    if (original.file_type) sessionInsert.file_type = original.file_type;
+    if (original.file_size) sessionInsert.file_size = original.file_size;
+    if (original.source_sheets) sessionInsert.source_sheets = original.source_sheets;
+    if (original.file_encoding) sessionInsert.file_encoding = original.file_encoding;
+    if (original.object_type) sessionInsert.object_type = original.object_type;
+    if (original.object_columns) sessionInsert.object_columns = original.object_columns;
+
+    const { data: session, error: insertError } = await getServerSupabase()
+      .from('upload_sessions')
+      .insert(sessionInsert)
+      .select()
+      .single();
+
+    if (insertError || !session) {
+      console.error('Failed to create re-run session:', insertError?.message);
+      return NextResponse.json(
+        { success: false, error: 'Failed to create upload session' },
+        { status: 500 }
+      );
+    }
+
+    try {
+      await insertValidatedRows(session.id, sourceRows, validation);
+    } catch (err) {
+      console.error('Failed to insert re-run rows:', err instanceof Error ? err.message : err);
+      await getServerSupabase().from('upload_sessions').delete().eq('id', session.id);
+      return NextResponse.json(
+        { success: false, error: err instanceof Error ? err.message : 'Failed to store rows' },
+        { status: 500 }
+      );
+    }
+
+    // Row-by-row when the original rows are still stored; otherwise only the
+    // invalid row counts can be compared
+    const comparison: RerunComparison = before
+      ? compareRuns(sessionId, before, validation.rows.map((row) => ({ data: row.data, errors: row.errors })))
+      : {
+          originalSessionId: sessionId,
+          perRow: false,
+          comparedRows: 0,
+          rowsChanged: 0,
+          errorsFixed: 0,
+          newErrors: 0,
+          rowsFixed: 0,
+          rowsNewlyInvalid: 0,
+          originalInvalidRows: original.invalid_rows || 0,
+          invalidRows: validation.invalidRows,
+          differences: [],
+        };
+
+    const { status, errorMessage } = describeValidation(validation, sourceRows.length);
+    await getServerSupabase()
+      .from('upload_sessions')
+      .update({
+        status,
+        invalid_rows: validation.invalidRows,
+        enabled_rule_count: validation.ruleCount,
+        error_message: errorMessage,
+        rerun_comparison: comparison,
+      })
+      .eq('id', session.id);
+
+    return NextResponse.json({
+      success: true,
+      sessionId: session.id,
+      totalRows: sourceRows.length,
+      status,
+      comparison,
+    });
+  } catch (error) {
+    console.error('Pipeline session re-run error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to re-run import' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSupabase } from '@/lib/supabase';
+import { createBatchContext } from '@/lib/hubspotBatch';
+import {
+  buildRollbackPlan,
+  fetchSessionsWithLedger,
+  fetchSyncLedger,
+  resolvePendingCreates,
+  rollbackSyncLedger,
+} from '@/lib/syncLedger';
+
+export const dynamic = 'force-dynamic';
+
+async function getSession(sessionId: string, accountId: string | null) {
+  let sessionQuery = getServerSupabase()
+    .from('upload_sessions')
+    .select('id, account_id, status, file_name, lock_job_id, locked_by')
+    .eq('id', sessionId);
+  if (accountId) sessionQuery = sessionQuery.eq('account_id', accountId);
+
+  const { data: session } = await sessionQuery.single();
+  return session;
+}
+
+// Only pipeline syncs record their changes; an import without a ledger (saved
+// from the wizard without syncing, or synced through /api/hubspot/sync) has
+// nothing the rollback could undo
+async function noLedgerResponse(sessionId: string) {
+  if ((await fetchSessionsWithLedger([sessionId])).has(sessionId)) return null;
+  return NextResponse.json(
+    { success: false, error: 'Only imports synced through the pipeline can be rolled back; this import has no record of HubSpot changes' },
+    { status: 400 }
+  );
+}
+
+// GET - Preview what rolling back the import would undo
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: sessionId } = await params;
+    const session = await getSession(sessionId, request.headers.get('x-account-id'));
+    if (!session) {
+      return NextResponse.json({ success: false, error: 'Session not found' }, { status: 404 });
+    }
+    const noLedger = await noLedgerResponse(sessionId);
+    if (noLedger) return noLedger;
+
+    const ledger = await fetchSyncLedger(sessionId);
+    return NextResponse.json({ success: true, plan: buildRollbackPlan(ledger), entries: ledger.length });
+  } catch (error) {
+    console.error('Rollback preview error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to load rollback preview' }, { status: 500 });
+  }
+}
+
+// POST - Roll the import back, streaming progress as NDJSON
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: sessionId } = await params;
+  const session = await getSession(sessionId, request.headers.get('x-account-id'));
+  if (!session) {
+    return NextResponse.json({ success: false, error: 'Session not found' }, { status: 404 });
+  }
+  const noLedger = await noLedgerResponse(sessionId);
+  if (noLedger) return noLedger;
+  // A running job may still be creating records the rollback wouldn't see
+  if (session.lock_job_id) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `An enrichment or sync is running on this import${session.locked_by ? ` (started by ${session.locked_by})` : ''}. Cancel it or wait for it to finish before rolling back.`,
+      },
+      { status: 409 }
+    );
+  }
+  if (['syncing', 'rolling_back'].includes(session.status)) {
+    return NextResponse.json(
+      { success: false, error: `Cannot roll back session in status: ${session.status}` },
+      { status: 400 }
+    );
+  }
+
+  // Claim the session so two rollbacks can't both undo the same changes, and
+  // a job can't take the lock while the rollback runs
+  const { data: claimed } = await getServerSupabase()
+    .from('upload_sessions')
+    .update({ status: 'rolling_back', error_message: null })
+    .eq('id', sessionId)
+    .eq('status', session.status)
+    .is('lock_job_id', null)
+    .select('id');
+
+  if (!claimed || claimed.length === 0) {
+    return NextResponse.json(
+      { success: false, error: 'This import is already being rolled back or synced' },
+      { status: 409 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  const send = (controller: ReadableStreamDefaultController, message: Record<string, unknown>) =>
+    controller.enqueue(encoder.encode(JSON.stringify(message) + '\n'));
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      try {
+        const ctx = await createBatchContext(session.account_id);
+        // Companies a dead sync created without recording them
+        await resolvePendingCreates(ctx, sessionId);
+        const ledger = await fetchSyncLedger(sessionId);
+        const result = await rollbackSyncLedger(ctx, ledger, (progress) => send(controller, { type: 'progress', ...progress }));
+
+        await getServerSupabase()
+          .from('upload_sessions')
+          .update(
+            result.failed === 0
+              ? { status: 'rolled_back', error_message: null }
+              : {
+                  status: session.status,
+                  error_message: `Rollback incomplete: ${result.failed} changes could not be undone. Run the rollback again to retry them.`,
+                }
+          )
+          .eq('id', sessionId);
+
+        send(controller, { type: 'done', ...result });
+        controller.close();
+      } catch (error) {
+        console.error('Rollback error:', error);
+        const message = error instanceof Error ? error.message : 'Rollback failed';
+        await getServerSupabase()
+          .from('upload_sessions')
+          .update({ status: session.status, error_message: `Rollback failed: ${message}` })
+          .eq('id', sessionId);
+        send(controller, { type: 'error', error: message });
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson',
+      'Transfer-Encoding': 'chunked',
+    },
+  });
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSupabase } from '@/lib/supabase';
+import { deleteChunks } from '@/lib/chunkedUpload';
 
 export const dynamic = 'force-dynamic';
 
@@ -13,7 +14,7 @@ export async function GET(
 
     const accountId = request.headers.get('x-account-id');
 
-    let sessionQuery = supabase
+    let sessionQuery = getServerSupabase()
       .from('upload_sessions')
       .select('*')
       .eq('id', sessionId);
@@ -99,9 +100,16 @@ export async function DELETE(
       .from('upload_rows')
       .delete()
       .eq('session_id', sessionId);
+    // An unfinished chunked upload's chunks
+    await deleteChunks(sessionId);
+    // Its enrichment and sync jobs; a running one stops at its next heartbeat
+    await getServerSupabase()
+      .from('pipeline_jobs')
+      .delete()
+      .eq('session_id', sessionId);
 
     // Delete the session (scoped to account if provided)
-    let deleteQuery = supabase
+    let deleteQuery = getServerSupabase()
       .from('upload_sessions')
       .delete()
       .eq('id', sessionId);
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSupabase } from '@/lib/supabase';
+import { fetchAllUploadRows } from '@/lib/pipelineValidation';
+import {
+  countRowDetails,
+  filterRowDetails,
+  readRowDetails,
+  readValidationDetailFilter,
+  summarizeRowDetails,
+} from '@/lib/validationDetails';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_ROWS = 100;
+
+// GET - Validation errors, warnings and changes stored on a session's rows
+// Query params:
+//   kind, type, field, rule: only rows with an error, warning or change
+//     matching all of them (see ValidationDetailFilter)
+// Returns counts by rule, field and type for the whole import, plus the first
+// 100 matching rows with their matching details.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: sessionId } = await params;
+    const filter = readValidationDetailFilter(request.nextUrl.searchParams);
+
+    const accountId = request.headers.get('x-account-id');
+    let sessionQuery = getServerSupabase()
+      .from('upload_sessions')
+      .select('id')
+      .eq('id', sessionId);
+    if (accountId) sessionQuery = sessionQuery.eq('account_id', accountId);
+
+    const { data: session, error: sessionError } = await sessionQuery.single();
+
+    if (sessionError || !session) {
+      return NextResponse.json(
+        { success: false, error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    const rows = await fetchAllUploadRows(
+      sessionId,
+      'row_index, status, validated_data, validation_errors, validation_warnings, validation_changes'
+    );
+    const details = rows.map(readRowDetails);
+
+    const matching = rows
+      .map((row, i) => ({ row, details: filterRowDetails(details[i], filter) }))
+      .filter(({ details: matched }) => countRowDetails(matched) > 0);
+
+    return NextResponse.json({
+      success: true,
+      totalRows: rows.length,
+      summary: summarizeRowDetails(details),
+      matchingRows: matching.length,
+      rows: matching.slice(0, MAX_ROWS).map(({ row, details: matched }) => ({
+        rowIndex: row.row_index,
+        status: row.status,
+        data: row.validated_data || {},
+        ...matched,
+      })),
+    });
+  } catch (error) {
+    console.error('Pipeline session validation error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch validation details' },
+      { status: 500 }
+    );
+  }
+}
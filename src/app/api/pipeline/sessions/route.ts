@@ -1,8 +1,53 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSupabase } from '@/lib/supabase';
+import { getPortalId } from '@/lib/hubspot';
+import { buildListUrl } from '@/lib/hubspotLists';
+import { fetchLatestJobs } from '@/lib/pipelineJobs';
+import { fetchSessionsWithLedger } from '@/lib/syncLedger';
+import { isFileEncoding } from '@/lib/textEncoding';
+import type { SavedImportRow } from '@/types';
 
 export const dynamic = 'force-dynamic';
 
+const BATCH_INSERT_SIZE = 500;
+
+// Insert the rows of an import saved from the validation step; returns how many were stored
+async function saveImportRows(sessionId: string, rows: SavedImportRow[]): Promise<number> {
+  const db = getServerSupabase();
+  let saved = 0;
+
+  for (let i = 0; i < rows.length; i += BATCH_INSERT_SIZE) {
+    const batch = rows.slice(i, i + BATCH_INSERT_SIZE).map((row, idx) => {
+      const errors = Array.isArray(row.errors) ? row.errors : [];
+      return {
+        session_id: sessionId,
+        row_index: i + idx,
+        raw_data: row.rawData || {},
+        validated_data: row.data || {},
+        enriched_data: {},
+        validation_errors: errors,
+        validation_warnings: Array.isArray(row.warnings) ? row.warnings : [],
+        validation_changes: Array.isArray(row.changes) ? row.changes : [],
+        status: errors.length > 0 ? 'invalid' : 'validated',
+        error_message: errors.length > 0 ? errors[0].message : null,
+      };
+    });
+
+    const { error } = await db.from('upload_rows').insert(batch);
+    if (error) {
+      console.error(`Failed to save import rows (batch starting at ${i}):`, error.message);
+      return saved;
+    }
+    saved += batch.length;
+  }
+
+  const invalidRows = rows.filter((row) => Array.isArray(row.errors) && row.errors.length > 0).length;
+  if (invalidRows > 0) {
+    await db.from('upload_sessions').update({ invalid_rows: invalidRows }).eq('id', sessionId);
+  }
+  return saved;
+}
+
 // POST - Save a completed import session to history (server-side to bypass RLS)
 export async function POST(request: NextRequest) {
   try {
@@ -19,8 +64,12 @@ export async function POST(request: NextRequest) {
       fileContent,
       fileType,
       fileSize,
+      fileEncoding,
       userId,
       enabledRuleCount,
+      questionAnswers,
+      ruleOverrides,
+      rows,
     } = body as {
       fileName: string;
       totalRows: number;
@@ -28,8 +77,13 @@ export async function POST(request: NextRequest) {
       fileContent?: string;
       fileType?: string;
       fileSize?: number;
+      // Charset the file was encoded with, so a re-run doesn't have to guess
+      fileEncoding?: string;
       userId?: string;
       enabledRuleCount?: number;
+      questionAnswers?: Record<string, string>;
+      ruleOverrides?: Record<string, boolean>;
+      rows?: SavedImportRow[];
     };
 
     if (!fileName || !totalRows) {
@@ -53,12 +107,16 @@ export async function POST(request: NextRequest) {
       field_mappings: fieldMappings || {},
       completed_at: new Date().toISOString(),
       enabled_rule_count: enabledRuleCount ?? null,
+      // Kept so the import can be re-run with the same answers and overrides
+      question_answers: questionAnswers || {},
+      rule_overrides: ruleOverrides || {},
     };
 
     if (fileContent) {
       sessionRecord.file_content = fileContent;
       sessionRecord.file_type = fileType || 'text/csv';
       sessionRecord.file_size = fileSize || 0;
+      if (isFileEncoding(fileEncoding)) sessionRecord.file_encoding = fileEncoding;
     }
 
     // Try insert, with progressive fallbacks for column compatibility
@@ -74,6 +132,7 @@ export async function POST(request: NextRequest) {
       delete sessionRecord.file_content;
       delete sessionRecord.file_type;
       delete sessionRecord.file_size;
+      delete sessionRecord.file_encoding;
       result = await db
         .from('upload_sessions')
         .insert(sessionRecord)
@@ -103,6 +162,18 @@ export async function POST(request: NextRequest) {
         .single();
     }
 
+    // Fallback 4: retry without question answers and rule overrides (columns may not exist)
+    if (result.error && sessionRecord.question_answers !== undefined) {
+      console.warn('Insert with question answers failed, retrying without:', result.error.message);
+      delete sessionRecord.question_answers;
+      delete sessionRecord.rule_overrides;
+      result = await db
+        .from('upload_sessions')
+        .insert(sessionRecord)
+        .select('id')
+        .single();
+    }
+
     if (result.error) {
       console.error('Failed to save import history after all retries:', result.error.message);
       return NextResponse.json(
@@ -111,7 +182,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    return NextResponse.json({ success: true, sessionId: result.data?.id });
+    // Store each row with its validation details. The session is saved either
+    // way; without the rows History just can't break the import down.
+    let rowsSaved = 0;
+    if (Array.isArray(rows) && rows.length > 0 && result.data?.id) {
+      rowsSaved = await saveImportRows(result.data.id, rows);
+    }
+
+    return NextResponse.json({ success: true, sessionId: result.data?.id, rowsSaved });
   } catch (error) {
     console.error('Save session error:', error);
     return NextResponse.json(
@@ -143,8 +221,24 @@ export async function DELETE(request: NextRequest) {
         .from('upload_rows')
         .delete()
         .in('session_id', sessionIds);
+      await db
+        .from('upload_chunks')
+        .delete()
+        .in('session_id', sessionIds);
     }
 
+    // Without the sessions their imports can't be rolled back
+    await db
+      .from('sync_ledger')
+      .delete()
+      .eq('account_id', accountId);
+
+    // Running jobs stop at their next heartbeat
+    await db
+      .from('pipeline_jobs')
+      .delete()
+      .eq('account_id', accountId);
+
     // Delete all sessions
     const { error } = await db
       .from('upload_sessions')
@@ -183,7 +277,7 @@ export async function GET(request: NextRequest) {
     const db = getServerSupabase();
 
     // Try full column set first, fall back to core columns if schema differs
-    const fullColumns = 'id, file_name, status, total_rows, processed_rows, enriched_rows, synced_rows, failed_rows, error_message, retry_count, max_retries, file_size, expires_at, completed_at, created_at, updated_at, enabled_rule_count';
+    const fullColumns = 'id, file_name, status, total_rows, processed_rows, enriched_rows, synced_rows, failed_rows, error_message, retry_count, max_retries, file_size, expires_at, completed_at, created_at, updated_at, enabled_rule_count, hubspot_list_id, hubspot_list_name, invalid_rows, rerun_of, rerun_comparison, locked_by';
     const coreColumns = 'id, file_name, status, total_rows, processed_rows, synced_rows, failed_rows, error_message, retry_count, max_retries, file_size, expires_at, completed_at, created_at, updated_at';
 
     let query = db
@@ -224,6 +318,22 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    // Lists link to the portal the account is connected to
+    const hasLists = (data || []).some((s: Record<string, unknown>) => s.hubspot_list_id);
+    const portalId = hasLists ? await getPortalId(accountId) : null;
+
+    // Latest enrichment or sync job of each session, for progress, cancel and resume
+    const jobs = await fetchLatestJobs((data || []).map((s: Record<string, unknown>) => String(s.id)));
+    // Finished syncs that recorded their changes, which the History page can roll back
+    const withLedger = await fetchSessionsWithLedger(
+      (data || [])
+        .filter((s: Record<string, unknown>) => s.status === 'completed' || s.status === 'failed')
+        .map((s: Record<string, unknown>) => String(s.id))
+    ).catch((err) => {
+      console.error('Failed to check sync ledgers:', err instanceof Error ? err.message : err);
+      return new Set<string>();
+    });
+
     return NextResponse.json({
       success: true,
       sessions: (data || []).map((s: Record<string, unknown>) => ({
@@ -235,6 +345,7 @@ export async function GET(request: NextRequest) {
         enrichedRows: s.enriched_rows ?? 0,
         syncedRows: s.synced_rows ?? 0,
         failedRows: s.failed_rows ?? 0,
+        invalidRows: s.invalid_rows ?? 0,
         errorMessage: s.error_message,
         retryCount: s.retry_count,
         maxRetries: s.max_retries,
@@ -244,6 +355,14 @@ export async function GET(request: NextRequest) {
         createdAt: s.created_at,
         updatedAt: s.updated_at,
         enabledRuleCount: s.enabled_rule_count,
+        hubspotListId: s.hubspot_list_id ?? null,
+        hubspotListName: s.hubspot_list_name ?? null,
+        hubspotListUrl: s.hubspot_list_id && portalId ? buildListUrl(portalId, String(s.hubspot_list_id)) : null,
+        rerunOf: s.rerun_of ?? null,
+        rerunComparison: s.rerun_comparison ?? null,
+        lockedBy: s.locked_by ?? null,
+        job: jobs[String(s.id)] ?? null,
+        hasSyncLedger: withLedger.has(String(s.id)),
       })),
     });
   } catch (error) {
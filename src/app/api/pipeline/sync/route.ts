@@ -1,17 +1,65 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSupabase } from '@/lib/supabase';
-import { processRowForHubSpot } from '@/lib/hubspot';
+import { getValidAccessToken } from '@/lib/hubspot';
+import { createBatchContext } from '@/lib/hubspotBatch';
+import { previewSyncSession, type SyncSession } from '@/lib/pipelineTasks';
+import {
+  enqueuePipelineJob,
+  fetchPipelineJob,
+  INLINE_WORK_MS,
+  jobUserName,
+  runPipelineWorker,
+} from '@/lib/pipelineJobs';
 
 export const dynamic = 'force-dynamic';
 
-const BATCH_SIZE = 50;
+// Dry run: what syncing the session's rows would do, nothing is written
+async function previewSync(sessionId: string, accountId: string | null, taskAssigneeId: string) {
+  let sessionQuery = getServerSupabase()
+    .from('upload_sessions')
+    .select('id, account_id, field_mappings, object_type, object_columns')
+    .eq('id', sessionId);
+  if (accountId) sessionQuery = sessionQuery.eq('account_id', accountId);
+
+  const { data: session } = await sessionQuery.single();
+  if (!session) {
+    return NextResponse.json({ success: false, error: 'Session not found' }, { status: 404 });
+  }
+
+  if (!(await getValidAccessToken(session.account_id))) {
+    return NextResponse.json(
+      { success: false, error: 'HubSpot OAuth token is missing or expired. Please reconnect HubSpot in Admin > Integrations.' },
+      { status: 401 }
+    );
+  }
+
+  const ctx = await createBatchContext(session.account_id);
+  const preview = await previewSyncSession(ctx, session as SyncSession, taskAssigneeId);
+  if (!preview) {
+    return NextResponse.json(
+      { success: false, error: 'Sync preview is available for contact imports' },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json({ success: true, sessionId, dryRun: true, ...preview });
+}
 
 // POST - Push enriched rows to HubSpot, delete on success
+// Starts a sync job (see pipelineJobs) and works on it for a while. Small
+// sessions finish within the request and return the result as before; larger
+// ones answer 202 with the job, which carries on in the background — poll
+// GET /api/pipeline/jobs/{jobId} for progress. With `dryRun` nothing is
+// written: the answer previews what each row would do (contact imports only).
 export async function POST(request: NextRequest) {
   try {
-    const { sessionId, taskAssigneeId } = await request.json() as {
+    const { sessionId, taskAssigneeId = '', list, dryRun } = await request.json() as {
       sessionId: string;
-      taskAssigneeId: string;
+      // Owner of the review tasks for new companies; no tasks without one
+      taskAssigneeId?: string;
+      // Static contact list to add the synced contacts to
+      list?: unknown;
+      dryRun?: boolean;
     };
 
     if (!sessionId) {
@@ -21,189 +69,43 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!taskAssigneeId) {
-      return NextResponse.json(
-        { success: false, error: 'taskAssigneeId is required' },
-        { status: 400 }
-      );
+    if (dryRun) {
+      return await previewSync(sessionId, request.headers.get('x-account-id'), taskAssigneeId);
     }
 
-    // Fetch the session
-    const { data: session, error: sessionError } = await getServerSupabase()
-      .from('upload_sessions')
-      .select('*')
-      .eq('id', sessionId)
-      .single();
-
-    if (sessionError || !session) {
-      return NextResponse.json(
-        { success: false, error: 'Upload session not found' },
-        { status: 404 }
-      );
-    }
+    const queued = await enqueuePipelineJob({
+      sessionId,
+      accountId: request.headers.get('x-account-id'),
+      type: 'sync',
+      params: { taskAssigneeId, list: list ?? null },
+      createdBy: await jobUserName(request.cookies.get('auth_token')?.value),
+    });
 
-    if (!['enriched', 'failed'].includes(session.status)) {
+    if ('error' in queued) {
       return NextResponse.json(
-        { success: false, error: `Cannot sync session in status: ${session.status}` },
-        { status: 400 }
+        { success: false, error: queued.error },
+        { status: queued.status }
       );
     }
 
-    // Update session status
-    await getServerSupabase()
-      .from('upload_sessions')
-      .update({
-        status: 'syncing',
-        error_message: null,
-        retry_count: session.status === 'failed' ? session.retry_count + 1 : session.retry_count,
-      })
-      .eq('id', sessionId);
-
-    let totalSynced = 0;
-    let totalFailed = 0;
-    let offset = 0;
-    let hasMore = true;
-
-    while (hasMore) {
-      // Fetch rows that need syncing (enriched or previously failed)
-      const { data: rows, error: fetchError } = await getServerSupabase()
-        .from('upload_rows')
-        .select('*')
-        .eq('session_id', sessionId)
-        .in('status', ['enriched', 'failed'])
-        .order('row_index')
-        .range(offset, offset + BATCH_SIZE - 1);
+    await runPipelineWorker({ jobId: queued.job.id, budgetMs: INLINE_WORK_MS });
+    const job = (await fetchPipelineJob(queued.job.id)) || queued.job;
 
-      if (fetchError || !rows || rows.length === 0) {
-        hasMore = false;
-        break;
-      }
-
-      for (const row of rows) {
-        // Mark row as syncing
-        await getServerSupabase()
-          .from('upload_rows')
-          .update({ status: 'syncing' })
-          .eq('id', row.id);
-
-        try {
-          // Merge raw + enriched data for HubSpot
-          // Pipeline rows store data as flat objects with HubSpot field names.
-          // Pass all as contact properties; company matching uses fallback lookups.
-          const mergedData: Record<string, string> = {};
-          const rawData = row.raw_data as Record<string, unknown> || {};
-          const enrichedData = row.enriched_data as Record<string, unknown> || {};
-          for (const [key, value] of Object.entries({ ...rawData, ...enrichedData })) {
-            if (value !== null && value !== undefined && String(value).trim()) {
-              mergedData[key] = String(value).trim();
-            }
-          }
-
-          // Process the row through HubSpot (contact props, empty company props — pipeline doesn't separate)
-          const result = await processRowForHubSpot(row.row_index, mergedData, {}, taskAssigneeId);
-
-          // Mark as synced
-          await getServerSupabase()
-            .from('upload_rows')
-            .update({
-              status: 'synced',
-              hubspot_contact_id: result.contact?.email || null,
-              hubspot_company_id: result.matchedCompany?.id || null,
-              error_message: null,
-            })
-            .eq('id', row.id);
-
-          totalSynced++;
-        } catch (err) {
-          const errorMsg = err instanceof Error ? err.message : 'HubSpot sync error';
-
-          await getServerSupabase()
-            .from('upload_rows')
-            .update({
-              status: 'failed',
-              error_message: errorMsg,
-            })
-            .eq('id', row.id);
-
-          totalFailed++;
-        }
-
-        // Update session progress
-        await getServerSupabase()
-          .from('upload_sessions')
-          .update({
-            synced_rows: totalSynced,
-            failed_rows: totalFailed,
-          })
-          .eq('id', sessionId);
-
-        // Rate limiting between HubSpot API calls
-        await new Promise((resolve) => setTimeout(resolve, 200));
-      }
-
-      if (rows.length < BATCH_SIZE) {
-        hasMore = false;
-      } else {
-        offset += BATCH_SIZE;
-      }
+    if (job.status === 'completed') {
+      return NextResponse.json({ sessionId, jobId: job.id, ...job.result });
     }
 
-    // Determine final session status
-    const allSynced = totalFailed === 0;
-
-    if (allSynced) {
-      // Delete all synced rows — PII is cleared
-      await getServerSupabase()
-        .from('upload_rows')
-        .delete()
-        .eq('session_id', sessionId)
-        .eq('status', 'synced');
-
-      await getServerSupabase()
-        .from('upload_sessions')
-        .update({
-          status: 'completed',
-          synced_rows: totalSynced,
-          failed_rows: 0,
-          completed_at: new Date().toISOString(),
-        })
-        .eq('id', sessionId);
-
-      return NextResponse.json({
-        success: true,
-        sessionId,
-        status: 'completed',
-        totalSynced,
-        totalFailed: 0,
-        message: `All ${totalSynced} rows synced to HubSpot. Data has been cleared.`,
-      });
-    } else {
-      // Some rows failed — keep failed rows for retry, delete synced ones
-      await getServerSupabase()
-        .from('upload_rows')
-        .delete()
-        .eq('session_id', sessionId)
-        .eq('status', 'synced');
-
-      await getServerSupabase()
-        .from('upload_sessions')
-        .update({
-          status: 'failed',
-          synced_rows: totalSynced,
-          failed_rows: totalFailed,
-          error_message: `${totalFailed} rows failed to sync to HubSpot. ${totalSynced} rows synced successfully.`,
-        })
-        .eq('id', sessionId);
-
-      return NextResponse.json({
-        success: false,
-        sessionId,
-        status: 'failed',
-        totalSynced,
-        totalFailed,
-        message: `${totalFailed} rows failed to sync. Successfully synced rows have been cleared. Failed rows are retained for retry (expires ${session.expires_at}).`,
-      });
+    if (job.status === 'failed') {
+      return NextResponse.json(
+        { success: false, sessionId, jobId: job.id, error: job.errorMessage || 'HubSpot sync failed' },
+        { status: 500 }
+      );
     }
+
+    return NextResponse.json(
+      { success: true, sessionId, jobId: job.id, status: 'syncing', job },
+      { status: 202 }
+    );
   } catch (error) {
     console.error('Pipeline sync error:', error);
     return NextResponse.json(
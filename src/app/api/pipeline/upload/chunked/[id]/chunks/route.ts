@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSupabase } from '@/lib/supabase';
+import { chunkChecksum, MAX_CHUNK_ROWS } from '@/lib/chunkedUpload';
+
+export const dynamic = 'force-dynamic';
+
+// PUT - Store one chunk of a chunked upload
+// Body: { sequence, rows, fileContent?, checksum? }
+//   sequence: 0-based chunk number
+//   fileContent: optional slice of the base64 file, joined in sequence order
+//   checksum: optional SHA-256 of the chunk (see chunkChecksum); a mismatch
+//     means the chunk was corrupted in transit and is rejected
+// Idempotent: resending a stored chunk with the same content acknowledges it
+// again; the same sequence with different content is a conflict.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: sessionId } = await params;
+
+    const accountId = request.headers.get('x-account-id');
+    if (!accountId) {
+      return NextResponse.json({ success: false, error: 'Account ID is required' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const { sequence, rows, fileContent, checksum } = body as {
+      sequence: number;
+      rows: Record<string, unknown>[];
+      fileContent?: string;
+      checksum?: string;
+    };
+
+    if (!Number.isInteger(sequence) || sequence < 0 || !Array.isArray(rows)) {
+      return NextResponse.json(
+        { success: false, error: 'A non-negative integer sequence and a rows array are required' },
+        { status: 400 }
+      );
+    }
+    if (rows.length > MAX_CHUNK_ROWS) {
+      return NextResponse.json(
+        { success: false, error: `A chunk can hold at most ${MAX_CHUNK_ROWS} rows` },
+        { status: 413 }
+      );
+    }
+
+    const computed = chunkChecksum(rows, fileContent);
+    if (checksum && checksum.toLowerCase() !== computed) {
+      return NextResponse.json(
+        { success: false, error: `Checksum mismatch for chunk ${sequence}; resend it` },
+        { status: 422 }
+      );
+    }
+
+    const { data: session, error: sessionError } = await getServerSupabase()
+      .from('upload_sessions')
+      .select('id, status')
+      .eq('id', sessionId)
+      .eq('account_id', accountId)
+      .single();
+
+    if (sessionError || !session) {
+      return NextResponse.json(
+        { success: false, error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    if (session.status !== 'uploading') {
+      return NextResponse.json(
+        { success: false, error: 'This upload has already been finalized' },
+        { status: 409 }
+      );
+    }
+
+    const { error: insertError } = await getServerSupabase()
+      .from('upload_chunks')
+      .insert({
+        session_id: sessionId,
+        sequence,
+        row_count: rows.length,
+        rows,
+        file_content: fileContent || null,
+        checksum: computed,
+      });
+
+    if (insertError) {
+      // Already stored: a retry of a chunk that got through
+      if (insertError.code === '23505') {
+        const { data: existing } = await getServerSupabase()
+          .from('upload_chunks')
+          .select('checksum')
+          .eq('session_id', sessionId)
+          .eq('sequence', sequence)
+          .single();
+
+        if (existing?.checksum === computed) {
+          return NextResponse.json({ success: true, sequence, rowCount: rows.length, checksum: computed, duplicate: true });
+        }
+        return NextResponse.json(
+          { success: false, error: `Chunk ${sequence} was already received with different content` },
+          { status: 409 }
+        );
+      }
+
+      console.error(`Failed to store chunk ${sequence} of session ${sessionId}:`, insertError.message);
+      return NextResponse.json(
+        { success: false, error: 'Failed to store chunk' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, sequence, rowCount: rows.length, checksum: computed, duplicate: false });
+  } catch (error) {
+    console.error('Chunked upload chunk error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to store chunk' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,235 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSupabase } from '@/lib/supabase';
+import { assembleChunks, deleteChunks, fetchChunkInfo, summarizeChunks, verifyChunks } from '@/lib/chunkedUpload';
+import {
+  describeValidation,
+  insertValidatedRows,
+  validatePipelineRows,
+  type PipelineValidation,
+} from '@/lib/pipelineValidation';
+
+export const dynamic = 'force-dynamic';
+
+// A finalize still 'validating' after this long died with its process, and a
+// retry may claim the upload again. Far longer than any finalize request runs.
+const FINALIZE_CLAIM_MS = 10 * 60 * 1000;
+
+// Claim is free: never taken (sessions claimed before the column existed) or run out
+function claimExpiredFilter(): string {
+  return `finalize_claimed_at.is.null,finalize_claimed_at.lt."${new Date(Date.now() - FINALIZE_CLAIM_MS).toISOString()}"`;
+}
+
+function isClaimExpired(claimedAt: string | null): boolean {
+  return !claimedAt || Date.parse(claimedAt) < Date.now() - FINALIZE_CLAIM_MS;
+}
+
+// Put a failed finalize back so the client can fix the problem and finalize again
+async function reopenUpload(sessionId: string, errorMessage: string): Promise<void> {
+  await getServerSupabase()
+    .from('upload_rows')
+    .delete()
+    .eq('session_id', sessionId);
+  await getServerSupabase()
+    .from('upload_sessions')
+    .update({ status: 'uploading', error_message: errorMessage })
+    .eq('id', sessionId);
+}
+
+// POST - Finalize a chunked upload
+// Body: { totalRows, checksum } — the row count and upload checksum (see
+// uploadChecksum) the client sent. When the stored chunks match, the rows are
+// validated with the account's rules and stored like a single-request upload.
+// A failed finalize keeps the session and its chunks so it can be retried;
+// finalizing an upload that already finished returns its outcome again. A
+// finalize that died midway can be retried once its claim has run out.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: sessionId } = await params;
+
+    const accountId = request.headers.get('x-account-id');
+    if (!accountId) {
+      return NextResponse.json({ success: false, error: 'Account ID is required' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const { totalRows, checksum } = body as { totalRows: number; checksum: string };
+
+    if (!Number.isInteger(totalRows) || totalRows <= 0 || !checksum) {
+      return NextResponse.json(
+        { success: false, error: 'A positive totalRows and the upload checksum are required' },
+        { status: 400 }
+      );
+    }
+
+    const { data: session, error: sessionError } = await getServerSupabase()
+      .from('upload_sessions')
+      .select('id, status, total_rows, invalid_rows, error_message, field_mappings, question_answers, rule_overrides, expires_at, finalize_claimed_at')
+      .eq('id', sessionId)
+      .eq('account_id', accountId)
+      .single();
+
+    if (sessionError || !session) {
+      return NextResponse.json(
+        { success: false, error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    if (session.status === 'validating' && !isClaimExpired(session.finalize_claimed_at)) {
+      return NextResponse.json(
+        { success: false, error: 'This upload is already being finalized' },
+        { status: 409 }
+      );
+    }
+
+    // A retry after the response to a successful finalize was lost
+    if (session.status !== 'uploading' && session.status !== 'validating') {
+      return NextResponse.json({
+        success: true,
+        sessionId,
+        totalRows: session.total_rows,
+        status: session.status,
+        invalidRows: session.invalid_rows ?? 0,
+        errorMessage: session.error_message,
+        alreadyFinalized: true,
+      });
+    }
+
+    const chunks = await fetchChunkInfo(sessionId);
+    const problem = verifyChunks(chunks, totalRows, checksum);
+    if (problem) {
+      return NextResponse.json(
+        { success: false, error: problem, ...summarizeChunks(chunks) },
+        { status: 422 }
+      );
+    }
+
+    // Claim the upload so two finalize calls can't both store the rows. A
+    // dead finalize's claim is taken over once it has run out.
+    const claimedAt = new Date().toISOString();
+    let claimQuery = getServerSupabase()
+      .from('upload_sessions')
+      .update({ status: 'validating', error_message: null, finalize_claimed_at: claimedAt })
+      .eq('id', sessionId)
+      .eq('status', session.status);
+    if (session.status === 'validating') claimQuery = claimQuery.or(claimExpiredFilter());
+    const { data: claimed } = await claimQuery.select('id');
+
+    if (!claimed || claimed.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'This upload is already being finalized' },
+        { status: 409 }
+      );
+    }
+
+    // Rows the dead finalize stored before it stopped
+    if (session.status === 'validating') {
+      await getServerSupabase()
+        .from('upload_rows')
+        .delete()
+        .eq('session_id', sessionId);
+    }
+
+    let assembled: Awaited<ReturnType<typeof assembleChunks>>;
+    try {
+      assembled = await assembleChunks(sessionId, chunks.length);
+      if (assembled.rows.length !== totalRows) {
+        throw new Error(`Assembled ${assembled.rows.length} rows but expected ${totalRows}`);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to assemble chunks';
+      console.error('Chunked upload assemble error:', message);
+      await reopenUpload(sessionId, message);
+      return NextResponse.json(
+        { success: false, error: message },
+        { status: 500 }
+      );
+    }
+    const { rows, fileContent } = assembled;
+
+    let validation: PipelineValidation;
+    try {
+      validation = await validatePipelineRows(accountId, rows, session.field_mappings || {}, {
+        questionAnswers: session.question_answers || {},
+        ruleOverrides: session.rule_overrides || {},
+      });
+    } catch (err) {
+      console.error('Chunked upload validation error:', err);
+      await reopenUpload(sessionId, 'Failed to validate rows');
+      return NextResponse.json(
+        { success: false, error: 'Failed to validate rows' },
+        { status: 500 }
+      );
+    }
+
+    // Renew the claim before storing rows; if it ran out during validation and
+    // a retry took the upload over, leave the rows to that finalize
+    const { data: renewed } = await getServerSupabase()
+      .from('upload_sessions')
+      .update({ finalize_claimed_at: new Date().toISOString() })
+      .eq('id', sessionId)
+      .eq('finalize_claimed_at', claimedAt)
+      .select('id');
+
+    if (!renewed || renewed.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'This upload is already being finalized' },
+        { status: 409 }
+      );
+    }
+
+    try {
+      await insertValidatedRows(sessionId, rows, validation);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to store rows';
+      console.error('Failed to insert chunked upload rows:', message);
+      await reopenUpload(sessionId, message);
+      return NextResponse.json(
+        { success: false, error: message },
+        { status: 500 }
+      );
+    }
+
+    const { status, errorMessage } = describeValidation(validation, rows.length);
+    const sessionUpdate: Record<string, unknown> = {
+      status,
+      total_rows: rows.length,
+      invalid_rows: validation.invalidRows,
+      enabled_rule_count: validation.ruleCount,
+      error_message: errorMessage,
+    };
+    if (fileContent) sessionUpdate.file_content = fileContent;
+
+    await getServerSupabase()
+      .from('upload_sessions')
+      .update(sessionUpdate)
+      .eq('id', sessionId);
+
+    await deleteChunks(sessionId);
+
+    return NextResponse.json({
+      success: true,
+      sessionId,
+      totalRows: rows.length,
+      status,
+      validation: {
+        rulesRun: validation.ruleCount,
+        invalidRows: validation.invalidRows,
+        totalErrors: validation.totalErrors,
+        totalWarnings: validation.totalWarnings,
+        totalChanges: validation.totalChanges,
+        ruleErrors: validation.ruleErrors,
+      },
+      expiresAt: session.expires_at,
+    });
+  } catch (error) {
+    console.error('Chunked upload finalize error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to finalize upload' },
+      { status: 500 }
+    );
+  }
+}
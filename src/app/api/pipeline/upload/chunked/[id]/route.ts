@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSupabase } from '@/lib/supabase';
+import { fetchChunkInfo, summarizeChunks } from '@/lib/chunkedUpload';
+
+export const dynamic = 'force-dynamic';
+
+// GET - Progress of a chunked upload: the chunks received so far and the
+// sequence to resume from after a dropped connection
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: sessionId } = await params;
+
+    const accountId = request.headers.get('x-account-id');
+    if (!accountId) {
+      return NextResponse.json({ success: false, error: 'Account ID is required' }, { status: 400 });
+    }
+
+    const { data: session, error: sessionError } = await getServerSupabase()
+      .from('upload_sessions')
+      .select('id, status, total_rows, error_message, expires_at')
+      .eq('id', sessionId)
+      .eq('account_id', accountId)
+      .single();
+
+    if (sessionError || !session) {
+      return NextResponse.json(
+        { success: false, error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    // Once finalized the chunks are gone; report the stored rows instead
+    if (session.status !== 'uploading') {
+      return NextResponse.json({
+        success: true,
+        sessionId,
+        status: session.status,
+        finalized: session.status !== 'validating',
+        totalRows: session.total_rows,
+        errorMessage: session.error_message,
+      });
+    }
+
+    const progress = summarizeChunks(await fetchChunkInfo(sessionId));
+
+    return NextResponse.json({
+      success: true,
+      sessionId,
+      status: session.status,
+      finalized: false,
+      ...progress,
+      // Set when an earlier finalize failed; the upload can still be finalized again
+      errorMessage: session.error_message,
+      expiresAt: session.expires_at,
+    });
+  } catch (error) {
+    console.error('Chunked upload status error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch upload progress' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSupabase } from '@/lib/supabase';
+import { ENCODING_OPTIONS, isFileEncoding } from '@/lib/textEncoding';
+import { MAX_CHUNK_ROWS } from '@/lib/chunkedUpload';
+import { isHubSpotObjectType, readMultiObjectColumns, type MultiObjectColumn } from '@/lib/multiObject';
+import type { HubSpotObjectType } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+// POST - Start a chunked upload
+// For files too large to send to /api/pipeline/upload in one request:
+//   1. POST here with the upload's metadata (no rows) → sessionId
+//   2. PUT /api/pipeline/upload/chunked/{sessionId}/chunks for each chunk of
+//      rows, numbered from 0; a chunk can be retried safely
+//   3. POST /api/pipeline/upload/chunked/{sessionId}/finalize with the total
+//      row count and checksum to validate and store the rows
+// After a dropped connection, GET /api/pipeline/upload/chunked/{sessionId}
+// returns the chunks received so far and the sequence to resume from.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const {
+      fileName,
+      fieldMappings,
+      enrichmentConfigIds,
+      fileType,
+      fileSize,
+      questionAnswers,
+      ruleOverrides,
+      sourceSheets,
+      fileEncoding,
+      objectType,
+      objectColumns,
+    } = body as {
+      fileName: string;
+      fieldMappings: Record<string, string>;
+      enrichmentConfigIds?: string[];
+      fileType?: string;
+      fileSize?: number;
+      questionAnswers?: Record<string, string>;
+      ruleOverrides?: Record<string, boolean>;
+      // How the file was read (workbook sheets chosen, text charset override),
+      // so a re-run from the stored file gets the same rows
+      sourceSheets?: string[];
+      fileEncoding?: string;
+      // Record type of the rows (default contacts) and the record type and
+      // HubSpot property of each mapped column, which the sync splits rows by
+      objectType?: HubSpotObjectType;
+      objectColumns?: MultiObjectColumn[];
+    };
+
+    const accountId = request.headers.get('x-account-id');
+    if (!accountId) {
+      return NextResponse.json({ success: false, error: 'Account ID is required' }, { status: 400 });
+    }
+
+    if (!fileName) {
+      return NextResponse.json(
+        { success: false, error: 'fileName is required' },
+        { status: 400 }
+      );
+    }
+
+    if (sourceSheets !== undefined && (!Array.isArray(sourceSheets) || sourceSheets.some((name) => typeof name !== 'string'))) {
+      return NextResponse.json(
+        { success: false, error: 'sourceSheets must be a list of sheet names' },
+        { status: 400 }
+      );
+    }
+    if (fileEncoding !== undefined && !isFileEncoding(fileEncoding)) {
+      return NextResponse.json(
+        { success: false, error: `fileEncoding must be one of: ${ENCODING_OPTIONS.map((o) => o.value).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const columns = objectColumns === undefined ? [] : readMultiObjectColumns(objectColumns);
+    if ((objectType !== undefined && !isHubSpotObjectType(objectType)) || !columns) {
+      return NextResponse.json(
+        { success: false, error: 'objectType must be contacts, companies or deals, and objectColumns a list of { header, objectType, property }' },
+        { status: 400 }
+      );
+    }
+
+    const sessionInsert: Record<string, unknown> = {
+      account_id: accountId,
+      file_name: fileName,
+      status: 'uploading',
+      total_rows: 0,
+      field_mappings: fieldMappings || {},
+      enrichment_config_ids: enrichmentConfigIds || [],
+      question_answers: questionAnswers || {},
+      rule_overrides: ruleOverrides || {},
+    };
+    if (fileType) sessionInsert.file_type = fileType;
+    if (fileSize) sessionInsert.file_size = fileSize;
+    if (sourceSheets?.length) sessionInsert.source_sheets = sourceSheets;
+    if (fileEncoding) sessionInsert.file_encoding = fileEncoding;
+    if (objectType) sessionInsert.object_type = objectType;
+    if (columns.length > 0) sessionInsert.object_columns = columns;
+
+    const { data: session, error: sessionError } = await getServerSupabase()
+      .from('upload_sessions')
+      .insert(sessionInsert)
+      .select()
+      .single();
+
+    if (sessionError || !session) {
+      console.error('Failed to create chunked upload session:', sessionError?.message);
+      return NextResponse.json(
+        { success: false, error: 'Failed to create upload session' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      sessionId: session.id,
+      maxChunkRows: MAX_CHUNK_ROWS,
+      expiresAt: session.expires_at,
+    });
+  } catch (error) {
+    console.error('Chunked upload start error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to start upload' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
+import type { HubSpotObjectType, ParsedRow } from '@/types';
 import { getServerSupabase } from '@/lib/supabase';
+import { ENCODING_OPTIONS, isFileEncoding } from '@/lib/textEncoding';
+import { isHubSpotObjectType, readMultiObjectColumns, type MultiObjectColumn } from '@/lib/multiObject';
+import {
+  describeValidation,
+  insertValidatedRows,
+  validatePipelineRows,
+  type PipelineValidation,
+} from '@/lib/pipelineValidation';
 
 export const dynamic = 'force-dynamic';
 
-const BATCH_INSERT_SIZE = 500;
-
-// POST - Create upload session and store rows in DB
+// POST - Create upload session, run the account's rules on the rows and store them in DB
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
@@ -17,6 +24,12 @@ export async function POST(request: NextRequest) {
       fileContent,
       fileType,
       fileSize,
+      questionAnswers,
+      ruleOverrides,
+      sourceSheets,
+      fileEncoding,
+      objectType,
+      objectColumns,
     } = body as {
       fileName: string;
       rows: Record<string, unknown>[];
@@ -25,6 +38,16 @@ export async function POST(request: NextRequest) {
       fileContent?: string;
       fileType?: string;
       fileSize?: number;
+      questionAnswers?: Record<string, string>;
+      ruleOverrides?: Record<string, boolean>;
+      // How the file was read (workbook sheets chosen, text charset override),
+      // so a re-run from the stored file gets the same rows
+      sourceSheets?: string[];
+      fileEncoding?: string;
+      // Record type of the rows (default contacts) and the record type and
+      // HubSpot property of each mapped column, which the sync splits rows by
+      objectType?: HubSpotObjectType;
+      objectColumns?: MultiObjectColumn[];
     };
 
     const accountId = request.headers.get('x-account-id');
@@ -39,18 +62,45 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (sourceSheets !== undefined && (!Array.isArray(sourceSheets) || sourceSheets.some((name) => typeof name !== 'string'))) {
+      return NextResponse.json(
+        { success: false, error: 'sourceSheets must be a list of sheet names' },
+        { status: 400 }
+      );
+    }
+    if (fileEncoding !== undefined && !isFileEncoding(fileEncoding)) {
+      return NextResponse.json(
+        { success: false, error: `fileEncoding must be one of: ${ENCODING_OPTIONS.map((o) => o.value).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const columns = objectColumns === undefined ? [] : readMultiObjectColumns(objectColumns);
+    if ((objectType !== undefined && !isHubSpotObjectType(objectType)) || !columns) {
+      return NextResponse.json(
+        { success: false, error: 'objectType must be contacts, companies or deals, and objectColumns a list of { header, objectType, property }' },
+        { status: 400 }
+      );
+    }
+
     // Create the upload session
     const sessionInsert: Record<string, unknown> = {
       account_id: accountId,
       file_name: fileName,
-      status: 'uploaded',
+      status: 'validating',
       total_rows: rows.length,
       field_mappings: fieldMappings || {},
       enrichment_config_ids: enrichmentConfigIds || [],
+      question_answers: questionAnswers || {},
+      rule_overrides: ruleOverrides || {},
     };
     if (fileContent) sessionInsert.file_content = fileContent;
     if (fileType) sessionInsert.file_type = fileType;
     if (fileSize) sessionInsert.file_size = fileSize;
+    if (sourceSheets?.length) sessionInsert.source_sheets = sourceSheets;
+    if (fileEncoding) sessionInsert.file_encoding = fileEncoding;
+    if (objectType) sessionInsert.object_type = objectType;
+    if (columns.length > 0) sessionInsert.object_columns = columns;
 
     const { data: session, error: sessionError } = await getServerSupabase()
       .from('upload_sessions')
@@ -66,39 +116,60 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Insert rows in batches
-    let insertedCount = 0;
-    for (let i = 0; i < rows.length; i += BATCH_INSERT_SIZE) {
-      const batch = rows.slice(i, i + BATCH_INSERT_SIZE).map((row, idx) => ({
-        session_id: session.id,
-        row_index: i + idx,
-        raw_data: row,
-        enriched_data: {},
-        status: 'pending',
-      }));
-
-      const { error: rowError } = await getServerSupabase()
-        .from('upload_rows')
-        .insert(batch);
-
-      if (rowError) {
-        console.error(`Failed to insert row batch starting at ${i}:`, rowError.message);
-        // Clean up the session on failure
-        await getServerSupabase().from('upload_sessions').delete().eq('id', session.id);
-        return NextResponse.json(
-          { success: false, error: `Failed to store rows (batch starting at row ${i})` },
-          { status: 500 }
-        );
-      }
+    // Run the account's enabled rules server-side, so rows that skipped the
+    // wizard's validation step still get them
+    let validation: PipelineValidation;
+    try {
+      validation = await validatePipelineRows(accountId, rows as ParsedRow[], fieldMappings || {}, {
+        questionAnswers,
+        ruleOverrides,
+      });
+    } catch (err) {
+      console.error('Pipeline validation error:', err);
+      await getServerSupabase().from('upload_sessions').delete().eq('id', session.id);
+      return NextResponse.json(
+        { success: false, error: 'Failed to validate rows' },
+        { status: 500 }
+      );
+    }
 
-      insertedCount += batch.length;
+    // Store the rows; rows with validation errors are kept but never enriched or synced
+    try {
+      await insertValidatedRows(session.id, rows, validation);
+    } catch (err) {
+      console.error('Failed to insert rows:', err instanceof Error ? err.message : err);
+      // Clean up the session on failure
+      await getServerSupabase().from('upload_sessions').delete().eq('id', session.id);
+      return NextResponse.json(
+        { success: false, error: err instanceof Error ? err.message : 'Failed to store rows' },
+        { status: 500 }
+      );
     }
 
+    const { status, errorMessage } = describeValidation(validation, rows.length);
+    await getServerSupabase()
+      .from('upload_sessions')
+      .update({
+        status,
+        invalid_rows: validation.invalidRows,
+        enabled_rule_count: validation.ruleCount,
+        error_message: errorMessage,
+      })
+      .eq('id', session.id);
+
     return NextResponse.json({
       success: true,
       sessionId: session.id,
-      totalRows: insertedCount,
-      status: 'uploaded',
+      totalRows: rows.length,
+      status,
+      validation: {
+        rulesRun: validation.ruleCount,
+        invalidRows: validation.invalidRows,
+        totalErrors: validation.totalErrors,
+        totalWarnings: validation.totalWarnings,
+        totalChanges: validation.totalChanges,
+        ruleErrors: validation.ruleErrors,
+      },
       expiresAt: session.expires_at,
     });
   } catch (error) {
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSupabase } from '@/lib/supabase';
+
+export const dynamic = 'force-dynamic';
+
+const POLICIES = ['overwrite', 'fill_empty', 'create_only', 'append'];
+const OBJECT_TYPES = ['contacts', 'companies', 'deals'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const accountId = request.nextUrl.searchParams.get('accountId');
+    if (!accountId) {
+      return NextResponse.json({ error: 'Account ID required' }, { status: 400 });
+    }
+
+    const db = getServerSupabase();
+    const { data, error } = await db
+      .from('hubspot_property_policies')
+      .select('object_type, property_name, policy')
+      .eq('account_id', accountId);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    return NextResponse.json({ data: data || [] });
+  } catch (err) {
+    console.error('Error fetching property policies:', err);
+    return NextResponse.json({ error: 'Failed to fetch property policies' }, { status: 500 });
+  }
+}
+
+// Set a property's policy — 'overwrite' is the default, so it removes the row
+export async function PUT(request: NextRequest) {
+  try {
+    const { accountId, objectType, propertyName, policy } = await request.json();
+    if (!accountId || !propertyName) {
+      return NextResponse.json({ error: 'Account ID and property name required' }, { status: 400 });
+    }
+    if (!OBJECT_TYPES.includes(objectType) || !POLICIES.includes(policy)) {
+      return NextResponse.json({ error: 'Invalid object type or policy' }, { status: 400 });
+    }
+
+    const db = getServerSupabase();
+    const { error } = policy === 'overwrite'
+      ? await db
+          .from('hubspot_property_policies')
+          .delete()
+          .eq('account_id', accountId)
+          .eq('object_type', objectType)
+          .eq('property_name', propertyName)
+      : await db
+          .from('hubspot_property_policies')
+          .upsert(
+            { account_id: accountId, object_type: objectType, property_name: propertyName, policy },
+            { onConflict: 'account_id,object_type,property_name' }
+          );
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error('Error saving property policy:', err);
+    return NextResponse.json({ error: 'Failed to save property policy' }, { status: 500 });
+  }
+}
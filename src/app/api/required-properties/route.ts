@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSupabase } from '@/lib/supabase';
+import { fetchRequiredProperties } from '@/lib/requiredProperties';
+
+export const dynamic = 'force-dynamic';
+
+// GET - The account's required properties, as "objectType:field" keys
+export async function GET(request: NextRequest) {
+  try {
+    const accountId = request.nextUrl.searchParams.get('accountId');
+    if (!accountId) {
+      return NextResponse.json({ error: 'Account ID required' }, { status: 400 });
+    }
+
+    return NextResponse.json({ data: await fetchRequiredProperties(accountId) });
+  } catch (err) {
+    console.error('Error fetching required properties:', err);
+    return NextResponse.json({ error: 'Failed to fetch required properties' }, { status: 500 });
+  }
+}
+
+// PUT - Replace the account's required properties
+export async function PUT(request: NextRequest) {
+  try {
+    const { accountId, properties } = await request.json();
+    if (!accountId) {
+      return NextResponse.json({ error: 'Account ID required' }, { status: 400 });
+    }
+    if (!Array.isArray(properties) || properties.some((p) => typeof p !== 'string')) {
+      return NextResponse.json({ error: 'properties must be a list of "objectType:field" keys' }, { status: 400 });
+    }
+
+    const { error } = await getServerSupabase()
+      .from('account_required_properties')
+      .upsert(
+        { account_id: accountId, properties },
+        { onConflict: 'account_id' }
+      );
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    return NextResponse.json({ success: true, data: properties });
+  } catch (err) {
+    console.error('Error saving required properties:', err);
+    return NextResponse.json({ error: 'Failed to save required properties' }, { status: 500 });
+  }
+}
@@ -19,6 +19,8 @@ const RULE_FILES: Record<string, string> = {
   'date-normalization': 'date-normalization.ts',
   'name-capitalization': 'name-capitalization.ts',
   'company-normalization': 'company-normalization.ts',
+  'owner-resolution': 'owner-resolution.ts',
+  'hubspot-property-validation': 'hubspot-property-validation.ts',
   'duplicate-detection': 'duplicate-detection.ts',
 };
 
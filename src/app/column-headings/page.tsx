@@ -11,6 +11,14 @@ import {
   getColumnHeadings,
   type ColumnHeading,
 } from '@/lib/client/columnHeadings';
+import {
+  fetchPropertyPolicies,
+  savePropertyPolicy,
+  policyKey,
+  PROPERTY_POLICY_OPTIONS,
+  type PropertyPolicyMap,
+} from '@/lib/client/propertyPolicies';
+import type { HubSpotObjectType, PropertyOverwritePolicy } from '@/types';
 
 type SortKey = 'name' | 'hubspotObjectType' | 'source' | 'createdAt';
 type SortDirection = 'asc' | 'desc';
@@ -27,6 +35,7 @@ export default function ColumnHeadingsPage() {
   const [hubspotConnected, setHubspotConnected] = useState(false);
   const [sortKey, setSortKey] = useState<SortKey>('name');
   const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
+  const [policies, setPolicies] = useState<PropertyPolicyMap>({});
 
   const canEditHeadings = isAdmin || userCanEdit('column_headings');
   const accountId = user?.accountId || '';
@@ -74,6 +83,29 @@ export default function ColumnHeadingsPage() {
     loadHeadings();
   }, [loadHeadings]);
 
+  // Overwrite policies of the HubSpot properties behind the headings
+  useEffect(() => {
+    if (!accountId) return;
+    fetchPropertyPolicies(accountId).then(setPolicies);
+  }, [accountId]);
+
+  const handlePolicyChange = async (heading: ColumnHeading, policy: PropertyOverwritePolicy) => {
+    if (!heading.hubspotObjectType || !heading.hubspotFieldName) return;
+    const key = policyKey(heading.hubspotObjectType, heading.hubspotFieldName);
+    const previous = policies[key];
+    setPolicies((p) => ({ ...p, [key]: policy }));
+    const saved = await savePropertyPolicy(
+      accountId,
+      heading.hubspotObjectType as HubSpotObjectType,
+      heading.hubspotFieldName,
+      policy
+    );
+    if (!saved) {
+      setPolicies((p) => ({ ...p, [key]: previous || 'overwrite' }));
+      setSyncMessage({ type: 'error', text: `Failed to save the update policy for ${heading.name}.` });
+    }
+  };
+
   const handleAdd = async () => {
     const trimmed = newName.trim();
     if (!trimmed) return;
@@ -295,7 +327,7 @@ export default function ColumnHeadingsPage() {
               No output headings added yet. Add your first one above.
             </div>
           ) : (
-            <table className="w-full min-w-[600px]">
+            <table className="w-full min-w-[760px]">
               <thead className="bg-gray-50 border-b border-gray-200">
                 <tr>
                   {([
@@ -321,6 +353,12 @@ export default function ColumnHeadingsPage() {
                       </span>
                     </th>
                   ))}
+                  <th
+                    className="text-left px-4 py-3 text-sm font-medium text-gray-600"
+                    title="What a HubSpot sync does with a value that's already in HubSpot"
+                  >
+                    On Update
+                  </th>
                   <th className="text-right px-4 py-3 text-sm font-medium text-gray-600">Actions</th>
                 </tr>
               </thead>
@@ -368,6 +406,22 @@ export default function ColumnHeadingsPage() {
                       <td className="px-4 py-3 text-sm text-gray-500">
                         {new Date(heading.createdAt).toLocaleDateString()}
                       </td>
+                      <td className="px-4 py-3 text-sm">
+                        {heading.hubspotObjectType && heading.hubspotFieldName && accountId ? (
+                          <select
+                            value={policies[policyKey(heading.hubspotObjectType, heading.hubspotFieldName)] || 'overwrite'}
+                            onChange={(e) => handlePolicyChange(heading, e.target.value as PropertyOverwritePolicy)}
+                            disabled={!canEditHeadings}
+                            className="px-2 py-1 border border-gray-300 rounded text-sm disabled:bg-gray-50"
+                          >
+                            {PROPERTY_POLICY_OPTIONS.map((option) => (
+                              <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                          </select>
+                        ) : (
+                          <span className="text-gray-300">—</span>
+                        )}
+                      </td>
                       <td className="px-4 py-3 text-right">
                         {canEditHeadings && (
                           <>
@@ -914,6 +914,37 @@ export class NameCapitalizationScript implements IValidationScript {
       </div>
     ),
   },
+  {
+    id: 'no-code-rules',
+    title: 'No-Code Rules',
+    content: (
+      <div className="space-y-3">
+        <p>
+          You don&apos;t need to write code to add a rule. On the <strong>New Rule</strong> page, choose
+          <strong> No-code builder</strong> and describe the rule as conditions and actions:
+        </p>
+        <ul className="list-disc pl-6 space-y-1">
+          <li>
+            <strong>Conditions</strong> &mdash; a field <em>matches a pattern</em>, <em>is in a list</em>, <em>is empty</em>,
+            or has a <em>length between</em> two numbers. Each condition can be negated with &ldquo;not&rdquo;.
+            Choose whether <strong>all</strong> or <strong>any</strong> of them must match; with no conditions, the rule runs on every row.
+          </li>
+          <li>
+            <strong>Actions</strong> &mdash; <em>set value</em>, <em>trim whitespace</em> (from the start and end of the value), <em>map via table</em> (e.g. &ldquo;Prof&rdquo; &rarr; &ldquo;Instructor&rdquo;),
+            <em> raise error</em>, or <em>raise warning</em>. Only transform rules can change values.
+          </li>
+        </ul>
+        <p>
+          Patterns are tested in the same sandbox as custom rule code: a pattern that takes longer than 5 seconds
+          across the file stops the rule with a <code className="bg-gray-100 px-1 rounded text-sm">script_timeout</code> error.
+        </p>
+        <p>
+          Leave the field blank to use the rule&apos;s first target field. Error and warning messages can include
+          <code className="bg-gray-100 px-1 rounded text-sm">{'{value}'}</code> and <code className="bg-gray-100 px-1 rounded text-sm">{'{field}'}</code>.
+        </p>
+      </div>
+    ),
+  },
   {
     id: 'writing-rules',
     title: 'Writing Custom Rules',
@@ -1066,6 +1097,26 @@ const header = findColumnHeader('state', headerMatches, rows);`}</CodeBlock>
           <li>The next script in the chain receives the same rows the failed script received &mdash; no data is lost.</li>
           <li>All other scripts run to completion regardless of individual failures.</li>
         </ul>
+        <p>
+          Custom rules (source code saved on a rule) get an extra layer of isolation: each one runs in its own
+          sandboxed JavaScript engine with a read-only copy of the rows.
+        </p>
+        <ul className="list-disc pl-6 space-y-1">
+          <li>A rule that runs longer than 5 seconds is stopped and reported as <code className="bg-gray-100 px-1 rounded text-sm">script_timeout</code>.</li>
+          <li>
+            The sandbox only has the standard JavaScript built-ins. Network, storage and module APIs
+            (<code className="bg-gray-100 px-1 rounded text-sm">fetch</code>, <code className="bg-gray-100 px-1 rounded text-sm">require</code>,{' '}
+            <code className="bg-gray-100 px-1 rounded text-sm">import()</code>, &hellip;) don&apos;t exist there, so using them fails the rule.
+          </li>
+          <li>
+            Returning a malformed result or using more than 128&nbsp;MB of memory is reported as{' '}
+            <code className="bg-gray-100 px-1 rounded text-sm">script_sandbox_violation</code>.
+          </li>
+          <li>
+            <code className="bg-gray-100 px-1 rounded text-sm">context</code> is frozen &mdash; build new row objects
+            (<code className="bg-gray-100 px-1 rounded text-sm">{'{ ...row }'}</code>) instead of editing rows in place.
+          </li>
+        </ul>
         <div className="bg-green-50 border border-green-200 rounded-lg p-4 mt-3">
           <p className="text-sm">
             <strong>Bottom line:</strong> A broken rule will never prevent your import from completing.
@@ -1104,6 +1155,11 @@ const header = findColumnHeader('state', headerMatches, rows);`}</CodeBlock>
             They cannot access other users&apos; data, modify application state, or affect other scripts beyond
             the row data they return.
           </li>
+          <li>
+            <strong>Custom rule code is sandboxed.</strong> Source code saved on a custom rule runs in its own JavaScript
+            engine with a time limit, a memory limit, and nothing but the standard built-ins &mdash; no network, storage or
+            modules. It only sees a frozen copy of the row data it is given.
+          </li>
           <li>
             <strong>Configuration only.</strong> The Rules UI lets you toggle rules on/off, change target fields,
             and assign object types. It does not allow injecting or modifying the actual script logic.
@@ -3,6 +3,9 @@
 import { useState, useEffect } from 'react';
 import { AdminLayout } from '@/components/admin/AdminLayout';
 import { useAuth } from '@/contexts/AuthContext';
+import { ValidationDetailsModal } from '@/components/history/ValidationDetailsModal';
+import { RerunModal } from '@/components/history/RerunModal';
+import type { PipelineJob, PipelineJobStatus, RerunComparison, RollbackPlan } from '@/types';
 
 interface ImportSession {
   id: string;
@@ -12,11 +15,33 @@ interface ImportSession {
   enrichedRows: number;
   syncedRows: number;
   failedRows: number;
+  // Rows that failed the account rules on upload
+  invalidRows: number;
   hasFile: boolean;
   fileSize: number | null;
   expiresAt: string;
   createdAt: string;
   errorMessage: string | null;
+  // Static HubSpot list the synced contacts were added to
+  hubspotListName: string | null;
+  hubspotListUrl: string | null;
+  // Set on re-runs: the import they were re-run from and how they compared
+  rerunOf: string | null;
+  rerunComparison: RerunComparison | null;
+  // Latest enrichment or sync job, and who holds the session's lock
+  job: PipelineJob | null;
+  lockedBy: string | null;
+  // A pipeline sync recorded its HubSpot changes, so the import can be rolled back
+  hasSyncLedger: boolean;
+}
+
+interface RollbackState {
+  session: ImportSession;
+  plan: RollbackPlan | null;
+  isRunning: boolean;
+  progress: { step: string; completed: number; total: number } | null;
+  result: { undone: number; failed: number; errors: string[] } | null;
+  error: string | null;
 }
 
 function statusBadge(status: string) {
@@ -26,16 +51,35 @@ function statusBadge(status: string) {
     enriching: 'bg-primary-100 text-primary-700',
     enriched: 'bg-primary-100 text-primary-700',
     uploaded: 'bg-gray-100 text-gray-600',
+    uploading: 'bg-gray-100 text-gray-600',
+    validating: 'bg-primary-100 text-primary-700',
+    validated: 'bg-primary-100 text-primary-700',
+    invalid: 'bg-amber-100 text-amber-700',
     failed: 'bg-red-100 text-red-700',
     expired: 'bg-yellow-100 text-yellow-700',
+    rolling_back: 'bg-orange-100 text-orange-700',
+    rolled_back: 'bg-orange-100 text-orange-700',
   };
+  const label = status.replace('_', ' ');
   return (
     <span className={`px-2 py-0.5 text-xs font-medium rounded ${styles[status] || 'bg-gray-100 text-gray-600'}`}>
-      {status.charAt(0).toUpperCase() + status.slice(1)}
+      {label.charAt(0).toUpperCase() + label.slice(1)}
     </span>
   );
 }
 
+const ACTIVE_JOB_STATUSES: PipelineJobStatus[] = ['queued', 'running', 'cancelling'];
+
+// How often running jobs are polled for progress
+const JOB_POLL_MS = 3000;
+
+function jobLabel(job: PipelineJob): string {
+  const running = job.type === 'sync' ? 'Syncing' : 'Enriching';
+  if (job.status === 'queued') return `${running} (queued)`;
+  if (job.status === 'cancelling') return 'Cancelling...';
+  return running;
+}
+
 function formatFileSize(bytes: number | null): string {
   if (!bytes) return '-';
   if (bytes < 1024) return `${bytes} B`;
@@ -61,6 +105,11 @@ export default function ImportHistoryPage() {
   const [downloadingId, setDownloadingId] = useState<string | null>(null);
   const [exportingId, setExportingId] = useState<string | null>(null);
   const [filter, setFilter] = useState<string>('all');
+  const [rollback, setRollback] = useState<RollbackState | null>(null);
+  const [detailsSession, setDetailsSession] = useState<ImportSession | null>(null);
+  const [rerunSession, setRerunSession] = useState<ImportSession | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [jobActionId, setJobActionId] = useState<string | null>(null);
 
   useEffect(() => {
     const fetchHistory = async () => {
@@ -83,11 +132,19 @@ export default function ImportHistoryPage() {
               enrichedRows: s.enrichedRows as number,
               syncedRows: s.syncedRows as number,
               failedRows: s.failedRows as number,
+              invalidRows: (s.invalidRows as number) ?? 0,
               hasFile: !!(s.fileSize),
               fileSize: (s.fileSize as number | null) ?? null,
               expiresAt: s.expiresAt as string,
               createdAt: s.createdAt as string,
               errorMessage: s.errorMessage as string | null,
+              hubspotListName: (s.hubspotListName as string | null) ?? null,
+              hubspotListUrl: (s.hubspotListUrl as string | null) ?? null,
+              rerunOf: (s.rerunOf as string | null) ?? null,
+              rerunComparison: (s.rerunComparison as RerunComparison | null) ?? null,
+              job: (s.job as PipelineJob | null) ?? null,
+              lockedBy: (s.lockedBy as string | null) ?? null,
+              hasSyncLedger: !!s.hasSyncLedger,
             }))
           );
         }
@@ -99,7 +156,44 @@ export default function ImportHistoryPage() {
     };
 
     fetchHistory();
-  }, [filter, user?.accountId]);
+  }, [filter, user?.accountId, reloadKey]);
+
+  // Poll running enrichment and sync jobs; reload the list once one has finished
+  const activeJobIds = sessions
+    .filter((s) => s.job && ACTIVE_JOB_STATUSES.includes(s.job.status))
+    .map((s) => s.job!.id)
+    .join(',');
+
+  useEffect(() => {
+    if (!activeJobIds || !user?.accountId) return;
+    const accountId = user.accountId;
+
+    const timer = setInterval(async () => {
+      const responses = await Promise.all(
+        activeJobIds.split(',').map(async (jobId) => {
+          try {
+            const response = await fetch(`/api/pipeline/jobs/${jobId}`, { headers: { 'x-account-id': accountId } });
+            return response.ok ? ((await response.json()).job as PipelineJob) : null;
+          } catch {
+            return null;
+          }
+        })
+      );
+      const jobs = responses.filter((job): job is PipelineJob => !!job);
+
+      setSessions((prev) =>
+        prev.map((s) => {
+          const job = jobs.find((j) => j.sessionId === s.id);
+          return job ? { ...s, job } : s;
+        })
+      );
+      if (jobs.some((job) => !ACTIVE_JOB_STATUSES.includes(job.status))) {
+        setReloadKey((key) => key + 1);
+      }
+    }, JOB_POLL_MS);
+
+    return () => clearInterval(timer);
+  }, [activeJobIds, user?.accountId]);
 
   const handleDownload = async (session: ImportSession) => {
     setDownloadingId(session.id);
@@ -157,6 +251,97 @@ export default function ImportHistoryPage() {
     }
   };
 
+  const handleRollbackPreview = async (session: ImportSession) => {
+    setRollback({ session, plan: null, isRunning: false, progress: null, result: null, error: null });
+    try {
+      const response = await fetch(`/api/pipeline/sessions/${session.id}/rollback`, {
+        headers: { 'x-account-id': user?.accountId || '' },
+      });
+      const json = await response.json();
+      if (!response.ok) throw new Error(json.error || 'Failed to load rollback preview');
+      setRollback((prev) => prev && { ...prev, plan: json.plan });
+    } catch (err) {
+      setRollback((prev) => prev && { ...prev, error: err instanceof Error ? err.message : 'Failed to load rollback preview' });
+    }
+  };
+
+  const handleRollback = async () => {
+    if (!rollback) return;
+    const { session } = rollback;
+    setRollback({ ...rollback, isRunning: true, error: null });
+    try {
+      const response = await fetch(`/api/pipeline/sessions/${session.id}/rollback`, {
+        method: 'POST',
+        headers: { 'x-account-id': user?.accountId || '' },
+      });
+      if (!response.ok) {
+        const json = await response.json();
+        throw new Error(json.error || 'Rollback failed');
+      }
+
+      const reader = response.body?.getReader();
+      const decoder = new TextDecoder();
+      if (reader) {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+
+          const lines = decoder.decode(value).split('\n').filter((line) => line.trim());
+          for (const line of lines) {
+            try {
+              const data = JSON.parse(line);
+              if (data.type === 'progress') {
+                setRollback((prev) => prev && { ...prev, progress: data });
+              } else if (data.type === 'done') {
+                setRollback((prev) => prev && { ...prev, result: data });
+                if (data.failed === 0) {
+                  setSessions((prev) =>
+                    prev.map((s) => (s.id === session.id ? { ...s, status: 'rolled_back', errorMessage: null } : s))
+                  );
+                }
+              } else if (data.type === 'error') {
+                setRollback((prev) => prev && { ...prev, error: data.error });
+              }
+            } catch {
+              // Skip invalid JSON
+            }
+          }
+        }
+      }
+    } catch (err) {
+      setRollback((prev) => prev && { ...prev, error: err instanceof Error ? err.message : 'Rollback failed' });
+    } finally {
+      setRollback((prev) => prev && { ...prev, isRunning: false });
+    }
+  };
+
+  const handleJobAction = async (session: ImportSession, action: 'cancel' | 'resume') => {
+    if (!session.job) return;
+    const jobId = session.job.id;
+    setJobActionId(jobId);
+    // A resume keeps working on the job before it answers; poll in the meantime
+    if (action === 'resume') {
+      setSessions((prev) =>
+        prev.map((s) => (s.id === session.id && s.job ? { ...s, job: { ...s.job, status: 'queued' } } : s))
+      );
+    }
+    try {
+      const response = await fetch(`/api/pipeline/jobs/${jobId}/${action}`, {
+        method: 'POST',
+        headers: { 'x-account-id': user?.accountId || '' },
+      });
+      const json = await response.json();
+      if (!response.ok || !json.success) throw new Error(json.error || `Failed to ${action} job`);
+      setSessions((prev) => prev.map((s) => (s.id === session.id ? { ...s, job: json.job } : s)));
+      if (!ACTIVE_JOB_STATUSES.includes(json.job.status)) setReloadKey((key) => key + 1);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : `Failed to ${action} job`);
+      setReloadKey((key) => key + 1);
+    } finally {
+      setJobActionId(null);
+    }
+  };
+
   const handleClearHistory = async () => {
     if (!confirm('Are you sure you want to clear all import history? This cannot be undone.')) return;
     try {
@@ -178,6 +363,7 @@ export default function ImportHistoryPage() {
     { value: 'all', label: 'All' },
     { value: 'completed', label: 'Completed' },
     { value: 'failed', label: 'Failed' },
+    { value: 'rolled_back', label: 'Rolled back' },
     { value: 'expired', label: 'Expired' },
   ];
 
@@ -243,12 +429,35 @@ export default function ImportHistoryPage() {
                 {sessions.map((session) => {
                   const expiry = daysUntilExpiry(session.expiresAt);
                   const isExpired = session.status === 'expired' || expiry.days <= 0;
+                  const rerunOf = session.rerunOf ? sessions.find((s) => s.id === session.rerunOf) : undefined;
+                  const isJobActive = !!session.job && ACTIVE_JOB_STATUSES.includes(session.job.status);
+                  const canResumeJob =
+                    !!session.job && (session.job.status === 'cancelled' || session.job.status === 'failed') && !isExpired;
+                  const canRollBack =
+                    session.hasSyncLedger && !isJobActive && !['expired', 'rolling_back', 'rolled_back'].includes(session.status);
 
                   return (
                     <tr key={session.id} className="hover:bg-gray-50">
                       <td className="px-5 py-3">
                         <div className="text-sm font-medium text-gray-900">{session.fileName}</div>
-                        {session.errorMessage && session.status === 'failed' && (
+                        {session.rerunOf && (
+                          <div className="text-xs text-gray-500 mt-0.5">
+                            Re-run of{' '}
+                            {rerunOf ? `the import of ${new Date(rerunOf.createdAt).toLocaleDateString()}` : 'an earlier import'}
+                            {session.rerunComparison && (
+                              <>
+                                {' · '}
+                                <button
+                                  onClick={() => setRerunSession(session)}
+                                  className="text-primary-600 hover:text-primary-700 hover:underline"
+                                >
+                                  Compare
+                                </button>
+                              </>
+                            )}
+                          </div>
+                        )}
+                        {session.errorMessage && session.status !== 'expired' && (
                           <p className="text-xs text-red-500 mt-0.5 truncate max-w-xs" title={session.errorMessage}>
                             {session.errorMessage}
                           </p>
@@ -260,9 +469,45 @@ export default function ImportHistoryPage() {
                         {session.syncedRows > 0 && (
                           <div className="text-xs text-green-600">{session.syncedRows} synced</div>
                         )}
+                        {session.hubspotListName && (
+                          <div className="text-xs">
+                            {session.hubspotListUrl ? (
+                              <a
+                                href={session.hubspotListUrl}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-primary-600 hover:text-primary-700 hover:underline"
+                              >
+                                List: {session.hubspotListName}
+                              </a>
+                            ) : (
+                              <span className="text-gray-500">List: {session.hubspotListName}</span>
+                            )}
+                          </div>
+                        )}
                         {session.failedRows > 0 && (
                           <div className="text-xs text-red-600">{session.failedRows} failed</div>
                         )}
+                        {session.invalidRows > 0 && (
+                          <div className="text-xs text-amber-600">{session.invalidRows} invalid</div>
+                        )}
+                        {isJobActive && session.job && (
+                          <div className="mt-1 w-36">
+                            <div className="flex justify-between text-xs text-gray-500">
+                              <span>{jobLabel(session.job)}</span>
+                              <span>{session.job.processedRows.toLocaleString()} / {session.job.totalRows.toLocaleString()}</span>
+                            </div>
+                            <div className="w-full bg-gray-200 rounded-full h-1.5">
+                              <div
+                                className="bg-primary-600 h-1.5 rounded-full transition-all"
+                                style={{ width: `${session.job.totalRows ? Math.min(100, (session.job.processedRows / session.job.totalRows) * 100) : 0}%` }}
+                              />
+                            </div>
+                            {session.lockedBy && (
+                              <div className="text-xs text-gray-400 mt-0.5">Started by {session.lockedBy}</div>
+                            )}
+                          </div>
+                        )}
                       </td>
                       <td className="px-5 py-3 text-sm text-gray-500">
                         {formatFileSize(session.fileSize)}
@@ -305,7 +550,7 @@ export default function ImportHistoryPage() {
                               >
                                 Clean
                               </button>
-                              {session.failedRows > 0 && (
+                              {(session.failedRows > 0 || session.invalidRows > 0) && (
                                 <button
                                   onClick={() => handleExport(session, 'flagged')}
                                   disabled={exportingId === `${session.id}-flagged`}
@@ -316,6 +561,17 @@ export default function ImportHistoryPage() {
                               )}
                             </div>
                           )}
+                          {session.totalRows > 0 && !isExpired && (
+                            <button
+                              onClick={() => setDetailsSession(session)}
+                              className="inline-flex items-center gap-1 px-2.5 py-1 text-xs text-gray-500 hover:text-gray-700 transition-colors"
+                            >
+                              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+                              </svg>
+                              Validation details
+                            </button>
+                          )}
                           {/* Original file download */}
                           {session.hasFile && !isExpired && (
                             <button
@@ -333,6 +589,53 @@ export default function ImportHistoryPage() {
                               Original file
                             </button>
                           )}
+                          {(session.hasFile || session.totalRows > 0) && !isExpired && (
+                            <button
+                              onClick={() => setRerunSession({ ...session, rerunComparison: null })}
+                              className="inline-flex items-center gap-1 px-2.5 py-1 text-xs text-gray-500 hover:text-gray-700 transition-colors"
+                            >
+                              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                              </svg>
+                              Re-run with current rules
+                            </button>
+                          )}
+                          {isJobActive && session.job?.status !== 'cancelling' && (
+                            <button
+                              onClick={() => handleJobAction(session, 'cancel')}
+                              disabled={jobActionId === session.job?.id}
+                              className="inline-flex items-center gap-1 px-2.5 py-1 text-xs text-red-600 hover:text-red-700 transition-colors disabled:opacity-50"
+                            >
+                              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                              </svg>
+                              Cancel {session.job?.type === 'sync' ? 'sync' : 'enrichment'}
+                            </button>
+                          )}
+                          {canResumeJob && (
+                            <button
+                              onClick={() => handleJobAction(session, 'resume')}
+                              disabled={jobActionId === session.job?.id}
+                              className="inline-flex items-center gap-1 px-2.5 py-1 text-xs text-primary-600 hover:text-primary-700 transition-colors disabled:opacity-50"
+                              title={session.job?.errorMessage || undefined}
+                            >
+                              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" />
+                              </svg>
+                              Resume {session.job?.type === 'sync' ? 'sync' : 'enrichment'} from row {((session.job?.lastRowIndex ?? -1) + 2).toLocaleString()}
+                            </button>
+                          )}
+                          {canRollBack && (
+                            <button
+                              onClick={() => handleRollbackPreview(session)}
+                              className="inline-flex items-center gap-1 px-2.5 py-1 text-xs text-orange-600 hover:text-orange-700 transition-colors"
+                            >
+                              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+                              </svg>
+                              Roll back this import
+                            </button>
+                          )}
                           {isExpired && <span className="text-xs text-gray-400">Expired</span>}
                         </div>
                       </td>
@@ -344,6 +647,125 @@ export default function ImportHistoryPage() {
           </div>
         )}
 
+        {/* Rollback Modal */}
+        {rollback && (
+          <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-xl shadow-xl max-w-lg w-full max-h-full overflow-y-auto">
+              <div className="p-6 space-y-4">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900">Roll back this import</h3>
+                  <p className="text-sm text-gray-500 mt-1">{rollback.session.fileName}</p>
+                </div>
+
+                {rollback.error && (
+                  <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded-lg text-sm">
+                    {rollback.error}
+                  </div>
+                )}
+
+                {!rollback.plan && !rollback.error && (
+                  <div className="text-center py-6 text-gray-500 text-sm">
+                    <div className="animate-spin w-5 h-5 border-2 border-primary-500 border-t-transparent rounded-full mx-auto mb-2" />
+                    Loading changes...
+                  </div>
+                )}
+
+                {rollback.plan && !rollback.result && (
+                  <>
+                    <p className="text-sm text-gray-600">This will undo the changes the import made in HubSpot:</p>
+                    <ul className="text-sm text-gray-700 space-y-1">
+                      <li>Delete {rollback.plan.contactsToDelete.toLocaleString()} created contacts</li>
+                      <li>Delete {rollback.plan.companiesToDelete.toLocaleString()} created companies</li>
+                      <li>Delete {rollback.plan.dealsToDelete.toLocaleString()} created deals</li>
+                      <li>Delete {rollback.plan.tasksToDelete.toLocaleString()} review tasks</li>
+                      <li>Restore previous values on {rollback.plan.recordsToRestore.toLocaleString()} updated records</li>
+                      <li>Remove {rollback.plan.associationsToRemove.toLocaleString()} contact–company associations</li>
+                    </ul>
+                    {rollback.plan.alreadyRolledBack > 0 && (
+                      <p className="text-xs text-gray-500">
+                        {rollback.plan.alreadyRolledBack.toLocaleString()} changes were already undone by an earlier rollback.
+                      </p>
+                    )}
+                    <p className="text-xs text-gray-500">
+                      Changes made to these records in HubSpot after the import will be lost.
+                    </p>
+                  </>
+                )}
+
+                {rollback.progress && !rollback.result && (
+                  <div>
+                    <div className="flex justify-between text-xs text-gray-500 mb-1">
+                      <span>{rollback.progress.step}</span>
+                      <span>{rollback.progress.completed} / {rollback.progress.total}</span>
+                    </div>
+                    <div className="w-full bg-gray-200 rounded-full h-2">
+                      <div
+                        className="bg-primary-600 h-2 rounded-full transition-all"
+                        style={{ width: `${rollback.progress.total ? (rollback.progress.completed / rollback.progress.total) * 100 : 0}%` }}
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {rollback.result && (
+                  <div className="text-sm space-y-2">
+                    <p className={rollback.result.failed > 0 ? 'text-red-700' : 'text-green-700'}>
+                      {rollback.result.undone.toLocaleString()} changes undone
+                      {rollback.result.failed > 0 && `, ${rollback.result.failed.toLocaleString()} failed — run the rollback again to retry them`}
+                    </p>
+                    {rollback.result.errors.length > 0 && (
+                      <ul className="text-xs text-red-600 space-y-0.5">
+                        {rollback.result.errors.slice(0, 5).map((error, i) => (
+                          <li key={i}>{error}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+
+                <div className="flex justify-end gap-3 pt-2">
+                  <button
+                    onClick={() => setRollback(null)}
+                    disabled={rollback.isRunning}
+                    className="px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    {rollback.result ? 'Close' : 'Cancel'}
+                  </button>
+                  {rollback.plan && !rollback.result && (
+                    <button
+                      onClick={handleRollback}
+                      disabled={rollback.isRunning}
+                      className="px-4 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      {rollback.isRunning ? 'Rolling back...' : 'Roll back'}
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {detailsSession && (
+          <ValidationDetailsModal
+            sessionId={detailsSession.id}
+            fileName={detailsSession.fileName}
+            accountId={user?.accountId || ''}
+            onClose={() => setDetailsSession(null)}
+          />
+        )}
+
+        {rerunSession && (
+          <RerunModal
+            sessionId={rerunSession.rerunComparison ? rerunSession.rerunComparison.originalSessionId : rerunSession.id}
+            fileName={rerunSession.fileName}
+            accountId={user?.accountId || ''}
+            comparison={rerunSession.rerunComparison}
+            onClose={() => setRerunSession(null)}
+            onRerun={() => setReloadKey((key) => key + 1)}
+          />
+        )}
+
         {/* Retention info */}
         <div className="bg-primary-50 border border-primary-200 rounded-lg p-4">
           <div className="flex gap-3">
@@ -11,6 +11,7 @@ import { ColumnMapper } from '@/components/upload/ColumnMapper';
 import { ImportQuestionsStep } from '@/components/upload/ImportQuestionsStep';
 import { RulesStep } from '@/components/upload/RulesStep';
 import { ValidationResults } from '@/components/validation/ValidationResults';
+import { HubSpotSync } from '@/components/hubspot/HubSpotSync';
 
 // Maps step name → component
 const STEP_COMPONENTS: Record<string, React.FC<{ onCancel?: () => void }>> = {
@@ -19,6 +20,7 @@ const STEP_COMPONENTS: Record<string, React.FC<{ onCancel?: () => void }>> = {
   Rules: RulesStep,
   'Map Columns': ColumnMapper,
   Finish: ValidationResults,
+  'HubSpot Sync': HubSpotSync,
 };
 
 export default function ImportPage() {
@@ -42,7 +44,7 @@ export default function ImportPage() {
     const dynamicSteps = ['Upload'];
     if (hasQuestions) dynamicSteps.push('Questions');
     if (hasRules) dynamicSteps.push('Rules');
-    dynamicSteps.push('Map Columns', 'Finish');
+    dynamicSteps.push('Map Columns', 'Finish', 'HubSpot Sync');
 
     setSteps(dynamicSteps);
     setIsReady(true);
@@ -10,6 +10,19 @@ import {
   updateRuleConfig,
   type AccountRule,
 } from '@/lib/client/accountRules';
+import { RuleBuilder, EMPTY_RULE_DEFINITION } from '@/components/rules/RuleBuilder';
+import {
+  PicklistConfigEditor,
+  isPicklistRule,
+  getPicklistConfig,
+  type PicklistConfigValue,
+} from '@/components/rules/PicklistConfigEditor';
+import { PhoneConfigEditor, isPhoneRule, getPhoneConfig } from '@/components/rules/PhoneConfigEditor';
+import type { PhoneNormalizationConfig } from '@/lib/scripts/phone-normalization';
+import { OwnerAssignmentEditor, isOwnerRule, getOwnerConfig } from '@/components/rules/OwnerAssignmentEditor';
+import type { HubSpotOwner, OwnerResolutionConfig } from '@/lib/scripts/owner-resolution';
+import { fetchHubSpotOwners } from '@/lib/client/hubspotOwners';
+import { getDeclarativeDefinition, type DeclarativeRuleDefinition } from '@/lib/scripts/declarative-rule';
 import type { HubSpotObjectType } from '@/types';
 
 const OBJECT_TYPES: { value: HubSpotObjectType; label: string }[] = [
@@ -37,6 +50,12 @@ export default function EditRulePage() {
   const [editDescription, setEditDescription] = useState('');
   const [editTargetFields, setEditTargetFields] = useState('');
   const [editObjectTypes, setEditObjectTypes] = useState<HubSpotObjectType[]>([]);
+  const [logicMode, setLogicMode] = useState<'builder' | 'code'>('code');
+  const [definition, setDefinition] = useState<DeclarativeRuleDefinition>(EMPTY_RULE_DEFINITION);
+  const [picklist, setPicklist] = useState<PicklistConfigValue | null>(null);
+  const [phoneConfig, setPhoneConfig] = useState<PhoneNormalizationConfig | null>(null);
+  const [ownerConfig, setOwnerConfig] = useState<OwnerResolutionConfig | null>(null);
+  const [hubspotOwners, setHubspotOwners] = useState<HubSpotOwner[]>([]);
   const [editCode, setEditCode] = useState('');
   const [loadingCode, setLoadingCode] = useState(false);
   const [copiedCode, setCopiedCode] = useState(false);
@@ -56,6 +75,16 @@ export default function EditRulePage() {
       setEditTargetFields(found.targetFields.join(', '));
       setEditObjectTypes(getObjectTypes(found));
 
+      const declarative = getDeclarativeDefinition(found.config);
+      setLogicMode(declarative ? 'builder' : 'code');
+      setDefinition(declarative || EMPTY_RULE_DEFINITION);
+      setPicklist(isPicklistRule(found.ruleId) ? getPicklistConfig(found.ruleId, found.config) : null);
+      setPhoneConfig(isPhoneRule(found.ruleId) ? getPhoneConfig(found.config) : null);
+      setOwnerConfig(isOwnerRule(found.ruleId) ? getOwnerConfig(found.config) : null);
+      if (isOwnerRule(found.ruleId)) {
+        fetchHubSpotOwners(accountId).then(setHubspotOwners);
+      }
+
       // Load source code — prefer DB, fall back to file-based API
       setLoadingCode(true);
       if (found.sourceCode) {
@@ -116,6 +145,12 @@ export default function EditRulePage() {
 
   const handleSave = async () => {
     if (!rule) return;
+
+    if (logicMode === 'builder' && definition.actions.length === 0) {
+      alert('Add at least one action to the rule');
+      return;
+    }
+
     setIsSaving(true);
 
     const targetFields = editTargetFields
@@ -123,17 +158,45 @@ export default function EditRulePage() {
       .map((f) => f.trim())
       .filter(Boolean);
 
-    const updatedConfig = {
+    const updatedConfig: Record<string, unknown> = {
       ...rule.config,
       objectTypes: editObjectTypes,
     };
 
+    if (picklist) {
+      updatedConfig.validValues = picklist.validValues;
+      updatedConfig.fallbackValue = picklist.fallbackValue;
+      updatedConfig.synonyms = picklist.synonyms;
+    }
+
+    if (phoneConfig) {
+      updatedConfig.defaultCountry = phoneConfig.defaultCountry;
+      updatedConfig.displayFormat = phoneConfig.displayFormat;
+      updatedConfig.countryField = phoneConfig.countryField.trim() || 'country';
+    }
+
+    if (ownerConfig) {
+      updatedConfig.assignment = ownerConfig.assignment;
+      updatedConfig.roundRobinOwners = ownerConfig.roundRobinOwners;
+      updatedConfig.territories = ownerConfig.territories;
+      updatedConfig.defaultOwner = ownerConfig.defaultOwner;
+      updatedConfig.stateField = ownerConfig.stateField.trim() || 'state';
+      updatedConfig.fuzzyThreshold = ownerConfig.fuzzyThreshold;
+    }
+
+    // A rule is either no-code or source code — never both
+    if (logicMode === 'builder') {
+      updatedConfig.declarative = definition;
+    } else {
+      delete updatedConfig.declarative;
+    }
+
     const success = await updateRuleConfig(accountId, rule.ruleId, {
       name: editName.trim() || rule.name,
       description: editDescription.trim() || null,
       targetFields,
       config: updatedConfig,
-      sourceCode: editCode || null,
+      sourceCode: logicMode === 'code' ? editCode || null : null,
     });
 
     setIsSaving(false);
@@ -260,65 +323,113 @@ export default function EditRulePage() {
             <p className="text-xs text-gray-400 mt-1">Select which object types this rule applies to.</p>
           </div>
 
-          {/* Source Code */}
-          <div>
-            <div className="flex items-center justify-between mb-1">
-              <label className="block text-sm font-medium text-gray-700">Source Code</label>
-              {!loadingCode && editCode && (
-                <button
-                  type="button"
-                  onClick={handleCopyCode}
-                  className="flex items-center gap-1.5 px-2 py-1 text-xs text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded transition-colors"
-                  title="Copy code"
-                >
-                  {copiedCode ? (
-                    <>
-                      <svg className="w-3.5 h-3.5 text-green-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                      </svg>
-                      Copied
-                    </>
-                  ) : (
-                    <>
-                      <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                      </svg>
-                      Copy
-                    </>
-                  )}
-                </button>
-              )}
+          {/* Allowed Values (picklist rules) */}
+          {picklist && (
+            <PicklistConfigEditor value={picklist} onChange={setPicklist} />
+          )}
+
+          {/* Country & format (phone rule) */}
+          {phoneConfig && (
+            <PhoneConfigEditor value={phoneConfig} onChange={setPhoneConfig} />
+          )}
+
+          {/* Owner assignment (owner rule) */}
+          {ownerConfig && (
+            <OwnerAssignmentEditor value={ownerConfig} owners={hubspotOwners} onChange={setOwnerConfig} />
+          )}
+
+          {/* Rule Logic */}
+          <div className="flex items-center justify-between">
+            <label className="block text-sm font-medium text-gray-700">Rule Logic</label>
+            <div className="flex rounded-lg border border-gray-300 overflow-hidden text-xs">
+              <button
+                type="button"
+                onClick={() => setLogicMode('builder')}
+                className={`px-3 py-1.5 ${logicMode === 'builder' ? 'bg-primary-500 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+              >
+                No-code builder
+              </button>
+              <button
+                type="button"
+                onClick={() => setLogicMode('code')}
+                className={`px-3 py-1.5 ${logicMode === 'code' ? 'bg-primary-500 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+              >
+                Source code
+              </button>
             </div>
-            {loadingCode ? (
-              <div className="flex items-center gap-2 py-4 text-sm text-gray-500">
-                <div className="animate-spin w-4 h-4 border-2 border-primary-500 border-t-transparent rounded-full" />
-                Loading source code...
-              </div>
-            ) : (
-              <div className="border border-gray-300 rounded-lg overflow-hidden bg-gray-900">
-                <div className="flex" style={{ height: '320px' }}>
-                  <div
-                    ref={lineNumbersRef}
-                    className="select-none overflow-hidden shrink-0 py-3 pl-3 pr-2 text-right text-sm font-mono text-gray-600 bg-gray-950 border-r border-gray-700"
-                    style={{ lineHeight: '1.5rem' }}
+          </div>
+
+          {logicMode === 'builder' && (
+            <RuleBuilder
+              value={definition}
+              onChange={setDefinition}
+              ruleType={rule.ruleType}
+              defaultField={editTargetFields.split(',')[0]?.trim() || undefined}
+            />
+          )}
+
+          {/* Source Code */}
+          {logicMode === 'code' && (
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <label className="block text-sm font-medium text-gray-700">Source Code</label>
+                {!loadingCode && editCode && (
+                  <button
+                    type="button"
+                    onClick={handleCopyCode}
+                    className="flex items-center gap-1.5 px-2 py-1 text-xs text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded transition-colors"
+                    title="Copy code"
                   >
-                    {editCode.split('\n').map((_, i) => (
-                      <div key={i}>{i + 1}</div>
-                    ))}
+                    {copiedCode ? (
+                      <>
+                        <svg className="w-3.5 h-3.5 text-green-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                        </svg>
+                        Copied
+                      </>
+                    ) : (
+                      <>
+                        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                        </svg>
+                        Copy
+                      </>
+                    )}
+                  </button>
+                )}
+              </div>
+              {loadingCode ? (
+                <div className="flex items-center gap-2 py-4 text-sm text-gray-500">
+                  <div className="animate-spin w-4 h-4 border-2 border-primary-500 border-t-transparent rounded-full" />
+                  Loading source code...
+                </div>
+              ) : (
+                <div className="border border-gray-300 rounded-lg overflow-hidden bg-gray-900">
+                  <div className="flex" style={{ height: '320px' }}>
+                    <div
+                      ref={lineNumbersRef}
+                      className="select-none overflow-hidden shrink-0 py-3 pl-3 pr-2 text-right text-sm font-mono text-gray-600 bg-gray-950 border-r border-gray-700"
+                      style={{ lineHeight: '1.5rem' }}
+                    >
+                      {editCode.split('\n').map((_, i) => (
+                        <div key={i}>{i + 1}</div>
+                      ))}
+                    </div>
+                    <textarea
+                      ref={editTextareaRef}
+                      value={editCode}
+                      onChange={(e) => setEditCode(e.target.value)}
+                      onScroll={handleCodeScroll}
+                      spellCheck={false}
+                      className="flex-1 px-3 py-3 text-sm font-mono bg-gray-900 text-green-400 outline-none resize-none"
+                      style={{ lineHeight: '1.5rem' }}
+                    />
                   </div>
-                  <textarea
-                    ref={editTextareaRef}
-                    value={editCode}
-                    onChange={(e) => setEditCode(e.target.value)}
-                    onScroll={handleCodeScroll}
-                    spellCheck={false}
-                    className="flex-1 px-3 py-3 text-sm font-mono bg-gray-900 text-green-400 outline-none resize-none"
-                    style={{ lineHeight: '1.5rem' }}
-                  />
                 </div>
-              </div>
-            )}
-          </div>
+              )}
+              <p className="text-xs text-gray-400 mt-1">Runs in a sandbox: read-only <code>context</code>, no network access, stopped after 5 seconds.</p>
+            </div>
+          )}
         </div>
 
       </div>
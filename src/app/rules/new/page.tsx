@@ -6,6 +6,8 @@ import Link from 'next/link';
 import { AdminLayout } from '@/components/admin/AdminLayout';
 import { useAuth } from '@/contexts/AuthContext';
 import { createAccountRule } from '@/lib/client/accountRules';
+import { RuleBuilder, EMPTY_RULE_DEFINITION } from '@/components/rules/RuleBuilder';
+import type { DeclarativeRuleDefinition } from '@/lib/scripts/declarative-rule';
 import type { HubSpotObjectType } from '@/types';
 
 const OBJECT_TYPES: { value: HubSpotObjectType; label: string }[] = [
@@ -18,6 +20,8 @@ export default function NewRulePage() {
   const router = useRouter();
   const { user } = useAuth();
   const [isSaving, setIsSaving] = useState(false);
+  const [logicMode, setLogicMode] = useState<'builder' | 'code'>('builder');
+  const [definition, setDefinition] = useState<DeclarativeRuleDefinition>(EMPTY_RULE_DEFINITION);
   const [editCode, setEditCode] = useState('');
   const [copiedCode, setCopiedCode] = useState(false);
   const editTextareaRef = useRef<HTMLTextAreaElement>(null);
@@ -41,6 +45,11 @@ export default function NewRulePage() {
       return;
     }
 
+    if (logicMode === 'builder' && definition.actions.length === 0) {
+      alert('Add at least one action to the rule');
+      return;
+    }
+
     setIsSaving(true);
 
     try {
@@ -50,10 +59,12 @@ export default function NewRulePage() {
         description: formData.description.trim() || undefined,
         ruleType: formData.ruleType,
         targetFields: formData.targetFields.split(',').map((f) => f.trim()).filter(Boolean),
-        config: { objectTypes: formData.objectTypes },
+        config: logicMode === 'builder'
+          ? { objectTypes: formData.objectTypes, declarative: definition }
+          : { objectTypes: formData.objectTypes },
         displayOrder: formData.displayOrder,
         enabled: true,
-        sourceCode: editCode.trim() || undefined,
+        sourceCode: logicMode === 'code' ? editCode.trim() || undefined : undefined,
       });
 
       if (created) {
@@ -233,59 +244,92 @@ export default function NewRulePage() {
             <p className="text-xs text-gray-400 mt-1">Select which object types this rule applies to.</p>
           </div>
 
-          {/* Source Code */}
-          <div>
-            <div className="flex items-center justify-between mb-1">
-              <label className="block text-sm font-medium text-gray-700">Source Code</label>
-              {editCode && (
-                <button
-                  type="button"
-                  onClick={handleCopyCode}
-                  className="flex items-center gap-1.5 px-2 py-1 text-xs text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded transition-colors"
-                  title="Copy code"
-                >
-                  {copiedCode ? (
-                    <>
-                      <svg className="w-3.5 h-3.5 text-green-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                      </svg>
-                      Copied
-                    </>
-                  ) : (
-                    <>
-                      <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                      </svg>
-                      Copy
-                    </>
-                  )}
-                </button>
-              )}
+          {/* Rule Logic */}
+          <div className="flex items-center justify-between">
+            <label className="block text-sm font-medium text-gray-700">Rule Logic</label>
+            <div className="flex rounded-lg border border-gray-300 overflow-hidden text-xs">
+              <button
+                type="button"
+                onClick={() => setLogicMode('builder')}
+                className={`px-3 py-1.5 ${logicMode === 'builder' ? 'bg-primary-500 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+              >
+                No-code builder
+              </button>
+              <button
+                type="button"
+                onClick={() => setLogicMode('code')}
+                className={`px-3 py-1.5 ${logicMode === 'code' ? 'bg-primary-500 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+              >
+                Source code
+              </button>
             </div>
-            <div className="border border-gray-300 rounded-lg overflow-hidden bg-gray-900">
-              <div className="flex" style={{ height: '320px' }}>
-                <div
-                  ref={lineNumbersRef}
-                  className="select-none overflow-hidden shrink-0 py-3 pl-3 pr-2 text-right text-sm font-mono text-gray-600 bg-gray-950 border-r border-gray-700"
-                  style={{ lineHeight: '1.5rem' }}
-                >
-                  {(editCode || '\n').split('\n').map((_, i) => (
-                    <div key={i}>{i + 1}</div>
-                  ))}
+          </div>
+
+          {logicMode === 'builder' && (
+            <RuleBuilder
+              value={definition}
+              onChange={setDefinition}
+              ruleType={formData.ruleType}
+              defaultField={formData.targetFields.split(',')[0]?.trim() || undefined}
+            />
+          )}
+
+          {/* Source Code */}
+          {logicMode === 'code' && (
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <label className="block text-sm font-medium text-gray-700">Source Code</label>
+                {editCode && (
+                  <button
+                    type="button"
+                    onClick={handleCopyCode}
+                    className="flex items-center gap-1.5 px-2 py-1 text-xs text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded transition-colors"
+                    title="Copy code"
+                  >
+                    {copiedCode ? (
+                      <>
+                        <svg className="w-3.5 h-3.5 text-green-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                        </svg>
+                        Copied
+                      </>
+                    ) : (
+                      <>
+                        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                        </svg>
+                        Copy
+                      </>
+                    )}
+                  </button>
+                )}
+              </div>
+              <div className="border border-gray-300 rounded-lg overflow-hidden bg-gray-900">
+                <div className="flex" style={{ height: '320px' }}>
+                  <div
+                    ref={lineNumbersRef}
+                    className="select-none overflow-hidden shrink-0 py-3 pl-3 pr-2 text-right text-sm font-mono text-gray-600 bg-gray-950 border-r border-gray-700"
+                    style={{ lineHeight: '1.5rem' }}
+                  >
+                    {(editCode || '\n').split('\n').map((_, i) => (
+                      <div key={i}>{i + 1}</div>
+                    ))}
+                  </div>
+                  <textarea
+                    ref={editTextareaRef}
+                    value={editCode}
+                    onChange={(e) => setEditCode(e.target.value)}
+                    onScroll={handleCodeScroll}
+                    spellCheck={false}
+                    placeholder="// Write your rule code here..."
+                    className="flex-1 px-3 py-3 text-sm font-mono bg-gray-900 text-green-400 outline-none resize-none placeholder-gray-600"
+                    style={{ lineHeight: '1.5rem' }}
+                  />
                 </div>
-                <textarea
-                  ref={editTextareaRef}
-                  value={editCode}
-                  onChange={(e) => setEditCode(e.target.value)}
-                  onScroll={handleCodeScroll}
-                  spellCheck={false}
-                  placeholder="// Write your rule code here..."
-                  className="flex-1 px-3 py-3 text-sm font-mono bg-gray-900 text-green-400 outline-none resize-none placeholder-gray-600"
-                  style={{ lineHeight: '1.5rem' }}
-                />
               </div>
+              <p className="text-xs text-gray-400 mt-1">Runs in a sandbox: read-only <code>context</code>, no network access, stopped after 5 seconds.</p>
             </div>
-          </div>
+          )}
         </div>
       </div>
     </AdminLayout>
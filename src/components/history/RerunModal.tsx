@@ -0,0 +1,162 @@
+'use client';
+
+import { useState } from 'react';
+import type { RerunComparison } from '@/types';
+
+interface RerunModalProps {
+  sessionId: string;
+  fileName: string;
+  accountId: string;
+  // Show a stored comparison instead of offering to re-run
+  comparison?: RerunComparison | null;
+  onClose: () => void;
+  // Called once the re-run's session has been created
+  onRerun?: (sessionId: string) => void;
+}
+
+function formatValue(value: unknown): string {
+  return value === null || value === undefined || value === '' ? '(empty)' : String(value);
+}
+
+function Stat({ label, value, tone }: { label: string; value: number; tone: string }) {
+  return (
+    <div className="border border-gray-200 rounded-lg px-3 py-2">
+      <div className={`text-lg font-semibold ${tone}`}>{value.toLocaleString()}</div>
+      <div className="text-xs text-gray-500">{label}</div>
+    </div>
+  );
+}
+
+/**
+ * Re-run an import through the account's current rules and show how the new
+ * run compares with the original: rows whose values changed, errors fixed and
+ * new errors.
+ */
+export function RerunModal({ sessionId, fileName, accountId, comparison: stored, onClose, onRerun }: RerunModalProps) {
+  const [comparison, setComparison] = useState<RerunComparison | null>(stored || null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRerun = async () => {
+    setIsRunning(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/pipeline/sessions/${sessionId}/rerun`, {
+        method: 'POST',
+        headers: { 'x-account-id': accountId },
+      });
+      const json = await response.json();
+      if (!response.ok || !json.success) throw new Error(json.error || 'Re-run failed');
+      setComparison(json.comparison);
+      onRerun?.(json.sessionId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Re-run failed');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-3xl w-full max-h-full overflow-y-auto">
+        <div className="p-6 space-y-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">
+              {stored ? 'Re-run comparison' : 'Re-run with current rules'}
+            </h3>
+            <p className="text-sm text-gray-500 mt-1">{fileName}</p>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded-lg text-sm">{error}</div>
+          )}
+
+          {!comparison && (
+            <div className="text-sm text-gray-600 space-y-2">
+              <p>
+                Runs this import&apos;s rows through the account&apos;s current rules, with the same field mappings,
+                question answers and rule overrides.
+              </p>
+              <p className="text-xs text-gray-500">
+                The result is saved as a new import linked to this one; nothing is synced to HubSpot and this import
+                is left unchanged.
+              </p>
+            </div>
+          )}
+
+          {comparison && (
+            <>
+              <div className="grid grid-cols-3 gap-3">
+                <Stat label="Rows changed" value={comparison.rowsChanged} tone="text-gray-900" />
+                <Stat label="Errors fixed" value={comparison.errorsFixed} tone="text-green-700" />
+                <Stat label="New errors" value={comparison.newErrors} tone="text-red-700" />
+              </div>
+              <p className="text-xs text-gray-500">
+                Invalid rows: {comparison.originalInvalidRows.toLocaleString()} → {comparison.invalidRows.toLocaleString()}
+                {comparison.perRow && (
+                  <> ({comparison.rowsFixed.toLocaleString()} fixed, {comparison.rowsNewlyInvalid.toLocaleString()} newly invalid, {comparison.comparedRows.toLocaleString()} rows compared)</>
+                )}
+              </p>
+
+              {!comparison.perRow ? (
+                <p className="text-sm text-gray-500">
+                  The original rows are no longer stored, so the re-run was made from the stored file and only the
+                  invalid row counts can be compared.
+                </p>
+              ) : comparison.differences.length === 0 ? (
+                <p className="text-sm text-gray-500 py-4 text-center">The current rules give the same result as the original run.</p>
+              ) : (
+                <>
+                  <p className="text-xs text-gray-500">The first rows that differ:</p>
+                  <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-96 overflow-y-auto">
+                    {comparison.differences.map((diff) => (
+                      <div key={diff.rowIndex} className="px-3 py-2 text-sm">
+                        <div className="text-xs font-medium text-gray-500 mb-1">Row {diff.rowIndex + 1}</div>
+                        <ul className="space-y-0.5">
+                          {diff.changedFields.map((c) => (
+                            <li key={`c-${c.field}`} className="text-gray-700">
+                              {c.field}: <span className="line-through text-gray-400">{formatValue(c.before)}</span> → {formatValue(c.after)}
+                            </li>
+                          ))}
+                          {diff.fixedErrors.map((e, i) => (
+                            <li key={`f${i}`} className="text-green-700">
+                              <span className="text-xs text-gray-400">[{e.ruleId}]</span> Fixed — {e.field}: {e.message}
+                            </li>
+                          ))}
+                          {diff.newErrors.map((e, i) => (
+                            <li key={`n${i}`} className="text-red-700">
+                              <span className="text-xs text-gray-400">[{e.ruleId}]</span> New — {e.field}: {e.message}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+            </>
+          )}
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              onClick={onClose}
+              disabled={isRunning}
+              className="px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {comparison ? 'Close' : 'Cancel'}
+            </button>
+            {!comparison && (
+              <button
+                onClick={handleRerun}
+                disabled={isRunning}
+                className="px-4 py-2 text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 rounded-lg transition-colors disabled:opacity-50"
+              >
+                {isRunning ? 'Re-running...' : 'Re-run'}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { PipelineRowChange, PipelineRowIssue } from '@/types';
+import type { ValidationDetailFilter, ValidationDetailSummary } from '@/lib/validationDetails';
+
+interface DetailRow {
+  rowIndex: number;
+  status: string;
+  errors: PipelineRowIssue[];
+  warnings: PipelineRowIssue[];
+  changes: PipelineRowChange[];
+}
+
+interface DetailResponse {
+  totalRows: number;
+  summary: ValidationDetailSummary;
+  matchingRows: number;
+  rows: DetailRow[];
+}
+
+interface ValidationDetailsModalProps {
+  sessionId: string;
+  fileName: string;
+  accountId: string;
+  onClose: () => void;
+}
+
+const SELECT_CLASS = 'w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm';
+
+function toQuery(filter: ValidationDetailFilter, extra: Record<string, string> = {}): string {
+  const params = new URLSearchParams(extra);
+  for (const [key, value] of Object.entries(filter)) {
+    if (value) params.set(key, value);
+  }
+  return params.toString();
+}
+
+// Options for a filter select from the counts of the selected kind(s), most frequent first
+function options(summary: ValidationDetailSummary, kind: ValidationDetailFilter['kind'], key: 'byRule' | 'byField' | 'byType') {
+  const totals: Record<string, number> = {};
+  const kinds = kind === 'error' ? ['errors'] : kind === 'warning' ? ['warnings'] : kind === 'change' ? ['changes'] : ['errors', 'warnings', 'changes'];
+  for (const k of kinds) {
+    for (const [value, count] of Object.entries(summary[k as keyof ValidationDetailSummary][key])) {
+      totals[value] = (totals[value] || 0) + count;
+    }
+  }
+  return Object.entries(totals).sort((a, b) => b[1] - a[1]);
+}
+
+function formatValue(value: unknown): string {
+  return value === null || value === undefined || value === '' ? '(empty)' : String(value);
+}
+
+/**
+ * The validation errors, warnings and changes stored on an import's rows,
+ * filterable by kind, rule, field and type, with a CSV export of the matches.
+ */
+export function ValidationDetailsModal({ sessionId, fileName, accountId, onClose }: ValidationDetailsModalProps) {
+  const [filter, setFilter] = useState<ValidationDetailFilter>({});
+  const [data, setData] = useState<DetailResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/pipeline/sessions/${sessionId}/validation?${toQuery(filter)}`, {
+          headers: { 'x-account-id': accountId },
+        });
+        const json = await response.json();
+        if (!response.ok || !json.success) throw new Error(json.error || 'Failed to load validation details');
+        setData(json);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load validation details');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    load();
+  }, [sessionId, accountId, filter]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const response = await fetch(`/api/pipeline/sessions/${sessionId}/export?${toQuery(filter, { details: '1' })}`, {
+        headers: { 'x-account-id': accountId },
+      });
+      if (!response.ok) {
+        const json = await response.json();
+        alert(json.error || 'Export failed');
+        return;
+      }
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      const filenameMatch = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/);
+      a.download = filenameMatch?.[1] || `${fileName}_export.csv`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Export failed:', err);
+      alert('Failed to export data');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const select = (key: 'rule' | 'field' | 'type', countKey: 'byRule' | 'byField' | 'byType', label: string) => (
+    <div>
+      <label className="block text-xs font-medium text-gray-600 mb-1">{label}</label>
+      <select
+        value={filter[key] || ''}
+        onChange={(e) => setFilter({ ...filter, [key]: e.target.value || undefined })}
+        disabled={key === 'type' && filter.kind === 'change'}
+        className={SELECT_CLASS}
+      >
+        <option value="">Any</option>
+        {data && options(data.summary, filter.kind, countKey).map(([value, count]) => (
+          <option key={value} value={value}>{value} ({count})</option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-3xl w-full max-h-full overflow-y-auto">
+        <div className="p-6 space-y-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Validation details</h3>
+            <p className="text-sm text-gray-500 mt-1">{fileName}</p>
+          </div>
+
+          <div className="grid grid-cols-4 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Show</label>
+              <select
+                value={filter.kind || ''}
+                onChange={(e) => {
+                  const kind = (e.target.value || undefined) as ValidationDetailFilter['kind'];
+                  setFilter({ ...filter, kind, type: kind === 'change' ? undefined : filter.type });
+                }}
+                className={SELECT_CLASS}
+              >
+                <option value="">Everything</option>
+                <option value="error">Errors</option>
+                <option value="warning">Warnings</option>
+                <option value="change">Changes</option>
+              </select>
+            </div>
+            {select('rule', 'byRule', 'Rule')}
+            {select('field', 'byField', 'Field')}
+            {select('type', 'byType', 'Type')}
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded-lg text-sm">{error}</div>
+          )}
+
+          {isLoading && !data && (
+            <div className="text-center py-6 text-gray-500 text-sm">
+              <div className="animate-spin w-5 h-5 border-2 border-primary-500 border-t-transparent rounded-full mx-auto mb-2" />
+              Loading validation details...
+            </div>
+          )}
+
+          {data && (
+            <>
+              <p className="text-xs text-gray-500">
+                {data.matchingRows.toLocaleString()} of {data.totalRows.toLocaleString()} rows match
+                {data.matchingRows > data.rows.length && ` — showing the first ${data.rows.length}`}
+              </p>
+
+              {data.rows.length === 0 ? (
+                <p className="text-sm text-gray-500 py-4 text-center">No errors, warnings or changes match this filter.</p>
+              ) : (
+                <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-96 overflow-y-auto">
+                  {data.rows.map((row) => (
+                    <div key={row.rowIndex} className="px-3 py-2 text-sm">
+                      <div className="text-xs font-medium text-gray-500 mb-1">Row {row.rowIndex + 1}</div>
+                      <ul className="space-y-0.5">
+                        {row.errors.map((e, i) => (
+                          <li key={`e${i}`} className="text-red-700">
+                            <span className="text-xs text-gray-400">[{e.ruleId}]</span> {e.field}: {e.message}
+                          </li>
+                        ))}
+                        {row.warnings.map((w, i) => (
+                          <li key={`w${i}`} className="text-amber-700">
+                            <span className="text-xs text-gray-400">[{w.ruleId}]</span> {w.field}: {w.message}
+                          </li>
+                        ))}
+                        {row.changes.map((c, i) => (
+                          <li key={`c${i}`} className="text-gray-700">
+                            <span className="text-xs text-gray-400">[{c.ruleId}]</span> {c.field}:{' '}
+                            <span className="line-through text-gray-400">{formatValue(c.originalValue)}</span> → {formatValue(c.newValue)}
+                            <span className="text-xs text-gray-500"> — {c.reason}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              Close
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={isExporting || !data || data.matchingRows === 0}
+              className="px-4 py-2 text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {isExporting ? 'Exporting...' : 'Export matching rows'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
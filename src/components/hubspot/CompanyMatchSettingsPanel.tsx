@@ -0,0 +1,190 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { CompanyMatchSettings, CompanyMatchSignal } from '@/types';
+import {
+  COMPANY_MATCH_SIGNAL_OPTIONS,
+  COMPANY_MATCH_TIE_BREAK_OPTIONS,
+  fetchCompanyMatchSettings,
+  saveCompanyMatchSettings,
+} from '@/lib/client/companyMatchSettings';
+
+interface CompanyMatchSettingsPanelProps {
+  accountId: string;
+  onResult: (message: { type: 'success' | 'error'; text: string }) => void;
+}
+
+export function CompanyMatchSettingsPanel({ accountId, onResult }: CompanyMatchSettingsPanelProps) {
+  const [settings, setSettings] = useState<CompanyMatchSettings | null>(null);
+  const [domainsText, setDomainsText] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchCompanyMatchSettings(accountId).then((loaded) => {
+      if (!loaded) return;
+      setSettings(loaded);
+      setDomainsText(loaded.personalDomains.join('\n'));
+    });
+  }, [accountId]);
+
+  if (!settings) return null;
+
+  // Enabled signals in their order, then the disabled ones
+  const orderedOptions = settings.signals
+    .map((signal) => COMPANY_MATCH_SIGNAL_OPTIONS.find((option) => option.value === signal)!)
+    .concat(COMPANY_MATCH_SIGNAL_OPTIONS.filter((option) => !settings.signals.includes(option.value)));
+
+  const toggleSignal = (signal: CompanyMatchSignal) => {
+    setSettings({
+      ...settings,
+      signals: settings.signals.includes(signal)
+        ? settings.signals.filter((s) => s !== signal)
+        : [...settings.signals, signal],
+    });
+  };
+
+  const moveSignal = (index: number, direction: -1 | 1) => {
+    const signals = [...settings.signals];
+    const target = index + direction;
+    if (target < 0 || target >= signals.length) return;
+    [signals[index], signals[target]] = [signals[target], signals[index]];
+    setSettings({ ...settings, signals });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const saved = await saveCompanyMatchSettings(accountId, {
+      ...settings,
+      personalDomains: domainsText.split(/[\s,]+/).map((domain) => domain.trim().toLowerCase()).filter(Boolean),
+    });
+    setIsSaving(false);
+    if (saved) {
+      setSettings(saved);
+      setDomainsText(saved.personalDomains.join('\n'));
+      onResult({ type: 'success', text: 'Company matching settings saved.' });
+    } else {
+      onResult({ type: 'error', text: 'Failed to save company matching settings.' });
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6 space-y-5">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900">Company Matching</h3>
+        <p className="text-sm text-gray-500 mt-1">
+          How imports find the HubSpot company for each row. Signals are tried in order until one finds a company;
+          when nothing matches, a new company is created.
+        </p>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Signals</label>
+        <div className="space-y-1.5">
+          {orderedOptions.map((option) => {
+            const index = settings.signals.indexOf(option.value);
+            const enabled = index !== -1;
+            return (
+              <div key={option.value} className="flex items-center gap-3 px-3 py-2 border border-gray-200 rounded-lg">
+                <input
+                  type="checkbox"
+                  checked={enabled}
+                  onChange={() => toggleSignal(option.value)}
+                  className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                <div className="flex-1">
+                  <div className={`text-sm ${enabled ? 'text-gray-900' : 'text-gray-400'}`}>
+                    {enabled && <span className="text-gray-400 mr-1.5">{index + 1}.</span>}
+                    {option.label}
+                  </div>
+                  <div className="text-xs text-gray-400">{option.description}</div>
+                </div>
+                {enabled && (
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => moveSignal(index, -1)}
+                      disabled={index === 0}
+                      className="px-1.5 py-0.5 text-xs text-gray-500 hover:bg-gray-100 rounded disabled:opacity-30"
+                      title="Try earlier"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => moveSignal(index, 1)}
+                      disabled={index === settings.signals.length - 1}
+                      className="px-1.5 py-0.5 text-xs text-gray-500 hover:bg-gray-100 rounded disabled:opacity-30"
+                      title="Try later"
+                    >
+                      ↓
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="flex gap-4">
+        <div className="flex-1">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Name match threshold (%)</label>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={Math.round(settings.nameThreshold * 100)}
+            onChange={(e) => setSettings({ ...settings, nameThreshold: Number(e.target.value) / 100 })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+        </div>
+        <div className="flex-1">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Name + city/state threshold (%)</label>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={Math.round(settings.nameLocationThreshold * 100)}
+            onChange={(e) => setSettings({ ...settings, nameLocationThreshold: Number(e.target.value) / 100 })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">When several companies match</label>
+        <select
+          value={settings.tieBreak}
+          onChange={(e) => setSettings({ ...settings, tieBreak: e.target.value as CompanyMatchSettings['tieBreak'] })}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+        >
+          {COMPANY_MATCH_TIE_BREAK_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-400 mt-1">Review tasks go to the import&apos;s task assignee.</p>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Personal email domains</label>
+        <textarea
+          value={domainsText}
+          onChange={(e) => setDomainsText(e.target.value)}
+          rows={4}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono"
+        />
+        <p className="text-xs text-gray-400 mt-1">
+          One per line. Email domains listed here (and their subdomains) are never used to find a company.
+        </p>
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="px-4 py-2 text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </div>
+  );
+}
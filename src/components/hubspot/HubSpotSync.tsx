@@ -1,150 +1,280 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
 import { useAppStore } from '@/store/useAppStore';
+import { useAuth } from '@/contexts/AuthContext';
 import { logInfo, logError, logSuccess } from '@/lib/logger';
+import { fetchHubSpotOwners } from '@/lib/client/hubspotOwners';
+import { fetchHubSpotStaticLists } from '@/lib/client/hubspotLists';
+import type { HubSpotOwner } from '@/lib/scripts';
+import type { MultiObjectColumn } from '@/lib/multiObject';
+import type {
+  HubSpotStaticList,
+  ParsedRow,
+  PipelineJob,
+  PipelineJobStatus,
+  SyncListResult,
+  SyncListTarget,
+  SyncPreviewRow,
+  SyncPreviewSummary,
+} from '@/types';
+import { SyncPreview } from './SyncPreview';
 
-export function HubSpotSync() {
+const ACTIVE_JOB_STATUSES: PipelineJobStatus[] = ['queued', 'running', 'cancelling'];
+
+// How often a background job is polled for progress
+const JOB_POLL_MS = 3000;
+
+// What a finished pipeline sync reports
+interface PipelineSyncResult {
+  status: string;
+  totalSynced: number;
+  totalFailed: number;
+  list: SyncListResult | null;
+  listError: string | null;
+  message: string;
+}
+
+// Wait for a pipeline job the API handed back with a 202
+async function waitForJob(
+  accountId: string,
+  jobId: string,
+  onProgress: (job: PipelineJob) => void
+): Promise<PipelineJob> {
+  for (;;) {
+    await new Promise((resolve) => setTimeout(resolve, JOB_POLL_MS));
+    const response = await fetch(`/api/pipeline/jobs/${jobId}`, {
+      headers: { 'x-account-id': accountId },
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to load job progress');
+    }
+    const job = data.job as PipelineJob;
+    onProgress(job);
+    if (!ACTIVE_JOB_STATUSES.includes(job.status)) return job;
+  }
+}
+
+/**
+ * Last wizard step: the cleaned rows become a pipeline import, which is
+ * previewed and then synced by the pipeline (so the sync is resumable and
+ * can be rolled back from the History page).
+ */
+export function HubSpotSync({ onCancel }: { onCancel?: () => void }) {
+  const { user } = useAuth();
+  const router = useRouter();
   const {
     sessionId,
+    parsedFile,
     processedData,
     headerMatches,
-    hubspotResults,
-    isSyncing,
-    syncProgress,
-    defaultTaskAssignee,
-    setHubSpotResults,
-    setIsSyncing,
-    setSyncProgress,
-    setDefaultTaskAssignee,
-    nextStep,
+    objectType,
+    multiObjectImport,
+    multiObjectColumns,
+    questionColumnValues,
+    importRuleOverrides,
     prevStep,
   } = useAppStore();
+  const accountId = user?.accountId || '';
 
-  const [hubspotOwners, setHubspotOwners] = useState<{ id: string; name: string; email: string }[]>(
-    []
-  );
+  const [hubspotOwners, setHubspotOwners] = useState<HubSpotOwner[]>([]);
   const [isLoadingOwners, setIsLoadingOwners] = useState(false);
+  // Owner of the review tasks for new companies; no tasks without one
+  const [defaultTaskAssignee, setDefaultTaskAssignee] = useState('');
+  // Static HubSpot list to add the synced contacts to
+  const [listMode, setListMode] = useState<'none' | 'existing' | 'new'>('none');
+  const [hubspotLists, setHubspotLists] = useState<HubSpotStaticList[]>([]);
+  const [listId, setListId] = useState('');
+  const [listNameTemplate, setListNameTemplate] = useState('');
   const [error, setError] = useState<string | null>(null);
+  // Pipeline import the preview and sync run on, created the first time it's needed
+  const [pipelineSessionId, setPipelineSessionId] = useState<string | null>(null);
+  const [isPreparing, setIsPreparing] = useState(false);
+  // Dry-run result; the sync is committed only after it has been reviewed
+  const [preview, setPreview] = useState<{ rows: SyncPreviewRow[]; summary: SyncPreviewSummary } | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [syncProgress, setSyncProgress] = useState({ completed: 0, total: 0 });
+  const [syncResult, setSyncResult] = useState<PipelineSyncResult | null>(null);
+  // Contact syncs (including mixed imports) can be previewed and add their
+  // contacts to a list
+  const syncsContacts = multiObjectImport || !objectType || objectType === 'contacts';
+  const isBusy = isPreparing || isPreviewing || isSyncing;
 
   // Fetch HubSpot owners on mount
   useEffect(() => {
     const fetchOwners = async () => {
       setIsLoadingOwners(true);
-      try {
-        const response = await fetch('/api/hubspot/owners');
-        if (response.ok) {
-          const data = await response.json();
-          setHubspotOwners(data.owners || []);
-        }
-      } catch (err) {
-        console.error('Failed to fetch HubSpot owners:', err);
-      } finally {
-        setIsLoadingOwners(false);
-      }
+      setHubspotOwners(await fetchHubSpotOwners(accountId));
+      setIsLoadingOwners(false);
     };
 
     fetchOwners();
-  }, []);
+  }, [accountId]);
+
+  // Existing lists are loaded the first time they're needed
+  useEffect(() => {
+    if (listMode !== 'existing' || hubspotLists.length > 0) return;
+    fetchHubSpotStaticLists(accountId).then(setHubspotLists);
+  }, [listMode, hubspotLists.length, accountId]);
+
+  const getListTarget = (): SyncListTarget | undefined => {
+    if (listMode === 'existing' && listId) return { listId };
+    if (listMode === 'new') return { nameTemplate: listNameTemplate };
+    return undefined;
+  };
+
+  // The upload as the pipeline takes it: mapped columns plus the values the
+  // wizard added (question answers, enrichment), with each column's record
+  // type and HubSpot property so the sync splits rows the way the wizard did
+  const buildPipelineUpload = () => {
+    const importType = objectType || 'contacts';
+    const objectColumns: MultiObjectColumn[] = multiObjectImport
+      ? multiObjectColumns
+      : headerMatches
+          .filter((m) => m.matchedField)
+          .map((m) => ({
+            header: m.originalHeader,
+            objectType: m.matchedField!.objectType === 'companies' ? 'companies' : importType,
+            property: m.matchedField!.hubspotField,
+          }));
+
+    // Unmapped file columns aren't HubSpot properties; mixed imports only
+    // sync their assigned columns
+    const mappedHeaders = new Set(objectColumns.map((column) => column.header));
+    const droppedHeaders = new Set(
+      headerMatches.map((m) => m.originalHeader).filter((header) => !mappedHeaders.has(header))
+    );
+    const rows = processedData.map((row) => {
+      const kept: ParsedRow = {};
+      Object.entries(row).forEach(([key, value]) => {
+        if (droppedHeaders.has(key) || (multiObjectImport && !mappedHeaders.has(key))) return;
+        kept[key] = value;
+      });
+      return kept;
+    });
+
+    const fieldMappings: Record<string, string> = {};
+    objectColumns.forEach((column) => {
+      fieldMappings[column.header] = column.property;
+    });
+
+    return {
+      fileName: parsedFile?.fileName || 'import.csv',
+      rows,
+      fieldMappings,
+      objectType: importType,
+      objectColumns,
+      questionAnswers: questionColumnValues,
+      ruleOverrides: importRuleOverrides,
+    };
+  };
+
+  const trackJob = (job: PipelineJob) => {
+    setSyncProgress({ completed: job.processedRows, total: job.totalRows });
+  };
+
+  // Upload and enrich the rows once; the preview and the sync share the import
+  const ensurePipelineSession = async (): Promise<string> => {
+    if (pipelineSessionId) return pipelineSessionId;
+
+    setIsPreparing(true);
+    try {
+      const uploadResponse = await fetch('/api/pipeline/upload', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-account-id': accountId },
+        body: JSON.stringify(buildPipelineUpload()),
+      });
+      const upload = await uploadResponse.json();
+      if (!uploadResponse.ok) {
+        throw new Error(upload.error || 'Failed to create the import');
+      }
+
+      const enrichResponse = await fetch('/api/pipeline/enrich', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-account-id': accountId },
+        body: JSON.stringify({ sessionId: upload.sessionId }),
+      });
+      const enrich = await enrichResponse.json();
+      if (!enrichResponse.ok) {
+        throw new Error(enrich.error || 'Enrichment failed');
+      }
+      if (enrichResponse.status === 202) {
+        const job = await waitForJob(accountId, enrich.jobId, trackJob);
+        if (job.status !== 'completed') {
+          throw new Error(job.errorMessage || 'Enrichment did not finish');
+        }
+      }
+
+      setPipelineSessionId(upload.sessionId);
+      return upload.sessionId as string;
+    } finally {
+      setIsPreparing(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    setError(null);
+    try {
+      const pipelineId = await ensurePipelineSession();
+      const response = await fetch('/api/pipeline/sync', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-account-id': accountId },
+        body: JSON.stringify({ sessionId: pipelineId, taskAssigneeId: defaultTaskAssignee, dryRun: true }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Preview failed');
+      }
+      setPreview({ rows: data.rows, summary: data.summary });
+      await logInfo('hubspot', 'Previewed HubSpot sync', sessionId, { ...data.summary });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
 
   const handleSync = async () => {
     setIsSyncing(true);
     setError(null);
+    setSyncProgress({ completed: 0, total: processedData.length });
     await logInfo('hubspot', 'Starting HubSpot sync', sessionId, {
       totalRows: processedData.length,
       taskAssignee: defaultTaskAssignee,
     });
 
     try {
-      // Transform rows from original CSV headers to HubSpot field names,
-      // separating contact and company properties so the sync API can
-      // use them correctly (contact props for contacts, company props for matching/creating companies).
-      const transformedRows = processedData.map((row) => {
-        const contactProperties: Record<string, string> = {};
-        const companyProperties: Record<string, string> = {};
-
-        Object.entries(row).forEach(([header, value]) => {
-          if (value === null || value === undefined) return;
-          const strValue = String(value).trim();
-          if (!strValue) return;
-
-          const match = headerMatches.find((m) => m.originalHeader === header);
-          if (match?.matchedField) {
-            const field = match.matchedField.hubspotField;
-            if (match.matchedField.objectType === 'companies') {
-              companyProperties[field] = strValue;
-            } else {
-              // contacts and deals — send as contact properties
-              contactProperties[field] = strValue;
-            }
-          }
-        });
-
-        // Also include any enriched fields (keys that aren't original CSV headers)
-        // These were added by the enrichment step with HubSpot field names
-        const originalHeaders = new Set(headerMatches.map((m) => m.originalHeader));
-        Object.entries(row).forEach(([key, value]) => {
-          if (originalHeaders.has(key)) return; // already handled above
-          if (value === null || value === undefined) return;
-          const strValue = String(value).trim();
-          if (!strValue) return;
-          // Enriched fields go to contact properties by default
-          contactProperties[key] = strValue;
-        });
-
-        return { contactProperties, companyProperties };
-      });
-
-      const response = await fetch('/api/hubspot/sync', {
+      const pipelineId = await ensurePipelineSession();
+      const response = await fetch('/api/pipeline/sync', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', 'x-account-id': accountId },
         body: JSON.stringify({
-          rows: transformedRows,
+          sessionId: pipelineId,
           taskAssigneeId: defaultTaskAssignee,
-          sessionId,
+          list: syncsContacts ? getListTarget() : undefined,
         }),
       });
-
+      const data = await response.json();
       if (!response.ok) {
-        throw new Error('Sync failed');
+        throw new Error(data.error || 'Sync failed');
       }
 
-      // Handle streaming response
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-      const results: typeof hubspotResults = [];
-
-      if (reader) {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          const chunk = decoder.decode(value);
-          const lines = chunk.split('\n').filter((line) => line.trim());
-
-          for (const line of lines) {
-            try {
-              const data = JSON.parse(line);
-              if (data.type === 'progress') {
-                setSyncProgress({ completed: data.completed, total: data.total });
-              } else if (data.type === 'result') {
-                results.push(data.result);
-              }
-            } catch {
-              // Skip invalid JSON
-            }
-          }
+      // Larger imports carry on as a background job
+      let result = data as PipelineSyncResult;
+      if (response.status === 202) {
+        const job = await waitForJob(accountId, data.jobId, trackJob);
+        if (!job.result) {
+          throw new Error(job.errorMessage || 'Sync did not finish');
         }
+        result = job.result as unknown as PipelineSyncResult;
       }
 
-      setHubSpotResults(results);
-
-      const newCompanies = results.filter((r) => r.matchType === 'created_new').length;
-      await logSuccess(
-        'hubspot',
-        `Sync complete: ${results.length} contacts processed, ${newCompanies} new companies created`,
-        sessionId
-      );
+      setSyncResult(result);
+      await logSuccess('hubspot', `Sync complete: ${result.totalSynced} rows synced, ${result.totalFailed} failed`, sessionId);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Unknown error';
       setError(errorMessage);
@@ -154,25 +284,6 @@ export function HubSpotSync() {
     }
   };
 
-  const handleSkipSync = () => {
-    nextStep();
-  };
-
-  const getMatchTypeBadge = (matchType: string) => {
-    switch (matchType) {
-      case 'exact_domain':
-        return <span className="px-2 py-0.5 bg-green-100 text-green-700 text-xs rounded">Domain Match</span>;
-      case 'fuzzy_name':
-        return <span className="px-2 py-0.5 bg-yellow-100 text-yellow-700 text-xs rounded">Fuzzy Match</span>;
-      case 'created_new':
-        return <span className="px-2 py-0.5 bg-primary-100 text-primary-700 text-xs rounded">New Company</span>;
-      case 'no_match':
-        return <span className="px-2 py-0.5 bg-gray-100 text-gray-600 text-xs rounded">No Match</span>;
-      default:
-        return null;
-    }
-  };
-
   return (
     <div className="space-y-6">
       <h2 className="text-xl font-semibold">HubSpot Sync</h2>
@@ -185,8 +296,11 @@ export function HubSpotSync() {
           </label>
           <select
             value={defaultTaskAssignee}
-            onChange={(e) => setDefaultTaskAssignee(e.target.value)}
-            disabled={isLoadingOwners || isSyncing}
+            onChange={(e) => {
+              setDefaultTaskAssignee(e.target.value);
+              setPreview(null);
+            }}
+            disabled={isLoadingOwners || isBusy || !!syncResult}
             className="w-full max-w-md px-3 py-2 border border-gray-300 rounded-lg"
           >
             <option value="">-- Select an owner --</option>
@@ -201,6 +315,61 @@ export function HubSpotSync() {
           )}
         </div>
 
+        {syncsContacts && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Add synced contacts to a HubSpot list (optional)
+            </label>
+            <div className="flex gap-4 mb-2">
+              {([
+                ['none', 'No list'],
+                ['existing', 'Existing static list'],
+                ['new', 'New static list'],
+              ] as const).map(([mode, label]) => (
+                <label key={mode} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    checked={listMode === mode}
+                    onChange={() => setListMode(mode)}
+                    disabled={isBusy || !!syncResult}
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+            {listMode === 'existing' && (
+              <select
+                value={listId}
+                onChange={(e) => setListId(e.target.value)}
+                disabled={isBusy || !!syncResult}
+                className="w-full max-w-md px-3 py-2 border border-gray-300 rounded-lg"
+              >
+                <option value="">-- Select a list --</option>
+                {hubspotLists.map((list) => (
+                  <option key={list.listId} value={list.listId}>
+                    {list.name}{list.size !== null ? ` (${list.size} contacts)` : ''}
+                  </option>
+                ))}
+              </select>
+            )}
+            {listMode === 'new' && (
+              <>
+                <input
+                  type="text"
+                  value={listNameTemplate}
+                  onChange={(e) => setListNameTemplate(e.target.value)}
+                  placeholder="{fileName} – {date}"
+                  disabled={isBusy || !!syncResult}
+                  className="w-full max-w-md px-3 py-2 border border-gray-300 rounded-lg"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  {'{fileName}'}, {'{date}'} and {'{count}'} are filled in when the list is created.
+                </p>
+              </>
+            )}
+          </div>
+        )}
+
         <div className="text-sm text-gray-600">
           <p>The sync process will:</p>
           <ul className="list-disc list-inside mt-2 space-y-1">
@@ -210,6 +379,9 @@ export function HubSpotSync() {
             <li>Create/update contacts and associate with companies</li>
             <li>Create a task for the assignee when new companies are created (if assignee selected)</li>
           </ul>
+          <p className="mt-2">
+            The import is saved to the History page, where a sync can be resumed or rolled back.
+          </p>
         </div>
       </div>
 
@@ -219,148 +391,144 @@ export function HubSpotSync() {
         </div>
       )}
 
+      {/* Dry-run preview */}
+      {preview && !syncResult && (
+        <div className="space-y-2">
+          <h3 className="font-medium">Sync preview</h3>
+          <p className="text-sm text-gray-600">
+            Nothing has been written to HubSpot yet. Review the changes below, then sync to apply them.
+          </p>
+          <SyncPreview rows={preview.rows} summary={preview.summary} />
+        </div>
+      )}
+
       {/* Progress */}
-      {isSyncing && (
+      {isBusy && (
         <div className="bg-primary-50 border border-primary-200 rounded-lg p-4">
           <div className="flex items-center gap-3 mb-2">
             <div className="animate-spin w-5 h-5 border-2 border-primary-500 border-t-transparent rounded-full" />
             <span className="text-primary-700">
-              Processing contact {syncProgress.completed} of {syncProgress.total}...
+              {isPreparing
+                ? 'Preparing the import...'
+                : isPreviewing
+                  ? 'Previewing the sync...'
+                  : `Syncing row ${syncProgress.completed} of ${syncProgress.total}...`}
             </span>
           </div>
-          <div className="w-full bg-primary-200 rounded-full h-2">
-            <div
-              className="bg-primary-600 h-2 rounded-full transition-all"
-              style={{
-                width: `${
-                  syncProgress.total > 0
-                    ? (syncProgress.completed / syncProgress.total) * 100
-                    : 0
-                }%`,
-              }}
-            />
-          </div>
+          {isSyncing && !isPreparing && (
+            <div className="w-full bg-primary-200 rounded-full h-2">
+              <div
+                className="bg-primary-600 h-2 rounded-full transition-all"
+                style={{
+                  width: `${
+                    syncProgress.total > 0
+                      ? (syncProgress.completed / syncProgress.total) * 100
+                      : 0
+                  }%`,
+                }}
+              />
+            </div>
+          )}
         </div>
       )}
 
       {/* Results summary */}
-      {hubspotResults.length > 0 && (
+      {syncResult && (
         <div className="space-y-4">
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="grid grid-cols-2 gap-4">
             <div className="bg-green-50 border border-green-200 rounded-lg p-4">
-              <div className="text-2xl font-bold text-green-700">
-                {hubspotResults.filter((r) => r.matchType === 'exact_domain').length}
-              </div>
-              <div className="text-sm text-green-600">Domain Matches</div>
-            </div>
-            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
-              <div className="text-2xl font-bold text-yellow-700">
-                {hubspotResults.filter((r) => r.matchType === 'fuzzy_name').length}
-              </div>
-              <div className="text-sm text-yellow-600">Fuzzy Matches</div>
-            </div>
-            <div className="bg-primary-50 border border-primary-200 rounded-lg p-4">
-              <div className="text-2xl font-bold text-primary-700">
-                {hubspotResults.filter((r) => r.matchType === 'created_new').length}
-              </div>
-              <div className="text-sm text-primary-600">New Companies</div>
+              <div className="text-2xl font-bold text-green-700">{syncResult.totalSynced}</div>
+              <div className="text-sm text-green-600">Rows Synced</div>
             </div>
-            <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
-              <div className="text-2xl font-bold text-gray-700">
-                {hubspotResults.filter((r) => r.matchType === 'no_match').length}
-              </div>
-              <div className="text-sm text-gray-600">No Matches</div>
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <div className="text-2xl font-bold text-red-700">{syncResult.totalFailed}</div>
+              <div className="text-sm text-red-600">Rows Failed</div>
             </div>
           </div>
 
-          {/* Error summary */}
-          {(() => {
-            const errorResults = hubspotResults.filter((r) => r.error);
-            if (errorResults.length === 0) return null;
-            const uniqueErrors = [...new Set(errorResults.map((r) => r.error))];
-            return (
-              <div className="bg-red-50 border border-red-200 rounded-lg p-4">
-                <p className="text-sm font-medium text-red-700 mb-2">
-                  {errorResults.length} of {hubspotResults.length} rows had errors:
-                </p>
-                {uniqueErrors.map((err, i) => (
-                  <p key={i} className="text-sm text-red-600 bg-red-100 rounded px-2 py-1 mb-1">
-                    {err}
-                  </p>
-                ))}
-              </div>
-            );
-          })()}
-
-          {/* Results table */}
-          <div className="border rounded-lg overflow-hidden">
-            <div className="max-h-64 overflow-auto">
-              <table className="w-full">
-                <thead className="bg-gray-50 sticky top-0">
-                  <tr>
-                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-600">Row</th>
-                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-600">Contact</th>
-                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-600">Company</th>
-                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-600">Match Type</th>
-                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-600">Confidence</th>
-                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-600">Error</th>
-                  </tr>
-                </thead>
-                <tbody className="divide-y divide-gray-100">
-                  {hubspotResults.slice(0, 50).map((result, index) => (
-                    <tr key={index} className={`hover:bg-gray-50 ${result.error ? 'bg-red-50' : ''}`}>
-                      <td className="px-4 py-2 text-sm">{result.rowIndex + 1}</td>
-                      <td className="px-4 py-2 text-sm">{result.contact.email}</td>
-                      <td className="px-4 py-2 text-sm">{result.matchedCompany?.name || '-'}</td>
-                      <td className="px-4 py-2 text-sm">{getMatchTypeBadge(result.matchType)}</td>
-                      <td className="px-4 py-2 text-sm">
-                        {Math.round(result.matchConfidence * 100)}%
-                      </td>
-                      <td className="px-4 py-2 text-sm text-red-600">
-                        {result.error || ''}
-                      </td>
-                    </tr>
-                  ))}
-                </tbody>
-              </table>
-            </div>
+          <div
+            className={`rounded-lg p-4 text-sm border ${
+              syncResult.totalFailed > 0
+                ? 'bg-red-50 border-red-200 text-red-700'
+                : 'bg-green-50 border-green-200 text-green-700'
+            }`}
+          >
+            {syncResult.message} Open the History page to review the import or roll it back.
           </div>
+
+          {syncResult.list && (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-sm text-green-700">
+              Added {syncResult.list.added} contacts to the HubSpot list{' '}
+              {syncResult.list.url ? (
+                <a href={syncResult.list.url} target="_blank" rel="noopener noreferrer" className="font-medium underline">
+                  {syncResult.list.listName}
+                </a>
+              ) : (
+                <span className="font-medium">{syncResult.list.listName}</span>
+              )}
+              .
+            </div>
+          )}
+          {syncResult.listError && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">
+              Contacts were synced but could not be added to the HubSpot list: {syncResult.listError}
+            </div>
+          )}
         </div>
       )}
 
       {/* Navigation */}
       <div className="flex justify-between pt-4">
-        <button onClick={prevStep} className="px-6 py-2 text-gray-600 hover:text-gray-800">
-          Back
-        </button>
-        <div className="flex gap-3">
+        <div className="flex items-center gap-2">
           <button
-            onClick={handleSkipSync}
-            className="px-6 py-2 text-gray-600 hover:text-gray-800"
+            onClick={prevStep}
+            disabled={isBusy || !!syncResult}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 hover:bg-gray-300 rounded-lg transition-colors disabled:opacity-50"
           >
-            Skip HubSpot Sync
+            Back
           </button>
-          {hubspotResults.length === 0 ? (
+          {onCancel && !syncResult && (
             <button
-              onClick={handleSync}
-              disabled={isSyncing}
-              className={`px-6 py-2 rounded-lg ${
-                isSyncing
-                  ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
-                  : 'bg-hubspot-orange text-white hover:bg-orange-600'
-              }`}
+              onClick={onCancel}
+              disabled={isBusy}
+              className="px-4 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-lg transition-colors disabled:opacity-50"
             >
-              Sync to HubSpot
-            </button>
-          ) : (
-            <button
-              onClick={nextStep}
-              className="px-6 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700"
-            >
-              Continue to Audit
+              Cancel
             </button>
           )}
         </div>
+        {syncResult ? (
+          <button
+            onClick={() => router.push('/history')}
+            className="px-6 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700"
+          >
+            View Import History
+          </button>
+        ) : syncsContacts && !preview ? (
+          <button
+            onClick={handlePreview}
+            disabled={isBusy}
+            className={`px-6 py-2 rounded-lg ${
+              isBusy
+                ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                : 'bg-hubspot-orange text-white hover:bg-orange-600'
+            }`}
+          >
+            {isPreviewing ? 'Previewing...' : 'Preview Sync'}
+          </button>
+        ) : (
+          <button
+            onClick={handleSync}
+            disabled={isBusy}
+            className={`px-6 py-2 rounded-lg ${
+              isBusy
+                ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                : 'bg-hubspot-orange text-white hover:bg-orange-600'
+            }`}
+          >
+            Sync to HubSpot
+          </button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,145 @@
+'use client';
+
+import { useState } from 'react';
+import type { SyncPreviewRow, SyncPreviewSummary } from '@/types';
+
+interface SyncPreviewProps {
+  rows: SyncPreviewRow[];
+  summary: SyncPreviewSummary;
+}
+
+const PAGE_SIZE = 100;
+
+function formatValue(value: string | null) {
+  return value === null ? <span className="text-gray-400 italic">empty</span> : value;
+}
+
+/**
+ * Result of a dry-run sync: totals plus, per row, the contact action, the
+ * company it would match and every property that would change.
+ */
+export function SyncPreview({ rows, summary }: SyncPreviewProps) {
+  const [changesOnly, setChangesOnly] = useState(true);
+  const [visible, setVisible] = useState(PAGE_SIZE);
+
+  const shown = changesOnly
+    ? rows.filter((r) => r.action !== 'update' || r.changes.length > 0)
+    : rows;
+
+  const cards = [
+    { label: 'New contacts', value: summary.creates, className: 'bg-primary-50 border-primary-200 text-primary-700' },
+    { label: 'Contact updates', value: summary.updates - summary.unchanged, className: 'bg-yellow-50 border-yellow-200 text-yellow-700' },
+    { label: 'Unchanged', value: summary.unchanged, className: 'bg-gray-50 border-gray-200 text-gray-700' },
+    { label: 'New companies', value: summary.newCompanies, className: 'bg-green-50 border-green-200 text-green-700' },
+    { label: 'Tasks', value: summary.tasks, className: 'bg-purple-50 border-purple-200 text-purple-700' },
+    { label: 'Errors', value: summary.errors, className: 'bg-red-50 border-red-200 text-red-700' },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 md:grid-cols-6 gap-3">
+        {cards.map((card) => (
+          <div key={card.label} className={`border rounded-lg p-3 ${card.className}`}>
+            <div className="text-2xl font-bold">{card.value}</div>
+            <div className="text-sm">{card.label}</div>
+          </div>
+        ))}
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-600">
+        <input type="checkbox" checked={changesOnly} onChange={(e) => setChangesOnly(e.target.checked)} />
+        Hide rows that wouldn&apos;t change anything
+      </label>
+
+      <div className="border rounded-lg overflow-hidden">
+        <div className="max-h-96 overflow-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-600">Row</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-600">Contact</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-600">Action</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-600">Company</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-600">Changes</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {shown.slice(0, visible).map((row) => (
+                <tr key={row.rowIndex} className={`align-top ${row.action === 'error' ? 'bg-red-50' : ''}`}>
+                  <td className="px-3 py-2">{row.rowIndex + 1}</td>
+                  <td className="px-3 py-2">{row.email || '-'}</td>
+                  <td className="px-3 py-2">
+                    {row.action === 'create' && (
+                      <span className="px-2 py-0.5 bg-primary-100 text-primary-700 text-xs rounded">Create</span>
+                    )}
+                    {row.action === 'update' && (
+                      <span className="px-2 py-0.5 bg-yellow-100 text-yellow-700 text-xs rounded">Update</span>
+                    )}
+                    {row.action === 'error' && <span className="text-red-600">{row.error}</span>}
+                  </td>
+                  <td className="px-3 py-2">
+                    {row.matchedCompany ? (
+                      <>
+                        {row.matchedCompany.name}
+                        <span className="ml-1 text-xs text-gray-500">
+                          ({row.matchType === 'exact_domain' ? 'domain' : 'fuzzy name'}, {Math.round(row.matchConfidence * 100)}%)
+                        </span>
+                      </>
+                    ) : row.newCompanyName ? (
+                      <>
+                        {row.newCompanyName}
+                        <span className="ml-1 text-xs text-green-600">(new)</span>
+                      </>
+                    ) : (
+                      <span className="text-gray-400">-</span>
+                    )}
+                    {row.matchExplanation?.needsReview && (
+                      <span className="ml-1 px-1.5 py-0.5 bg-orange-100 text-orange-700 text-xs rounded">Review</span>
+                    )}
+                    {row.matchExplanation && row.matchExplanation.steps.length > 0 && (
+                      <div className="text-xs text-gray-400 mt-0.5">{row.matchExplanation.steps.join(' → ')}</div>
+                    )}
+                  </td>
+                  <td className="px-3 py-2">
+                    {row.changes.length === 0 ? (
+                      row.action === 'update' && !row.skippedProperties?.length && (
+                        <span className="text-gray-400">No changes</span>
+                      )
+                    ) : (
+                      <ul className="space-y-0.5">
+                        {row.changes.map((change) => (
+                          <li key={change.property}>
+                            <span className="font-mono text-xs text-gray-500">{change.property}</span>:{' '}
+                            {row.action === 'update' && (
+                              <>
+                                <span className="line-through text-red-600">{formatValue(change.oldValue)}</span>
+                                {' → '}
+                              </>
+                            )}
+                            <span className="text-green-700">{change.newValue}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {row.skippedProperties && row.skippedProperties.length > 0 && (
+                      <div className="mt-1 text-xs text-gray-500">
+                        Kept by policy: {row.skippedProperties.map((skipped) => skipped.property).join(', ')}
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {shown.length > visible && (
+          <div className="px-3 py-2 border-t bg-gray-50 text-sm">
+            <button onClick={() => setVisible((v) => v + PAGE_SIZE)} className="text-primary-600 hover:underline">
+              Show more ({shown.length - visible} remaining)
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,8 @@
 import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
 import { useAppStore } from '@/store/useAppStore';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchRequiredProperties } from '@/lib/client/requiredProperties';
 import type { HeaderMatch, HubSpotObjectType } from '@/types';
 
 const OBJECT_TYPE_LABELS: Record<HubSpotObjectType, string> = {
@@ -25,31 +27,20 @@ export function HeaderMapper() {
     prevStep,
   } = useAppStore();
 
+  const { user } = useAuth();
+  const accountId = user?.accountId;
   const [dbRequiredFields, setDbRequiredFields] = useState<string[]>([]);
 
-  // Fetch required properties from database on mount
+  // Fetch the account's required properties on mount
   useEffect(() => {
-    const fetchRequired = async () => {
-      try {
-        const settingRes = await fetch('/api/admin/app-settings?key=required_properties');
-        const settingJson = await settingRes.json();
-
-        if (settingJson.data) {
-          const parsed = typeof settingJson.data === 'string' ? JSON.parse(settingJson.data) : settingJson.data;
-          if (Array.isArray(parsed)) {
-            setDbRequiredFields(parsed);
-            // Also update the store so validation can use them
-            // Extract just the field names (strip objectType: prefix)
-            const fieldNames = parsed.map((f: string) => f.includes(':') ? f.split(':', 2)[1] : f);
-            setRequiredFields(fieldNames);
-          }
-        }
-      } catch (err) {
-        console.error('Error fetching required properties:', err);
-      }
-    };
-    fetchRequired();
-  }, [setRequiredFields]);
+    if (!accountId) return;
+    fetchRequiredProperties(accountId).then((keys) => {
+      setDbRequiredFields(keys);
+      // Also update the store so validation can use them
+      // Extract just the field names (strip objectType: prefix)
+      setRequiredFields(keys.map((f) => f.includes(':') ? f.split(':', 2)[1] : f));
+    });
+  }, [accountId, setRequiredFields]);
 
   const [isSaving, setIsSaving] = useState(false);
   const [ignoreUnmapped, setIgnoreUnmapped] = useState(false);
@@ -348,6 +339,7 @@ export function HeaderMapper() {
                         className={`px-2 py-1 text-xs rounded-full ${getConfidenceColor(
                           match.confidence
                         )}`}
+                        title={match.matchReason}
                       >
                         {Math.round(match.confidence * 100)}%
                       </span>
@@ -0,0 +1,184 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  readOwnerConfig,
+  type HubSpotOwner,
+  type OwnerAssignment,
+  type OwnerResolutionConfig,
+} from '@/lib/scripts/owner-resolution';
+
+export function isOwnerRule(ruleId: string): boolean {
+  return ruleId === 'owner-resolution';
+}
+
+// Read the owner rule's config, falling back to the script defaults for anything unset
+export function getOwnerConfig(config: Record<string, unknown>): OwnerResolutionConfig {
+  return readOwnerConfig(config);
+}
+
+const ASSIGNMENTS: { value: OwnerAssignment; label: string }[] = [
+  { value: 'none', label: 'Leave rows without an owner unowned' },
+  { value: 'round_robin', label: 'Round-robin between owners' },
+  { value: 'territory', label: 'Territory by state' },
+];
+
+const INPUT_CLASS = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-200 focus:border-primary-500 outline-none';
+
+interface OwnerAssignmentEditorProps {
+  value: OwnerResolutionConfig;
+  owners: HubSpotOwner[];
+  onChange: (value: OwnerResolutionConfig) => void;
+}
+
+/**
+ * Editor for the owner rule's match threshold and the assignment of rows that
+ * have no owner in the file.
+ */
+export function OwnerAssignmentEditor({ value, owners, onChange }: OwnerAssignmentEditorProps) {
+  // Edited as rows so blank or half-typed states don't collapse into one key
+  const [territories, setTerritories] = useState(() =>
+    Object.entries(value.territories).map(([state, owner]) => ({ state, owner }))
+  );
+
+  // Owner select; a configured owner that isn't in the list stays selectable
+  const ownerSelect = (selected: string, onSelect: (owner: string) => void, emptyLabel: string) => (
+    <select value={selected} onChange={(e) => onSelect(e.target.value)} className={INPUT_CLASS}>
+      <option value="">{emptyLabel}</option>
+      {selected && !owners.some((o) => o.id === selected || o.email === selected) && (
+        <option value={selected}>{selected}</option>
+      )}
+      {owners.map((o) => (
+        <option key={o.id} value={o.id}>{o.name || o.email} {o.email && o.name ? `(${o.email})` : ''}</option>
+      ))}
+    </select>
+  );
+
+  const updateTerritories = (next: { state: string; owner: string }[]) => {
+    setTerritories(next);
+    const record: Record<string, string> = {};
+    for (const { state, owner } of next) {
+      if (state.trim() && owner) record[state.trim()] = owner;
+    }
+    onChange({ ...value, territories: record });
+  };
+
+  const setTerritory = (index: number, state: string, owner: string) => {
+    updateTerritories(territories.map((t, i) => (i === index ? { state, owner } : t)));
+  };
+
+  const toggleRoundRobin = (ownerId: string) => {
+    onChange({
+      ...value,
+      roundRobinOwners: value.roundRobinOwners.includes(ownerId)
+        ? value.roundRobinOwners.filter((id) => id !== ownerId)
+        : [...value.roundRobinOwners, ownerId],
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Rows Without an Owner</label>
+          <select
+            value={value.assignment}
+            onChange={(e) => onChange({ ...value, assignment: e.target.value as OwnerAssignment })}
+            className={INPUT_CLASS}
+          >
+            {ASSIGNMENTS.map((a) => (
+              <option key={a.value} value={a.value}>{a.label}</option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-400 mt-1">Owners given in the file always win; unresolved owners are cleared first.</p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Fuzzy Name Match (%)</label>
+          <input
+            type="number"
+            min={50}
+            max={100}
+            value={Math.round(value.fuzzyThreshold * 100)}
+            onChange={(e) => onChange({ ...value, fuzzyThreshold: Number(e.target.value) / 100 })}
+            className={INPUT_CLASS}
+          />
+          <p className="text-xs text-gray-400 mt-1">Minimum similarity for names that don&apos;t match an owner exactly.</p>
+        </div>
+      </div>
+
+      {owners.length === 0 && value.assignment !== 'none' && (
+        <p className="text-xs text-amber-600">Connect HubSpot to choose owners from the account&apos;s owner list.</p>
+      )}
+
+      {value.assignment === 'round_robin' && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Round-Robin Owners</label>
+          <div className="grid grid-cols-2 gap-1.5 max-h-48 overflow-y-auto border border-gray-200 rounded-lg p-2">
+            {owners.map((o) => (
+              <label key={o.id} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={value.roundRobinOwners.includes(o.id)}
+                  onChange={() => toggleRoundRobin(o.id)}
+                  className="w-4 h-4 text-primary-500 focus:ring-primary-500 rounded"
+                />
+                {o.name || o.email}
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-gray-400 mt-1">Rows without an owner are dealt out in file order.</p>
+        </div>
+      )}
+
+      {value.assignment === 'territory' && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">State Column</label>
+              <input
+                type="text"
+                value={value.stateField}
+                onChange={(e) => onChange({ ...value, stateField: e.target.value })}
+                placeholder="state"
+                className={INPUT_CLASS}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Default Owner</label>
+              {ownerSelect(value.defaultOwner, (owner) => onChange({ ...value, defaultOwner: owner }), 'None — leave unowned')}
+            </div>
+          </div>
+
+          <label className="block text-sm font-medium text-gray-700">Territories</label>
+          {territories.map(({ state, owner }, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={state}
+                onChange={(e) => setTerritory(index, e.target.value, owner)}
+                placeholder="CA or California"
+                className={INPUT_CLASS.replace('w-full', 'w-40')}
+              />
+              {ownerSelect(owner, (next) => setTerritory(index, state, next), 'Choose owner')}
+              <button
+                type="button"
+                onClick={() => updateTerritories(territories.filter((_, i) => i !== index))}
+                className="px-2 py-1 text-xs text-gray-500 hover:text-red-600"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => setTerritories([...territories, { state: '', owner: '' }])}
+            className="text-sm text-primary-600 hover:text-primary-700"
+          >
+            + Add territory
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+'use client';
+
+import { PHONE_COUNTRIES } from '@/lib/scripts/phone-countries';
+import {
+  readPhoneConfig,
+  type PhoneNormalizationConfig,
+  type PhoneDisplayFormat,
+} from '@/lib/scripts/phone-normalization';
+
+export function isPhoneRule(ruleId: string): boolean {
+  return ruleId === 'phone-normalization';
+}
+
+// Read the phone rule's config, falling back to the script defaults for anything unset
+export function getPhoneConfig(config: Record<string, unknown>): PhoneNormalizationConfig {
+  return readPhoneConfig(config);
+}
+
+const DISPLAY_FORMATS: { value: PhoneDisplayFormat; label: string; example: string }[] = [
+  { value: 'e164', label: 'E.164', example: '+15551234567' },
+  { value: 'international', label: 'International', example: '+1 555 123 4567' },
+  { value: 'national', label: 'National', example: '555 123 4567' },
+];
+
+const INPUT_CLASS = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-200 focus:border-primary-500 outline-none';
+
+interface PhoneConfigEditorProps {
+  value: PhoneNormalizationConfig;
+  onChange: (value: PhoneNormalizationConfig) => void;
+}
+
+/**
+ * Editor for the default country, country column and display format of the phone rule.
+ */
+export function PhoneConfigEditor({ value, onChange }: PhoneConfigEditorProps) {
+  return (
+    <div className="grid grid-cols-3 gap-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Default Country</label>
+        <select
+          value={value.defaultCountry}
+          onChange={(e) => onChange({ ...value, defaultCountry: e.target.value })}
+          className={INPUT_CLASS}
+        >
+          {PHONE_COUNTRIES.map((c) => (
+            <option key={c.code} value={c.code}>{c.name} (+{c.callingCode})</option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-400 mt-1">Used for numbers without a country code when the row has no country.</p>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Country Column</label>
+        <input
+          type="text"
+          value={value.countryField}
+          onChange={(e) => onChange({ ...value, countryField: e.target.value })}
+          placeholder="country"
+          className={INPUT_CLASS}
+        />
+        <p className="text-xs text-gray-400 mt-1">Field holding each row&apos;s country (name or ISO code).</p>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Display Format</label>
+        <select
+          value={value.displayFormat}
+          onChange={(e) => onChange({ ...value, displayFormat: e.target.value as PhoneDisplayFormat })}
+          className={INPUT_CLASS}
+        >
+          {DISPLAY_FORMATS.map((f) => (
+            <option key={f.value} value={f.value}>{f.label} — {f.example}</option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-400 mt-1">Extensions are kept as &quot;ext. 123&quot;.</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+'use client';
+
+import { useState } from 'react';
+import { DEFAULT_ROLES } from '@/lib/scripts/role-normalization';
+import { DEFAULT_PROGRAM_TYPES } from '@/lib/scripts/program-type-normalization';
+import { DEFAULT_SOLUTIONS } from '@/lib/scripts/solution-normalization';
+
+// Built-in rules that normalize a column against an allowed-value list → their default list
+const PICKLIST_DEFAULTS: Record<string, string[]> = {
+  'role-normalization': DEFAULT_ROLES,
+  'program-type-normalization': DEFAULT_PROGRAM_TYPES,
+  'solution-normalization': DEFAULT_SOLUTIONS,
+};
+
+export function isPicklistRule(ruleId: string): boolean {
+  return ruleId in PICKLIST_DEFAULTS;
+}
+
+export interface PicklistConfigValue {
+  validValues: string[];
+  fallbackValue: string | null;
+  synonyms: Record<string, string>;
+}
+
+// Read a picklist rule's config, falling back to the script defaults for anything unset
+export function getPicklistConfig(ruleId: string, config: Record<string, unknown>): PicklistConfigValue {
+  return {
+    validValues: Array.isArray(config.validValues) ? (config.validValues as string[]) : PICKLIST_DEFAULTS[ruleId] || [],
+    fallbackValue: 'fallbackValue' in config
+      ? (typeof config.fallbackValue === 'string' && config.fallbackValue !== '' ? config.fallbackValue : null)
+      : 'Other',
+    synonyms: config.synonyms && typeof config.synonyms === 'object' ? (config.synonyms as Record<string, string>) : {},
+  };
+}
+
+// "Prof = Instructor" lines → { Prof: 'Instructor' }; incomplete lines are skipped
+function parseSynonyms(text: string): Record<string, string> {
+  const synonyms: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const separator = line.indexOf('=');
+    if (separator === -1) continue;
+    const from = line.slice(0, separator).trim();
+    const to = line.slice(separator + 1).trim();
+    if (from && to) synonyms[from] = to;
+  }
+  return synonyms;
+}
+
+const INPUT_CLASS = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-200 focus:border-primary-500 outline-none';
+
+interface PicklistConfigEditorProps {
+  value: PicklistConfigValue;
+  onChange: (value: PicklistConfigValue) => void;
+}
+
+/**
+ * Editor for the allowed values, fallback and synonyms of a picklist rule.
+ * Keeps the raw textarea text locally so half-typed lines aren't lost.
+ */
+export function PicklistConfigEditor({ value, onChange }: PicklistConfigEditorProps) {
+  const [valuesText, setValuesText] = useState(value.validValues.join('\n'));
+  const [synonymsText, setSynonymsText] = useState(
+    Object.entries(value.synonyms).map(([from, to]) => `${from} = ${to}`).join('\n')
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Allowed Values</label>
+          <textarea
+            value={valuesText}
+            onChange={(e) => {
+              setValuesText(e.target.value);
+              onChange({
+                ...value,
+                validValues: e.target.value.split('\n').map((v) => v.trim()).filter(Boolean),
+              });
+            }}
+            rows={8}
+            placeholder="One value per line"
+            className={`${INPUT_CLASS} resize-y`}
+          />
+          <p className="text-xs text-gray-400 mt-1">Matching is case-insensitive; values are rewritten to the casing shown here.</p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Synonyms</label>
+          <textarea
+            value={synonymsText}
+            onChange={(e) => {
+              setSynonymsText(e.target.value);
+              onChange({ ...value, synonyms: parseSynonyms(e.target.value) });
+            }}
+            rows={8}
+            placeholder={'Prof = Instructor\nTeacher = Educator'}
+            className={`${INPUT_CLASS} resize-y font-mono`}
+          />
+          <p className="text-xs text-gray-400 mt-1">One per line: <code>value in file = allowed value</code>.</p>
+        </div>
+      </div>
+
+      <div className="w-1/2 pr-2">
+        <label className="block text-sm font-medium text-gray-700 mb-1">Fallback Value</label>
+        <input
+          type="text"
+          value={value.fallbackValue ?? ''}
+          onChange={(e) => onChange({ ...value, fallbackValue: e.target.value === '' ? null : e.target.value })}
+          placeholder="Leave blank to keep unmatched values and warn"
+          className={INPUT_CLASS}
+        />
+        <p className="text-xs text-gray-400 mt-1">Unmatched values are replaced with this. Leave blank to keep them and raise a warning instead.</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,330 @@
+'use client';
+
+import {
+  CONDITION_TYPES,
+  ACTION_TYPES,
+  type DeclarativeRuleDefinition,
+  type DeclarativeCondition,
+  type DeclarativeAction,
+  type DeclarativeConditionType,
+  type DeclarativeActionType,
+} from '@/lib/scripts/declarative-rule';
+
+export const EMPTY_RULE_DEFINITION: DeclarativeRuleDefinition = {
+  match: 'all',
+  conditions: [],
+  actions: [],
+};
+
+const INPUT_CLASS = 'px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-200 focus:border-primary-500 outline-none';
+
+function newCondition(type: DeclarativeConditionType, field?: string): DeclarativeCondition {
+  switch (type) {
+    case 'matches_regex':
+      return { type, field, pattern: '' };
+    case 'in_list':
+      return { type, field, values: [] };
+    case 'is_empty':
+      return { type, field };
+    case 'length_between':
+      return { type, field };
+  }
+}
+
+function newAction(type: DeclarativeActionType, field?: string): DeclarativeAction {
+  switch (type) {
+    case 'set_value':
+      return { type, field, value: '' };
+    case 'trim':
+      return { type, field };
+    case 'map_values':
+      return { type, field, mappings: [{ from: '', to: '' }] };
+    case 'raise_error':
+      return { type, field, message: '' };
+    case 'raise_warning':
+      return { type, field, message: '' };
+  }
+}
+
+// Optional number input value → number | undefined
+function parseOptionalNumber(value: string): number | undefined {
+  return value.trim() === '' ? undefined : Number(value);
+}
+
+interface RuleBuilderProps {
+  value: DeclarativeRuleDefinition;
+  onChange: (value: DeclarativeRuleDefinition) => void;
+  ruleType: 'transform' | 'validate';
+  // First target field — used as the placeholder for conditions/actions without a field
+  defaultField?: string;
+}
+
+/**
+ * Form-based editor for no-code rules. Produces the JSON stored in
+ * `AccountRule.config.declarative`.
+ */
+export function RuleBuilder({ value, onChange, ruleType, defaultField }: RuleBuilderProps) {
+  const fieldPlaceholder = defaultField ? `Field (default: ${defaultField})` : 'Field';
+
+  const updateCondition = (index: number, condition: DeclarativeCondition) => {
+    onChange({ ...value, conditions: value.conditions.map((c, i) => (i === index ? condition : c)) });
+  };
+
+  const removeCondition = (index: number) => {
+    onChange({ ...value, conditions: value.conditions.filter((_, i) => i !== index) });
+  };
+
+  const updateAction = (index: number, action: DeclarativeAction) => {
+    onChange({ ...value, actions: value.actions.map((a, i) => (i === index ? action : a)) });
+  };
+
+  const removeAction = (index: number) => {
+    onChange({ ...value, actions: value.actions.filter((_, i) => i !== index) });
+  };
+
+  // Data-changing actions only make sense on transform rules
+  const availableActions = ruleType === 'transform'
+    ? ACTION_TYPES
+    : ACTION_TYPES.filter((a) => a.value === 'raise_error' || a.value === 'raise_warning');
+
+  return (
+    <div className="space-y-5">
+      {/* Conditions */}
+      <div>
+        <div className="flex items-center gap-2 mb-2 text-sm text-gray-700">
+          <span className="font-medium">When</span>
+          <select
+            value={value.match}
+            onChange={(e) => onChange({ ...value, match: e.target.value as 'all' | 'any' })}
+            className={INPUT_CLASS}
+          >
+            <option value="all">all</option>
+            <option value="any">any</option>
+          </select>
+          <span>of these conditions match</span>
+        </div>
+
+        {value.conditions.length === 0 && (
+          <p className="text-xs text-gray-400 mb-2">No conditions — the actions run on every row.</p>
+        )}
+
+        <div className="space-y-2">
+          {value.conditions.map((condition, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2 p-3 bg-gray-50 border border-gray-200 rounded-lg">
+              <input
+                type="text"
+                value={condition.field || ''}
+                onChange={(e) => updateCondition(index, { ...condition, field: e.target.value || undefined })}
+                placeholder={fieldPlaceholder}
+                className={`${INPUT_CLASS} w-48`}
+              />
+              <select
+                value={condition.negate ? 'not' : ''}
+                onChange={(e) => updateCondition(index, { ...condition, negate: e.target.value === 'not' })}
+                className={INPUT_CLASS}
+              >
+                <option value="">&nbsp;</option>
+                <option value="not">not</option>
+              </select>
+              <select
+                value={condition.type}
+                onChange={(e) => updateCondition(index, newCondition(e.target.value as DeclarativeConditionType, condition.field))}
+                className={INPUT_CLASS}
+              >
+                {CONDITION_TYPES.map((ct) => (
+                  <option key={ct.value} value={ct.value}>{ct.label}</option>
+                ))}
+              </select>
+
+              {condition.type === 'matches_regex' && (
+                <>
+                  <input
+                    type="text"
+                    value={condition.pattern}
+                    onChange={(e) => updateCondition(index, { ...condition, pattern: e.target.value })}
+                    placeholder="Regular expression, e.g. ^\d{5}$"
+                    className={`${INPUT_CLASS} flex-1 font-mono`}
+                  />
+                  <label className="flex items-center gap-1 text-xs text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={(condition.flags || '').includes('i')}
+                      onChange={(e) => updateCondition(index, { ...condition, flags: e.target.checked ? 'i' : undefined })}
+                      className="w-4 h-4 text-primary-500 focus:ring-primary-500 rounded"
+                    />
+                    Ignore case
+                  </label>
+                </>
+              )}
+
+              {condition.type === 'in_list' && (
+                <textarea
+                  value={condition.values.join('\n')}
+                  onChange={(e) => updateCondition(index, { ...condition, values: e.target.value.split('\n') })}
+                  rows={3}
+                  placeholder="One value per line"
+                  className={`${INPUT_CLASS} flex-1 resize-y`}
+                />
+              )}
+
+              {condition.type === 'length_between' && (
+                <>
+                  <input
+                    type="number"
+                    value={condition.min ?? ''}
+                    onChange={(e) => updateCondition(index, { ...condition, min: parseOptionalNumber(e.target.value) })}
+                    placeholder="Min"
+                    className={`${INPUT_CLASS} w-24`}
+                  />
+                  <span className="text-sm text-gray-500">and</span>
+                  <input
+                    type="number"
+                    value={condition.max ?? ''}
+                    onChange={(e) => updateCondition(index, { ...condition, max: parseOptionalNumber(e.target.value) })}
+                    placeholder="Max"
+                    className={`${INPUT_CLASS} w-24`}
+                  />
+                  <span className="text-sm text-gray-500">characters</span>
+                </>
+              )}
+
+              <button
+                type="button"
+                onClick={() => removeCondition(index)}
+                className="ml-auto p-1.5 text-gray-400 hover:text-red-600 rounded"
+                title="Remove condition"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <button
+          type="button"
+          onClick={() => onChange({ ...value, conditions: [...value.conditions, newCondition('is_empty')] })}
+          className="mt-2 text-sm text-primary-600 hover:underline"
+        >
+          + Add condition
+        </button>
+      </div>
+
+      {/* Actions */}
+      <div>
+        <p className="text-sm font-medium text-gray-700 mb-2">Then</p>
+
+        <div className="space-y-2">
+          {value.actions.map((action, index) => (
+            <div key={index} className="flex flex-wrap items-start gap-2 p-3 bg-gray-50 border border-gray-200 rounded-lg">
+              <select
+                value={action.type}
+                onChange={(e) => updateAction(index, newAction(e.target.value as DeclarativeActionType, action.field))}
+                className={INPUT_CLASS}
+              >
+                {availableActions.map((at) => (
+                  <option key={at.value} value={at.value}>{at.label}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={action.field || ''}
+                onChange={(e) => updateAction(index, { ...action, field: e.target.value || undefined })}
+                placeholder={fieldPlaceholder}
+                className={`${INPUT_CLASS} w-48`}
+              />
+
+              {action.type === 'set_value' && (
+                <input
+                  type="text"
+                  value={action.value}
+                  onChange={(e) => updateAction(index, { ...action, value: e.target.value })}
+                  placeholder="New value"
+                  className={`${INPUT_CLASS} flex-1`}
+                />
+              )}
+
+              {(action.type === 'raise_error' || action.type === 'raise_warning') && (
+                <input
+                  type="text"
+                  value={action.message}
+                  onChange={(e) => updateAction(index, { ...action, message: e.target.value })}
+                  placeholder='Message, e.g. "{value}" is not a valid zip code'
+                  className={`${INPUT_CLASS} flex-1`}
+                />
+              )}
+
+              {action.type === 'map_values' && (
+                <div className="flex-1 space-y-1">
+                  {action.mappings.map((mapping, mi) => (
+                    <div key={mi} className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        value={mapping.from}
+                        onChange={(e) => updateAction(index, {
+                          ...action,
+                          mappings: action.mappings.map((m, i) => (i === mi ? { ...m, from: e.target.value } : m)),
+                        })}
+                        placeholder="From"
+                        className={`${INPUT_CLASS} flex-1`}
+                      />
+                      <span className="text-gray-400">&rarr;</span>
+                      <input
+                        type="text"
+                        value={mapping.to}
+                        onChange={(e) => updateAction(index, {
+                          ...action,
+                          mappings: action.mappings.map((m, i) => (i === mi ? { ...m, to: e.target.value } : m)),
+                        })}
+                        placeholder="To"
+                        className={`${INPUT_CLASS} flex-1`}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => updateAction(index, { ...action, mappings: action.mappings.filter((_, i) => i !== mi) })}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                        title="Remove mapping"
+                      >
+                        &times;
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => updateAction(index, { ...action, mappings: [...action.mappings, { from: '', to: '' }] })}
+                    className="text-xs text-primary-600 hover:underline"
+                  >
+                    + Add mapping
+                  </button>
+                </div>
+              )}
+
+              <button
+                type="button"
+                onClick={() => removeAction(index)}
+                className="ml-auto p-1.5 text-gray-400 hover:text-red-600 rounded"
+                title="Remove action"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <button
+          type="button"
+          onClick={() => onChange({ ...value, actions: [...value.actions, newAction(availableActions[0].value)] })}
+          className="mt-2 text-sm text-primary-600 hover:underline"
+        >
+          + Add action
+        </button>
+        <p className="text-xs text-gray-400 mt-1">
+          Messages can use <code>{'{value}'}</code> and <code>{'{field}'}</code> placeholders.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { useAppStore } from '@/store/useAppStore';
 import type { ColumnMapping } from '@/store/useAppStore';
+import type { HubSpotObjectType } from '@/types';
 import { useAuth } from '@/contexts/AuthContext';
 import {
   getColumnHeadings,
@@ -14,9 +15,19 @@ import {
   autoMatchHeader,
   type ColumnHeading,
 } from '@/lib/client/columnHeadings';
+import { mapHeadersWithProfile } from '@/lib/mappingProfiles';
+import { getMultiObjectColumns, buildMultiObjectRows, summarizeMultiObjectRows } from '@/lib/multiObject';
+import type { MappingProfile } from '@/lib/client/mappingProfiles';
+import { MappingProfilePanel } from './MappingProfilePanel';
 
 const DO_NOT_USE = '__do_not_use__';
 
+const RECORD_TYPE_OPTIONS: { value: HubSpotObjectType; label: string }[] = [
+  { value: 'contacts', label: 'Contact' },
+  { value: 'companies', label: 'Company' },
+  { value: 'deals', label: 'Deal' },
+];
+
 /** Custom dropdown for a single column mapping row */
 function HeadingDropdown({
   value,
@@ -258,7 +269,14 @@ export function ColumnMapper({ onCancel }: { onCancel?: () => void }) {
     columnMapping,
     questionColumnValues,
     objectType,
+    setObjectType,
+    multiObjectImport,
+    multiObjectColumns,
+    setMultiObjectColumns,
     setColumnMapping,
+    setQuestionAnswers,
+    setQuestionColumnValues,
+    setImportRuleOverrides,
     nextStep,
     prevStep,
   } = useAppStore();
@@ -268,6 +286,12 @@ export function ColumnMapper({ onCancel }: { onCancel?: () => void }) {
 
   const [allHeadingsRaw, setAllHeadingsRaw] = useState<ColumnHeading[]>([]);
   const [mapping, setMapping] = useState<ColumnMapping>({});
+  // Mixed imports: record type chosen per column (defaults come from the heading)
+  const [recordTypes, setRecordTypes] = useState<Record<string, HubSpotObjectType>>(() => {
+    const saved: Record<string, HubSpotObjectType> = {};
+    for (const column of multiObjectColumns) saved[column.header] = column.objectType;
+    return saved;
+  });
   const [headingsLoaded, setHeadingsLoaded] = useState(false);
   const [hubspotConnected, setHubspotConnected] = useState(false);
   const mappingInitialized = useRef(false);
@@ -379,7 +403,46 @@ export function ColumnMapper({ onCancel }: { onCancel?: () => void }) {
     }));
   };
 
+  // Apply a saved profile: its mapping wins for the headers it knows; other
+  // columns keep their auto-matched heading
+  const handleApplyProfile = (profile: MappingProfile) => {
+    if (!parsedFile) return;
+    if (profile.objectType) setObjectType(profile.objectType);
+    setQuestionAnswers(profile.questionAnswers);
+    setQuestionColumnValues(profile.questionColumnValues);
+    setImportRuleOverrides(profile.ruleOverrides);
+
+    const profileQuestionHeaders = Object.keys(profile.questionColumnValues).filter(
+      (h) => !parsedFile.headers.includes(h)
+    );
+    const profileMapping = mapHeadersWithProfile(profile, [...parsedFile.headers, ...profileQuestionHeaders]);
+    setMapping((prev) => ({ ...prev, ...profileMapping }));
+  };
+
+  // Record type of a column in a mixed import: the user's choice, else the
+  // object type of the HubSpot heading it maps to, else contact
+  const getRecordType = (header: string): HubSpotObjectType => {
+    if (recordTypes[header]) return recordTypes[header];
+    const heading = headings.find((h) => h.name === mapping[header]);
+    return (heading?.hubspotObjectType as HubSpotObjectType) || 'contacts';
+  };
+
+  const resolveMultiObjectColumns = (headers: string[]) => {
+    const resolved: Record<string, HubSpotObjectType> = {};
+    for (const header of headers) resolved[header] = getRecordType(header);
+    return getMultiObjectColumns(headers, mapping, resolved, headings, DO_NOT_USE);
+  };
+
+  const multiObjectSummary = useMemo(() => {
+    if (!multiObjectImport || !parsedFile) return null;
+    const columns = resolveMultiObjectColumns(parsedFile.headers);
+    return summarizeMultiObjectRows(buildMultiObjectRows(parsedFile.rows, columns));
+  }, [multiObjectImport, parsedFile, mapping, recordTypes, headings]); // eslint-disable-line react-hooks/exhaustive-deps
+
   const handleContinue = () => {
+    if (multiObjectImport) {
+      setMultiObjectColumns(resolveMultiObjectColumns(allHeaders));
+    }
     setColumnMapping(mapping);
     // Save to history so future imports remember these choices
     saveMappingHistory(mapping);
@@ -412,6 +475,23 @@ export function ColumnMapper({ onCancel }: { onCancel?: () => void }) {
         )}
       </div>
 
+      {multiObjectSummary && (
+        <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg text-sm text-gray-700">
+          This file will produce {multiObjectSummary.contacts.toLocaleString()} contacts,{' '}
+          {multiObjectSummary.companies.toLocaleString()} unique companies and{' '}
+          {multiObjectSummary.deals.toLocaleString()} deals. Each contact is associated with its row&apos;s company and deal;
+          rows with the same company domain (or name, when there is no domain) share one company.
+        </div>
+      )}
+
+      <MappingProfilePanel
+        accountId={accountId}
+        userId={user?.id || null}
+        headers={parsedFile.headers}
+        mapping={mapping}
+        onApply={handleApplyProfile}
+      />
+
       {/* Mapping table */}
       <div className="border border-gray-200 rounded-lg overflow-visible">
         <table className="w-full">
@@ -426,6 +506,11 @@ export function ColumnMapper({ onCancel }: { onCancel?: () => void }) {
               <th className="text-left px-4 py-3 text-sm font-medium text-gray-600 w-1/2">
                 Output Heading
               </th>
+              {multiObjectImport && (
+                <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">
+                  Record
+                </th>
+              )}
             </tr>
           </thead>
           <tbody className="divide-y divide-gray-100">
@@ -449,10 +534,13 @@ export function ColumnMapper({ onCancel }: { onCancel?: () => void }) {
                       )}
                       {detectedType && !isExcluded && !isFromQuestion && (
                         <span className="ml-2 text-xs px-2 py-0.5 bg-primary-50 text-primary-600 rounded-full">
-                          {detectedType}
+                          {detectedType} · {Math.round((match?.confidence || 0) * 100)}%
                         </span>
                       )}
                     </div>
+                    {match?.matchReason && !isExcluded && !isFromQuestion && (
+                      <p className="text-xs text-gray-500 mt-0.5">{match.matchReason}</p>
+                    )}
                   </td>
                   <td className="px-4 py-3 text-center text-gray-400">&rarr;</td>
                   <td className="px-4 py-3">
@@ -463,6 +551,24 @@ export function ColumnMapper({ onCancel }: { onCancel?: () => void }) {
                       onAddNew={(name) => handleAddNew(header, name)}
                     />
                   </td>
+                  {multiObjectImport && (
+                    <td className="px-4 py-3">
+                      <select
+                        value={getRecordType(header)}
+                        onChange={(e) =>
+                          setRecordTypes((prev) => ({ ...prev, [header]: e.target.value as HubSpotObjectType }))
+                        }
+                        disabled={isExcluded}
+                        className="px-2 py-1.5 border border-gray-300 rounded-md text-sm bg-white disabled:opacity-50"
+                      >
+                        {RECORD_TYPE_OPTIONS.map((opt) => (
+                          <option key={opt.value} value={opt.value}>
+                            {opt.label}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                  )}
                 </tr>
               );
             })}
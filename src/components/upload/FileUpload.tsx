@@ -2,11 +2,13 @@
 
 import { useCallback, useState } from 'react';
 import { useDropzone } from 'react-dropzone';
-import { parseFile } from '@/lib/fileParser';
+import { parseFile, parseExcelSheets, combineSheets, isExcelFile, type ExcelSheet } from '@/lib/fileParser';
+import { ENCODING_OPTIONS, type FileEncoding } from '@/lib/textEncoding';
 import { autoDetectColumns } from '@/lib/columnDetector';
 import { logInfo, logError, logSuccess } from '@/lib/logger';
 import { useAppStore } from '@/store/useAppStore';
-import type { HubSpotObjectType } from '@/types';
+import type { HubSpotObjectType, ParsedFile } from '@/types';
+import { SheetPicker } from './SheetPicker';
 
 // Maximum rows for free-tier client-side processing.
 // No data is stored on our servers for free-tier users — all
@@ -23,11 +25,17 @@ export function FileUpload({ onCancel }: { onCancel?: () => void }) {
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [rowLimitWarning, setRowLimitWarning] = useState<string | null>(null);
+  // Manual charset for CSV/TSV files; empty means auto-detect
+  const [encoding, setEncoding] = useState<FileEncoding | ''>('');
+  // Workbook waiting for the user to pick sheets
+  const [workbook, setWorkbook] = useState<{ fileName: string; sheets: ExcelSheet[] } | null>(null);
 
   const {
     sessionId,
     objectType,
     setObjectType,
+    multiObjectImport,
+    setMultiObjectImport,
     setParsedFile,
     setProcessedData,
     setHeaderMatches,
@@ -36,11 +44,56 @@ export function FileUpload({ onCancel }: { onCancel?: () => void }) {
     nextStep,
   } = useAppStore();
 
+  // Shared by single-file parses and the sheet picker
+  const loadParsedFile = useCallback(
+    async (parsed: ParsedFile) => {
+      await logSuccess('parse', `Successfully parsed ${parsed.totalRows} rows`, sessionId, {
+        headers: parsed.headers,
+        totalRows: parsed.totalRows,
+        encoding: parsed.encoding,
+        delimiter: parsed.delimiter,
+        skippedRows: parsed.skippedRows,
+      });
+
+      // Enforce client-side row limit for free-tier users
+      if (parsed.totalRows > CLIENT_ROW_LIMIT) {
+        setRowLimitWarning(
+          `Your file contains ${parsed.totalRows.toLocaleString()} rows.`
+        );
+        return;
+      }
+
+      // Clear previous validation results so validation runs fresh
+      setValidationResult(null);
+      setScriptRunnerResult(null);
+
+      setParsedFile(parsed);
+      setProcessedData(parsed.rows);
+
+      // Auto-detect column types from headers and sampled values
+      const matches = autoDetectColumns(parsed.headers, parsed.rows);
+      setHeaderMatches(matches);
+
+      const detectedCount = matches.filter((m) => m.isMatched).length;
+      await logInfo('detect', `Detected ${detectedCount}/${parsed.headers.length} column types`, sessionId, {
+        matches: matches.map((m) => ({
+          header: m.originalHeader,
+          detected: m.matchedField?.hubspotField || 'unknown',
+          confidence: m.confidence,
+        })),
+      });
+
+      // Move to next step
+      nextStep();
+    },
+    [sessionId, setParsedFile, setProcessedData, setHeaderMatches, setValidationResult, setScriptRunnerResult, nextStep]
+  );
+
   const onDrop = useCallback(
     async (acceptedFiles: File[]) => {
       if (acceptedFiles.length === 0) return;
 
-      if (!objectType) {
+      if (!objectType && !multiObjectImport) {
         setError('Please select the type of records you are importing before uploading a file.');
         return;
       }
@@ -49,6 +102,7 @@ export function FileUpload({ onCancel }: { onCancel?: () => void }) {
       setIsProcessing(true);
       setError(null);
       setRowLimitWarning(null);
+      setWorkbook(null);
 
       await logInfo('upload', `Starting file upload: ${file.name}`, sessionId, {
         fileName: file.name,
@@ -57,44 +111,49 @@ export function FileUpload({ onCancel }: { onCancel?: () => void }) {
       });
 
       try {
-        // Parse the file
-        const parsed = await parseFile(file);
-        await logSuccess('parse', `Successfully parsed ${parsed.totalRows} rows`, sessionId, {
-          headers: parsed.headers,
-          totalRows: parsed.totalRows,
-        });
-
-        // Enforce client-side row limit for free-tier users
-        if (parsed.totalRows > CLIENT_ROW_LIMIT) {
-          setRowLimitWarning(
-            `Your file contains ${parsed.totalRows.toLocaleString()} rows.`
-          );
-          setIsProcessing(false);
-          return;
-        }
+        if (isExcelFile(file.name)) {
+          const sheets = await parseExcelSheets(file);
+          const withData = sheets.filter((s) => s.totalRows > 0);
 
-        // Clear previous validation results so validation runs fresh
-        setValidationResult(null);
-        setScriptRunnerResult(null);
+          // Let the user choose when more than one sheet has rows
+          if (withData.length > 1) {
+            await logInfo('parse', `Workbook has ${withData.length} sheets with data`, sessionId, {
+              sheets: sheets.map((s) => ({ name: s.name, rows: s.totalRows, columns: s.headers.length })),
+            });
+            setWorkbook({ fileName: file.name, sheets });
+            return;
+          }
 
-        setParsedFile(parsed);
-        setProcessedData(parsed.rows);
+          await loadParsedFile(combineSheets(file.name, withData.length > 0 ? withData : sheets.slice(0, 1)));
+          return;
+        }
 
-        // Auto-detect column types from headers
-        const matches = autoDetectColumns(parsed.headers);
-        setHeaderMatches(matches);
+        // Parse the file
+        const parsed = await parseFile(file, { encoding: encoding || undefined });
+        await loadParsedFile(parsed);
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+        setError(errorMessage);
+        await logError('upload', errorMessage, sessionId, { error: err });
+      } finally {
+        setIsProcessing(false);
+      }
+    },
+    [sessionId, objectType, multiObjectImport, encoding, loadParsedFile]
+  );
 
-        const detectedCount = matches.filter((m) => m.isMatched).length;
-        await logInfo('detect', `Detected ${detectedCount}/${parsed.headers.length} column types`, sessionId, {
-          matches: matches.map((m) => ({
-            header: m.originalHeader,
-            detected: m.matchedField?.hubspotField || 'unknown',
-            confidence: m.confidence,
-          })),
-        });
+  const handleSheetsConfirm = useCallback(
+    async (sheets: ExcelSheet[]) => {
+      if (!workbook) return;
+      setIsProcessing(true);
+      setError(null);
+      setRowLimitWarning(null);
 
-        // Move to next step
-        nextStep();
+      try {
+        await logInfo('parse', `Importing sheets: ${sheets.map((s) => s.name).join(', ')}`, sessionId);
+        const parsed = combineSheets(workbook.fileName, sheets);
+        setWorkbook(null);
+        await loadParsedFile(parsed);
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
         setError(errorMessage);
@@ -103,13 +162,15 @@ export function FileUpload({ onCancel }: { onCancel?: () => void }) {
         setIsProcessing(false);
       }
     },
-    [sessionId, objectType, setParsedFile, setProcessedData, setHeaderMatches, setValidationResult, setScriptRunnerResult, nextStep]
+    [sessionId, workbook, loadParsedFile]
   );
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
       'text/csv': ['.csv'],
+      'text/tab-separated-values': ['.tsv'],
+      'text/plain': ['.txt'],
       'application/vnd.ms-excel': ['.xls'],
       'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
     },
@@ -128,7 +189,7 @@ export function FileUpload({ onCancel }: { onCancel?: () => void }) {
         <p className="text-sm text-gray-500 mb-4">
           This determines which questions are shown and which HubSpot properties are available for column mapping.
         </p>
-        <div className="grid grid-cols-3 gap-3">
+        <div className="grid grid-cols-4 gap-3">
           {OBJECT_TYPE_OPTIONS.map((opt) => (
             <button
               key={opt.value}
@@ -144,56 +205,98 @@ export function FileUpload({ onCancel }: { onCancel?: () => void }) {
               <span className="text-xs text-gray-500 mt-0.5">{opt.description}</span>
             </button>
           ))}
+          <button
+            type="button"
+            onClick={() => setMultiObjectImport(true)}
+            className={`flex flex-col items-center px-4 py-4 rounded-lg border-2 transition-colors ${
+              multiObjectImport
+                ? 'border-primary-500 bg-primary-50 text-primary-700'
+                : 'border-gray-200 hover:border-gray-300 text-gray-700'
+            }`}
+          >
+            <span className="font-medium">Mixed</span>
+            <span className="text-xs text-gray-500 mt-0.5">Contacts, companies and deals in one file</span>
+          </button>
         </div>
       </div>
 
       {/* File Upload */}
-      <div
-        {...getRootProps()}
-        className={`
-          border-2 border-dashed rounded-lg p-12 text-center cursor-pointer
-          transition-colors duration-200
-          ${isDragActive ? 'border-primary-500 bg-primary-50' : 'border-gray-300 hover:border-primary-400'}
-          ${isProcessing ? 'opacity-50 cursor-not-allowed' : ''}
-        `}
-      >
-        <input {...getInputProps()} />
-
-        <div className="space-y-4">
-          <div className="w-16 h-16 mx-auto bg-gray-100 rounded-full flex items-center justify-center">
-            <svg
-              className="w-8 h-8 text-gray-400"
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
-            >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12"
-              />
-            </svg>
-          </div>
+      {workbook ? (
+        <SheetPicker
+          fileName={workbook.fileName}
+          sheets={workbook.sheets}
+          onConfirm={handleSheetsConfirm}
+          onCancel={() => setWorkbook(null)}
+        />
+      ) : (
+        <div
+          {...getRootProps()}
+          className={`
+            border-2 border-dashed rounded-lg p-12 text-center cursor-pointer
+            transition-colors duration-200
+            ${isDragActive ? 'border-primary-500 bg-primary-50' : 'border-gray-300 hover:border-primary-400'}
+            ${isProcessing ? 'opacity-50 cursor-not-allowed' : ''}
+          `}
+        >
+          <input {...getInputProps()} />
 
-          {isProcessing ? (
-            <div>
-              <div className="animate-spin w-8 h-8 border-4 border-primary-500 border-t-transparent rounded-full mx-auto mb-2" />
-              <p className="text-gray-600">Processing file...</p>
+          <div className="space-y-4">
+            <div className="w-16 h-16 mx-auto bg-gray-100 rounded-full flex items-center justify-center">
+              <svg
+                className="w-8 h-8 text-gray-400"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12"
+                />
+              </svg>
             </div>
-          ) : isDragActive ? (
-            <p className="text-primary-600 font-medium">Drop the file here</p>
-          ) : (
-            <>
-              <p className="text-gray-600">
-                <span className="font-medium text-primary-600">Click to upload</span> or drag and
-                drop
-              </p>
-              <p className="text-sm text-gray-500">CSV, XLS, or XLSX files</p>
-            </>
-          )}
+
+            {isProcessing ? (
+              <div>
+                <div className="animate-spin w-8 h-8 border-4 border-primary-500 border-t-transparent rounded-full mx-auto mb-2" />
+                <p className="text-gray-600">Processing file...</p>
+              </div>
+            ) : isDragActive ? (
+              <p className="text-primary-600 font-medium">Drop the file here</p>
+            ) : (
+              <>
+                <p className="text-gray-600">
+                  <span className="font-medium text-primary-600">Click to upload</span> or drag and
+                  drop
+                </p>
+                <p className="text-sm text-gray-500">CSV, TSV, TXT, XLS, or XLSX files</p>
+              </>
+            )}
+          </div>
         </div>
-      </div>
+      )}
+
+      {!workbook && (
+        <div className="flex items-center gap-3 text-sm">
+          <label htmlFor="file-encoding" className="text-gray-600">Text encoding</label>
+          <select
+            id="file-encoding"
+            value={encoding}
+            onChange={(e) => setEncoding(e.target.value as FileEncoding | '')}
+            disabled={isProcessing}
+            className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+          >
+            <option value="">Auto-detect</option>
+            {ENCODING_OPTIONS.map((opt) => (
+              <option key={opt.value} value={opt.value}>{opt.label}</option>
+            ))}
+          </select>
+          <span className="text-xs text-gray-500">
+            For CSV/TSV files. Change this and re-upload if accented characters look wrong.
+          </span>
+        </div>
+      )}
 
       {error && (
         <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
@@ -0,0 +1,205 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { useAppStore } from '@/store/useAppStore';
+import type { ColumnMapping } from '@/store/useAppStore';
+import { findMatchingProfiles } from '@/lib/mappingProfiles';
+import {
+  fetchMappingProfiles,
+  saveMappingProfile,
+  markMappingProfileUsed,
+  deleteMappingProfile,
+  type MappingProfile,
+} from '@/lib/client/mappingProfiles';
+
+interface MappingProfilePanelProps {
+  accountId: string;
+  userId: string | null;
+  // Spreadsheet headers of the current file (not question columns)
+  headers: string[];
+  mapping: ColumnMapping;
+  onApply: (profile: MappingProfile) => void;
+}
+
+/**
+ * Offers saved mapping profiles whose header set matches the current file, and
+ * saves the current setup (mapping, record type, question answers, rule
+ * overrides) as a named profile.
+ */
+export function MappingProfilePanel({ accountId, userId, headers, mapping, onApply }: MappingProfilePanelProps) {
+  const { objectType, questionAnswers, questionColumnValues, importRuleOverrides } = useAppStore();
+
+  const [profiles, setProfiles] = useState<MappingProfile[]>([]);
+  const [appliedId, setAppliedId] = useState<string | null>(null);
+  const [dismissed, setDismissed] = useState(false);
+  const [selectedId, setSelectedId] = useState<string>('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [showSave, setShowSave] = useState(false);
+  const [profileName, setProfileName] = useState('');
+  const [saveMessage, setSaveMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!accountId) return;
+    fetchMappingProfiles(accountId).then(setProfiles);
+  }, [accountId]);
+
+  const matches = useMemo(() => findMatchingProfiles(headers, profiles), [headers, profiles]);
+  const selected = matches.find((m) => m.profile.id === selectedId) || matches[0];
+  const applied = profiles.find((p) => p.id === appliedId);
+
+  if (!accountId) return null;
+
+  const handleApply = () => {
+    if (!selected) return;
+    onApply(selected.profile);
+    setAppliedId(selected.profile.id);
+    markMappingProfileUsed(accountId, selected.profile.id);
+  };
+
+  const handleSave = async () => {
+    const name = profileName.trim();
+    if (!name) return;
+    setIsSaving(true);
+    setSaveMessage(null);
+
+    const saved = await saveMappingProfile(accountId, userId, {
+      name,
+      objectType,
+      headers,
+      columnMapping: mapping,
+      questionAnswers,
+      questionColumnValues,
+      ruleOverrides: importRuleOverrides,
+    });
+
+    setIsSaving(false);
+    if (!saved) {
+      setSaveMessage('Could not save the profile. Please try again.');
+      return;
+    }
+    setProfiles((prev) => [...prev.filter((p) => p.id !== saved.id && p.name !== saved.name), saved]);
+    setShowSave(false);
+    setProfileName('');
+    setSaveMessage(`Saved profile "${saved.name}"`);
+  };
+
+  const handleDelete = async (profile: MappingProfile) => {
+    if (!confirm(`Delete the mapping profile "${profile.name}"?`)) return;
+    await deleteMappingProfile(accountId, profile.id);
+    setProfiles((prev) => prev.filter((p) => p.id !== profile.id));
+  };
+
+  return (
+    <div className="space-y-3">
+      {applied ? (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+          Applied profile <span className="font-medium">&ldquo;{applied.name}&rdquo;</span>. Record type, question answers and
+          rule choices were set from the profile; you can still adjust any column below.
+        </div>
+      ) : (
+        selected && !dismissed && (
+          <div className="p-4 bg-primary-50 border border-primary-200 rounded-lg">
+            <div className="flex items-start justify-between gap-4">
+              <div className="text-sm">
+                <p className="font-medium text-primary-900">
+                  These columns match your saved profile &ldquo;{selected.profile.name}&rdquo;
+                  <span className="ml-2 text-xs px-2 py-0.5 bg-white text-primary-700 rounded-full">
+                    {Math.round(selected.score * 100)}% of headers
+                  </span>
+                </p>
+                <p className="text-primary-700 mt-1">
+                  Apply it to set the column mapping
+                  {selected.profile.objectType ? `, record type (${selected.profile.objectType})` : ''}, question answers
+                  and rule choices in one step.
+                </p>
+                {matches.length > 1 && (
+                  <select
+                    value={selected.profile.id}
+                    onChange={(e) => setSelectedId(e.target.value)}
+                    className="mt-2 px-2 py-1 border border-primary-200 rounded-md text-sm bg-white"
+                  >
+                    {matches.map((m) => (
+                      <option key={m.profile.id} value={m.profile.id}>
+                        {m.profile.name} ({Math.round(m.score * 100)}%)
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <button
+                  onClick={() => setDismissed(true)}
+                  className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800"
+                >
+                  Dismiss
+                </button>
+                <button
+                  onClick={handleApply}
+                  className="px-4 py-1.5 text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 rounded-lg"
+                >
+                  Apply profile
+                </button>
+              </div>
+            </div>
+          </div>
+        )
+      )}
+
+      <div className="flex items-center gap-3 text-sm">
+        {showSave ? (
+          <>
+            <input
+              type="text"
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+              placeholder="Profile name, e.g. Conference badge scanner"
+              list="mapping-profile-names"
+              className="px-3 py-1.5 border border-gray-300 rounded-md text-sm w-72 focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+              autoFocus
+            />
+            <datalist id="mapping-profile-names">
+              {profiles.map((p) => (
+                <option key={p.id} value={p.name} />
+              ))}
+            </datalist>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !profileName.trim()}
+              className="px-3 py-1.5 text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 rounded-lg disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : profiles.some((p) => p.name === profileName.trim()) ? 'Replace profile' : 'Save profile'}
+            </button>
+            <button onClick={() => setShowSave(false)} className="text-gray-500 hover:text-gray-700">
+              Cancel
+            </button>
+          </>
+        ) : (
+          <button onClick={() => setShowSave(true)} className="text-primary-600 hover:underline font-medium">
+            Save this setup as a mapping profile
+          </button>
+        )}
+        {saveMessage && <span className="text-gray-500">{saveMessage}</span>}
+      </div>
+
+      {profiles.length > 0 && showSave && (
+        <div className="text-xs text-gray-500">
+          Saved profiles:{' '}
+          {profiles.map((p, i) => (
+            <span key={p.id}>
+              {i > 0 && ', '}
+              {p.name}
+              <button
+                onClick={() => handleDelete(p)}
+                className="ml-1 text-red-400 hover:text-red-600"
+                title={`Delete "${p.name}"`}
+              >
+                &times;
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
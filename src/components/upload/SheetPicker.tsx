@@ -0,0 +1,138 @@
+'use client';
+
+import { useState } from 'react';
+import { SOURCE_SHEET_COLUMN, type ExcelSheet } from '@/lib/fileParser';
+
+const PREVIEW_ROWS = 5;
+const PREVIEW_COLUMNS = 8;
+
+interface SheetPickerProps {
+  fileName: string;
+  sheets: ExcelSheet[];
+  onConfirm: (sheets: ExcelSheet[]) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Lets the user choose which sheets of a workbook to import. Picking several
+ * combines them into one import with a _source_sheet column.
+ */
+export function SheetPicker({ fileName, sheets, onConfirm, onCancel }: SheetPickerProps) {
+  // Default to the first sheet that has data
+  const [selected, setSelected] = useState<Set<string>>(() => {
+    const first = sheets.find((s) => s.totalRows > 0);
+    return new Set(first ? [first.name] : []);
+  });
+  const [previewSheet, setPreviewSheet] = useState<string | null>(
+    () => sheets.find((s) => s.totalRows > 0)?.name || null
+  );
+
+  const toggleSheet = (name: string) => {
+    const next = new Set(selected);
+    if (next.has(name)) {
+      next.delete(name);
+    } else {
+      next.add(name);
+    }
+    setSelected(next);
+  };
+
+  const chosen = sheets.filter((s) => selected.has(s.name));
+  const totalRows = chosen.reduce((sum, s) => sum + s.totalRows, 0);
+  const preview = sheets.find((s) => s.name === previewSheet);
+  const previewHeaders = preview ? preview.headers.slice(0, PREVIEW_COLUMNS) : [];
+
+  return (
+    <div className="border rounded-lg p-6 bg-white space-y-4">
+      <div>
+        <h4 className="font-medium text-gray-900">Choose sheets to import</h4>
+        <p className="text-sm text-gray-500 mt-1">
+          <span className="font-medium">{fileName}</span> has {sheets.length} sheets. Select one, or several to combine them
+          into a single import (a <code className="text-xs bg-gray-100 px-1 rounded">{SOURCE_SHEET_COLUMN}</code> column
+          records which sheet each row came from).
+        </p>
+      </div>
+
+      <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+        {sheets.map((sheet) => (
+          <div
+            key={sheet.name}
+            className={`flex items-center justify-between px-4 py-2 ${previewSheet === sheet.name ? 'bg-primary-50' : ''}`}
+          >
+            <label className={`flex items-center gap-3 ${sheet.totalRows === 0 ? 'opacity-50' : 'cursor-pointer'}`}>
+              <input
+                type="checkbox"
+                checked={selected.has(sheet.name)}
+                disabled={sheet.totalRows === 0}
+                onChange={() => toggleSheet(sheet.name)}
+                className="w-4 h-4 text-primary-500 focus:ring-primary-500 rounded"
+              />
+              <span className="text-sm font-medium text-gray-800">{sheet.name}</span>
+              <span className="text-xs text-gray-500">
+                {sheet.totalRows.toLocaleString()} rows • {sheet.headers.length} columns
+              </span>
+            </label>
+            {sheet.totalRows > 0 && (
+              <button
+                type="button"
+                onClick={() => setPreviewSheet(sheet.name)}
+                className="text-xs text-primary-600 hover:underline"
+              >
+                Preview
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {preview && (
+        <div>
+          <p className="text-xs text-gray-500 mb-1">
+            Preview of <span className="font-medium">{preview.name}</span> (first {Math.min(PREVIEW_ROWS, preview.totalRows)} rows
+            {preview.headers.length > PREVIEW_COLUMNS ? `, ${PREVIEW_COLUMNS} of ${preview.headers.length} columns` : ''})
+          </p>
+          <div className="overflow-x-auto border border-gray-200 rounded">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  {previewHeaders.map((h) => (
+                    <th key={h} className="px-3 py-1.5 text-left text-xs font-medium text-gray-600 whitespace-nowrap">{h}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {preview.rows.slice(0, PREVIEW_ROWS).map((row, i) => (
+                  <tr key={i}>
+                    {previewHeaders.map((h) => (
+                      <td key={h} className="px-3 py-1 text-gray-700 whitespace-nowrap max-w-[180px] truncate">
+                        {String(row[h] ?? '')}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between pt-2">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 hover:bg-gray-300 rounded-lg transition-colors"
+        >
+          Choose a different file
+        </button>
+        <button
+          onClick={() => onConfirm(chosen)}
+          disabled={chosen.length === 0}
+          className="px-6 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50"
+        >
+          {chosen.length > 1
+            ? `Combine ${chosen.length} sheets (${totalRows.toLocaleString()} rows)`
+            : `Import ${totalRows.toLocaleString()} rows`}
+        </button>
+      </div>
+    </div>
+  );
+}
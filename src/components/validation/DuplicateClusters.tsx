@@ -0,0 +1,205 @@
+'use client';
+
+import { useState } from 'react';
+import type { DuplicateCluster, DuplicateMerge, ParsedRow } from '@/types';
+
+type CellValue = ParsedRow[string];
+
+function isEmpty(value: CellValue | undefined): boolean {
+  return value === null || value === undefined || String(value).trim() === '';
+}
+
+// Default survivor: the row with the most filled-in values (earliest on ties)
+function pickSurvivor(cluster: DuplicateCluster, rows: ParsedRow[], headers: string[]): number {
+  let best = cluster.rowIndices[0];
+  let bestCount = -1;
+  for (const index of cluster.rowIndices) {
+    const count = headers.filter((h) => !isEmpty(rows[index]?.[h])).length;
+    if (count > bestCount) {
+      best = index;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+// Survivor's values, with blanks filled from the other rows in the cluster
+function defaultValues(cluster: DuplicateCluster, survivor: number, rows: ParsedRow[], headers: string[]): ParsedRow {
+  const values: ParsedRow = {};
+  for (const header of headers) {
+    const own = rows[survivor]?.[header];
+    const fill = cluster.rowIndices.map((i) => rows[i]?.[header]).find((v) => !isEmpty(v));
+    values[header] = isEmpty(own) ? fill ?? null : own;
+  }
+  return values;
+}
+
+interface DuplicateClustersProps {
+  clusters: DuplicateCluster[];
+  // Rows the cluster indices refer to (before any merge is applied)
+  rows: ParsedRow[];
+  headers: string[];
+  merges: DuplicateMerge[];
+  onMergesChange: (merges: DuplicateMerge[]) => void;
+}
+
+/**
+ * Review duplicate clusters: pick the surviving row, choose a value for each
+ * field that differs, and merge. Merged-away rows are dropped from the export.
+ */
+export function DuplicateClusters({ clusters, rows, headers, merges, onMergesChange }: DuplicateClustersProps) {
+  const [showClusters, setShowClusters] = useState(true);
+
+  if (clusters.length === 0) return null;
+
+  const mergedIds = new Set(merges.map((m) => m.clusterId));
+
+  return (
+    <div className="border border-orange-200 rounded-lg overflow-hidden">
+      <button
+        onClick={() => setShowClusters(!showClusters)}
+        className="w-full bg-orange-50 px-4 py-3 flex items-center justify-between border-b border-orange-200 hover:bg-orange-100"
+      >
+        <div className="flex items-center gap-2">
+          <span className="font-medium text-orange-800">Possible Duplicates</span>
+          <span className="text-sm text-orange-600">
+            ({clusters.length} {clusters.length === 1 ? 'cluster' : 'clusters'}, {mergedIds.size} merged)
+          </span>
+        </div>
+        <svg
+          className={`w-5 h-5 text-orange-500 transition-transform ${showClusters ? 'rotate-180' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {showClusters && (
+        <div className="divide-y divide-orange-100 max-h-[600px] overflow-y-auto">
+          {clusters.map((cluster) => (
+            <ClusterCard
+              key={cluster.id}
+              cluster={cluster}
+              rows={rows}
+              headers={headers}
+              merge={merges.find((m) => m.clusterId === cluster.id) || null}
+              onMerge={(merge) => onMergesChange([...merges.filter((m) => m.clusterId !== cluster.id), merge])}
+              onUndo={() => onMergesChange(merges.filter((m) => m.clusterId !== cluster.id))}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ClusterCard({
+  cluster,
+  rows,
+  headers,
+  merge,
+  onMerge,
+  onUndo,
+}: {
+  cluster: DuplicateCluster;
+  rows: ParsedRow[];
+  headers: string[];
+  merge: DuplicateMerge | null;
+  onMerge: (merge: DuplicateMerge) => void;
+  onUndo: () => void;
+}) {
+  const [survivor, setSurvivor] = useState(() => merge?.survivorIndex ?? pickSurvivor(cluster, rows, headers));
+  const [values, setValues] = useState<ParsedRow>(() => merge?.values ?? defaultValues(cluster, survivor, rows, headers));
+
+  // Only fields where the rows disagree need a decision
+  const differing = headers.filter((h) => new Set(cluster.rowIndices.map((i) => String(rows[i]?.[h] ?? '').trim())).size > 1);
+
+  const handleSurvivorChange = (index: number) => {
+    setSurvivor(index);
+    setValues(defaultValues(cluster, index, rows, headers));
+  };
+
+  return (
+    <div className="px-4 py-3">
+      <div className="flex items-start justify-between gap-4 mb-2">
+        <div>
+          <div className="text-sm font-medium text-gray-900">
+            Rows {cluster.rowIndices.map((i) => i + 1).join(', ')}
+            <span className="ml-2 px-2 py-0.5 bg-orange-100 text-orange-700 text-xs rounded-full">
+              {Math.round(cluster.score * 100)}% match
+            </span>
+          </div>
+          <div className="text-xs text-gray-500 mt-0.5">{cluster.reasons.join(' • ')}</div>
+        </div>
+        {merge ? (
+          <div className="flex items-center gap-2 shrink-0">
+            <span className="text-xs text-green-700">Merged into row {merge.survivorIndex + 1}</span>
+            <button onClick={onUndo} className="text-xs text-gray-500 hover:text-gray-700 underline">
+              Undo
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={() => onMerge({ clusterId: cluster.id, rowIndices: cluster.rowIndices, survivorIndex: survivor, values })}
+            className="shrink-0 px-3 py-1.5 text-xs font-medium text-white bg-orange-600 hover:bg-orange-700 rounded-lg"
+          >
+            Merge {cluster.rowIndices.length} rows
+          </button>
+        )}
+      </div>
+
+      <div className="overflow-x-auto border border-gray-200 rounded bg-white">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-1 text-left text-xs text-gray-500 whitespace-nowrap">Keep</th>
+              <th className="px-3 py-1 text-left text-xs text-gray-500">Row</th>
+              {differing.map((h) => (
+                <th key={h} className="px-3 py-1 text-left text-xs text-gray-500 whitespace-nowrap">{h}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {cluster.rowIndices.map((index) => (
+              <tr key={index} className={index === survivor ? 'bg-orange-50' : ''}>
+                <td className="px-3 py-1">
+                  <input
+                    type="radio"
+                    name={`survivor-${cluster.id}`}
+                    checked={index === survivor}
+                    disabled={!!merge}
+                    onChange={() => handleSurvivorChange(index)}
+                    className="w-4 h-4 text-orange-600 focus:ring-orange-500"
+                  />
+                </td>
+                <td className="px-3 py-1 text-gray-500">{index + 1}</td>
+                {differing.map((h) => {
+                  const value = rows[index]?.[h];
+                  const chosen = !isEmpty(value) && String(values[h] ?? '') === String(value);
+                  return (
+                    <td key={h} className="px-3 py-1 whitespace-nowrap max-w-[200px] truncate">
+                      <button
+                        type="button"
+                        disabled={!!merge || isEmpty(value)}
+                        onClick={() => setValues({ ...values, [h]: value ?? null })}
+                        className={`text-left ${chosen ? 'text-orange-800 font-medium' : 'text-gray-600 hover:text-orange-700'} disabled:cursor-default`}
+                        title={chosen ? 'Kept in the merged row' : 'Use this value'}
+                      >
+                        {isEmpty(value) ? <span className="text-gray-300">—</span> : String(value)}
+                      </button>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {differing.length > 0 && !merge && (
+        <p className="text-xs text-gray-400 mt-1">Click a value to keep it in the merged row.</p>
+      )}
+    </div>
+  );
+}
@@ -3,14 +3,20 @@
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAppStore } from '@/store/useAppStore';
-import { getValidationSummary, getScriptSummary, getAvailableScripts } from '@/lib/validator';
+import { getValidationSummary, getScriptSummary, getAvailableScripts, toValidationResult } from '@/lib/validator';
 import { logInfo, logError, logSuccess } from '@/lib/logger';
 import { useAuth } from '@/contexts/AuthContext';
 import { fetchAccountRules, type AccountRule } from '@/lib/client/accountRules';
+import { fetchHubSpotPropertyDefinitions } from '@/lib/client/hubspotProperties';
+import { fetchHubSpotOwners } from '@/lib/client/hubspotOwners';
 import { useValidationWorker } from '@/hooks/useValidationWorker';
+import { DuplicateClusters } from './DuplicateClusters';
 
-import type { DynamicScriptSource } from '@/lib/scripts';
-import type { ScriptResult } from '@/types';
+import type { HubSpotOwner, HubSpotPropertyDefinition } from '@/lib/scripts';
+import { buildRuleRuntime, needsRuntimeData } from '@/lib/scripts/rule-runtime';
+import { splitResultsByRow } from '@/lib/validationDetails';
+import { applyDuplicateMerges, mergedRowPositions, remapScriptResults } from '@/lib/scripts/duplicate-detection';
+import type { ScriptResult, ParsedRow, DuplicateMerge, SavedImportRow } from '@/types';
 
 export function ValidationResults({ onCancel }: { onCancel?: () => void }) {
   const router = useRouter();
@@ -28,12 +34,15 @@ export function ValidationResults({ onCancel }: { onCancel?: () => void }) {
     questionColumnValues,
     importRuleOverrides,
     columnMapping,
+    duplicateMerges,
     setValidationResult,
     setScriptRunnerResult,
     setProcessedData,
     setEnabledScripts,
     toggleScript,
+    setDuplicateMerges,
     prevStep,
+    nextStep,
   } = useAppStore();
 
   const { runValidation: runWorkerValidation, isRunning: isValidating, progress: workerProgress, error: workerError } = useValidationWorker();
@@ -43,6 +52,8 @@ export function ValidationResults({ onCancel }: { onCancel?: () => void }) {
   const [showChanges, setShowChanges] = useState(true);
   const [expandedScripts, setExpandedScripts] = useState<Set<string>>(new Set());
   const [accountRules, setAccountRules] = useState<AccountRule[]>([]);
+  const [hubspotProperties, setHubspotProperties] = useState<HubSpotPropertyDefinition[]>([]);
+  const [hubspotOwners, setHubspotOwners] = useState<HubSpotOwner[]>([]);
   const [toast, setToast] = useState<string | null>(null);
 
   const accountId = user?.accountId || 'default';
@@ -55,33 +66,11 @@ export function ValidationResults({ onCancel }: { onCancel?: () => void }) {
     return match?.originalHeader || fieldName;
   };
 
-  // Build target fields overrides map from account rules
-  const targetFieldsOverrides: Record<string, string[]> = {};
-  for (const rule of accountRules) {
-    if (rule.targetFields.length > 0) {
-      targetFieldsOverrides[rule.ruleId] = rule.targetFields;
-    }
-  }
-
-  // Build dynamic script sources for rules that have executable source code in the DB.
-  // Skip source code that looks like a full TypeScript module (has imports/exports/class
-  // definitions) — those are stored for display in the editor but can't run via new Function().
-  // Only plain JavaScript function bodies are executable at runtime.
-  const isExecutableSource = (code: string) => {
-    const trimmed = code.trimStart();
-    return !trimmed.startsWith('import ') && !trimmed.includes('export class ') && !trimmed.includes('implements IValidationScript');
-  };
-
-  const dynamicScriptSources: DynamicScriptSource[] = accountRules
-    .filter((rule) => rule.sourceCode && isExecutableSource(rule.sourceCode))
-    .map((rule) => ({
-      id: rule.ruleId,
-      name: rule.name,
-      type: rule.ruleType,
-      targetFields: rule.targetFields,
-      order: rule.displayOrder,
-      sourceCode: rule.sourceCode!,
-    }));
+  // Rule configs, target field overrides and dynamic sources from the account rules
+  const { targetFieldsOverrides, ruleConfigs, dynamicScriptSources } = buildRuleRuntime(accountRules, {
+    properties: hubspotProperties,
+    owners: hubspotOwners,
+  });
 
   // Load available scripts and rules, applying import-level overrides
   useEffect(() => {
@@ -105,6 +94,15 @@ export function ValidationResults({ onCancel }: { onCancel?: () => void }) {
           hasOverrides ? importRuleOverrides[r.ruleId] : r.enabled
         );
 
+        // Load property definitions before enabling scripts, since that triggers the first run
+        const needs = needsRuntimeData(enabledRules);
+        if (needs.properties) {
+          setHubspotProperties(await fetchHubSpotPropertyDefinitions());
+        }
+        if (needs.owners) {
+          setHubspotOwners(await fetchHubSpotOwners(accountId));
+        }
+
         setAccountRules(enabledRules);
         setEnabledScripts(enabledRules.map((r) => r.ruleId));
       } catch {
@@ -117,6 +115,25 @@ export function ValidationResults({ onCancel }: { onCancel?: () => void }) {
     loadScriptsAndRules();
   }, [accountId, availableScripts.length, importRuleOverrides, setEnabledScripts]);
 
+  // Apply question column values and duplicate merges to transformed data.
+  // This ensures question answers persist even when validation re-runs from original data
+  const buildFinalData = (transformedData: ParsedRow[], merges: DuplicateMerge[]): ParsedRow[] => {
+    let finalData = transformedData;
+    if (Object.keys(questionColumnValues).length > 0) {
+      finalData = transformedData.map((row) => ({
+        ...row,
+        ...questionColumnValues,
+      }));
+    }
+    return applyDuplicateMerges(finalData, merges);
+  };
+
+  const handleMergesChange = (merges: DuplicateMerge[]) => {
+    if (!scriptRunnerResult) return;
+    setDuplicateMerges(merges);
+    setProcessedData(buildFinalData(scriptRunnerResult.processedData, merges));
+  };
+
   const runValidation = async () => {
     // Always use original data from parsedFile to ensure scripts see fresh data
     // This prevents issues when re-running validation on already-transformed data
@@ -135,24 +152,18 @@ export function ValidationResults({ onCancel }: { onCancel?: () => void }) {
         requiredFields,
         enabledScripts.length > 0 ? enabledScripts : undefined,
         targetFieldsOverrides,
-        dynamicScriptSources.length > 0 ? dynamicScriptSources : undefined
+        dynamicScriptSources.length > 0 ? dynamicScriptSources : undefined,
+        ruleConfigs
       );
 
       setValidationResult(result.validationResult);
       setScriptRunnerResult(result.scriptRunnerResult);
 
-      // Apply question column values to transformed data
-      // This ensures question answers persist even when validation re-runs from original data
-      let finalData = result.transformedData;
-      if (Object.keys(questionColumnValues).length > 0) {
-        finalData = result.transformedData.map((row) => ({
-          ...row,
-          ...questionColumnValues,
-        }));
-      }
+      // Merges point at rows of the previous run's clusters, so a new run starts without them
+      setDuplicateMerges([]);
 
       // Always update processed data with transformed output from scripts
-      setProcessedData(finalData);
+      setProcessedData(buildFinalData(result.transformedData, []));
 
       if (result.validationResult.isValid) {
         const changes = result.scriptRunnerResult.totalChanges;
@@ -234,7 +245,7 @@ export function ValidationResults({ onCancel }: { onCancel?: () => void }) {
     const fieldMappings: Record<string, string> = {};
     for (const match of headerMatches) {
       if (match.isMatched && match.matchedField) {
-        fieldMappings[match.originalHeader] = match.matchedField.name;
+        fieldMappings[match.originalHeader] = match.matchedField.hubspotField;
       }
     }
 
@@ -258,12 +269,30 @@ export function ValidationResults({ onCancel }: { onCancel?: () => void }) {
         fieldMappings: Object.keys(fieldMappings).length > 0 ? fieldMappings : columnMapping || {},
         userId: user?.id || null,
         enabledRuleCount: enabledScripts.length,
+        questionAnswers: questionColumnValues,
+        ruleOverrides: importRuleOverrides,
       };
 
+      // Keep each row's errors, warnings and changes so History can answer
+      // "why did this value change?" after the fact
+      if (scriptRunnerResult) {
+        const positions = mergedRowPositions(scriptRunnerResult.processedData.length, duplicateMerges);
+        const sourceRows = (parsedFile?.rows || []).filter((_, index) => positions[index] !== null);
+        const mergedResult = remapScriptResults(scriptRunnerResult, duplicateMerges);
+        const { rows: details } = splitResultsByRow(mergedResult, mergedResult.processedData.length);
+        const savedRows: SavedImportRow[] = mergedResult.processedData.map((data, index) => ({
+          rawData: sourceRows[index] || data,
+          data: { ...data, ...questionColumnValues },
+          ...details[index],
+        }));
+        sessionPayload.rows = savedRows;
+      }
+
       if (encodedContent) {
         sessionPayload.fileContent = encodedContent;
         sessionPayload.fileType = 'text/csv';
         sessionPayload.fileSize = csvBytes;
+        sessionPayload.fileEncoding = 'utf-8';
       }
 
       const saveResponse = await fetch('/api/pipeline/sessions', {
@@ -345,8 +374,14 @@ export function ValidationResults({ onCancel }: { onCancel?: () => void }) {
     );
   }
 
-  const summary = getValidationSummary(validationResult);
-  const scriptSummary = getScriptSummary(scriptRunnerResult);
+  // Row numbers in the results refer to the rows as they are after any duplicate merges
+  const mergedResult = remapScriptResults(scriptRunnerResult, duplicateMerges);
+  const mergedValidation = duplicateMerges.length > 0
+    ? toValidationResult(mergedResult, mergedResult.processedData.length)
+    : validationResult;
+  const summary = getValidationSummary(mergedValidation);
+  const scriptSummary = getScriptSummary(mergedResult);
+  const duplicateClusters = scriptRunnerResult.scriptResults.flatMap((r) => r.duplicateClusters || []);
 
   return (
     <div className="space-y-6">
@@ -363,11 +398,11 @@ export function ValidationResults({ onCancel }: { onCancel?: () => void }) {
       {/* Summary cards */}
       <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
         <div className="bg-green-50 border border-green-200 rounded-lg p-4">
-          <div className="text-2xl font-bold text-green-700">{validationResult.validRows}</div>
+          <div className="text-2xl font-bold text-green-700">{mergedValidation.validRows}</div>
           <div className="text-sm text-green-600">Valid Rows</div>
         </div>
         <div className="bg-red-50 border border-red-200 rounded-lg p-4">
-          <div className="text-2xl font-bold text-red-700">{validationResult.invalidRows}</div>
+          <div className="text-2xl font-bold text-red-700">{mergedValidation.invalidRows}</div>
           <div className="text-sm text-red-600">Invalid Rows</div>
         </div>
         <div className="bg-primary-50 border border-primary-200 rounded-lg p-4">
@@ -400,7 +435,7 @@ export function ValidationResults({ onCancel }: { onCancel?: () => void }) {
       )}
 
       {/* Status banner (errors only) */}
-      {!validationResult.isValid && (
+      {!mergedValidation.isValid && (
         <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-center gap-3">
           <svg className="w-6 h-6 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
@@ -433,7 +468,7 @@ export function ValidationResults({ onCancel }: { onCancel?: () => void }) {
 
         {showScripts && (
           <div className="divide-y divide-gray-100">
-            {scriptRunnerResult.scriptResults.map((result) => (
+            {mergedResult.scriptResults.map((result) => (
               <ScriptResultRow
                 key={result.scriptId}
                 result={result}
@@ -494,7 +529,7 @@ export function ValidationResults({ onCancel }: { onCancel?: () => void }) {
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-100">
-                {scriptRunnerResult.scriptResults
+                {mergedResult.scriptResults
                   .flatMap((r) => r.changes.map((c) => ({ ...c, scriptName: r.scriptName })))
                   .slice(0, 100)
                   .map((change, index) => (
@@ -523,7 +558,7 @@ export function ValidationResults({ onCancel }: { onCancel?: () => void }) {
       )}
 
       {/* Error list */}
-      {showErrors && validationResult.errors.length > 0 && (
+      {showErrors && mergedValidation.errors.length > 0 && (
         <div className="border border-red-200 rounded-lg overflow-hidden">
           <div className="bg-red-50 px-4 py-2 border-b border-red-200">
             <h3 className="font-medium text-red-700">Errors</h3>
@@ -539,7 +574,7 @@ export function ValidationResults({ onCancel }: { onCancel?: () => void }) {
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-100">
-                {validationResult.errors.slice(0, 100).map((error, index) => (
+                {mergedValidation.errors.slice(0, 100).map((error, index) => (
                   <tr key={index} className="hover:bg-red-50">
                     <td className="px-4 py-2 text-sm">{error.row}</td>
                     <td className="px-4 py-2 text-sm text-gray-700">{getColumnName(error.field)}</td>
@@ -550,16 +585,16 @@ export function ValidationResults({ onCancel }: { onCancel?: () => void }) {
               </tbody>
             </table>
           </div>
-          {validationResult.errors.length > 100 && (
+          {mergedValidation.errors.length > 100 && (
             <div className="px-4 py-2 bg-gray-50 text-sm text-gray-500 text-center">
-              Showing 100 of {validationResult.errors.length} errors
+              Showing 100 of {mergedValidation.errors.length} errors
             </div>
           )}
         </div>
       )}
 
       {/* Warning list */}
-      {showWarnings && validationResult.warnings.length > 0 && (
+      {showWarnings && mergedValidation.warnings.length > 0 && (
         <div className="border border-yellow-200 rounded-lg overflow-hidden">
           <div className="bg-yellow-50 px-4 py-2 border-b border-yellow-200">
             <h3 className="font-medium text-yellow-700">Warnings</h3>
@@ -575,7 +610,7 @@ export function ValidationResults({ onCancel }: { onCancel?: () => void }) {
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-100">
-                {validationResult.warnings.slice(0, 100).map((warning, index) => (
+                {mergedValidation.warnings.slice(0, 100).map((warning, index) => (
                   <tr key={index} className="hover:bg-yellow-50">
                     <td className="px-4 py-2 text-sm">{warning.row}</td>
                     <td className="px-4 py-2 text-sm text-gray-700">{getColumnName(warning.field)}</td>
@@ -589,6 +624,15 @@ export function ValidationResults({ onCancel }: { onCancel?: () => void }) {
         </div>
       )}
 
+      {/* Duplicate clusters */}
+      <DuplicateClusters
+        clusters={duplicateClusters}
+        rows={scriptRunnerResult.processedData}
+        headers={headerMatches.map((m) => m.originalHeader)}
+        merges={duplicateMerges}
+        onMergesChange={handleMergesChange}
+      />
+
       {/* Data Preview Table */}
       <DataPreviewTable />
 
@@ -610,12 +654,21 @@ export function ValidationResults({ onCancel }: { onCancel?: () => void }) {
             </button>
           )}
         </div>
-        <button
-          onClick={handleExportCSV}
-          className="px-6 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700"
-        >
-          Export Cleaned CSV
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleExportCSV}
+            className="px-6 py-2 text-primary-700 bg-primary-50 border border-primary-200 rounded-lg hover:bg-primary-100"
+          >
+            Export Cleaned CSV
+          </button>
+          <button
+            onClick={nextStep}
+            disabled={processedData.length === 0}
+            className="px-6 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50"
+          >
+            Continue to HubSpot Sync
+          </button>
+        </div>
       </div>
     </div>
   );
@@ -623,7 +676,7 @@ export function ValidationResults({ onCancel }: { onCancel?: () => void }) {
 
 // Data preview table showing transformed data with highlighted changes
 function DataPreviewTable() {
-  const { processedData, headerMatches, scriptRunnerResult, questionColumnValues } = useAppStore();
+  const { processedData, headerMatches, scriptRunnerResult, questionColumnValues, duplicateMerges } = useAppStore();
   const [showPreview, setShowPreview] = useState(false);
   const [previewPage, setPreviewPage] = useState(0);
   const pageSize = 25;
@@ -640,7 +693,7 @@ function DataPreviewTable() {
   // Build a set of changed cells for highlighting
   const changedCells = new Set<string>();
   if (scriptRunnerResult) {
-    for (const result of scriptRunnerResult.scriptResults) {
+    for (const result of remapScriptResults(scriptRunnerResult, duplicateMerges).scriptResults) {
       for (const change of result.changes) {
         changedCells.add(`${change.rowIndex}-${change.field}`);
       }
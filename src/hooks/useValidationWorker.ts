@@ -38,7 +38,8 @@ export function useValidationWorker() {
     requiredFields: string[],
     enabledScriptIds?: string[],
     targetFieldsOverrides?: Record<string, string[]>,
-    dynamicScriptSources?: DynamicScriptSource[]
+    dynamicScriptSources?: DynamicScriptSource[],
+    ruleConfigs?: Record<string, Record<string, unknown>>
   ): Promise<ValidationWorkerResult> => {
     return new Promise((resolve, reject) => {
       // Terminate any existing worker
@@ -107,6 +108,7 @@ export function useValidationWorker() {
         enabledScriptIds,
         targetFieldsOverrides,
         dynamicScriptSources,
+        ruleConfigs,
       };
 
       worker.postMessage(input);
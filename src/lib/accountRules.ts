@@ -4,6 +4,11 @@
  */
 
 import { getServerSupabase } from './supabase';
+import { DEFAULT_ROLES } from './scripts/role-normalization';
+import { DEFAULT_PROGRAM_TYPES } from './scripts/program-type-normalization';
+import { DEFAULT_SOLUTIONS } from './scripts/solution-normalization';
+import { DEFAULT_PHONE_CONFIG } from './scripts/phone-normalization';
+import { DEFAULT_OWNER_CONFIG } from './scripts/owner-resolution';
 
 export interface AccountRule {
   id: string;
@@ -211,16 +216,16 @@ const DEFAULT_RULES = [
     description: 'Validates role values against an allowed list (Admin, Educator, Student, etc.). Non-matching values are set to "Other".',
     rule_type: 'transform' as const,
     target_fields: ['role'],
-    config: { validValues: ['Admin', 'Administrator', 'Ascend Employee', 'ATI Champion', 'ATI Employee', 'Champion Nominee', 'Coordinator', 'Dean', 'Director', 'Educator', 'Instructor', 'Other', 'Proctor', 'Student', 'TEAS Student', 'LMS Admin'] },
+    config: { validValues: DEFAULT_ROLES, fallbackValue: 'Other', synonyms: {} },
     display_order: 15,
   },
   {
     rule_id: 'program-type-normalization',
     name: 'Program Type Normalization',
-    description: 'Normalizes program type values to a standard list (ADN, ASN, BSN, LPN, etc.). Non-matching values are set to "Other".',
+    description: 'Normalizes program type values to a standard list (ADN, BSN, LPN, etc.). Non-matching values are set to "Other".',
     rule_type: 'transform' as const,
     target_fields: ['program_type'],
-    config: { validValues: ['ADN', 'ASN', 'BSN', 'LPN', 'LVN', 'MSN', 'PN', 'RN', 'Other'] },
+    config: { validValues: DEFAULT_PROGRAM_TYPES, fallbackValue: 'Other', synonyms: {} },
     display_order: 16,
   },
   {
@@ -229,7 +234,7 @@ const DEFAULT_RULES = [
     description: 'Validates solution values against an allowed list (OPTIMAL, SUPREME, STO, CARP, BASIC, MID-MARKET, COMPLETE). Non-matching values are set to "Other".',
     rule_type: 'transform' as const,
     target_fields: ['solution'],
-    config: { validValues: ['OPTIMAL', 'SUPREME', 'STO', 'CARP', 'BASIC', 'MID-MARKET', 'COMPLETE'] },
+    config: { validValues: DEFAULT_SOLUTIONS, fallbackValue: 'Other', synonyms: {} },
     display_order: 17,
   },
   {
@@ -244,10 +249,10 @@ const DEFAULT_RULES = [
   {
     rule_id: 'phone-normalization',
     name: 'Phone Normalization',
-    description: 'Formats phone numbers to a consistent format and validates they contain valid digits.',
+    description: 'Normalizes phone numbers to E.164 using the row\'s country column or a default country. Validates per-country length and keeps extensions; numbers that can\'t be normalized are left as-is with a warning.',
     rule_type: 'transform' as const,
     target_fields: ['phone'],
-    config: {},
+    config: { ...DEFAULT_PHONE_CONFIG },
     display_order: 30,
   },
   {
@@ -277,10 +282,28 @@ const DEFAULT_RULES = [
     config: {},
     display_order: 60,
   },
+  {
+    rule_id: 'owner-resolution',
+    name: 'Owner Resolution',
+    description: 'Resolves owner names and emails (e.g. an "Owner" or "Sales Rep" column) to HubSpot owner IDs by email, full name or fuzzy name, and flags owners that can\'t be resolved. Rows without an owner can optionally be assigned round-robin or by state territory.',
+    rule_type: 'transform' as const,
+    target_fields: ['hubspot_owner_id'],
+    config: { ...DEFAULT_OWNER_CONFIG },
+    display_order: 85,
+  },
+  {
+    rule_id: 'hubspot-property-validation',
+    name: 'HubSpot Property Validation',
+    description: 'Checks mapped values against the synced HubSpot property definitions. Picklist labels are rewritten to their internal values; invalid options, numbers, dates and booleans are reported before sync.',
+    rule_type: 'transform' as const,
+    target_fields: ['*'],
+    config: {},
+    display_order: 90,
+  },
   {
     rule_id: 'duplicate-detection',
     name: 'Duplicate Detection',
-    description: 'Identifies potential duplicate records based on email address or name + company combination.',
+    description: 'Groups likely duplicates into scored clusters using email (including local-part variations), normalized phone, and names with nickname and typo tolerance. Clusters can be merged on the results screen.',
     rule_type: 'validate' as const,
     target_fields: ['email', 'firstname', 'lastname', 'company'],
     config: {},
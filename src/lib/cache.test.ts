@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { cache, CACHE_KEYS, CACHE_TTL } from './cache';
+
+// Two accounts, each connected to its own portal
+const accountA = { accountId: 'account-a', portalKey: 'portal-1' };
+const accountB = { accountId: 'account-b', portalKey: 'portal-2' };
+
+test('company and owner keys differ between accounts for the same lookup', () => {
+  assert.notEqual(CACHE_KEYS.companyDomain(accountA, 'acme.com'), CACHE_KEYS.companyDomain(accountB, 'acme.com'));
+  assert.notEqual(CACHE_KEYS.companyName(accountA, 'Acme'), CACHE_KEYS.companyName(accountB, 'Acme'));
+  assert.notEqual(CACHE_KEYS.hubspotOwners(accountA), CACHE_KEYS.hubspotOwners(accountB));
+});
+
+test('keys differ when one account reconnects to another portal', () => {
+  const reconnected = { ...accountA, portalKey: 'portal-3' };
+  assert.notEqual(CACHE_KEYS.companyDomain(accountA, 'acme.com'), CACHE_KEYS.companyDomain(reconnected, 'acme.com'));
+  assert.notEqual(CACHE_KEYS.companyName(accountA, 'Acme'), CACHE_KEYS.companyName(reconnected, 'Acme'));
+  assert.notEqual(CACHE_KEYS.hubspotOwners(accountA), CACHE_KEYS.hubspotOwners(reconnected));
+});
+
+test('company keys ignore the case of the domain or name', () => {
+  assert.equal(CACHE_KEYS.companyDomain(accountA, 'ACME.com'), CACHE_KEYS.companyDomain(accountA, 'acme.com'));
+  assert.equal(CACHE_KEYS.companyName(accountA, 'ACME Corp'), CACHE_KEYS.companyName(accountA, 'acme corp'));
+});
+
+test('every key of an account starts with its account prefix', () => {
+  for (const key of [
+    CACHE_KEYS.companyDomain(accountA, 'acme.com'),
+    CACHE_KEYS.companyName(accountA, 'Acme'),
+    CACHE_KEYS.hubspotOwners(accountA),
+  ]) {
+    assert.ok(key.startsWith(CACHE_KEYS.account(accountA.accountId)));
+    assert.ok(!key.startsWith(CACHE_KEYS.account(accountB.accountId)));
+  }
+});
+
+test('cached values of one account are not visible to another', () => {
+  cache.clear();
+  cache.set(CACHE_KEYS.companyDomain(accountA, 'acme.com'), [{ id: 'a-1' }], CACHE_TTL.COMPANY_SEARCH);
+  cache.set(CACHE_KEYS.companyName(accountA, 'Acme'), [{ id: 'a-1' }], CACHE_TTL.COMPANY_SEARCH);
+  cache.set(CACHE_KEYS.hubspotOwners(accountA), [{ id: 'owner-a' }], CACHE_TTL.OWNERS);
+
+  assert.equal(cache.get(CACHE_KEYS.companyDomain(accountB, 'acme.com')), null);
+  assert.equal(cache.get(CACHE_KEYS.companyName(accountB, 'Acme')), null);
+  assert.equal(cache.get(CACHE_KEYS.hubspotOwners(accountB)), null);
+  assert.deepEqual(cache.get(CACHE_KEYS.hubspotOwners(accountA)), [{ id: 'owner-a' }]);
+});
+
+test("invalidating an account's prefix leaves other accounts' entries", () => {
+  cache.clear();
+  cache.set(CACHE_KEYS.companyDomain(accountA, 'acme.com'), [{ id: 'a-1' }], CACHE_TTL.COMPANY_SEARCH);
+  cache.set(CACHE_KEYS.companyDomain(accountB, 'acme.com'), [{ id: 'b-1' }], CACHE_TTL.COMPANY_SEARCH);
+
+  cache.invalidatePrefix(CACHE_KEYS.account(accountA.accountId));
+
+  assert.equal(cache.get(CACHE_KEYS.companyDomain(accountA, 'acme.com')), null);
+  assert.deepEqual(cache.get(CACHE_KEYS.companyDomain(accountB, 'acme.com')), [{ id: 'b-1' }]);
+});
@@ -52,15 +52,26 @@ export const CACHE_TTL = {
   OWNERS: 10 * 60 * 1000,        // 10 minutes
   CONNECTION: 60 * 1000,          // 1 minute
   COMPANY_SEARCH: 60 * 1000,     // 1 minute (during sync batches)
+  PIPELINES: 10 * 60 * 1000,     // 10 minutes
 } as const;
 
-// Cache keys — per-account where applicable to prevent cross-account contamination
+// The account and HubSpot portal a cached value belongs to
+export interface CacheScope {
+  accountId: string;
+  portalKey: string;
+}
+
+const accountPrefix = (accountId: string) => `account:${accountId}:`;
+const portalPrefix = (scope: CacheScope) => `${accountPrefix(scope.accountId)}portal:${scope.portalKey}:`;
+
+// Cache keys — every key starts with the account (and, for HubSpot data, the
+// portal) so one tenant can never read another's cached records. The
+// connection status is per account only: it is what reports the portal.
 export const CACHE_KEYS = {
-  hubspotOwners: (accountId: string) => `hubspot:owners:${accountId}`,
-  hubspotConnection: (accountId: string) => `hubspot:connection:${accountId}`,
-  companyDomain: (domain: string) => `company:domain:${domain.toLowerCase()}`,
-  companyName: (name: string) => `company:name:${name.toLowerCase()}`,
-  // Legacy constants kept temporarily for any remaining references
-  HUBSPOT_OWNERS: 'hubspot:owners',
-  HUBSPOT_CONNECTION: 'hubspot:connection',
+  account: accountPrefix,
+  hubspotConnection: (accountId: string) => `${accountPrefix(accountId)}hubspot:connection`,
+  hubspotOwners: (scope: CacheScope) => `${portalPrefix(scope)}hubspot:owners`,
+  companyDomain: (scope: CacheScope, domain: string) => `${portalPrefix(scope)}company:domain:${domain.toLowerCase()}`,
+  companyName: (scope: CacheScope, name: string) => `${portalPrefix(scope)}company:name:${name.toLowerCase()}`,
+  pipelines: (scope: CacheScope, objectType: string) => `${portalPrefix(scope)}hubspot:pipelines:${objectType}`,
 } as const;
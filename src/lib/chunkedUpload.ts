@@ -0,0 +1,127 @@
+/**
+ * Chunked Upload — pipeline uploads sent in pieces, for files too large for one
+ * request. Chunks are stored by sequence number until the finalize call checks
+ * them and turns them into upload_rows.
+ *
+ * Checksums are SHA-256 hex digests:
+ *   chunk:  sha256(JSON.stringify(rows) + (fileContent || ''))
+ *   upload: sha256 of the chunk checksums concatenated in sequence order
+ * so a client can compute both while it sends, without holding the whole file.
+ */
+
+import { createHash } from 'crypto';
+import { getServerSupabase } from './supabase';
+import type { ParsedRow } from '@/types';
+
+// Rows accepted in one chunk
+export const MAX_CHUNK_ROWS = 5000;
+
+// Chunks loaded at a time when assembling the upload
+const ASSEMBLE_PAGE_SIZE = 20;
+
+export interface UploadChunkInfo {
+  sequence: number;
+  row_count: number;
+  checksum: string;
+}
+
+export interface ChunkProgress {
+  // Sequences stored so far, ascending
+  receivedChunks: number[];
+  rowsReceived: number;
+  // First sequence not yet received; a client resumes from here
+  nextSequence: number;
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+export function chunkChecksum(rows: unknown[], fileContent?: string | null): string {
+  return sha256(JSON.stringify(rows) + (fileContent || ''));
+}
+
+export function uploadChecksum(chunkChecksums: string[]): string {
+  return sha256(chunkChecksums.join(''));
+}
+
+/** Sequence, row count and checksum of every stored chunk of a session */
+export async function fetchChunkInfo(sessionId: string): Promise<UploadChunkInfo[]> {
+  const { data, error } = await getServerSupabase()
+    .from('upload_chunks')
+    .select('sequence, row_count, checksum')
+    .eq('session_id', sessionId)
+    .order('sequence');
+
+  if (error) throw new Error(`Failed to load upload chunks: ${error.message}`);
+  return (data || []) as UploadChunkInfo[];
+}
+
+export function summarizeChunks(chunks: UploadChunkInfo[]): ChunkProgress {
+  const receivedChunks = chunks.map((c) => c.sequence).sort((a, b) => a - b);
+  let nextSequence = 0;
+  while (receivedChunks[nextSequence] === nextSequence) nextSequence++;
+  return {
+    receivedChunks,
+    rowsReceived: chunks.reduce((sum, c) => sum + c.row_count, 0),
+    nextSequence,
+  };
+}
+
+/**
+ * Check stored chunks against what the client says it sent. Returns the
+ * problem, or null when chunks 0..n-1 are all there with the given row count
+ * and checksum.
+ */
+export function verifyChunks(chunks: UploadChunkInfo[], totalRows: number, checksum: string): string | null {
+  const progress = summarizeChunks(chunks);
+  if (progress.nextSequence !== chunks.length) {
+    return `Chunk ${progress.nextSequence} is missing`;
+  }
+  if (progress.rowsReceived !== totalRows) {
+    return `Received ${progress.rowsReceived} rows but expected ${totalRows}`;
+  }
+  const ordered = chunks.slice().sort((a, b) => a.sequence - b.sequence);
+  if (uploadChecksum(ordered.map((c) => c.checksum)) !== checksum.toLowerCase()) {
+    return 'Checksum does not match the received chunks';
+  }
+  return null;
+}
+
+/** The rows and file content of every chunk, joined in sequence order */
+export async function assembleChunks(sessionId: string, chunkCount: number): Promise<{
+  rows: ParsedRow[];
+  fileContent: string | null;
+}> {
+  const rows: ParsedRow[] = [];
+  const fileParts: string[] = [];
+
+  for (let start = 0; start < chunkCount; start += ASSEMBLE_PAGE_SIZE) {
+    const { data, error } = await getServerSupabase()
+      .from('upload_chunks')
+      .select('sequence, rows, file_content')
+      .eq('session_id', sessionId)
+      .gte('sequence', start)
+      .lt('sequence', start + ASSEMBLE_PAGE_SIZE)
+      .order('sequence');
+
+    if (error) throw new Error(`Failed to load upload chunks: ${error.message}`);
+    for (const chunk of (data || []) as { rows: ParsedRow[]; file_content: string | null }[]) {
+      rows.push(...chunk.rows);
+      if (chunk.file_content) fileParts.push(chunk.file_content);
+    }
+  }
+
+  return { rows, fileContent: fileParts.length > 0 ? fileParts.join('') : null };
+}
+
+export async function deleteChunks(sessionId: string): Promise<void> {
+  const { error } = await getServerSupabase()
+    .from('upload_chunks')
+    .delete()
+    .eq('session_id', sessionId);
+
+  if (error) {
+    console.error(`[chunkedUpload] Failed to delete chunks for session ${sessionId}:`, error.message);
+  }
+}
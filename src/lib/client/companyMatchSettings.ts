@@ -0,0 +1,56 @@
+/**
+ * Client-safe wrapper for company match settings.
+ * Uses fetch() to API routes instead of direct Supabase access.
+ */
+
+import type { CompanyMatchSettings, CompanyMatchSignal, CompanyMatchTieBreak } from '@/types';
+
+export const COMPANY_MATCH_SIGNAL_OPTIONS: { value: CompanyMatchSignal; label: string; description: string }[] = [
+  { value: 'domain', label: 'Company domain', description: "The row's domain or website" },
+  { value: 'email_domain', label: 'Email domain', description: "The contact's email domain, unless it is a personal domain" },
+  { value: 'name', label: 'Company name', description: 'Fuzzy match on the company name' },
+  { value: 'name_location', label: 'Name + city/state', description: 'Fuzzy name match whose city and state agree with the row' },
+];
+
+export const COMPANY_MATCH_TIE_BREAK_OPTIONS: { value: CompanyMatchTieBreak; label: string }[] = [
+  { value: 'most_contacts', label: 'Most associated contacts' },
+  { value: 'most_recent', label: 'Most recently modified' },
+  { value: 'review_task', label: 'Best search hit + review task' },
+];
+
+export async function fetchCompanyMatchSettings(accountId: string): Promise<CompanyMatchSettings | null> {
+  try {
+    const res = await fetch(`/api/company-match-settings?accountId=${encodeURIComponent(accountId)}`);
+    const json = await res.json();
+    if (json.error) {
+      console.error('[companyMatchSettings] API error:', json.error);
+      return null;
+    }
+    return json.data;
+  } catch (err) {
+    console.error('[companyMatchSettings] Fetch error:', err);
+    return null;
+  }
+}
+
+export async function saveCompanyMatchSettings(
+  accountId: string,
+  settings: CompanyMatchSettings
+): Promise<CompanyMatchSettings | null> {
+  try {
+    const res = await fetch('/api/company-match-settings', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ accountId, settings }),
+    });
+    const json = await res.json();
+    if (json.error) {
+      console.error('[companyMatchSettings] Save error:', json.error);
+      return null;
+    }
+    return json.data;
+  } catch (err) {
+    console.error('[companyMatchSettings] Save error:', err);
+    return null;
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Client-safe wrapper for the HubSpot static contact lists of an account.
+ * Uses fetch() to API routes instead of direct HubSpot access.
+ */
+
+import type { HubSpotStaticList } from '@/types';
+
+export async function fetchHubSpotStaticLists(accountId: string): Promise<HubSpotStaticList[]> {
+  try {
+    const res = await fetch('/api/hubspot/lists', {
+      headers: { 'x-account-id': accountId },
+    });
+    const json = await res.json();
+    if (json.error) {
+      console.error('[hubspotLists] API error:', json.error);
+      return [];
+    }
+    return json.lists || [];
+  } catch (err) {
+    console.error('[hubspotLists] Fetch error:', err);
+    return [];
+  }
+}
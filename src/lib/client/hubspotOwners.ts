@@ -0,0 +1,23 @@
+/**
+ * Client-safe wrapper for the HubSpot owners of an account.
+ * Uses fetch() to API routes instead of direct HubSpot access.
+ */
+
+import type { HubSpotOwner } from '@/lib/scripts/owner-resolution';
+
+export async function fetchHubSpotOwners(accountId: string): Promise<HubSpotOwner[]> {
+  try {
+    const res = await fetch('/api/hubspot/owners', {
+      headers: { 'x-account-id': accountId },
+    });
+    const json = await res.json();
+    if (json.error) {
+      console.error('[hubspotOwners] API error:', json.error);
+      return [];
+    }
+    return json.owners || [];
+  } catch (err) {
+    console.error('[hubspotOwners] Fetch error:', err);
+    return [];
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Client-safe wrapper for the synced HubSpot property definitions.
+ * Uses fetch() to API routes instead of direct Supabase access.
+ */
+
+import type { HubSpotObjectType } from '@/types';
+import type { HubSpotPropertyDefinition } from '@/lib/scripts/hubspot-property-validation';
+
+interface DbHubSpotProperty {
+  field_name: string;
+  field_label: string;
+  field_type: string;
+  group_name: string;
+  object_type: string;
+  description: string | null;
+  hubspot_type: string;
+  options: Array<{ label: string; value: string }> | null;
+}
+
+function mapDbToPropertyDefinition(row: DbHubSpotProperty): HubSpotPropertyDefinition {
+  return {
+    name: row.field_name,
+    label: row.field_label,
+    type: row.field_type,
+    fieldType: row.hubspot_type,
+    objectType: row.object_type as HubSpotObjectType,
+    options: row.options || [],
+  };
+}
+
+// Properties for the signed-in user's account (resolved from the session cookie)
+export async function fetchHubSpotPropertyDefinitions(): Promise<HubSpotPropertyDefinition[]> {
+  try {
+    const res = await fetch('/api/hubspot/properties');
+    const json = await res.json();
+    if (!json.success) {
+      console.error('[hubspotProperties] API error:', json.error);
+      return [];
+    }
+    return (json.properties || []).map(mapDbToPropertyDefinition);
+  } catch (err) {
+    console.error('[hubspotProperties] Fetch error:', err);
+    return [];
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Client-safe wrapper for mapping profile operations.
+ * Uses fetch() to API routes instead of direct Supabase access.
+ */
+
+import type { HubSpotObjectType } from '@/types';
+import type { MappingProfile } from '../mappingProfiles';
+
+export type { MappingProfile } from '../mappingProfiles';
+
+interface DbMappingProfile {
+  id: string;
+  account_id: string;
+  name: string;
+  object_type: string | null;
+  headers: string[];
+  column_mapping: Record<string, string>;
+  question_answers: Record<string, { value: string; isOverride: boolean }>;
+  question_column_values: Record<string, string>;
+  rule_overrides: Record<string, boolean>;
+  use_count: number;
+  last_used_at: string | null;
+  created_at: string;
+}
+
+function mapDbToMappingProfile(row: DbMappingProfile): MappingProfile {
+  return {
+    id: row.id,
+    name: row.name,
+    objectType: (row.object_type as HubSpotObjectType) || null,
+    headers: row.headers || [],
+    columnMapping: row.column_mapping || {},
+    questionAnswers: row.question_answers || {},
+    questionColumnValues: row.question_column_values || {},
+    ruleOverrides: row.rule_overrides || {},
+    useCount: row.use_count || 0,
+    lastUsedAt: row.last_used_at,
+    createdAt: row.created_at,
+  };
+}
+
+export type MappingProfileInput = Omit<MappingProfile, 'id' | 'useCount' | 'lastUsedAt' | 'createdAt'>;
+
+export async function fetchMappingProfiles(accountId: string): Promise<MappingProfile[]> {
+  try {
+    const res = await fetch(`/api/mapping-profiles?accountId=${encodeURIComponent(accountId)}`);
+    const json = await res.json();
+    if (json.error) {
+      console.error('[mappingProfiles] API error:', json.error);
+      return [];
+    }
+    return (json.data || []).map(mapDbToMappingProfile);
+  } catch (err) {
+    console.error('[mappingProfiles] Fetch error:', err);
+    return [];
+  }
+}
+
+export async function saveMappingProfile(
+  accountId: string,
+  userId: string | null,
+  profile: MappingProfileInput
+): Promise<MappingProfile | null> {
+  try {
+    const res = await fetch('/api/mapping-profiles', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ accountId, userId, profile }),
+    });
+    const json = await res.json();
+    if (json.error) {
+      console.error('[mappingProfiles] Save error:', json.error);
+      return null;
+    }
+    return mapDbToMappingProfile(json.data);
+  } catch (err) {
+    console.error('[mappingProfiles] Save error:', err);
+    return null;
+  }
+}
+
+export async function markMappingProfileUsed(accountId: string, id: string): Promise<void> {
+  try {
+    await fetch('/api/mapping-profiles', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ accountId, id }),
+    });
+  } catch (err) {
+    console.error('[mappingProfiles] Update error:', err);
+  }
+}
+
+export async function deleteMappingProfile(accountId: string, id: string): Promise<void> {
+  try {
+    await fetch('/api/mapping-profiles', {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ accountId, id }),
+    });
+  } catch (err) {
+    console.error('[mappingProfiles] Delete error:', err);
+  }
+}
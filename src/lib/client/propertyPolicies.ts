@@ -0,0 +1,63 @@
+/**
+ * Client-safe wrapper for property overwrite policy operations.
+ * Uses fetch() to API routes instead of direct Supabase access.
+ */
+
+import type { HubSpotObjectType, PropertyOverwritePolicy } from '@/types';
+
+export const PROPERTY_POLICY_OPTIONS: { value: PropertyOverwritePolicy; label: string }[] = [
+  { value: 'overwrite', label: 'Always overwrite' },
+  { value: 'fill_empty', label: 'Only fill if empty' },
+  { value: 'create_only', label: 'Never update after create' },
+  { value: 'append', label: 'Append (multi-checkbox)' },
+];
+
+// Keyed by "objectType:propertyName"; properties without an entry are overwritten
+export type PropertyPolicyMap = Record<string, PropertyOverwritePolicy>;
+
+export function policyKey(objectType: string, propertyName: string): string {
+  return `${objectType}:${propertyName}`;
+}
+
+export async function fetchPropertyPolicies(accountId: string): Promise<PropertyPolicyMap> {
+  try {
+    const res = await fetch(`/api/property-policies?accountId=${encodeURIComponent(accountId)}`);
+    const json = await res.json();
+    if (json.error) {
+      console.error('[propertyPolicies] API error:', json.error);
+      return {};
+    }
+    const policies: PropertyPolicyMap = {};
+    for (const row of json.data || []) {
+      policies[policyKey(row.object_type, row.property_name)] = row.policy;
+    }
+    return policies;
+  } catch (err) {
+    console.error('[propertyPolicies] Fetch error:', err);
+    return {};
+  }
+}
+
+export async function savePropertyPolicy(
+  accountId: string,
+  objectType: HubSpotObjectType,
+  propertyName: string,
+  policy: PropertyOverwritePolicy
+): Promise<boolean> {
+  try {
+    const res = await fetch('/api/property-policies', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ accountId, objectType, propertyName, policy }),
+    });
+    const json = await res.json();
+    if (json.error) {
+      console.error('[propertyPolicies] Save error:', json.error);
+      return false;
+    }
+    return true;
+  } catch (err) {
+    console.error('[propertyPolicies] Save error:', err);
+    return false;
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Client-safe wrapper for an account's required properties.
+ * Uses fetch() to API routes instead of direct Supabase access.
+ */
+
+export async function fetchRequiredProperties(accountId: string): Promise<string[]> {
+  try {
+    const res = await fetch(`/api/required-properties?accountId=${encodeURIComponent(accountId)}`);
+    const json = await res.json();
+    if (json.error) {
+      console.error('[requiredProperties] API error:', json.error);
+      return [];
+    }
+    return Array.isArray(json.data) ? json.data : [];
+  } catch (err) {
+    console.error('[requiredProperties] Fetch error:', err);
+    return [];
+  }
+}
+
+export async function saveRequiredProperties(accountId: string, properties: string[]): Promise<string | null> {
+  try {
+    const res = await fetch('/api/required-properties', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ accountId, properties }),
+    });
+    const json = await res.json();
+    return json.error || null;
+  } catch (err) {
+    console.error('[requiredProperties] Save error:', err);
+    return 'Failed to save required properties';
+  }
+}
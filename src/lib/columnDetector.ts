@@ -1,4 +1,5 @@
-import type { HeaderMatch } from '@/types';
+import type { HeaderMatch, ParsedRow } from '@/types';
+import { isUsState } from './scripts/state-normalization';
 
 /**
  * Known field patterns: maps a canonical field name to common header variants.
@@ -28,22 +29,160 @@ const FIELD_PATTERNS: Record<string, string[]> = {
   amount: ['amount', 'deal_amount', 'value', 'revenue', 'price'],
 };
 
+// Values sampled per column for content-based detection
+const SAMPLE_SIZE = 50;
+
+// Fewer non-empty values than this and the content says nothing
+const MIN_SAMPLES = 3;
+
+// Share of sampled values that must fit a pattern before it counts
+const MIN_CONTENT_SHARE = 0.6;
+
+// A column matched on content alone never outranks a header match
+const CONTENT_ONLY_WEIGHT = 0.75;
+
+type ContentType = 'email' | 'phone' | 'date' | 'website' | 'state' | 'zip' | 'amount' | 'boolean';
+
+const DATE_PATTERN = new RegExp(
+  [
+    /^\d{4}-\d{1,2}-\d{1,2}([ T]\d{1,2}:\d{2}(:\d{2})?(\.\d+)?(Z|[+-]\d{2}:?\d{2})?)?$/.source,
+    /^\d{1,2}[/.-]\d{1,2}[/.-](\d{2}|\d{4})( \d{1,2}:\d{2}(:\d{2})?( ?[AP]M)?)?$/.source,
+    /^([A-Z][a-z]{2,8}\.? \d{1,2},? \d{4}|\d{1,2} [A-Z][a-z]{2,8}\.? \d{4})$/.source,
+  ].join('|'),
+  'i'
+);
+
 /**
- * Auto-detect column types from raw CSV headers.
+ * Value patterns checked for each sampled cell. Order matters only for the
+ * explanation text; each value is tested against every pattern.
+ */
+const CONTENT_PATTERNS: { type: ContentType; label: string; field: string | null; test: (value: string) => boolean }[] = [
+  {
+    type: 'email',
+    label: 'emails',
+    field: 'email',
+    test: (v) => /^[^\s@]+@[^\s@]+\.[a-z]{2,}$/i.test(v),
+  },
+  {
+    type: 'date',
+    label: 'dates',
+    field: 'date',
+    test: (v) => DATE_PATTERN.test(v),
+  },
+  {
+    type: 'phone',
+    label: 'phone numbers',
+    field: 'phone',
+    test: (v) => {
+      if (!/^\+?[\d\s().-]+((ext\.?|x|#)\s*\d+)?$/i.test(v) || DATE_PATTERN.test(v)) return false;
+      const digits = v.replace(/(ext\.?|x|#)\s*\d+$/i, '').replace(/\D/g, '');
+      return digits.length >= 7 && digits.length <= 15;
+    },
+  },
+  {
+    type: 'website',
+    label: 'URLs or domains',
+    field: 'website',
+    test: (v) => !v.includes('@') && /^(https?:\/\/)?(www\.)?[a-z0-9-]+(\.[a-z0-9-]+)*\.[a-z]{2,}(:\d+)?(\/\S*)?$/i.test(v),
+  },
+  {
+    type: 'state',
+    label: 'US states',
+    field: 'state',
+    test: (v) => isUsState(v),
+  },
+  {
+    type: 'zip',
+    label: 'ZIP codes',
+    field: 'zip',
+    test: (v) => /^\d{5}(-\d{4})?$/.test(v),
+  },
+  {
+    type: 'amount',
+    label: 'currency amounts',
+    field: 'amount',
+    // A currency sign, thousands separators or cents — plain integers are too ambiguous
+    test: (v) => /^-?([$€£]\s?\d[\d,]*(\.\d+)?|\d{1,3}(,\d{3})+(\.\d{1,2})?|\d+\.\d{2}|\d[\d,]*(\.\d+)?\s?(USD|EUR|GBP|CAD|AUD))$/i.test(v),
+  },
+  {
+    type: 'boolean',
+    label: 'yes/no values',
+    // Too many fields hold yes/no to pick one from the values alone
+    field: null,
+    test: (v) => /^(yes|no|y|n|true|false)$/i.test(v),
+  },
+];
+
+interface FieldCandidate {
+  field: string;
+  confidence: number;
+  patternLength: number;
+  reason: string;
+}
+
+interface ContentProfile {
+  sampled: number;
+  // Share of sampled values matching each pattern
+  shares: Partial<Record<ContentType, number>>;
+}
+
+function profileColumn(header: string, rows: ParsedRow[]): ContentProfile {
+  const values: string[] = [];
+  for (const row of rows) {
+    const value = row[header];
+    if (value === null || value === undefined) continue;
+    const text = String(value).trim();
+    if (text === '') continue;
+    values.push(text);
+    if (values.length >= SAMPLE_SIZE) break;
+  }
+
+  const shares: ContentProfile['shares'] = {};
+  if (values.length >= MIN_SAMPLES) {
+    for (const pattern of CONTENT_PATTERNS) {
+      const matched = values.filter((v) => pattern.test(v)).length;
+      if (matched > 0) shares[pattern.type] = matched / values.length;
+    }
+  }
+
+  return { sampled: values.length, shares };
+}
+
+// The content type most of the values fit, if any fits often enough
+function dominantContent(profile: ContentProfile): { type: ContentType; share: number } | null {
+  let best: { type: ContentType; share: number } | null = null;
+  for (const pattern of CONTENT_PATTERNS) {
+    const share = profile.shares[pattern.type] || 0;
+    if (share >= MIN_CONTENT_SHARE && (!best || share > best.share)) {
+      best = { type: pattern.type, share };
+    }
+  }
+  return best;
+}
+
+function describeShare(type: ContentType, share: number): string {
+  const pattern = CONTENT_PATTERNS.find((p) => p.type === type)!;
+  return `${Math.round(share * 100)}% of values look like ${pattern.label}`;
+}
+
+/**
+ * Auto-detect column types from raw CSV headers and, when rows are given, a
+ * sample of each column's values. The header score and the content score are
+ * combined into HeaderMatch.confidence, with the reasoning in matchReason.
  * Returns HeaderMatch objects that validation scripts can consume.
  */
-export function autoDetectColumns(headers: string[]): HeaderMatch[] {
+export function autoDetectColumns(headers: string[], rows: ParsedRow[] = []): HeaderMatch[] {
   // First pass: find the best match candidate for each header
   const candidates = headers.map((header) => {
     const normalized = header.toLowerCase().trim().replace(/[_\-\.\/]/g, ' ').replace(/\s+/g, ' ');
 
-    let bestMatch: { field: string; confidence: number; patternLength: number } | null = null;
+    let bestMatch: FieldCandidate | null = null;
 
     for (const [fieldName, patterns] of Object.entries(FIELD_PATTERNS)) {
       for (const pattern of patterns) {
         const normalizedPattern = pattern.replace(/[_\-\.\/]/g, ' ').replace(/\s+/g, ' ');
         if (normalized === normalizedPattern) {
-          bestMatch = { field: fieldName, confidence: 1.0, patternLength: normalizedPattern.length };
+          bestMatch = { field: fieldName, confidence: 1.0, patternLength: normalizedPattern.length, reason: `Header matches ${fieldName}` };
           break;
         }
         // Partial match: header contains the pattern — prefer longer (more specific) matches
@@ -52,14 +191,17 @@ export function autoDetectColumns(headers: string[]): HeaderMatch[] {
             || bestMatch.confidence < 0.8
             || (bestMatch.confidence === 0.8 && normalizedPattern.length > bestMatch.patternLength);
           if (isBetter) {
-            bestMatch = { field: fieldName, confidence: 0.8, patternLength: normalizedPattern.length };
+            bestMatch = { field: fieldName, confidence: 0.8, patternLength: normalizedPattern.length, reason: `Header contains "${pattern}"` };
           }
         }
       }
       if (bestMatch?.confidence === 1.0) break;
     }
 
-    return { header, bestMatch };
+    const profile = profileColumn(header, rows);
+    bestMatch = applyContent(bestMatch, profile);
+
+    return { header, bestMatch, profile };
   });
 
   // Second pass: deduplicate — when multiple headers match the same field,
@@ -87,12 +229,13 @@ export function autoDetectColumns(headers: string[]): HeaderMatch[] {
     }
   }
 
-  return candidates.map(({ header, bestMatch }) => {
+  return candidates.map(({ header, bestMatch, profile }) => {
     if (bestMatch) {
       return {
         originalHeader: header,
         isMatched: true,
         confidence: bestMatch.confidence,
+        matchReason: bestMatch.reason,
         matchedField: {
           hubspotField: bestMatch.field,
           hubspotLabel: header,
@@ -101,11 +244,55 @@ export function autoDetectColumns(headers: string[]): HeaderMatch[] {
       };
     }
 
+    // Still describe the values so the user has a hint when mapping by hand
+    const content = dominantContent(profile);
     return {
       originalHeader: header,
       isMatched: false,
       confidence: 0,
+      matchReason: content ? describeShare(content.type, content.share) : undefined,
       matchedField: null,
     };
   });
 }
+
+/**
+ * Combine a header match with what the column's values look like:
+ * - values agree with the header's field → confidence rises toward 1
+ * - values don't fit the header's field → confidence drops (down to half)
+ * - no header match → the values alone can map the column, at reduced confidence
+ */
+function applyContent(headerMatch: FieldCandidate | null, profile: ContentProfile): FieldCandidate | null {
+  if (profile.sampled < MIN_SAMPLES) return headerMatch;
+
+  if (headerMatch) {
+    const pattern = CONTENT_PATTERNS.find((p) => p.field === headerMatch.field);
+    // Names, titles, etc. have no value pattern to check against
+    if (!pattern) return headerMatch;
+
+    const share = profile.shares[pattern.type] || 0;
+    if (share >= MIN_CONTENT_SHARE) {
+      return {
+        ...headerMatch,
+        confidence: headerMatch.confidence + (1 - headerMatch.confidence) * share,
+        reason: `${headerMatch.reason}; ${describeShare(pattern.type, share)}`,
+      };
+    }
+    return {
+      ...headerMatch,
+      confidence: headerMatch.confidence * (0.5 + 0.5 * share),
+      reason: `${headerMatch.reason}, but only ${Math.round(share * 100)}% of values look like ${pattern.label}`,
+    };
+  }
+
+  const content = dominantContent(profile);
+  const field = content && CONTENT_PATTERNS.find((p) => p.type === content.type)!.field;
+  if (!content || !field) return null;
+
+  return {
+    field,
+    confidence: CONTENT_ONLY_WEIGHT * content.share,
+    patternLength: 0,
+    reason: describeShare(content.type, content.share),
+  };
+}
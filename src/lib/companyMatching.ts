@@ -0,0 +1,152 @@
+/**
+ * Company matching settings — per account, which signals a sync uses to find
+ * a row's HubSpot company, in what order, with what thresholds, and how it
+ * picks among several candidates. Accounts without settings try the domain,
+ * then the email domain, then a fuzzy name match at 70%.
+ */
+
+import { getServerSupabase } from './supabase';
+import { PERSONAL_DOMAINS } from './scripts/email-validation';
+import type {
+  CompanyMatchExplanation,
+  CompanyMatchSettings,
+  CompanyMatchSignal,
+  CompanyMatchTieBreak,
+  HubSpotCompany,
+} from '@/types';
+
+const SIGNALS: CompanyMatchSignal[] = ['domain', 'email_domain', 'name', 'name_location'];
+const TIE_BREAKS: CompanyMatchTieBreak[] = ['most_contacts', 'most_recent', 'review_task'];
+
+const SIGNAL_LABELS: Record<CompanyMatchSignal, string> = {
+  domain: 'Domain',
+  email_domain: 'Email domain',
+  name: 'Name',
+  name_location: 'Name + city/state',
+};
+
+const TIE_BREAK_LABELS: Record<CompanyMatchTieBreak, string> = {
+  most_contacts: 'most contacts',
+  most_recent: 'most recently modified',
+  review_task: 'best search hit, flagged for review',
+};
+
+// Company properties the tie-breaks read; searches request them alongside the basics
+export const COMPANY_MATCH_PROPERTIES = ['num_associated_contacts', 'hs_lastmodifieddate'];
+
+export const DEFAULT_COMPANY_MATCH_SETTINGS: CompanyMatchSettings = {
+  signals: ['domain', 'email_domain', 'name'],
+  nameThreshold: 0.7,
+  nameLocationThreshold: 0.6,
+  personalDomains: Array.from(PERSONAL_DOMAINS),
+  tieBreak: 'most_contacts',
+};
+
+function readThreshold(value: unknown, fallback: number): number {
+  const threshold = Number(value);
+  return value !== null && value !== undefined && !isNaN(threshold) && threshold >= 0 && threshold <= 1
+    ? threshold
+    : fallback;
+}
+
+/** Validate settings from a request or the database; invalid or missing values fall back to the defaults */
+export function readCompanyMatchSettings(value: Record<string, unknown> | null | undefined): CompanyMatchSettings {
+  if (!value) return DEFAULT_COMPANY_MATCH_SETTINGS;
+
+  const signals = Array.isArray(value.signals)
+    ? value.signals.filter((signal, i, all): signal is CompanyMatchSignal =>
+        SIGNALS.includes(signal as CompanyMatchSignal) && all.indexOf(signal) === i
+      )
+    : DEFAULT_COMPANY_MATCH_SETTINGS.signals;
+
+  const personalDomains = Array.isArray(value.personalDomains)
+    ? value.personalDomains.map((domain) => String(domain).trim().toLowerCase()).filter(Boolean)
+    : DEFAULT_COMPANY_MATCH_SETTINGS.personalDomains;
+
+  const tieBreak = value.tieBreak as CompanyMatchTieBreak;
+
+  return {
+    signals,
+    nameThreshold: readThreshold(value.nameThreshold, DEFAULT_COMPANY_MATCH_SETTINGS.nameThreshold),
+    nameLocationThreshold: readThreshold(value.nameLocationThreshold, DEFAULT_COMPANY_MATCH_SETTINGS.nameLocationThreshold),
+    personalDomains,
+    tieBreak: TIE_BREAKS.includes(tieBreak) ? tieBreak : DEFAULT_COMPANY_MATCH_SETTINGS.tieBreak,
+  };
+}
+
+/** Load an account's settings; the defaults when none are saved or on failure */
+export async function fetchCompanyMatchSettings(accountId: string): Promise<CompanyMatchSettings> {
+  if (!accountId) return DEFAULT_COMPANY_MATCH_SETTINGS;
+
+  const { data, error } = await getServerSupabase()
+    .from('company_match_settings')
+    .select('signals, name_threshold, name_location_threshold, personal_domains, tie_break')
+    .eq('account_id', accountId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[companyMatching] Fetch error:', error);
+    return DEFAULT_COMPANY_MATCH_SETTINGS;
+  }
+  if (!data) return DEFAULT_COMPANY_MATCH_SETTINGS;
+
+  return readCompanyMatchSettings({
+    signals: data.signals,
+    nameThreshold: data.name_threshold,
+    nameLocationThreshold: data.name_location_threshold,
+    personalDomains: data.personal_domains,
+    tieBreak: data.tie_break,
+  });
+}
+
+/** Personal domains match exactly or as a parent domain (mail.yahoo.com) */
+export function isPersonalDomain(settings: CompanyMatchSettings, domain: string): boolean {
+  const lower = domain.toLowerCase();
+  return settings.personalDomains.some((personal) => lower === personal || lower.endsWith(`.${personal}`));
+}
+
+/** The email's domain, or '' when it is a personal domain */
+export function getCompanyEmailDomain(settings: CompanyMatchSettings, email: string): string {
+  const domain = (email.split('@')[1] || '').trim().toLowerCase();
+  return domain && !isPersonalDomain(settings, domain) ? domain : '';
+}
+
+/** Whether the row's city/state (those it has) agree with the company's */
+export function locationMatches(company: HubSpotCompany, city: string, state: string): boolean {
+  const same = (a: string | undefined, b: string) => (a || '').trim().toLowerCase() === b.trim().toLowerCase();
+  return (!city || same(company.city || company.properties.city, city))
+    && (!state || same(company.state || company.properties.state, state));
+}
+
+/** Pick one of several candidates (search order breaks ties) */
+export function pickCandidate<T extends HubSpotCompany>(candidates: T[], tieBreak: CompanyMatchTieBreak): T {
+  if (candidates.length === 1 || tieBreak === 'review_task') return candidates[0];
+
+  const score = (company: HubSpotCompany) =>
+    tieBreak === 'most_contacts'
+      ? Number(company.properties.num_associated_contacts) || 0
+      : Date.parse(company.properties.hs_lastmodifieddate || '') || 0;
+
+  return candidates.reduce((best, company) => (score(company) > score(best) ? company : best));
+}
+
+export function signalLabel(signal: CompanyMatchSignal): string {
+  return SIGNAL_LABELS[signal];
+}
+
+/** Step line for a signal that found companies */
+export function describeCandidates(
+  signal: CompanyMatchSignal,
+  value: string,
+  candidates: number,
+  picked: HubSpotCompany,
+  tieBreak: CompanyMatchTieBreak
+): string {
+  const found = `${SIGNAL_LABELS[signal]} "${value}": ${candidates} ${candidates === 1 ? 'company' : 'companies'}`;
+  return candidates > 1 ? `${found}, picked ${picked.name} (${TIE_BREAK_LABELS[tieBreak]})` : `${found}, matched ${picked.name}`;
+}
+
+/** Body of the review task for a match the tie-break couldn't settle */
+export function buildMatchReviewTaskBody(company: HubSpotCompany, explanation: CompanyMatchExplanation): string {
+  return `Several HubSpot companies matched a row during list import; it was linked to the best search hit.\n\nCompany: ${company.name}\nDomain: ${company.domain || 'N/A'}\n\nHow it matched:\n${explanation.steps.join('\n')}\n\nPlease check the contact belongs to this company.`;
+}
@@ -2,6 +2,8 @@ import { getServerSupabase } from '@/lib/supabase';
 
 const RETENTION_DAYS = 15;
 
+type CrmObjectType = 'contacts' | 'companies' | 'deals';
+
 interface UpsertResult {
   id: string;
   action: 'created' | 'updated';
@@ -18,7 +20,7 @@ interface UpsertResult {
  */
 export async function upsertCrmRecord(
   accountId: string,
-  objectType: 'contacts' | 'companies' | 'deals',
+  objectType: CrmObjectType,
   properties: Record<string, string>,
   hubspotRecordId?: string,
   uploadSessionId?: string
@@ -104,6 +106,46 @@ export async function upsertCrmRecord(
   }
 }
 
+export interface CrmRecordRef {
+  id: string;
+  objectType: CrmObjectType;
+}
+
+/**
+ * Link CRM records created from the same import row (contact ↔ company ↔ deal).
+ * Each record's `associations` holds the ids of its linked records per object
+ * type; existing links are kept so a company collects all of its contacts.
+ */
+export async function linkCrmRecords(records: CrmRecordRef[]): Promise<void> {
+  if (records.length < 2) return;
+
+  for (const record of records) {
+    try {
+      const { data: existing } = await getServerSupabase()
+        .from('crm_records')
+        .select('associations')
+        .eq('id', record.id)
+        .single();
+
+      const associations = ((existing?.associations as Record<string, string[]>) || {});
+      for (const other of records) {
+        if (other.id === record.id) continue;
+        const ids = associations[other.objectType] || [];
+        if (!ids.includes(other.id)) associations[other.objectType] = [...ids, other.id];
+      }
+
+      const { error } = await getServerSupabase()
+        .from('crm_records')
+        .update({ associations })
+        .eq('id', record.id);
+
+      if (error) console.error('CRM link error:', error);
+    } catch (err) {
+      console.error('CRM link exception:', err);
+    }
+  }
+}
+
 /**
  * Bulk upsert records from a sync batch.
  * Stores both contact and company records from each row.
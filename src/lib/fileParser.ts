@@ -1,44 +1,262 @@
 import Papa from 'papaparse';
 import * as XLSX from 'xlsx';
 import type { ParsedFile, ParsedRow } from '@/types';
+import { decodeText, type FileEncoding } from './textEncoding';
 
-export async function parseFile(file: File): Promise<ParsedFile> {
+type CellValue = ParsedRow[string];
+
+export interface ParseOptions {
+  // Decode text files with this charset instead of detecting it
+  encoding?: FileEncoding;
+  // Workbook sheets to import, combined like combineSheets (parseFileContent
+  // only; the first sheet when not given)
+  sheets?: string[];
+}
+
+// Delimiters tried for text files, in order of preference on a tie
+const DELIMITERS = [',', '\t', ';', '|'];
+
+// Lines sampled when guessing the delimiter
+const DELIMITER_SAMPLE_LINES = 50;
+
+// How far down a file the header row may be (title and note rows above it are skipped)
+const HEADER_SCAN_ROWS = 20;
+
+export async function parseFile(file: File, options: ParseOptions = {}): Promise<ParsedFile> {
   const fileName = file.name.toLowerCase();
 
-  if (fileName.endsWith('.csv')) {
-    return parseCSV(file);
-  } else if (fileName.endsWith('.xls') || fileName.endsWith('.xlsx')) {
+  if (isTextFile(fileName)) {
+    return parseText(file, options);
+  } else if (isExcelFile(fileName)) {
     return parseExcel(file);
   } else {
-    throw new Error('Unsupported file format. Please upload a CSV, XLS, or XLSX file.');
+    throw new Error('Unsupported file format. Please upload a CSV, TSV, TXT, XLS, or XLSX file.');
   }
 }
 
-async function parseCSV(file: File): Promise<ParsedFile> {
-  return new Promise((resolve, reject) => {
-    Papa.parse(file, {
-      header: true,
-      skipEmptyLines: true,
-      transformHeader: (header) => header.trim(),
-      complete: (results) => {
-        const headers = results.meta.fields || [];
-        const rows = results.data as ParsedRow[];
-
-        resolve({
-          headers,
-          rows,
-          fileName: file.name,
-          totalRows: rows.length,
-        });
-      },
-      error: (error) => {
-        reject(new Error(`CSV parsing error: ${error.message}`));
-      },
+export function isTextFile(fileName: string): boolean {
+  const lower = fileName.toLowerCase();
+  return lower.endsWith('.csv') || lower.endsWith('.tsv') || lower.endsWith('.txt');
+}
+
+async function parseText(file: File, options: ParseOptions): Promise<ParsedFile> {
+  let buffer: ArrayBuffer;
+  try {
+    buffer = await file.arrayBuffer();
+  } catch {
+    throw new Error('Failed to read the file.');
+  }
+  return parseTextBuffer(buffer, file.name, options);
+}
+
+function parseTextBuffer(buffer: ArrayBuffer, fileName: string, options: ParseOptions): ParsedFile {
+  const { text, encoding } = decodeText(buffer, options.encoding);
+  const delimiter = detectDelimiter(text);
+
+  const results = Papa.parse<string[]>(text, {
+    delimiter,
+    skipEmptyLines: 'greedy',
+  });
+  if (results.data.length === 0 && results.errors.length > 0) {
+    throw new Error(`CSV parsing error: ${results.errors[0].message}`);
+  }
+
+  const { headers, rows, skippedRows } = buildTable(results.data);
+
+  return {
+    headers,
+    rows,
+    fileName,
+    totalRows: rows.length,
+    encoding,
+    delimiter,
+    skippedRows,
+  };
+}
+
+/**
+ * Parse file contents that are already in memory, e.g. a file stored with an
+ * upload session, the way the upload read them: text in the given charset
+ * (detected when not given), workbooks from the given sheets (the first one
+ * when not given). Text is detected from the MIME type or the extension.
+ */
+export function parseFileContent(
+  content: ArrayBuffer,
+  fileName: string,
+  fileType?: string | null,
+  options: ParseOptions = {}
+): ParsedFile {
+  if (fileType?.startsWith('text/') || isTextFile(fileName)) {
+    return parseTextBuffer(content, fileName, options);
+  }
+  if (isExcelFile(fileName)) {
+    const workbook = XLSX.read(content, { type: 'array' });
+    const names = options.sheets?.length ? options.sheets : workbook.SheetNames.slice(0, 1);
+    const missing = names.find((name) => !workbook.Sheets[name]);
+    if (missing) {
+      throw new Error(`The file has no sheet named "${missing}".`);
+    }
+    return combineSheets(fileName, names.map((name) => readSheet(name, workbook.Sheets[name])));
+  }
+  throw new Error('Unsupported file format. Please upload a CSV, TSV, TXT, XLS, or XLSX file.');
+}
+
+/**
+ * Pick the delimiter that splits the most sample lines into the same number
+ * (greater than one) of fields. Title rows split into one field whatever the
+ * delimiter, so they don't sway the result.
+ */
+export function detectDelimiter(text: string): string {
+  const sample = text
+    .split(/\r\n|\n|\r/)
+    .filter((line) => line.trim() !== '')
+    .slice(0, DELIMITER_SAMPLE_LINES)
+    .join('\n');
+
+  let best = { delimiter: ',', lines: 0, fields: 1 };
+  for (const delimiter of DELIMITERS) {
+    const { data } = Papa.parse<string[]>(sample, { delimiter });
+
+    const counts = new Map<number, number>();
+    for (const row of data) {
+      if (row.length > 1) counts.set(row.length, (counts.get(row.length) || 0) + 1);
+    }
+
+    counts.forEach((lines, fields) => {
+      if (lines > best.lines || (lines === best.lines && fields > best.fields)) {
+        best = { delimiter, lines, fields };
+      }
+    });
+  }
+
+  return best.delimiter;
+}
+
+function isFilled(value: CellValue | undefined): boolean {
+  return value !== null && value !== undefined && String(value).trim() !== '';
+}
+
+function filledCount(row: CellValue[]): number {
+  let count = 0;
+  for (const value of row) {
+    if (isFilled(value)) count++;
+  }
+  return count;
+}
+
+/**
+ * Find the header row: the first row that spans at least half the width of
+ * the data and holds only labels (no numbers). Title and note rows above the
+ * real headers are usually a single cell, so they are passed over.
+ */
+export function findHeaderRow(matrix: CellValue[][]): number {
+  const scanned = matrix.slice(0, HEADER_SCAN_ROWS);
+
+  let dataWidth = 0;
+  for (const row of matrix.slice(0, HEADER_SCAN_ROWS * 2)) {
+    dataWidth = Math.max(dataWidth, filledCount(row));
+  }
+  const minWidth = Math.max(1, Math.ceil(dataWidth / 2));
+
+  const index = scanned.findIndex((row) => {
+    if (filledCount(row) < minWidth) return false;
+    return row.filter(isFilled).every((value) => typeof value === 'string' && !/^[\d\s.,$%()+-]+$/.test(value));
+  });
+
+  return index === -1 ? 0 : index;
+}
+
+/**
+ * Give every column a unique name without dropping any: blank headers become
+ * "Column N" and repeats get a numbered suffix ("Email", "Email (2)").
+ */
+export function uniqueHeaders(rawHeaders: string[]): string[] {
+  const used = new Set<string>();
+  return rawHeaders.map((raw, i) => {
+    const base = raw || `Column ${i + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      name = `${base} (${n})`;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+/**
+ * Turn raw rows of cells into keyed rows below the detected header row.
+ * Columns with neither a header nor any data are dropped.
+ */
+function buildTable(matrix: CellValue[][]): { headers: string[]; rows: ParsedRow[]; skippedRows: number } {
+  const headerIndex = findHeaderRow(matrix);
+  const headerRow = matrix[headerIndex] || [];
+  const body = matrix.slice(headerIndex + 1).filter((row) => filledCount(row) > 0);
+
+  let columnCount = headerRow.length;
+  for (const row of body) {
+    columnCount = Math.max(columnCount, row.length);
+  }
+
+  const columns: number[] = [];
+  const rawHeaders: string[] = [];
+  for (let i = 0; i < columnCount; i++) {
+    // Headers are trimmed (Excel and hand-edited CSVs often carry stray spaces)
+    const header = isFilled(headerRow[i]) ? String(headerRow[i]).trim() : '';
+    if (!header && !body.some((row) => isFilled(row[i]))) continue;
+    columns.push(i);
+    rawHeaders.push(header);
+  }
+
+  const headers = uniqueHeaders(rawHeaders);
+  const rows = body.map((cells) => {
+    const row: ParsedRow = {};
+    columns.forEach((column, i) => {
+      row[headers[i]] = cells[column] ?? '';
     });
+    return row;
   });
+
+  return { headers, rows, skippedRows: headerIndex };
+}
+
+// Column added when several sheets are combined into one import
+export const SOURCE_SHEET_COLUMN = '_source_sheet';
+
+export interface ExcelSheet {
+  name: string;
+  headers: string[];
+  rows: ParsedRow[];
+  totalRows: number;
+  // Title/note rows above the header row
+  skippedRows: number;
+}
+
+export function isExcelFile(fileName: string): boolean {
+  const lower = fileName.toLowerCase();
+  return lower.endsWith('.xls') || lower.endsWith('.xlsx');
 }
 
 async function parseExcel(file: File): Promise<ParsedFile> {
+  const sheets = await parseExcelSheets(file);
+  return combineSheets(file.name, sheets.slice(0, 1));
+}
+
+function readSheet(name: string, worksheet: XLSX.WorkSheet): ExcelSheet {
+  // Raw rows of cells so the header row can be found below any title rows
+  const matrix = XLSX.utils.sheet_to_json<CellValue[]>(worksheet, {
+    header: 1,
+    defval: '', // Default value for empty cells
+    blankrows: false,
+  });
+
+  const { headers, rows, skippedRows } = buildTable(matrix);
+  return { name, headers, rows, totalRows: rows.length, skippedRows };
+}
+
+/**
+ * Read every sheet of a workbook, in tab order.
+ */
+export async function parseExcelSheets(file: File): Promise<ExcelSheet[]> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
 
@@ -47,37 +265,7 @@ async function parseExcel(file: File): Promise<ParsedFile> {
         const data = e.target?.result;
         const workbook = XLSX.read(data, { type: 'binary' });
 
-        // Get the first sheet
-        const firstSheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[firstSheetName];
-
-        // Convert to JSON with headers
-        const jsonData = XLSX.utils.sheet_to_json<ParsedRow>(worksheet, {
-          defval: '', // Default value for empty cells
-        });
-
-        // Extract headers and trim them (Excel doesn't auto-trim like CSV)
-        const rawHeaders = jsonData.length > 0 ? Object.keys(jsonData[0]) : [];
-        const headers = rawHeaders.map((h) => h.trim());
-
-        // If any headers were trimmed, we need to update the row objects to use trimmed keys
-        const needsKeyUpdate = rawHeaders.some((h, i) => h !== headers[i]);
-        const rows = needsKeyUpdate
-          ? jsonData.map((row) => {
-              const newRow: ParsedRow = {};
-              for (const [key, value] of Object.entries(row)) {
-                newRow[key.trim()] = value;
-              }
-              return newRow;
-            })
-          : jsonData;
-
-        resolve({
-          headers,
-          rows,
-          fileName: file.name,
-          totalRows: rows.length,
-        });
+        resolve(workbook.SheetNames.map((name) => readSheet(name, workbook.Sheets[name])));
       } catch (error) {
         reject(new Error(`Excel parsing error: ${error instanceof Error ? error.message : 'Unknown error'}`));
       }
@@ -91,6 +279,47 @@ async function parseExcel(file: File): Promise<ParsedFile> {
   });
 }
 
+/**
+ * Build one import from the chosen sheets. A single sheet is used as-is;
+ * several are stacked with their headers merged (in first-seen order) and a
+ * _source_sheet column recording where each row came from.
+ */
+export function combineSheets(fileName: string, sheets: ExcelSheet[]): ParsedFile {
+  if (sheets.length === 0) {
+    return { headers: [], rows: [], fileName, totalRows: 0 };
+  }
+  if (sheets.length === 1) {
+    const [sheet] = sheets;
+    return { headers: sheet.headers, rows: sheet.rows, fileName, totalRows: sheet.totalRows, skippedRows: sheet.skippedRows };
+  }
+
+  const headers: string[] = [];
+  for (const sheet of sheets) {
+    for (const header of sheet.headers) {
+      if (!headers.includes(header)) headers.push(header);
+    }
+  }
+
+  const rows: ParsedRow[] = [];
+  for (const sheet of sheets) {
+    for (const row of sheet.rows) {
+      const combined: ParsedRow = {};
+      for (const header of headers) {
+        combined[header] = row[header] ?? '';
+      }
+      combined[SOURCE_SHEET_COLUMN] = sheet.name;
+      rows.push(combined);
+    }
+  }
+
+  return {
+    headers: [...headers, SOURCE_SHEET_COLUMN],
+    rows,
+    fileName,
+    totalRows: rows.length,
+  };
+}
+
 export function exportToCSV(data: ParsedRow[], fileName: string): void {
   const csv = Papa.unparse(data);
   const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
@@ -310,3 +310,23 @@ export function fuzzyMatchCompanyName(
 
   return { company: null, confidence: 0 };
 }
+
+// Every company whose name scores at least minConfidence, best first
+export function rankCompanyNames<T extends { id: string; name: string }>(
+  searchName: string,
+  companies: T[],
+  minConfidence: number
+): { company: T; confidence: number }[] {
+  if (!searchName || companies.length === 0) return [];
+
+  const fuse = new Fuse(companies, {
+    keys: ['name'],
+    threshold: 1 - minConfidence,
+    includeScore: true,
+  });
+
+  return fuse
+    .search(searchName)
+    .map((result) => ({ company: result.item, confidence: 1 - (result.score ?? 1) }))
+    .filter((result) => result.confidence >= minConfidence);
+}
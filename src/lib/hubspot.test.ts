@@ -0,0 +1,168 @@
+import { test, before, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Client } from '@hubspot/api-client';
+import { cache, CACHE_KEYS } from './cache';
+import {
+  setTokens,
+  getAccountContext,
+  getHubSpotClient,
+  searchCompaniesByDomain,
+  searchCompaniesByName,
+  createCompany,
+  getHubSpotOwners,
+  processRowForHubSpot,
+  type HubSpotAccountContext,
+} from './hubspot';
+import type { SyncLedgerWriter } from './hubspotBatch';
+import type { SyncLedgerEntry } from '@/types';
+
+// Two accounts, each connected to its own portal. There is no database here,
+// so the tokens and portal ids live only in hubspot.ts' in-memory caches.
+const ACCOUNTS = [
+  { accountId: 'account-a', portalId: 'portal-1', accessToken: 'token-a' },
+  { accountId: 'account-b', portalId: 'portal-2', accessToken: 'token-b' },
+];
+
+const contexts: HubSpotAccountContext[] = [];
+const apiCalls: Record<string, number> = {};
+
+// What a portal's HubSpot answers: one company and one owner named after it
+function fakePortal(client: Client, portalId: string) {
+  const company = {
+    id: `${portalId}-company`,
+    properties: { name: `Acme ${portalId}`, domain: 'acme.com', city: null, state: null },
+  };
+  const count = (name: string) => {
+    const key = `${portalId}:${name}`;
+    apiCalls[key] = (apiCalls[key] || 0) + 1;
+  };
+
+  mock.method(client.crm.companies.searchApi, 'doSearch', async () => {
+    count('search');
+    // Answer after the other portal has been asked, so the calls overlap
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    return { total: 1, results: [company] } as never;
+  });
+  mock.method(client.crm.companies.basicApi, 'create', async (input: { properties: Record<string, string> }) => {
+    count('create');
+    return { id: `${portalId}-new`, properties: input.properties } as never;
+  });
+  mock.method(client.crm.owners.ownersApi, 'getPage', async () => {
+    count('owners');
+    return { results: [{ id: `${portalId}-owner`, email: `owner@${portalId}.test`, firstName: 'Owner', lastName: portalId }] } as never;
+  });
+}
+
+before(async () => {
+  delete process.env.HUBSPOT_ACCESS_TOKEN;
+  mock.method(console, 'log', () => {});
+  mock.method(console, 'warn', () => {});
+  mock.method(console, 'error', () => {});
+
+  await Promise.all(
+    ACCOUNTS.map(({ accountId, portalId, accessToken }) =>
+      setTokens({ access_token: accessToken, refresh_token: 'refresh', expires_in: 3600, expires_at: Date.now() + 3600 * 1000 }, accountId, portalId)
+    )
+  );
+
+  for (const { accountId, portalId } of ACCOUNTS) {
+    contexts.push(await getAccountContext(accountId));
+    fakePortal(await getHubSpotClient(accountId), portalId);
+  }
+  cache.clear();
+});
+
+test('each account gets its own portal and client', async () => {
+  assert.deepEqual(contexts, [
+    { accountId: 'account-a', portalKey: 'portal-1' },
+    { accountId: 'account-b', portalKey: 'portal-2' },
+  ]);
+
+  const [clientA, clientB] = await Promise.all(ACCOUNTS.map(({ accountId }) => getHubSpotClient(accountId)));
+  assert.notEqual(clientA, clientB);
+  assert.equal(await getHubSpotClient('account-a'), clientA);
+});
+
+test('concurrent domain searches return and cache each portal its own companies', async () => {
+  const [a, b] = await Promise.all(contexts.map((account) => searchCompaniesByDomain(account, 'acme.com')));
+
+  assert.deepEqual(a.map((company) => company.id), ['portal-1-company']);
+  assert.deepEqual(b.map((company) => company.id), ['portal-2-company']);
+  assert.deepEqual(cache.get<typeof a>(CACHE_KEYS.companyDomain(contexts[0], 'acme.com')), a);
+  assert.deepEqual(cache.get<typeof b>(CACHE_KEYS.companyDomain(contexts[1], 'acme.com')), b);
+
+  // Answered from each account's own cache entry
+  const searches = [apiCalls['portal-1:search'], apiCalls['portal-2:search']];
+  const [againA, againB] = await Promise.all(contexts.map((account) => searchCompaniesByDomain(account, 'ACME.com')));
+  assert.deepEqual([apiCalls['portal-1:search'], apiCalls['portal-2:search']], searches);
+  assert.equal(againA[0].id, 'portal-1-company');
+  assert.equal(againB[0].id, 'portal-2-company');
+});
+
+test('concurrent name searches return and cache each portal its own companies', async () => {
+  const [a, b] = await Promise.all(contexts.map((account) => searchCompaniesByName(account, 'Acme')));
+
+  assert.equal(a[0].id, 'portal-1-company');
+  assert.equal(b[0].id, 'portal-2-company');
+  assert.equal(cache.get<typeof a>(CACHE_KEYS.companyName(contexts[0], 'acme'))![0].id, 'portal-1-company');
+  assert.equal(cache.get<typeof b>(CACHE_KEYS.companyName(contexts[1], 'acme'))![0].id, 'portal-2-company');
+});
+
+test('a company created for one account is only cached for that account', async () => {
+  const created = await createCompany(contexts[0], { name: 'Newco', domain: 'newco.com' });
+
+  assert.equal(created.id, 'portal-1-new');
+  assert.equal(apiCalls['portal-2:create'], undefined);
+  assert.deepEqual(cache.get(CACHE_KEYS.companyDomain(contexts[0], 'newco.com')), [created]);
+  assert.equal(cache.get(CACHE_KEYS.companyDomain(contexts[1], 'newco.com')), null);
+  assert.equal(cache.get(CACHE_KEYS.companyName(contexts[1], 'Newco')), null);
+
+  const [fromB] = await searchCompaniesByDomain(contexts[1], 'newco.com');
+  assert.equal(fromB.id, 'portal-2-company');
+});
+
+test('concurrent owner lookups return each portal its own owners', async () => {
+  const [a, b] = await Promise.all(contexts.map((account) => getHubSpotOwners(account)));
+
+  assert.deepEqual(a.map((owner) => owner.id), ['portal-1-owner']);
+  assert.deepEqual(b.map((owner) => owner.id), ['portal-2-owner']);
+  assert.equal(apiCalls['portal-1:owners'], 1);
+  assert.equal(apiCalls['portal-2:owners'], 1);
+});
+
+test('a company row synced with a ledger records the values its update replaced', async () => {
+  const client = await getHubSpotClient('account-a');
+  mock.method(client.crm.companies.basicApi, 'getById', async () => ({
+    id: 'portal-1-company',
+    properties: { name: 'Acme portal-1', domain: 'acme.com', city: 'Boston', industry: null },
+  }) as never);
+  mock.method(client.crm.companies.basicApi, 'update', async (id: string, input: { properties: Record<string, string> }) =>
+    ({ id, properties: input.properties }) as never
+  );
+  const recorded: SyncLedgerEntry[] = [];
+  const ledger: SyncLedgerWriter = {
+    record: async (entries) => {
+      recorded.push(...entries);
+    },
+    markPendingCreates: async () => [],
+    clearPendingCreates: async () => {},
+  };
+
+  const result = await processRowForHubSpot(
+    contexts[0],
+    3,
+    {},
+    { name: 'Acme portal-1', domain: 'acme.com', city: 'Cambridge', industry: 'Software' },
+    '',
+    { objectType: 'companies', ledger }
+  );
+
+  assert.equal(result.objectType === 'companies' && result.action, 'updated');
+  assert.deepEqual(recorded, [{
+    objectType: 'companies',
+    action: 'updated',
+    hubspotId: 'portal-1-company',
+    rowIndex: 3,
+    previousProperties: { city: 'Boston', industry: null },
+  }]);
+});
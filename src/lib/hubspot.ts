@@ -1,7 +1,34 @@
 import { Client } from '@hubspot/api-client';
-import type { HubSpotCompany, HubSpotContact, HubSpotMatchResult } from '@/types';
-import { fuzzyMatchCompanyName } from './fuzzyMatcher';
+import type {
+  HubSpotCompany,
+  HubSpotContact,
+  HubSpotDeal,
+  HubSpotObjectType,
+  HubSpotSyncResult,
+  HubSpotContactSyncResult,
+  HubSpotCompanySyncResult,
+  HubSpotDealSyncResult,
+  SkippedProperty,
+  CompanyMatchExplanation,
+  CompanyMatchSettings,
+  CompanyMatchSignal,
+  SyncLedgerEntry,
+} from '@/types';
+import { rankCompanyNames } from './fuzzyMatcher';
 import { cache, CACHE_TTL, CACHE_KEYS } from './cache';
+import { withPortalLimit } from './hubspotRateLimiter';
+import { applyPropertyPolicies, getGuardedProperties, type PropertyPolicies } from './propertyPolicies';
+import {
+  COMPANY_MATCH_PROPERTIES,
+  DEFAULT_COMPANY_MATCH_SETTINGS,
+  buildMatchReviewTaskBody,
+  describeCandidates,
+  getCompanyEmailDomain,
+  locationMatches,
+  pickCandidate,
+  signalLabel,
+} from './companyMatching';
+import type { SyncLedgerWriter } from './hubspotBatch';
 
 // ============================================================================
 // HubSpot OAuth
@@ -486,30 +513,44 @@ export function resetClient(accountId?: string) {
   clientTokenCache.delete(acctKey);
 }
 
-// Search for companies by domain (cached during sync batches)
-export async function searchCompaniesByDomain(domain: string): Promise<HubSpotCompany[]> {
-  const cacheKey = CACHE_KEYS.companyDomain(domain);
+// The account a HubSpot call runs for and its portal. Every helper below takes
+// one, so lookups, writes and cached results never cross tenants.
+export interface HubSpotAccountContext {
+  accountId: string;
+  // Falls back to the account when the portal id is unknown
+  portalKey: string;
+}
+
+export async function getAccountContext(accountId: string): Promise<HubSpotAccountContext> {
+  const portalId = await getPortalId(accountId);
+  return { accountId, portalKey: portalId || accountId || 'default' };
+}
+
+// Search for companies by exact domain (cached during sync batches; the batch
+// sync prefetches the same lookups with an IN filter)
+export async function searchCompaniesByDomain(account: HubSpotAccountContext, domain: string): Promise<HubSpotCompany[]> {
+  const cacheKey = CACHE_KEYS.companyDomain(account, domain);
   const cached = cache.get<HubSpotCompany[]>(cacheKey);
   if (cached) return cached;
 
-  const client = await getHubSpotClient();
+  const client = await getHubSpotClient(account.accountId);
 
   try {
-    const response = await client.crm.companies.searchApi.doSearch({
+    const response = await withPortalLimit(account.portalKey, () => client.crm.companies.searchApi.doSearch({
       filterGroups: [
         {
           filters: [
             {
               propertyName: 'domain',
-              operator: 'CONTAINS_TOKEN',
+              operator: 'EQ',
               value: domain,
             },
           ],
         },
       ],
-      properties: ['name', 'domain', 'city', 'state'],
+      properties: ['name', 'domain', 'city', 'state', ...COMPANY_MATCH_PROPERTIES],
       limit: 10,
-    });
+    }), { pool: 'search' });
 
     const results = response.results.map((company) => ({
       id: company.id,
@@ -529,15 +570,15 @@ export async function searchCompaniesByDomain(domain: string): Promise<HubSpotCo
 }
 
 // Search for companies by name (cached during sync batches)
-export async function searchCompaniesByName(name: string): Promise<HubSpotCompany[]> {
-  const cacheKey = CACHE_KEYS.companyName(name);
+export async function searchCompaniesByName(account: HubSpotAccountContext, name: string): Promise<HubSpotCompany[]> {
+  const cacheKey = CACHE_KEYS.companyName(account, name);
   const cached = cache.get<HubSpotCompany[]>(cacheKey);
   if (cached) return cached;
 
-  const client = await getHubSpotClient();
+  const client = await getHubSpotClient(account.accountId);
 
   try {
-    const response = await client.crm.companies.searchApi.doSearch({
+    const response = await withPortalLimit(account.portalKey, () => client.crm.companies.searchApi.doSearch({
       filterGroups: [
         {
           filters: [
@@ -549,9 +590,9 @@ export async function searchCompaniesByName(name: string): Promise<HubSpotCompan
           ],
         },
       ],
-      properties: ['name', 'domain', 'city', 'state'],
+      properties: ['name', 'domain', 'city', 'state', ...COMPANY_MATCH_PROPERTIES],
       limit: 10,
-    });
+    }), { pool: 'search' });
 
     const results = response.results.map((company) => ({
       id: company.id,
@@ -570,8 +611,17 @@ export async function searchCompaniesByName(name: string): Promise<HubSpotCompan
   }
 }
 
-// Find the best matching company for a contact
+export interface CompanyMatch {
+  company: HubSpotCompany | null;
+  matchType: 'exact_domain' | 'fuzzy_name' | 'no_match';
+  confidence: number;
+  explanation: CompanyMatchExplanation;
+}
+
+// Find the best matching company for a contact, trying the account's match
+// signals in order. The explanation records what each signal found.
 export async function findBestCompanyMatch(
+  account: HubSpotAccountContext,
   contactData: {
     email?: string;
     institution?: string;
@@ -579,80 +629,120 @@ export async function findBestCompanyMatch(
     domain?: string;
     city?: string;
     state?: string;
-  }
-): Promise<{ company: HubSpotCompany | null; matchType: 'exact_domain' | 'fuzzy_name' | 'no_match'; confidence: number }> {
+  },
+  settings: CompanyMatchSettings = DEFAULT_COMPANY_MATCH_SETTINGS
+): Promise<CompanyMatch> {
+  const steps: string[] = [];
+  const searchName = contactData.officialName || contactData.institution || '';
+  const city = contactData.city || '';
+  const state = contactData.state || '';
+
+  for (const signal of settings.signals) {
+    if (signal === 'domain' || signal === 'email_domain') {
+      const emailDomain = (contactData.email || '').split('@')[1] || '';
+      const domain = signal === 'domain' ? contactData.domain || '' : getCompanyEmailDomain(settings, contactData.email || '');
+      if (!domain) {
+        steps.push(`${signalLabel(signal)}: ${signal === 'email_domain' && emailDomain ? `${emailDomain} is a personal domain` : 'no value'}`);
+        continue;
+      }
+
+      const candidates = await searchCompaniesByDomain(account, domain);
+      if (candidates.length === 0) {
+        steps.push(`${signalLabel(signal)} "${domain}": no companies`);
+        continue;
+      }
 
-  // First, try exact domain match
-  if (contactData.domain) {
-    const domainMatches = await searchCompaniesByDomain(contactData.domain);
-    if (domainMatches.length > 0) {
+      const company = pickCandidate(candidates, settings.tieBreak);
+      steps.push(describeCandidates(signal, domain, candidates.length, company, settings.tieBreak));
       return {
-        company: domainMatches[0],
+        company,
         matchType: 'exact_domain',
-        confidence: 1,
+        confidence: signal === 'domain' ? 1 : 0.9,
+        explanation: buildExplanation(signal, domain, candidates.length, settings, steps),
       };
     }
-  }
 
-  // Try to extract domain from email
-  if (contactData.email) {
-    const emailDomain = contactData.email.split('@')[1];
-    if (emailDomain && !emailDomain.includes('gmail') && !emailDomain.includes('yahoo') && !emailDomain.includes('hotmail')) {
-      const domainMatches = await searchCompaniesByDomain(emailDomain);
-      if (domainMatches.length > 0) {
-        return {
-          company: domainMatches[0],
-          matchType: 'exact_domain',
-          confidence: 0.9,
-        };
-      }
+    if (!searchName) {
+      steps.push(`${signalLabel(signal)}: no company name`);
+      continue;
+    }
+    if (signal === 'name_location' && !city && !state) {
+      steps.push(`${signalLabel(signal)}: no city or state`);
+      continue;
     }
-  }
 
-  // Try fuzzy name match with official name or institution
-  const searchName = contactData.officialName || contactData.institution;
-  if (searchName) {
-    const nameMatches = await searchCompaniesByName(searchName);
-    if (nameMatches.length > 0) {
-      const fuzzyResult = fuzzyMatchCompanyName(
-        searchName,
-        nameMatches.map((c) => ({ id: c.id, name: c.name }))
+    const threshold = signal === 'name' ? settings.nameThreshold : settings.nameLocationThreshold;
+    const nameMatches = await searchCompaniesByName(account, searchName);
+    const named = rankCompanyNames(searchName, nameMatches, threshold);
+    const ranked = signal === 'name' ? named : named.filter(({ company }) => locationMatches(company, city, state));
+    if (ranked.length === 0) {
+      steps.push(
+        named.length === 0
+          ? `${signalLabel(signal)} "${searchName}": no companies at ${Math.round(threshold * 100)}% or more`
+          : `${signalLabel(signal)} "${searchName}": ${named.length} by name, none in ${[city, state].filter(Boolean).join(', ')}`
       );
-
-      if (fuzzyResult.company && fuzzyResult.confidence >= 0.7) {
-        const matchedCompany = nameMatches.find((c) => c.id === fuzzyResult.company!.id);
-        return {
-          company: matchedCompany || null,
-          matchType: 'fuzzy_name',
-          confidence: fuzzyResult.confidence,
-        };
-      }
+      continue;
     }
+
+    const company = pickCandidate(ranked.map((match) => match.company), settings.tieBreak);
+    steps.push(describeCandidates(signal, searchName, ranked.length, company, settings.tieBreak));
+    return {
+      company,
+      matchType: 'fuzzy_name',
+      confidence: ranked.find((match) => match.company.id === company.id)!.confidence,
+      explanation: buildExplanation(signal, searchName, ranked.length, settings, steps),
+    };
   }
 
-  return { company: null, matchType: 'no_match', confidence: 0 };
+  return {
+    company: null,
+    matchType: 'no_match',
+    confidence: 0,
+    explanation: { signal: null, candidates: 0, steps },
+  };
+}
+
+function buildExplanation(
+  signal: CompanyMatchSignal,
+  value: string,
+  candidates: number,
+  settings: CompanyMatchSettings,
+  steps: string[]
+): CompanyMatchExplanation {
+  const explanation: CompanyMatchExplanation = { signal, value, candidates, steps };
+  if (candidates > 1) {
+    explanation.tieBreak = settings.tieBreak;
+    explanation.needsReview = settings.tieBreak === 'review_task';
+  }
+  return explanation;
 }
 
 // Create a new company in HubSpot
-export async function createCompany(companyData: {
+// Any other property values (company imports) are sent along with the basics
+export async function createCompany(account: HubSpotAccountContext, companyData: {
   name: string;
   domain?: string;
   city?: string;
   state?: string;
+  properties?: Record<string, string>;
 }): Promise<HubSpotCompany> {
-  const client = await getHubSpotClient();
+  const client = await getHubSpotClient(account.accountId);
 
-  const properties: Record<string, string> = {
-    name: companyData.name,
-  };
+  const properties: Record<string, string> = {};
+  for (const [key, value] of Object.entries(companyData.properties || {})) {
+    if (value && value.trim()) {
+      properties[key] = value.trim();
+    }
+  }
+  properties.name = companyData.name;
 
   if (companyData.domain) properties.domain = companyData.domain;
   if (companyData.city) properties.city = companyData.city;
   if (companyData.state) properties.state = companyData.state;
 
-  const response = await client.crm.companies.basicApi.create({
+  const response = await withPortalLimit(account.portalKey, () => client.crm.companies.basicApi.create({
     properties,
-  });
+  }), { create: true });
 
   const newCompany: HubSpotCompany = {
     id: response.id,
@@ -665,21 +755,58 @@ export async function createCompany(companyData: {
 
   // Cache the new company so subsequent contacts with same domain/name find it
   if (companyData.domain) {
-    cache.set(CACHE_KEYS.companyDomain(companyData.domain), [newCompany], CACHE_TTL.COMPANY_SEARCH);
+    cache.set(CACHE_KEYS.companyDomain(account, companyData.domain), [newCompany], CACHE_TTL.COMPANY_SEARCH);
   }
   if (companyData.name) {
-    cache.set(CACHE_KEYS.companyName(companyData.name), [newCompany], CACHE_TTL.COMPANY_SEARCH);
+    cache.set(CACHE_KEYS.companyName(account, companyData.name), [newCompany], CACHE_TTL.COMPANY_SEARCH);
   }
 
   return newCompany;
 }
 
+// Values an update replaced, for the sync ledger (null = was empty)
+type PreviousProperties = Record<string, string | null>;
+
+// Apply the account's overwrite policies to an update of an existing record,
+// reading the current values of just the properties a policy guards — or of
+// every property written, when the values it replaces are wanted (`previous`)
+async function applyPoliciesToUpdate(
+  account: HubSpotAccountContext,
+  client: Client,
+  objectType: HubSpotObjectType,
+  id: string,
+  properties: Record<string, string>,
+  policies: PropertyPolicies,
+  readPrevious = false
+): Promise<{ properties: Record<string, string>; skipped: SkippedProperty[]; previous: PreviousProperties }> {
+  const toRead = readPrevious ? Object.keys(properties) : getGuardedProperties(policies, objectType, properties);
+  if (toRead.length === 0) return { properties, skipped: [], previous: {} };
+
+  const api =
+    objectType === 'companies' ? client.crm.companies.basicApi
+    : objectType === 'deals' ? client.crm.deals.basicApi
+    : client.crm.contacts.basicApi;
+  const record = await withPortalLimit(account.portalKey, () => api.getById(id, toRead));
+  const update = applyPropertyPolicies(policies, objectType, properties, record.properties);
+
+  const previous: PreviousProperties = {};
+  if (readPrevious) {
+    for (const property of Object.keys(update.properties)) previous[property] = record.properties[property] || null;
+  }
+  return { ...update, previous };
+}
+
 // Create or update a contact in HubSpot
-// Accepts a flat object of HubSpot property names → values
+// Accepts a flat object of HubSpot property names → values. Updates follow
+// the account's overwrite policies; the values they kept are returned, and
+// with `readPrevious` the values the update replaced.
 export async function createOrUpdateContact(
-  properties: Record<string, string>
-): Promise<HubSpotContact> {
-  const client = await getHubSpotClient();
+  account: HubSpotAccountContext,
+  properties: Record<string, string>,
+  policies: PropertyPolicies = {},
+  readPrevious = false
+): Promise<{ contact: HubSpotContact; skipped: SkippedProperty[]; created: boolean; previous: PreviousProperties }> {
+  const client = await getHubSpotClient(account.accountId);
 
   // Filter out empty values
   const cleanProperties: Record<string, string> = {};
@@ -694,22 +821,27 @@ export async function createOrUpdateContact(
   }
 
   try {
-    const response = await client.crm.contacts.basicApi.create({
+    const response = await withPortalLimit(account.portalKey, () => client.crm.contacts.basicApi.create({
       properties: cleanProperties,
-    });
+    }), { create: true });
 
     return {
-      id: response.id,
-      email: response.properties.email || '',
-      firstName: response.properties.firstname,
-      lastName: response.properties.lastname,
-      company: response.properties.company,
-      properties: response.properties,
+      contact: {
+        id: response.id,
+        email: response.properties.email || '',
+        firstName: response.properties.firstname,
+        lastName: response.properties.lastname,
+        company: response.properties.company,
+        properties: response.properties,
+      },
+      skipped: [],
+      created: true,
+      previous: {},
     };
   } catch (error: unknown) {
     // If contact exists, update it
     if (error && typeof error === 'object' && 'code' in error && error.code === 409) {
-      const searchResponse = await client.crm.contacts.searchApi.doSearch({
+      const searchResponse = await withPortalLimit(account.portalKey, () => client.crm.contacts.searchApi.doSearch({
         filterGroups: [
           {
             filters: [
@@ -723,22 +855,28 @@ export async function createOrUpdateContact(
         ],
         properties: ['email', 'firstname', 'lastname', 'company'],
         limit: 1,
-      });
+      }), { pool: 'search' });
 
       if (searchResponse.results.length > 0) {
         const existingContact = searchResponse.results[0];
-        const updateResponse = await client.crm.contacts.basicApi.update(
+        const update = await applyPoliciesToUpdate(account, client, 'contacts', existingContact.id, cleanProperties, policies, readPrevious);
+        const updateResponse = await withPortalLimit(account.portalKey, () => client.crm.contacts.basicApi.update(
           existingContact.id,
-          { properties: cleanProperties }
-        );
+          { properties: update.properties }
+        ));
 
         return {
-          id: updateResponse.id,
-          email: updateResponse.properties.email || '',
-          firstName: updateResponse.properties.firstname,
-          lastName: updateResponse.properties.lastname,
-          company: updateResponse.properties.company,
-          properties: updateResponse.properties,
+          contact: {
+            id: updateResponse.id,
+            email: updateResponse.properties.email || '',
+            firstName: updateResponse.properties.firstname,
+            lastName: updateResponse.properties.lastname,
+            company: updateResponse.properties.company,
+            properties: updateResponse.properties,
+          },
+          skipped: update.skipped,
+          created: false,
+          previous: update.previous,
         };
       }
     }
@@ -746,24 +884,219 @@ export async function createOrUpdateContact(
   }
 }
 
-// Associate a contact with a company
+// Associate a contact with a company. With `checkExisting`, returns whether
+// the association is new (false when the two were already associated).
 export async function associateContactWithCompany(
+  account: HubSpotAccountContext,
   contactId: string,
-  companyId: string
-): Promise<void> {
-  const client = await getHubSpotClient();
+  companyId: string,
+  checkExisting = false
+): Promise<boolean> {
+  const client = await getHubSpotClient(account.accountId);
 
-  await client.crm.associations.v4.basicApi.create(
+  if (checkExisting) {
+    const existing = await withPortalLimit(account.portalKey, () =>
+      client.crm.associations.v4.basicApi.getPage('contacts', contactId, 'companies', undefined, 500)
+    );
+    if (existing.results.some((association) => String(association.toObjectId) === companyId)) return false;
+  }
+
+  await withPortalLimit(account.portalKey, () => client.crm.associations.v4.basicApi.create(
     'contacts',
     contactId,
     'companies',
     companyId,
     [{ associationCategory: 'HUBSPOT_DEFINED', associationTypeId: 1 }]
-  );
+  ));
+  return true;
+}
+
+interface DealPipeline {
+  id: string;
+  label: string;
+  stages: { id: string; label: string }[];
+}
+
+// Deal pipelines and their stages, in display order (cached during sync batches)
+export async function getDealPipelines(account: HubSpotAccountContext): Promise<DealPipeline[]> {
+  const cacheKey = CACHE_KEYS.pipelines(account, 'deals');
+  const cached = cache.get<DealPipeline[]>(cacheKey);
+  if (cached) return cached;
+
+  const client = await getHubSpotClient(account.accountId);
+  const response = await withPortalLimit(account.portalKey, () => client.crm.pipelines.pipelinesApi.getAll('deals'));
+
+  const pipelines = response.results
+    .filter((p) => !p.archived)
+    .sort((a, b) => a.displayOrder - b.displayOrder)
+    .map((p) => ({
+      id: p.id,
+      label: p.label,
+      stages: p.stages
+        .filter((st) => !st.archived)
+        .sort((a, b) => a.displayOrder - b.displayOrder)
+        .map((st) => ({ id: st.id, label: st.label })),
+    }));
+
+  cache.set(cacheKey, pipelines, CACHE_TTL.PIPELINES);
+  return pipelines;
+}
+
+// Resolve a deal's pipeline and stage to HubSpot ids. Values may be given as
+// ids or labels; a missing pipeline means the portal's first pipeline and a
+// missing stage means that pipeline's first stage. Unknown values throw.
+export async function resolveDealPipelineStage(
+  account: HubSpotAccountContext,
+  properties: Record<string, string>
+): Promise<{ pipeline: string; dealstage: string }> {
+  const pipelines = await getDealPipelines(account);
+  if (pipelines.length === 0) {
+    throw new Error('No deal pipelines are set up in HubSpot');
+  }
+
+  const pipelineValue = (properties.pipeline || '').trim().toLowerCase();
+  const pipeline = pipelineValue
+    ? pipelines.find((p) => p.id.toLowerCase() === pipelineValue || p.label.toLowerCase() === pipelineValue)
+    : pipelines[0];
+  if (!pipeline) {
+    throw new Error(
+      `Unknown deal pipeline "${properties.pipeline}". Valid pipelines: ${pipelines.map((p) => p.label).join(', ')}`
+    );
+  }
+
+  const stageValue = (properties.dealstage || '').trim().toLowerCase();
+  const stage = stageValue
+    ? pipeline.stages.find((st) => st.id.toLowerCase() === stageValue || st.label.toLowerCase() === stageValue)
+    : pipeline.stages[0];
+  if (!stage) {
+    throw new Error(
+      `Deal stage "${properties.dealstage || ''}" is not in pipeline "${pipeline.label}". Valid stages: ${pipeline.stages.map((st) => st.label).join(', ')}`
+    );
+  }
+
+  return { pipeline: pipeline.id, dealstage: stage.id };
+}
+
+function toHubSpotDeal(id: string, properties: Record<string, string | null>): HubSpotDeal {
+  const clean: Record<string, string> = {};
+  for (const [key, value] of Object.entries(properties)) {
+    if (value !== null) clean[key] = value;
+  }
+  return { id, name: clean.dealname || '', properties: clean };
+}
+
+// Create a deal in HubSpot
+export async function createDeal(
+  account: HubSpotAccountContext,
+  properties: Record<string, string>
+): Promise<HubSpotDeal> {
+  const client = await getHubSpotClient(account.accountId);
+
+  // Filter out empty values
+  const cleanProperties: Record<string, string> = {};
+  for (const [key, value] of Object.entries(properties)) {
+    if (value && value.trim()) {
+      cleanProperties[key] = value.trim();
+    }
+  }
+
+  if (!cleanProperties.dealname) {
+    throw new Error('Deal name is required to create a HubSpot deal');
+  }
+  Object.assign(cleanProperties, await resolveDealPipelineStage(account, cleanProperties));
+
+  const response = await withPortalLimit(account.portalKey, () => client.crm.deals.basicApi.create({
+    properties: cleanProperties,
+  }), { create: true });
+
+  return toHubSpotDeal(response.id, response.properties);
+}
+
+// Update an existing deal's properties, following the account's overwrite
+// policies. With `readPrevious` the values the update replaced are returned.
+export async function updateDeal(
+  account: HubSpotAccountContext,
+  dealId: string,
+  properties: Record<string, string>,
+  policies: PropertyPolicies = {},
+  readPrevious = false
+): Promise<{ deal: HubSpotDeal; skipped: SkippedProperty[]; previous: PreviousProperties }> {
+  const client = await getHubSpotClient(account.accountId);
+
+  // Filter out empty values
+  const cleanProperties: Record<string, string> = {};
+  for (const [key, value] of Object.entries(properties)) {
+    if (value && value.trim()) {
+      cleanProperties[key] = value.trim();
+    }
+  }
+
+  const update = await applyPoliciesToUpdate(account, client, 'deals', dealId, cleanProperties, policies, readPrevious);
+  const response = await withPortalLimit(account.portalKey, () => client.crm.deals.basicApi.update(dealId, { properties: update.properties }));
+  return { deal: toHubSpotDeal(response.id, response.properties), skipped: update.skipped, previous: update.previous };
+}
+
+// Find a deal by exact name; when a company is given, only deals associated
+// with that company count
+export async function findDealByName(
+  account: HubSpotAccountContext,
+  dealName: string,
+  companyId?: string
+): Promise<HubSpotDeal | null> {
+  const client = await getHubSpotClient(account.accountId);
+
+  const filters = [{ propertyName: 'dealname', operator: 'EQ', value: dealName }];
+  if (companyId) {
+    filters.push({ propertyName: 'associations.company', operator: 'EQ', value: companyId });
+  }
+
+  // A failed search must not read as "no such deal", or the row would create a duplicate
+  const response = await withPortalLimit(account.portalKey, () => client.crm.deals.searchApi.doSearch({
+    filterGroups: [{ filters }],
+    properties: ['dealname', 'pipeline', 'dealstage', 'amount', 'closedate'],
+    limit: 1,
+  }), { pool: 'search' });
+
+  const deal = response.results[0];
+  return deal ? toHubSpotDeal(deal.id, deal.properties) : null;
+}
+
+// Associate a deal with a contact
+export async function associateDealWithContact(
+  account: HubSpotAccountContext,
+  dealId: string,
+  contactId: string
+): Promise<void> {
+  const client = await getHubSpotClient(account.accountId);
+
+  await withPortalLimit(account.portalKey, () => client.crm.associations.v4.basicApi.create(
+    'deals',
+    dealId,
+    'contacts',
+    contactId,
+    [{ associationCategory: 'HUBSPOT_DEFINED', associationTypeId: 3 }]
+  ));
+}
+
+// Associate a deal with its (primary) company
+export async function associateDealWithCompany(
+  account: HubSpotAccountContext,
+  dealId: string,
+  companyId: string
+): Promise<void> {
+  const client = await getHubSpotClient(account.accountId);
+
+  await withPortalLimit(account.portalKey, () => client.crm.associations.v4.basicApi.create(
+    'deals',
+    dealId,
+    'companies',
+    companyId,
+    [{ associationCategory: 'HUBSPOT_DEFINED', associationTypeId: 5 }]
+  ));
 }
 
 // Create a task in HubSpot
-export async function createTask(taskData: {
+export async function createTask(account: HubSpotAccountContext, taskData: {
   subject: string;
   body: string;
   ownerId: string;
@@ -772,7 +1105,7 @@ export async function createTask(taskData: {
   associatedContactId?: string;
   associatedCompanyId?: string;
 }): Promise<string> {
-  const client = await getHubSpotClient();
+  const client = await getHubSpotClient(account.accountId);
 
   const properties: Record<string, string> = {
     hs_task_subject: taskData.subject,
@@ -786,39 +1119,41 @@ export async function createTask(taskData: {
     properties.hs_timestamp = taskData.dueDate.getTime().toString();
   }
 
-  const response = await client.crm.objects.basicApi.create('tasks', {
+  const response = await withPortalLimit(account.portalKey, () => client.crm.objects.basicApi.create('tasks', {
     properties,
-  });
+  }), { create: true });
 
   // Associate task with contact and/or company
   if (taskData.associatedContactId) {
-    await client.crm.associations.v4.basicApi.create(
+    await withPortalLimit(account.portalKey, () => client.crm.associations.v4.basicApi.create(
       'tasks',
       response.id,
       'contacts',
       taskData.associatedContactId,
       [{ associationCategory: 'HUBSPOT_DEFINED', associationTypeId: 204 }]
-    );
+    ));
   }
 
   if (taskData.associatedCompanyId) {
-    await client.crm.associations.v4.basicApi.create(
+    await withPortalLimit(account.portalKey, () => client.crm.associations.v4.basicApi.create(
       'tasks',
       response.id,
       'companies',
       taskData.associatedCompanyId,
       [{ associationCategory: 'HUBSPOT_DEFINED', associationTypeId: 192 }]
-    );
+    ));
   }
 
   return response.id;
 }
 
 // Get HubSpot owners (for task assignment dropdown)
-export async function getHubSpotOwners(): Promise<{ id: string; email: string; name: string }[]> {
-  const client = await getHubSpotClient();
+export async function getHubSpotOwners(
+  account: HubSpotAccountContext
+): Promise<{ id: string; email: string; name: string }[]> {
+  const client = await getHubSpotClient(account.accountId);
 
-  const response = await client.crm.owners.ownersApi.getPage();
+  const response = await withPortalLimit(account.portalKey, () => client.crm.owners.ownersApi.getPage());
 
   return response.results.map((owner) => ({
     id: owner.id,
@@ -827,12 +1162,17 @@ export async function getHubSpotOwners(): Promise<{ id: string; email: string; n
   }));
 }
 
-// Update an existing company's properties
+// Update an existing company's properties, following the account's
+// overwrite policies. Returns the values the policies kept and, with
+// `readPrevious`, the values the update replaced.
 export async function updateCompany(
+  account: HubSpotAccountContext,
   companyId: string,
-  properties: Record<string, string>
-): Promise<void> {
-  const client = await getHubSpotClient();
+  properties: Record<string, string>,
+  policies: PropertyPolicies = {},
+  readPrevious = false
+): Promise<{ skipped: SkippedProperty[]; previous: PreviousProperties }> {
+  const client = await getHubSpotClient(account.accountId);
 
   // Filter out empty values
   const cleanProperties: Record<string, string> = {};
@@ -842,24 +1182,126 @@ export async function updateCompany(
     }
   }
 
-  if (Object.keys(cleanProperties).length === 0) return;
+  if (Object.keys(cleanProperties).length === 0) return { skipped: [], previous: {} };
+
+  const update = await applyPoliciesToUpdate(account, client, 'companies', companyId, cleanProperties, policies, readPrevious);
+  if (Object.keys(update.properties).length > 0) {
+    await withPortalLimit(account.portalKey, () => client.crm.companies.basicApi.update(companyId, { properties: update.properties }));
+  }
+  return { skipped: update.skipped, previous: update.previous };
+}
+
+// Record a change in the sync ledger, when the row is synced with one
+async function recordChange(options: ProcessRowOptions, entry: SyncLedgerEntry): Promise<void> {
+  if (options.ledger) await options.ledger.record([entry]);
+}
+
+// Record the values an update replaced (nothing when no value changed)
+async function recordUpdate(
+  options: ProcessRowOptions,
+  objectType: 'contacts' | 'companies' | 'deals',
+  hubspotId: string,
+  rowIndex: number,
+  previous: PreviousProperties
+): Promise<void> {
+  if (Object.keys(previous).length === 0) return;
+  await recordChange(options, { objectType, action: 'updated', hubspotId, rowIndex, previousProperties: previous });
+}
+
+// Create a review task and record it in the sync ledger
+async function createRowTask(
+  account: HubSpotAccountContext,
+  rowIndex: number,
+  taskData: Parameters<typeof createTask>[1],
+  options: ProcessRowOptions
+): Promise<string> {
+  const taskId = await createTask(account, taskData);
+  await recordChange(options, { objectType: 'tasks', action: 'created', hubspotId: taskId, rowIndex });
+  return taskId;
+}
 
-  await client.crm.companies.basicApi.update(companyId, { properties: cleanProperties });
+// Create a company found in an import and, when an assignee is set, a task
+// to review it. With a ledger the company is marked pending before the
+// create is sent (see syncLedger.ts), so a worker that dies in between
+// doesn't leave a company the import can't roll back.
+async function createCompanyWithTask(
+  account: HubSpotAccountContext,
+  rowIndex: number,
+  companyData: { name: string; domain: string; city: string; state: string; properties?: Record<string, string> },
+  defaultTaskAssigneeId: string,
+  options: ProcessRowOptions
+): Promise<{ company: HubSpotCompany; taskId?: string }> {
+  const markerIds = options.ledger ? await options.ledger.markPendingCreates([{ name: companyData.name, rowIndex }]) : [];
+  const company = await createCompany(account, companyData);
+  await recordChange(options, { objectType: 'companies', action: 'created', hubspotId: company.id, rowIndex });
+  if (options.ledger && markerIds.length > 0) await options.ledger.clearPendingCreates(markerIds);
+
+  let taskId: string | undefined;
+  if (defaultTaskAssigneeId) {
+    const { domain, city, state } = companyData;
+    taskId = await createRowTask(account, rowIndex, {
+      subject: `Review new company: ${company.name}`,
+      body: `A new company was created during list import.\n\nCompany: ${company.name}\nDomain: ${domain || 'N/A'}\nCity: ${city || 'N/A'}\nState: ${state || 'N/A'}\n\nPlease review and verify the company information.`,
+      ownerId: defaultTaskAssigneeId,
+      priority: 'MEDIUM',
+      associatedCompanyId: company.id,
+    }, options);
+  }
+
+  return { company, taskId };
 }
 
-// Process a single row for HubSpot sync.
+// Process a single row for HubSpot sync. The import's object type picks the
+// path: contact rows (the default) match/create a company as a by-product,
+// company rows are matched on domain then name, and deal rows are matched on
+// deal name plus associated company.
 // contactProps: HubSpot contact property names -> values
 // companyProps: HubSpot company property names -> values
 // These are separated by the client so we can:
 // - Use company properties (domain, name, city, state) for company matching/creation
 // - Use contact properties (email, firstname, etc.) for contact creation/update
 // - Avoid sending company properties as contact properties (which HubSpot rejects)
+// Multi-object imports also pass deal properties, plus the company/deal already
+// created for an earlier row of the same file so duplicates aren't created.
+// Updates of existing records follow the account's overwrite policies and
+// companies are matched with the account's match settings. With a ledger
+// (pipeline syncs), every change is recorded as it is made so the import can
+// be rolled back.
+export interface ProcessRowOptions {
+  objectType?: HubSpotObjectType;
+  dealProps?: Record<string, string>;
+  existingCompany?: HubSpotCompany;
+  existingDeal?: HubSpotDeal;
+  policies?: PropertyPolicies;
+  matchSettings?: CompanyMatchSettings;
+  ledger?: SyncLedgerWriter;
+}
+
 export async function processRowForHubSpot(
+  account: HubSpotAccountContext,
+  rowIndex: number,
+  contactProps: Record<string, string>,
+  companyProps: Record<string, string>,
+  defaultTaskAssigneeId: string,
+  options: ProcessRowOptions = {}
+): Promise<HubSpotSyncResult> {
+  if (options.objectType === 'companies') {
+    return syncCompanyRow(account, rowIndex, companyProps, defaultTaskAssigneeId, options);
+  }
+  if (options.objectType === 'deals') {
+    return syncDealRow(account, rowIndex, options.dealProps || {}, companyProps, options);
+  }
+  return syncContactRow(account, rowIndex, contactProps, companyProps, defaultTaskAssigneeId, options);
+}
+
+async function syncContactRow(
+  account: HubSpotAccountContext,
   rowIndex: number,
   contactProps: Record<string, string>,
   companyProps: Record<string, string>,
-  defaultTaskAssigneeId: string
-): Promise<HubSpotMatchResult> {
+  defaultTaskAssigneeId: string,
+  options: ProcessRowOptions
+): Promise<HubSpotContactSyncResult> {
   // Email comes from contact properties
   const email = contactProps.email || '';
 
@@ -869,66 +1311,266 @@ export async function processRowForHubSpot(
   const city = companyProps.city || contactProps.city || '';
   const state = companyProps.state || contactProps.state || '';
 
-  // Find best company match
-  const matchResult = await findBestCompanyMatch({
-    email,
-    institution: companyName,
-    officialName: companyName,
-    domain,
-    city,
-    state,
-  });
+  // Find best company match (skipped when an earlier row already resolved it)
+  const matchResult: CompanyMatch = options.existingCompany
+    ? {
+        company: options.existingCompany,
+        matchType: 'exact_domain',
+        confidence: 1,
+        explanation: { signal: null, candidates: 1, steps: ['Same company as an earlier row of the file'] },
+      }
+    : await findBestCompanyMatch(account, {
+        email,
+        institution: companyName,
+        officialName: companyName,
+        domain,
+        city,
+        state,
+      }, options.matchSettings);
 
   let company = matchResult.company;
-  let matchType = matchResult.matchType;
-  let taskCreated = false;
+  let matchType: HubSpotContactSyncResult['matchType'] = matchResult.matchType;
   let taskId: string | undefined;
+  const skippedProperties: SkippedProperty[] = [];
 
-  if (company) {
+  if (company && !options.existingCompany) {
     // Update existing company with any new property values from this row
+    let previous: PreviousProperties = {};
     try {
-      await updateCompany(company.id, companyProps);
+      const update = await updateCompany(account, company.id, companyProps, options.policies, !!options.ledger);
+      skippedProperties.push(...update.skipped);
+      previous = update.previous;
     } catch (err) {
       console.error(`Failed to update company ${company.id}:`, err);
     }
+    await recordUpdate(options, 'companies', company.id, rowIndex, previous);
   } else if (companyName) {
     // No match found — create new company and task
-    company = await createCompany({
-      name: companyName,
-      domain,
-      city,
-      state,
-    });
+    const created = await createCompanyWithTask(account, rowIndex, { name: companyName, domain, city, state }, defaultTaskAssigneeId, options);
+    company = created.company;
+    taskId = created.taskId;
     matchType = 'created_new';
+  }
 
-    // Create task for new company if assignee is set
-    if (defaultTaskAssigneeId) {
-      taskId = await createTask({
-        subject: `Review new company: ${company.name}`,
-        body: `A new company was created during list import.\n\nCompany: ${company.name}\nDomain: ${domain || 'N/A'}\nCity: ${city || 'N/A'}\nState: ${state || 'N/A'}\n\nPlease review and verify the company information.`,
-        ownerId: defaultTaskAssigneeId,
-        priority: 'MEDIUM',
-        associatedCompanyId: company.id,
+  // Create or update the contact with ONLY contact properties (matched on email)
+  const { contact, skipped, created, previous } = await createOrUpdateContact(account, contactProps, options.policies, !!options.ledger);
+  skippedProperties.push(...skipped);
+  if (created) {
+    await recordChange(options, { objectType: 'contacts', action: 'created', hubspotId: contact.id, rowIndex });
+  } else {
+    await recordUpdate(options, 'contacts', contact.id, rowIndex, previous);
+  }
+
+  // Associate contact with company. The ledger only needs associations
+  // between records that existed before the sync and weren't linked yet
+  // (deleting a created record removes its associations anyway).
+  if (company) {
+    const recordAssociation = !!options.ledger && !created && matchType !== 'created_new';
+    if (await associateContactWithCompany(account, contact.id, company.id, recordAssociation) && recordAssociation) {
+      await recordChange(options, {
+        objectType: 'associations',
+        action: 'associated',
+        hubspotId: contact.id,
+        associatedId: company.id,
+        rowIndex,
       });
-      taskCreated = true;
     }
   }
 
-  // Create or update the contact with ONLY contact properties (matched on email)
-  const contact = await createOrUpdateContact(contactProps);
+  // Ambiguous match the account wants reviewed
+  if (company && matchResult.explanation.needsReview && defaultTaskAssigneeId) {
+    taskId = await createRowTask(account, rowIndex, {
+      subject: `Review company match: ${company.name}`,
+      body: buildMatchReviewTaskBody(company, matchResult.explanation),
+      ownerId: defaultTaskAssigneeId,
+      priority: 'MEDIUM',
+      associatedContactId: contact.id,
+      associatedCompanyId: company.id,
+    }, options);
+  }
 
-  // Associate contact with company
-  if (company) {
-    await associateContactWithCompany(contact.id, company.id);
+  // The row's deal: the one an earlier row of the file synced, the deal of the
+  // same name the company already has (updated), or a new one
+  let deal: HubSpotDeal | null = options.existingDeal || null;
+  const dealName = (options.dealProps?.dealname || '').trim();
+  if (!deal && options.dealProps && Object.keys(options.dealProps).length > 0) {
+    const existing = dealName && (company || !(companyName || domain)) ? await findDealByName(account, dealName, company?.id) : null;
+    if (existing) {
+      const { pipeline, dealstage } = await resolveDealPipelineStage(account, {
+        pipeline: options.dealProps.pipeline || existing.properties.pipeline || '',
+        dealstage: options.dealProps.dealstage || existing.properties.dealstage || '',
+      });
+      const update = await updateDeal(account, existing.id, { ...options.dealProps, pipeline, dealstage }, options.policies, !!options.ledger);
+      deal = update.deal;
+      skippedProperties.push(...update.skipped);
+      await recordUpdate(options, 'deals', deal.id, rowIndex, update.previous);
+    } else {
+      deal = await createDeal(account, options.dealProps);
+      await recordChange(options, { objectType: 'deals', action: 'created', hubspotId: deal.id, rowIndex });
+      if (company) {
+        await associateDealWithCompany(account, deal.id, company.id);
+      }
+    }
+  }
+  if (deal) {
+    await associateDealWithContact(account, deal.id, contact.id);
   }
 
   return {
+    objectType: 'contacts',
     rowIndex,
     contact,
     matchedCompany: company,
     matchConfidence: matchResult.confidence,
-    matchType: matchType as 'exact_domain' | 'fuzzy_name' | 'created_new' | 'no_match',
-    taskCreated,
+    matchType,
+    matchExplanation: matchResult.explanation,
+    taskCreated: !!taskId,
+    taskId,
+    deal,
+    skippedProperties,
+  };
+}
+
+// Company import row: update the matching company (domain first, then name)
+// or create it with all of the row's properties
+async function syncCompanyRow(
+  account: HubSpotAccountContext,
+  rowIndex: number,
+  companyProps: Record<string, string>,
+  defaultTaskAssigneeId: string,
+  options: ProcessRowOptions
+): Promise<HubSpotCompanySyncResult> {
+  const name = companyProps.name || companyProps.company || '';
+  const domain = companyProps.domain || companyProps.website || '';
+  const city = companyProps.city || '';
+  const state = companyProps.state || '';
+
+  if (!name && !domain) {
+    throw new Error('Company name or domain is required');
+  }
+
+  const matchResult = await findBestCompanyMatch(account, {
+    institution: name,
+    officialName: name,
+    domain,
+    city,
+    state,
+  }, options.matchSettings);
+
+  if (matchResult.company) {
+    const { skipped: skippedProperties, previous } = await updateCompany(
+      account, matchResult.company.id, companyProps, options.policies, !!options.ledger
+    );
+    await recordUpdate(options, 'companies', matchResult.company.id, rowIndex, previous);
+    const taskId = matchResult.explanation.needsReview && defaultTaskAssigneeId
+      ? await createRowTask(account, rowIndex, {
+          subject: `Review company match: ${matchResult.company.name}`,
+          body: buildMatchReviewTaskBody(matchResult.company, matchResult.explanation),
+          ownerId: defaultTaskAssigneeId,
+          priority: 'MEDIUM',
+          associatedCompanyId: matchResult.company.id,
+        }, options)
+      : undefined;
+    return {
+      objectType: 'companies',
+      rowIndex,
+      company: matchResult.company,
+      action: 'updated',
+      matchConfidence: matchResult.confidence,
+      matchType: matchResult.matchType === 'fuzzy_name' ? 'fuzzy_name' : 'exact_domain',
+      matchExplanation: matchResult.explanation,
+      taskCreated: !!taskId,
+      taskId,
+      skippedProperties,
+    };
+  }
+
+  const { company, taskId } = await createCompanyWithTask(
+    account,
+    rowIndex,
+    { name: name || domain, domain, city, state, properties: companyProps },
+    defaultTaskAssigneeId,
+    options
+  );
+
+  return {
+    objectType: 'companies',
+    rowIndex,
+    company,
+    action: 'created',
+    matchConfidence: 0,
+    matchType: 'created_new',
+    matchExplanation: matchResult.explanation,
+    taskCreated: !!taskId,
     taskId,
   };
 }
+
+// Deal import row: update the deal with the same name (and company, when the
+// row names one) or create it. Pipeline and stage are validated before any
+// record is written; an existing deal keeps its pipeline/stage unless the row
+// sets them.
+async function syncDealRow(
+  account: HubSpotAccountContext,
+  rowIndex: number,
+  dealProps: Record<string, string>,
+  companyProps: Record<string, string>,
+  options: ProcessRowOptions
+): Promise<HubSpotDealSyncResult> {
+  const dealName = (dealProps.dealname || '').trim();
+  if (!dealName) {
+    throw new Error('Deal name is required');
+  }
+
+  const companyName = companyProps.name || companyProps.company || '';
+  const domain = companyProps.domain || companyProps.website || '';
+  const companyMatch = companyName || domain
+    ? await findBestCompanyMatch(account, { institution: companyName, officialName: companyName, domain }, options.matchSettings)
+    : null;
+  const company = companyMatch?.company || null;
+
+  // A row that names a company only matches that company's deals; when the
+  // company can't be found, a same-named deal elsewhere is not a match
+  const existing = companyName || domain
+    ? company ? await findDealByName(account, dealName, company.id) : null
+    : await findDealByName(account, dealName);
+
+  const { pipeline, dealstage } = await resolveDealPipelineStage(account, {
+    pipeline: dealProps.pipeline || existing?.properties.pipeline || '',
+    dealstage: dealProps.dealstage || existing?.properties.dealstage || '',
+  });
+  const properties = { ...dealProps, pipeline, dealstage };
+
+  if (existing) {
+    const { deal, skipped, previous } = await updateDeal(account, existing.id, properties, options.policies, !!options.ledger);
+    await recordUpdate(options, 'deals', deal.id, rowIndex, previous);
+    return {
+      objectType: 'deals',
+      rowIndex,
+      deal,
+      action: 'updated',
+      matchType: 'exact_name',
+      associatedCompany: company,
+      pipeline,
+      dealstage,
+      skippedProperties: skipped,
+    };
+  }
+
+  const deal = await createDeal(account, properties);
+  await recordChange(options, { objectType: 'deals', action: 'created', hubspotId: deal.id, rowIndex });
+  if (company) {
+    await associateDealWithCompany(account, deal.id, company.id);
+  }
+
+  return {
+    objectType: 'deals',
+    rowIndex,
+    deal,
+    action: 'created',
+    matchType: 'created_new',
+    associatedCompany: company,
+    pipeline,
+    dealstage,
+  };
+}
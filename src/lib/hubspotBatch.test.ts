@@ -0,0 +1,115 @@
+import { test, before, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { cache } from './cache';
+import { DEFAULT_COMPANY_MATCH_SETTINGS } from './companyMatching';
+import { syncContactChunk, type BatchContext, type SyncLedgerWriter } from './hubspotBatch';
+import type { SyncLedgerEntry } from '@/types';
+
+const ctx: BatchContext = {
+  accountId: 'account-a',
+  portalKey: 'portal-batch',
+  policies: {},
+  matchSettings: { ...DEFAULT_COMPANY_MATCH_SETTINGS, signals: ['domain'], tieBreak: 'review_task' },
+};
+
+// Two domains, each shared by two companies that are all named "Acme"
+const COMPANIES = ['a.com', 'a.com', 'b.com', 'b.com'].map((domain, i) => ({
+  id: `company-${i + 1}`,
+  properties: { name: 'Acme', domain, city: null, state: null },
+}));
+
+// HubSpot calls and ledger writes, in the order they happened
+const events: string[] = [];
+
+type Body = { inputs: { objectWriteTraceId?: string; id?: string; properties: Record<string, string>; associations?: { to: { id: string } }[] }[] };
+
+// What HubSpot answers for each endpoint the sync calls
+function fakeHubSpot(path: string, body: Body): unknown {
+  events.push(path.replace('/crm/v3/objects/', '').replace('/crm/v4/associations/', ''));
+  if (path.endsWith('/companies/search')) return { results: COMPANIES };
+  if (path.endsWith('/companies/batch/create')) {
+    return { results: body.inputs.map((input, i) => ({ id: `new-company-${i + 1}`, properties: input.properties })) };
+  }
+  if (path.endsWith('/tasks/batch/create')) {
+    // Batch results don't come back in input order
+    return {
+      results: body.inputs
+        .map((input) => ({
+          id: `task-for-${input.associations![0].to.id}`,
+          properties: input.properties,
+          objectWriteTraceId: input.objectWriteTraceId,
+        }))
+        .reverse(),
+    };
+  }
+  if (path.endsWith('/contacts/batch/upsert')) {
+    return { results: body.inputs.map((input, i) => ({ id: `contact-${i + 1}`, properties: { ...input.properties } })) };
+  }
+  return { results: [] };
+}
+
+before(() => {
+  process.env.HUBSPOT_ACCESS_TOKEN = 'token';
+  mock.method(console, 'log', () => {});
+  mock.method(console, 'error', () => {});
+  mock.method(globalThis, 'fetch', async (url: string, init: { body?: string }) => {
+    const json = fakeHubSpot(new URL(url).pathname, init.body ? JSON.parse(init.body) : { inputs: [] });
+    return new Response(JSON.stringify(json), { status: 200, headers: { 'Content-Type': 'application/json' } });
+  });
+  cache.clear();
+});
+
+test('review tasks of companies with the same name go to their own rows', async () => {
+  const outcomes = await syncContactChunk(
+    ctx,
+    [
+      { rowIndex: 0, contactProperties: { email: 'one@a.com' }, companyProperties: { domain: 'a.com' } },
+      { rowIndex: 1, contactProperties: { email: 'two@b.com' }, companyProperties: { domain: 'b.com' } },
+    ],
+    'owner-1'
+  );
+
+  for (const { result, error } of outcomes) {
+    assert.equal(error, undefined);
+    assert.equal(result!.taskId, `task-for-${result!.matchedCompany!.id}`);
+  }
+  assert.notEqual(outcomes[0].result!.taskId, outcomes[1].result!.taskId);
+});
+
+test('each step is recorded in the ledger before the next one is sent', async () => {
+  const recorded: SyncLedgerEntry[] = [];
+  const ledger: SyncLedgerWriter = {
+    record: async (entries) => {
+      events.push(`record ${entries.map((entry) => `${entry.objectType}:${entry.action}`).join(',')}`);
+      recorded.push(...entries);
+    },
+    markPendingCreates: async (companies) => {
+      events.push(`mark ${companies.map((company) => company.name).join(',')}`);
+      return ['marker-1'];
+    },
+    clearPendingCreates: async (markerIds) => {
+      events.push(`clear ${markerIds.join(',')}`);
+    },
+  };
+  events.length = 0;
+
+  const [outcome] = await syncContactChunk(
+    { ...ctx, ledger },
+    [{ rowIndex: 0, contactProperties: { email: 'new@newco.com' }, companyProperties: { name: 'Newco', domain: 'newco.com' } }],
+    ''
+  );
+
+  assert.equal(outcome.result!.matchedCompany!.id, 'new-company-1');
+  assert.deepEqual(events, [
+    'companies/search',
+    'mark Newco',
+    'companies/batch/create',
+    'record companies:created',
+    'clear marker-1',
+    'contacts/batch/read',
+    'contacts/batch/upsert',
+    'record contacts:created',
+    'contacts/companies/batch/create',
+  ]);
+  assert.deepEqual(recorded.map((entry) => entry.hubspotId), ['new-company-1', 'contact-1']);
+});
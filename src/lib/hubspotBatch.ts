@@ -0,0 +1,850 @@
+import type {
+  CompanyMatchSettings,
+  HubSpotCompany,
+  HubSpotContactSyncResult,
+  HubSpotObjectType,
+  SkippedProperty,
+  SyncLedgerEntry,
+  SyncPreviewRow,
+  SyncPreviewSummary,
+  SyncPropertyChange,
+} from '@/types';
+import { cache, CACHE_TTL, CACHE_KEYS } from './cache';
+import { hubspotRequest } from './hubspotRateLimiter';
+import {
+  getValidAccessToken,
+  getAccountContext,
+  findBestCompanyMatch,
+  createOrUpdateContact,
+  type HubSpotAccountContext,
+} from './hubspot';
+import {
+  applyPropertyPolicies,
+  fetchPropertyPolicies,
+  getGuardedProperties,
+  type PropertyPolicies,
+} from './propertyPolicies';
+import {
+  COMPANY_MATCH_PROPERTIES,
+  buildMatchReviewTaskBody,
+  fetchCompanyMatchSettings,
+  getCompanyEmailDomain,
+} from './companyMatching';
+
+// HubSpot batch endpoints accept up to 100 inputs per call
+export const HUBSPOT_BATCH_SIZE = 100;
+
+const COMPANY_PROPERTIES = ['name', 'domain', 'city', 'state', ...COMPANY_MATCH_PROPERTIES];
+
+export interface ContactBatchRow {
+  rowIndex: number;
+  contactProperties: Record<string, string>;
+  companyProperties: Record<string, string>;
+}
+
+export interface ContactBatchOutcome {
+  rowIndex: number;
+  result?: HubSpotContactSyncResult;
+  error?: string;
+}
+
+/**
+ * Where a sync records its changes so they can be undone (see syncLedger.ts).
+ * Each step's changes are written as soon as HubSpot confirms them, so a
+ * worker that dies midway leaves a record of what it already did.
+ */
+export interface SyncLedgerWriter {
+  record(entries: SyncLedgerEntry[]): Promise<void>;
+  // Companies about to be created, marked before the create is sent: if the
+  // worker dies before their ids are recorded, the markers let a resumed sync
+  // or a rollback find them. Returns the marker ids to clear afterwards.
+  markPendingCreates(companies: { name: string; rowIndex?: number }[]): Promise<string[]>;
+  clearPendingCreates(markerIds: string[]): Promise<void>;
+}
+
+// Rate limits are per portal (portalKey)
+export interface BatchContext extends HubSpotAccountContext {
+  // The account's overwrite policies and company match settings, loaded once per sync
+  policies: PropertyPolicies;
+  matchSettings: CompanyMatchSettings;
+  // When set, every change the sync makes is recorded so it can be undone
+  ledger?: SyncLedgerWriter;
+}
+
+interface HubSpotObject {
+  id: string;
+  properties: Record<string, string | null>;
+  // Echoed back from a batch create input, whose results come in any order
+  objectWriteTraceId?: string;
+}
+
+interface BatchResponse {
+  results: HubSpotObject[];
+}
+
+interface SearchResponse {
+  results: HubSpotObject[];
+  paging?: { next?: { after: string } };
+}
+
+// Company details of a row, with the same fallbacks as processRowForHubSpot
+interface RowCompany {
+  email: string;
+  name: string;
+  domain: string;
+  city: string;
+  state: string;
+}
+
+export async function createBatchContext(accountId: string): Promise<BatchContext> {
+  const [account, policies, matchSettings] = await Promise.all([
+    getAccountContext(accountId),
+    fetchPropertyPolicies(accountId),
+    fetchCompanyMatchSettings(accountId),
+  ]);
+  return { ...account, policies, matchSettings };
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+function cleanProperties(properties: Record<string, string>): Record<string, string> {
+  const clean: Record<string, string> = {};
+  for (const [key, value] of Object.entries(properties)) {
+    if (value && value.trim()) {
+      clean[key] = value.trim();
+    }
+  }
+  return clean;
+}
+
+function withoutNulls(properties: Record<string, string | null>): Record<string, string> {
+  const clean: Record<string, string> = {};
+  for (const [key, value] of Object.entries(properties)) {
+    if (value !== null) clean[key] = value;
+  }
+  return clean;
+}
+
+// The values an update replaces, for the ledger (null = was empty)
+function previousValues(
+  properties: Record<string, string>,
+  current: Record<string, string | null> | undefined
+): Record<string, string | null> {
+  const previous: Record<string, string | null> = {};
+  for (const property of Object.keys(properties)) {
+    previous[property] = current?.[property] || null;
+  }
+  return previous;
+}
+
+function toCompany(object: HubSpotObject): HubSpotCompany {
+  const properties = withoutNulls(object.properties);
+  return {
+    id: object.id,
+    name: properties.name || '',
+    domain: properties.domain || '',
+    city: properties.city,
+    state: properties.state,
+    properties,
+  };
+}
+
+function getRowCompany(row: ContactBatchRow): RowCompany {
+  const { contactProperties: contactProps, companyProperties: companyProps } = row;
+  return {
+    email: contactProps.email || '',
+    name: companyProps.name || companyProps.company || contactProps.company || '',
+    domain: companyProps.domain || companyProps.website || contactProps.website || '',
+    city: companyProps.city || contactProps.city || '',
+    state: companyProps.state || contactProps.state || '',
+  };
+}
+
+// Domains the given match signals would search for a row
+function getSignalDomains(settings: CompanyMatchSettings, company: RowCompany, signals: string[]): string[] {
+  const domains: string[] = [];
+  if (signals.includes('domain') && company.domain) domains.push(company.domain);
+  if (signals.includes('email_domain')) domains.push(getCompanyEmailDomain(settings, company.email));
+  return domains.filter(Boolean);
+}
+
+async function getAccessToken(ctx: BatchContext): Promise<string> {
+  const accessToken = await getValidAccessToken(ctx.accountId);
+  if (!accessToken) {
+    throw new Error('HubSpot not connected. Please connect via OAuth in Admin settings.');
+  }
+  return accessToken;
+}
+
+/**
+ * Current values of records about to be updated, keyed like `updates` (record
+ * id, or lower-case email when reading contacts by email). Only the
+ * policy-guarded properties are read, unless the sync keeps a ledger, which
+ * needs every value it replaces. Records that don't exist (or weren't read)
+ * are missing from the result.
+ */
+async function readCurrentValues(
+  ctx: BatchContext,
+  accessToken: string,
+  objectType: HubSpotObjectType,
+  updates: Map<string, Record<string, string>>,
+  idProperty?: 'email'
+): Promise<Map<string, Record<string, string | null>>> {
+  const current = new Map<string, Record<string, string | null>>();
+  const toRead = new Set<string>();
+  const ids: string[] = [];
+  updates.forEach((properties, id) => {
+    const names = ctx.ledger ? Object.keys(properties) : getGuardedProperties(ctx.policies, objectType, properties);
+    names.forEach((name) => toRead.add(name));
+    if (names.length > 0) ids.push(id);
+  });
+  if (ids.length === 0) return current;
+  if (idProperty) toRead.add(idProperty);
+
+  for (const inputs of chunk(ids, HUBSPOT_BATCH_SIZE)) {
+    const response = await hubspotRequest<BatchResponse>(ctx.portalKey, accessToken, `/crm/v3/objects/${objectType}/batch/read`, {
+      method: 'POST',
+      body: {
+        ...(idProperty ? { idProperty } : {}),
+        properties: Array.from(toRead),
+        inputs: inputs.map((id) => ({ id })),
+      },
+    });
+    for (const object of response.results) {
+      current.set(idProperty ? (object.properties[idProperty] || '').toLowerCase() : object.id, object.properties);
+    }
+  }
+  return current;
+}
+
+/**
+ * Look up every company domain and name the chunk needs and cache the results
+ * under the same keys searchCompaniesByDomain/searchCompaniesByName use (both
+ * match domains exactly), so findBestCompanyMatch answers each row from the cache. Only the account's
+ * match signals are searched. Domains are looked up 100 at a time with an IN
+ * filter; names still need one search each, but only for rows whose domain
+ * signals ordered before the name signals found nothing.
+ */
+async function prefetchCompanySearches(ctx: BatchContext, accessToken: string, companies: RowCompany[]): Promise<void> {
+  const { signals } = ctx.matchSettings;
+  const domains = new Set<string>();
+  for (const company of companies) {
+    for (const domain of getSignalDomains(ctx.matchSettings, company, signals)) {
+      if (!cache.get(CACHE_KEYS.companyDomain(ctx, domain))) domains.add(domain.toLowerCase());
+    }
+  }
+
+  for (const group of chunk(Array.from(domains), HUBSPOT_BATCH_SIZE)) {
+    const byDomain = new Map<string, HubSpotCompany[]>();
+    let after: string | undefined;
+    do {
+      const response = await hubspotRequest<SearchResponse>(ctx.portalKey, accessToken, '/crm/v3/objects/companies/search', {
+        method: 'POST',
+        pool: 'search',
+        body: {
+          filterGroups: [{ filters: [{ propertyName: 'domain', operator: 'IN', values: group }] }],
+          properties: COMPANY_PROPERTIES,
+          limit: HUBSPOT_BATCH_SIZE,
+          after,
+        },
+      });
+      for (const object of response.results) {
+        const company = toCompany(object);
+        const key = company.domain.toLowerCase();
+        byDomain.set(key, [...(byDomain.get(key) || []), company]);
+      }
+      after = response.paging?.next?.after;
+    } while (after);
+
+    for (const domain of group) {
+      cache.set(CACHE_KEYS.companyDomain(ctx, domain), byDomain.get(domain) || [], CACHE_TTL.COMPANY_SEARCH);
+    }
+  }
+
+  const firstNameSignal = signals.findIndex((signal) => signal === 'name' || signal === 'name_location');
+  if (firstNameSignal === -1) return;
+
+  // Keyed by lower case, like the cache keys
+  const names = new Map<string, string>();
+  for (const company of companies) {
+    if (!company.name || cache.get(CACHE_KEYS.companyName(ctx, company.name))) continue;
+    const domainHit = getSignalDomains(ctx.matchSettings, company, signals.slice(0, firstNameSignal)).some(
+      (domain) => (cache.get<HubSpotCompany[]>(CACHE_KEYS.companyDomain(ctx, domain)) || []).length > 0
+    );
+    if (!domainHit) names.set(company.name.toLowerCase(), company.name);
+  }
+
+  for (const name of Array.from(names.values())) {
+    const response = await hubspotRequest<SearchResponse>(ctx.portalKey, accessToken, '/crm/v3/objects/companies/search', {
+      method: 'POST',
+      pool: 'search',
+      body: {
+        filterGroups: [{ filters: [{ propertyName: 'name', operator: 'CONTAINS_TOKEN', value: name }] }],
+        properties: COMPANY_PROPERTIES,
+        limit: 10,
+      },
+    });
+    cache.set(CACHE_KEYS.companyName(ctx, name), response.results.map(toCompany), CACHE_TTL.COMPANY_SEARCH);
+  }
+}
+
+/**
+ * Sync up to HUBSPOT_BATCH_SIZE contact rows with batch calls: company
+ * searches, company create/update, review tasks for new companies, contact
+ * upsert by email and contact→company associations. Produces the same
+ * per-row results as processRowForHubSpot's contact path. Failures that only
+ * affect some rows are reported on those rows; anything else (e.g. an expired
+ * token) is thrown.
+ */
+export async function syncContactChunk(
+  ctx: BatchContext,
+  rows: ContactBatchRow[],
+  defaultTaskAssigneeId: string
+): Promise<ContactBatchOutcome[]> {
+  const accessToken = await getAccessToken(ctx);
+  const outcomes = new Map<number, ContactBatchOutcome>();
+  const fail = (rowIndex: number, error: string) => outcomes.set(rowIndex, { rowIndex, error });
+  const ledgerEntries: SyncLedgerEntry[] = [];
+  const record = (entry: SyncLedgerEntry) => {
+    if (ctx.ledger) ledgerEntries.push(entry);
+  };
+  // Store the step's changes before the next step sends anything
+  const flushLedger = async () => {
+    if (ctx.ledger && ledgerEntries.length > 0) await ctx.ledger.record(ledgerEntries.splice(0));
+  };
+
+  const rowCompanies = new Map<number, RowCompany>();
+  for (const row of rows) rowCompanies.set(row.rowIndex, getRowCompany(row));
+
+  // 1. Match companies
+  await prefetchCompanySearches(ctx, accessToken, Array.from(rowCompanies.values()));
+
+  const matches = new Map<number, Awaited<ReturnType<typeof findBestCompanyMatch>>>();
+  for (const row of rows) {
+    const company = rowCompanies.get(row.rowIndex)!;
+    matches.set(
+      row.rowIndex,
+      await findBestCompanyMatch(ctx, {
+        email: company.email,
+        institution: company.name,
+        officialName: company.name,
+        domain: company.domain,
+        city: company.city,
+        state: company.state,
+      }, ctx.matchSettings)
+    );
+  }
+
+  // 2. Update matched companies with the rows' values (later rows win)
+  const companyUpdates = new Map<string, Record<string, string>>();
+  const companyRows = new Map<string, number>();
+  for (const row of rows) {
+    const matched = matches.get(row.rowIndex)!.company;
+    if (!matched) continue;
+    companyUpdates.set(matched.id, { ...(companyUpdates.get(matched.id) || {}), ...cleanProperties(row.companyProperties) });
+    if (!companyRows.has(matched.id)) companyRows.set(matched.id, row.rowIndex);
+  }
+  // Overwrite policies: values they keep are reported on every row of the company
+  const skippedByCompany = new Map<string, SkippedProperty[]>();
+  let currentCompanies = new Map<string, Record<string, string | null>>();
+  try {
+    currentCompanies = await readCurrentValues(ctx, accessToken, 'companies', companyUpdates);
+    currentCompanies.forEach((current, id) => {
+      const update = applyPropertyPolicies(ctx.policies, 'companies', companyUpdates.get(id)!, current);
+      companyUpdates.set(id, update.properties);
+      skippedByCompany.set(id, update.skipped);
+    });
+  } catch (err) {
+    // Guarded values can't be written safely without the current ones; treat
+    // it like a failed company update
+    if (err instanceof Error && err.message.includes('(401)')) throw err;
+    console.error('Failed to read companies for overwrite policies:', err);
+    companyUpdates.clear();
+  }
+
+  const updateInputs = Array.from(companyUpdates.entries())
+    .filter(([, properties]) => Object.keys(properties).length > 0)
+    .map(([id, properties]) => ({ id, properties }));
+  for (const inputs of chunk(updateInputs, HUBSPOT_BATCH_SIZE)) {
+    try {
+      await hubspotRequest(ctx.portalKey, accessToken, '/crm/v3/objects/companies/batch/update', {
+        method: 'POST',
+        body: { inputs },
+      });
+      for (const { id, properties } of inputs) {
+        record({
+          objectType: 'companies',
+          action: 'updated',
+          hubspotId: id,
+          rowIndex: companyRows.get(id),
+          previousProperties: previousValues(properties, currentCompanies.get(id)),
+        });
+      }
+    } catch (err) {
+      console.error('Failed to batch update companies:', err);
+    }
+    await flushLedger();
+  }
+
+  // 3. Create companies that didn't match (once per name within the chunk)
+  const newCompanies = new Map<string, RowCompany>();
+  const newCompanyRows = new Map<string, number>();
+  for (const row of rows) {
+    const company = rowCompanies.get(row.rowIndex)!;
+    if (!matches.get(row.rowIndex)!.company && company.name) {
+      const key = company.name.toLowerCase();
+      if (!newCompanies.has(key)) {
+        newCompanies.set(key, company);
+        newCompanyRows.set(key, row.rowIndex);
+      }
+    }
+  }
+
+  const createdCompanies = new Map<string, HubSpotCompany>();
+  if (newCompanies.size > 0) {
+    const markerIds = ctx.ledger
+      ? await ctx.ledger.markPendingCreates(
+          Array.from(newCompanies.entries()).map(([key, company]) => ({ name: company.name, rowIndex: newCompanyRows.get(key) }))
+        )
+      : [];
+    let createSucceeded = false;
+    try {
+      const response = await hubspotRequest<BatchResponse>(ctx.portalKey, accessToken, '/crm/v3/objects/companies/batch/create', {
+        method: 'POST',
+        create: true,
+        body: {
+          inputs: Array.from(newCompanies.values()).map((company) => ({
+            properties: cleanProperties({
+              name: company.name,
+              domain: company.domain,
+              city: company.city,
+              state: company.state,
+            }),
+          })),
+        },
+      });
+      for (const object of response.results) {
+        const company = toCompany(object);
+        createdCompanies.set(company.name.toLowerCase(), company);
+        record({ objectType: 'companies', action: 'created', hubspotId: company.id, rowIndex: newCompanyRows.get(company.name.toLowerCase()) });
+        // Cache so later chunks with the same domain/name find it
+        const source = newCompanies.get(company.name.toLowerCase());
+        if (source?.domain) cache.set(CACHE_KEYS.companyDomain(ctx, source.domain), [company], CACHE_TTL.COMPANY_SEARCH);
+        cache.set(CACHE_KEYS.companyName(ctx, company.name), [company], CACHE_TTL.COMPANY_SEARCH);
+      }
+      createSucceeded = true;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to create companies';
+      for (const row of rows) {
+        const company = rowCompanies.get(row.rowIndex)!;
+        if (newCompanies.has(company.name.toLowerCase()) && !matches.get(row.rowIndex)!.company) {
+          fail(row.rowIndex, message);
+        }
+      }
+    }
+    await flushLedger();
+    // A failed create may still have been committed (a 5xx or a dropped
+    // connection), so its markers stay for resolvePendingCreates
+    if (createSucceeded) await ctx.ledger?.clearPendingCreates(markerIds);
+  }
+
+  // 4. Review tasks for the new companies, and for ambiguous matches when the
+  // account's tie-break asks for review (keyed "match:<company id>")
+  const taskIds = new Map<string, string>();
+  const reviewTasks = new Map<string, { companyId: string; subject: string; body: string; rowIndex?: number }>();
+  if (defaultTaskAssigneeId) {
+    createdCompanies.forEach((company, key) => {
+      reviewTasks.set(key, {
+        companyId: company.id,
+        subject: `Review new company: ${company.name}`,
+        body: `A new company was created during list import.\n\nCompany: ${company.name}\nDomain: ${company.domain || 'N/A'}\nCity: ${company.city || 'N/A'}\nState: ${company.state || 'N/A'}\n\nPlease review and verify the company information.`,
+        rowIndex: newCompanyRows.get(key),
+      });
+    });
+    for (const row of rows) {
+      const { company, explanation } = matches.get(row.rowIndex)!;
+      const key = company ? `match:${company.id}` : '';
+      if (!company || !explanation.needsReview || reviewTasks.has(key)) continue;
+      reviewTasks.set(key, {
+        companyId: company.id,
+        subject: `Review company match: ${company.name}`,
+        body: buildMatchReviewTaskBody(company, explanation),
+        rowIndex: row.rowIndex,
+      });
+    }
+  }
+
+  if (reviewTasks.size > 0) {
+    // Results are matched back by input position, not by subject: two
+    // companies with the same name give their tasks the same subject
+    const taskKeys = Array.from(reviewTasks.keys());
+    try {
+      const response = await hubspotRequest<BatchResponse>(ctx.portalKey, accessToken, '/crm/v3/objects/tasks/batch/create', {
+        method: 'POST',
+        create: true,
+        body: {
+          inputs: Array.from(reviewTasks.values()).map((task, i) => ({
+            objectWriteTraceId: String(i),
+            properties: {
+              hs_task_subject: task.subject,
+              hs_task_body: task.body,
+              hubspot_owner_id: defaultTaskAssigneeId,
+              hs_task_status: 'NOT_STARTED',
+              hs_task_priority: 'MEDIUM',
+              hs_timestamp: String(Date.now()),
+            },
+            associations: [
+              {
+                to: { id: task.companyId },
+                types: [{ associationCategory: 'HUBSPOT_DEFINED', associationTypeId: 192 }],
+              },
+            ],
+          })),
+        },
+      });
+      for (const task of response.results) {
+        const key = taskKeys[Number(task.objectWriteTraceId)];
+        if (key) taskIds.set(key, task.id);
+        record({ objectType: 'tasks', action: 'created', hubspotId: task.id, rowIndex: key ? reviewTasks.get(key)!.rowIndex : undefined });
+      }
+    } catch (err) {
+      console.error('Failed to batch create review tasks:', err);
+    }
+    await flushLedger();
+  }
+
+  // 5. Upsert contacts by email (rows sharing an email are merged, later rows win)
+  const contactsByEmail = new Map<string, Record<string, string>>();
+  const contactRows = new Map<string, number>();
+  for (const row of rows) {
+    if (outcomes.has(row.rowIndex)) continue;
+    const properties = cleanProperties(row.contactProperties);
+    if (!properties.email) {
+      fail(row.rowIndex, 'Email is required to create a HubSpot contact');
+      continue;
+    }
+    const key = properties.email.toLowerCase();
+    contactsByEmail.set(key, { ...(contactsByEmail.get(key) || {}), ...properties });
+    if (!contactRows.has(key)) contactRows.set(key, row.rowIndex);
+  }
+
+  // Existing contacts only get the values their overwrite policies allow
+  const upserts = new Map(contactsByEmail);
+  const skippedByEmail = new Map<string, SkippedProperty[]>();
+  const currentContacts = await readCurrentValues(ctx, accessToken, 'contacts', contactsByEmail, 'email');
+  currentContacts.forEach((current, email) => {
+    const properties = contactsByEmail.get(email);
+    if (!properties) return;
+    const update = applyPropertyPolicies(ctx.policies, 'contacts', properties, current);
+    // The upsert is keyed on email, so it always goes along
+    upserts.set(email, { ...update.properties, email: properties.email });
+    skippedByEmail.set(email, update.skipped);
+  });
+
+  // With a ledger every existing contact was read, so one missing from
+  // currentContacts is created by the upsert
+  const recordContact = (email: string, id: string) => {
+    const current = currentContacts.get(email);
+    if (current) {
+      const properties = { ...upserts.get(email)! };
+      delete properties.email;
+      if (Object.keys(properties).length === 0) return;
+      record({
+        objectType: 'contacts',
+        action: 'updated',
+        hubspotId: id,
+        rowIndex: contactRows.get(email),
+        previousProperties: previousValues(properties, current),
+      });
+    } else {
+      record({ objectType: 'contacts', action: 'created', hubspotId: id, rowIndex: contactRows.get(email) });
+    }
+  };
+
+  const contacts = new Map<string, HubSpotObject>();
+  if (contactsByEmail.size > 0) {
+    try {
+      const response = await hubspotRequest<BatchResponse>(ctx.portalKey, accessToken, '/crm/v3/objects/contacts/batch/upsert', {
+        method: 'POST',
+        body: {
+          inputs: Array.from(upserts.entries()).map(([email, properties]) => ({
+            idProperty: 'email',
+            id: email,
+            properties,
+          })),
+        },
+      });
+      for (const object of response.results) {
+        const email = (object.properties.email || '').toLowerCase();
+        contacts.set(email, object);
+        recordContact(email, object.id);
+      }
+    } catch (err) {
+      // A bad value in one row fails the whole batch — retry row by row so
+      // only the offending rows report the error
+      if (err instanceof Error && err.message.includes('(401)')) throw err;
+      console.error('Batch contact upsert failed, retrying rows individually:', err);
+      for (const [email, properties] of Array.from(contactsByEmail.entries())) {
+        try {
+          const { contact, skipped } = await createOrUpdateContact(ctx, properties, ctx.policies);
+          contacts.set(email, { id: contact.id, properties: contact.properties });
+          skippedByEmail.set(email, skipped);
+          recordContact(email, contact.id);
+        } catch (rowErr) {
+          const message = rowErr instanceof Error ? rowErr.message : 'Unknown error';
+          for (const row of rows) {
+            if ((row.contactProperties.email || '').trim().toLowerCase() === email) fail(row.rowIndex, message);
+          }
+        }
+      }
+    }
+    await flushLedger();
+  }
+
+  // 6. Associate contacts with their companies
+  const companyFor = (row: ContactBatchRow): HubSpotCompany | null =>
+    matches.get(row.rowIndex)!.company ||
+    createdCompanies.get(rowCompanies.get(row.rowIndex)!.name.toLowerCase()) ||
+    null;
+
+  const associations = new Map<string, { from: { id: string }; to: { id: string } }>();
+  // Ledger: pairs of a contact and company that both existed before the sync
+  // (deleting a created record removes its associations anyway)
+  const ledgerPairs = new Map<string, number>();
+  for (const row of rows) {
+    if (outcomes.has(row.rowIndex)) continue;
+    const email = (row.contactProperties.email || '').trim().toLowerCase();
+    const contact = contacts.get(email);
+    const company = companyFor(row);
+    if (contact && company) {
+      const key = `${contact.id}:${company.id}`;
+      associations.set(key, { from: { id: contact.id }, to: { id: company.id } });
+      if (ctx.ledger && currentContacts.has(email) && matches.get(row.rowIndex)!.company && !ledgerPairs.has(key)) {
+        ledgerPairs.set(key, row.rowIndex);
+      }
+    }
+  }
+
+  // ...of which only the ones not already associated are new
+  if (ledgerPairs.size > 0) {
+    const contactIds = Array.from(new Set(Array.from(ledgerPairs.keys()).map((key) => key.split(':')[0])));
+    for (const ids of chunk(contactIds, HUBSPOT_BATCH_SIZE)) {
+      const response = await hubspotRequest<{ results: { from: { id: string }; to: { toObjectId: string | number }[] }[] }>(
+        ctx.portalKey, accessToken, '/crm/v4/associations/contacts/companies/batch/read', {
+          method: 'POST',
+          body: { inputs: ids.map((id) => ({ id })) },
+        }
+      );
+      for (const result of response.results) {
+        for (const to of result.to) ledgerPairs.delete(`${result.from.id}:${to.toObjectId}`);
+      }
+    }
+  }
+
+  const failedAssociations = new Set<string>();
+  for (const inputs of chunk(Array.from(associations.entries()), HUBSPOT_BATCH_SIZE)) {
+    try {
+      await hubspotRequest(ctx.portalKey, accessToken, '/crm/v4/associations/contacts/companies/batch/create', {
+        method: 'POST',
+        body: {
+          inputs: inputs.map(([, pair]) => ({
+            ...pair,
+            types: [{ associationCategory: 'HUBSPOT_DEFINED', associationTypeId: 1 }],
+          })),
+        },
+      });
+      for (const [key, pair] of inputs) {
+        if (!ledgerPairs.has(key)) continue;
+        record({
+          objectType: 'associations',
+          action: 'associated',
+          hubspotId: pair.from.id,
+          associatedId: pair.to.id,
+          rowIndex: ledgerPairs.get(key),
+        });
+      }
+    } catch (err) {
+      console.error('Failed to batch associate contacts with companies:', err);
+      inputs.forEach(([key]) => failedAssociations.add(key));
+    }
+    await flushLedger();
+  }
+
+  // 7. Per-row results
+  for (const row of rows) {
+    if (outcomes.has(row.rowIndex)) continue;
+    const contactObject = contacts.get((row.contactProperties.email || '').trim().toLowerCase());
+    if (!contactObject) {
+      fail(row.rowIndex, 'HubSpot did not return the upserted contact');
+      continue;
+    }
+    const company = companyFor(row);
+    if (company && failedAssociations.has(`${contactObject.id}:${company.id}`)) {
+      fail(row.rowIndex, `Failed to associate contact with company ${company.name}`);
+      continue;
+    }
+
+    const match = matches.get(row.rowIndex)!;
+    const created = !match.company && !!company;
+    const taskId = created
+      ? taskIds.get(company!.name.toLowerCase())
+      : match.company ? taskIds.get(`match:${match.company.id}`) : undefined;
+    const properties = withoutNulls(contactObject.properties);
+    const skippedProperties = (match.company ? skippedByCompany.get(match.company.id) || [] : [])
+      .concat(skippedByEmail.get((row.contactProperties.email || '').trim().toLowerCase()) || []);
+
+    outcomes.set(row.rowIndex, {
+      rowIndex: row.rowIndex,
+      result: {
+        objectType: 'contacts',
+        rowIndex: row.rowIndex,
+        contact: {
+          id: contactObject.id,
+          email: properties.email || '',
+          firstName: properties.firstname,
+          lastName: properties.lastname,
+          company: properties.company,
+          properties,
+        },
+        matchedCompany: company,
+        matchConfidence: match.confidence,
+        matchType: created ? 'created_new' : match.matchType,
+        matchExplanation: match.explanation,
+        taskCreated: !!taskId,
+        taskId,
+        skippedProperties,
+      },
+    });
+  }
+
+  return rows.map((row) => outcomes.get(row.rowIndex)!);
+}
+
+/**
+ * Dry run of a contact sync: runs the same company matching and a read of the
+ * existing contacts (by email), then reports per row whether the contact would
+ * be created or updated, the company it would match or create, and each
+ * property that would change. Only searches and reads are sent to HubSpot.
+ */
+export async function previewContactRows(
+  ctx: BatchContext,
+  rows: ContactBatchRow[],
+  defaultTaskAssigneeId: string
+): Promise<{ rows: SyncPreviewRow[]; summary: SyncPreviewSummary }> {
+  const previews: SyncPreviewRow[] = [];
+  // Contact values once the file's earlier rows are synced, by lower-case email
+  const pending = new Map<string, { contactId?: string; properties: Record<string, string> }>();
+  const newCompanies = new Set<string>();
+
+  for (const rowsChunk of chunk(rows, HUBSPOT_BATCH_SIZE)) {
+    const accessToken = await getAccessToken(ctx);
+    const rowCompanies = rowsChunk.map(getRowCompany);
+    await prefetchCompanySearches(ctx, accessToken, rowCompanies);
+
+    // Current values of the chunk's existing contacts, for the properties the rows set
+    const propertyNames = new Set<string>(['email']);
+    const emails = new Set<string>();
+    for (const row of rowsChunk) {
+      const properties = cleanProperties(row.contactProperties);
+      Object.keys(properties).forEach((property) => propertyNames.add(property));
+      if (properties.email && !pending.has(properties.email.toLowerCase())) emails.add(properties.email.toLowerCase());
+    }
+
+    const existing = new Map<string, HubSpotObject>();
+    if (emails.size > 0) {
+      const response = await hubspotRequest<BatchResponse>(ctx.portalKey, accessToken, '/crm/v3/objects/contacts/batch/read', {
+        method: 'POST',
+        body: {
+          idProperty: 'email',
+          properties: Array.from(propertyNames),
+          inputs: Array.from(emails).map((id) => ({ id })),
+        },
+      });
+      for (const object of response.results) {
+        existing.set((object.properties.email || '').toLowerCase(), object);
+      }
+    }
+
+    for (let i = 0; i < rowsChunk.length; i++) {
+      const row = rowsChunk[i];
+      const company = rowCompanies[i];
+      const match = await findBestCompanyMatch(ctx, {
+        email: company.email,
+        institution: company.name,
+        officialName: company.name,
+        domain: company.domain,
+        city: company.city,
+        state: company.state,
+      }, ctx.matchSettings);
+      const newCompanyName = !match.company && company.name ? company.name : undefined;
+      if (newCompanyName) newCompanies.add(newCompanyName.toLowerCase());
+
+      const properties = cleanProperties(row.contactProperties);
+      const preview: SyncPreviewRow = {
+        rowIndex: row.rowIndex,
+        email: properties.email || '',
+        action: 'create',
+        matchedCompany: match.company,
+        matchType: newCompanyName ? 'created_new' : match.matchType,
+        matchConfidence: match.confidence,
+        matchExplanation: match.explanation,
+        newCompanyName,
+        changes: [],
+      };
+
+      if (!properties.email) {
+        previews.push({ ...preview, action: 'error', error: 'Email is required to create a HubSpot contact' });
+        continue;
+      }
+
+      const key = properties.email.toLowerCase();
+      const found = existing.get(key);
+      const current = pending.get(key) ||
+        (found ? { contactId: found.id, properties: withoutNulls(found.properties) } : null);
+
+      // Existing contacts only get the values their overwrite policies allow
+      const update = current
+        ? applyPropertyPolicies(ctx.policies, 'contacts', properties, current.properties)
+        : { properties, skipped: [] };
+
+      const changes: SyncPropertyChange[] = [];
+      for (const [property, newValue] of Object.entries(update.properties)) {
+        const oldValue = current?.properties[property] ?? null;
+        const same = oldValue !== null &&
+          (property === 'email' ? oldValue.toLowerCase() === newValue.toLowerCase() : oldValue === newValue);
+        if (!same) changes.push({ property, oldValue, newValue });
+      }
+
+      previews.push({
+        ...preview,
+        action: current ? 'update' : 'create',
+        contactId: current?.contactId,
+        changes,
+        skippedProperties: update.skipped,
+      });
+      pending.set(key, { contactId: current?.contactId, properties: { ...(current?.properties || {}), ...update.properties } });
+    }
+  }
+
+  // Ambiguous matches that would get a review task, once per company
+  const reviewMatches = new Set(
+    previews.filter((p) => p.matchedCompany && p.matchExplanation?.needsReview).map((p) => p.matchedCompany!.id)
+  );
+
+  const summary: SyncPreviewSummary = {
+    creates: previews.filter((p) => p.action === 'create').length,
+    updates: previews.filter((p) => p.action === 'update').length,
+    unchanged: previews.filter((p) => p.action === 'update' && p.changes.length === 0).length,
+    newCompanies: newCompanies.size,
+    tasks: defaultTaskAssigneeId ? newCompanies.size + reviewMatches.size : 0,
+    errors: previews.filter((p) => p.action === 'error').length,
+  };
+
+  return { rows: previews, summary };
+}
@@ -0,0 +1,158 @@
+/**
+ * HubSpot Lists — static (manual) contact lists a sync can add its contacts
+ * to, either an existing list or a new one named from a template.
+ */
+
+import { hubspotRequest } from './hubspotRateLimiter';
+import { getPortalId, getValidAccessToken, type HubSpotAccountContext } from './hubspot';
+import type { HubSpotStaticList, SyncListResult, SyncListTarget } from '@/types';
+
+// HubSpot object type id of contacts
+const CONTACT_OBJECT_TYPE_ID = '0-1';
+const SEARCH_PAGE_SIZE = 100;
+const MEMBERSHIP_BATCH_SIZE = 500;
+
+export const DEFAULT_LIST_NAME_TEMPLATE = '{fileName} – {date}';
+
+interface HubSpotListObject {
+  listId: string;
+  name: string;
+  objectTypeId: string;
+  processingType: string;
+  additionalProperties?: Record<string, string>;
+}
+
+async function getAccessToken(account: HubSpotAccountContext): Promise<string> {
+  const accessToken = await getValidAccessToken(account.accountId);
+  if (!accessToken) {
+    throw new Error('HubSpot not connected. Please connect via OAuth in Admin settings.');
+  }
+  return accessToken;
+}
+
+function toStaticList(list: HubSpotListObject): HubSpotStaticList {
+  const size = Number(list.additionalProperties?.hs_list_size);
+  return { listId: String(list.listId), name: list.name, size: isNaN(size) ? null : size };
+}
+
+/**
+ * Fill a list name template. {fileName} is the file name without its
+ * extension, {date} today as YYYY-MM-DD and {count} the number of contacts.
+ */
+export function buildListName(template: string, values: { fileName: string; count: number }): string {
+  const fileName = values.fileName.replace(/\.[^.]+$/, '') || 'Import';
+  const name = (template.trim() || DEFAULT_LIST_NAME_TEMPLATE)
+    .replace(/\{fileName\}/g, fileName)
+    .replace(/\{date\}/g, new Date().toISOString().slice(0, 10))
+    .replace(/\{count\}/g, String(values.count));
+  return name.trim();
+}
+
+/** The portal's static contact lists, optionally filtered by name */
+export async function fetchStaticContactLists(account: HubSpotAccountContext, query = ''): Promise<HubSpotStaticList[]> {
+  const accessToken = await getAccessToken(account);
+  const lists: HubSpotStaticList[] = [];
+
+  for (let offset = 0; ; offset += SEARCH_PAGE_SIZE) {
+    const response = await hubspotRequest<{ lists: HubSpotListObject[]; hasMore: boolean }>(
+      account.portalKey,
+      accessToken,
+      '/crm/v3/lists/search',
+      {
+        method: 'POST',
+        body: {
+          query,
+          processingTypes: ['MANUAL'],
+          additionalProperties: ['hs_list_size'],
+          count: SEARCH_PAGE_SIZE,
+          offset,
+        },
+      }
+    );
+
+    for (const list of response.lists || []) {
+      if (list.objectTypeId === CONTACT_OBJECT_TYPE_ID) lists.push(toStaticList(list));
+    }
+    if (!response.hasMore) return lists;
+  }
+}
+
+export function buildListUrl(portalId: string, listId: string): string {
+  return `https://app.hubspot.com/contacts/${portalId}/objectLists/${listId}`;
+}
+
+/** Link to a list in HubSpot, or null when the portal isn't known */
+export async function getListUrl(accountId: string, listId: string): Promise<string | null> {
+  const portalId = await getPortalId(accountId);
+  return portalId ? buildListUrl(portalId, listId) : null;
+}
+
+// The list a target names: the existing static contact list, or a newly created one
+async function resolveListTarget(
+  account: HubSpotAccountContext,
+  accessToken: string,
+  target: SyncListTarget,
+  values: { fileName: string; count: number }
+): Promise<{ listId: string; name: string }> {
+  if ('listId' in target) {
+    const { list } = await hubspotRequest<{ list: HubSpotListObject }>(
+      account.portalKey,
+      accessToken,
+      `/crm/v3/lists/${encodeURIComponent(target.listId)}`
+    );
+    if (list.objectTypeId !== CONTACT_OBJECT_TYPE_ID || list.processingType !== 'MANUAL') {
+      throw new Error(`HubSpot list "${list.name}" is not a static contact list`);
+    }
+    return { listId: String(list.listId), name: list.name };
+  }
+
+  const { list } = await hubspotRequest<{ list: HubSpotListObject }>(account.portalKey, accessToken, '/crm/v3/lists', {
+    method: 'POST',
+    body: {
+      name: buildListName(target.nameTemplate, values),
+      objectTypeId: CONTACT_OBJECT_TYPE_ID,
+      processingType: 'MANUAL',
+    },
+  });
+  return { listId: String(list.listId), name: list.name };
+}
+
+/**
+ * Add the contacts a sync created or updated to the target list, creating the
+ * list first when the target is a name template. Duplicate ids are added once.
+ */
+export async function addContactsToList(
+  account: HubSpotAccountContext,
+  target: SyncListTarget,
+  contactIds: string[],
+  fileName: string
+): Promise<SyncListResult> {
+  const accessToken = await getAccessToken(account);
+  const ids = Array.from(new Set(contactIds.filter(Boolean)));
+  const list = await resolveListTarget(account, accessToken, target, { fileName, count: ids.length });
+
+  for (let i = 0; i < ids.length; i += MEMBERSHIP_BATCH_SIZE) {
+    await hubspotRequest(
+      account.portalKey,
+      accessToken,
+      `/crm/v3/lists/${encodeURIComponent(list.listId)}/memberships/add`,
+      { method: 'PUT', body: ids.slice(i, i + MEMBERSHIP_BATCH_SIZE) }
+    );
+  }
+
+  return {
+    listId: list.listId,
+    listName: list.name,
+    added: ids.length,
+    url: await getListUrl(account.accountId, list.listId),
+  };
+}
+
+/** Validate a list target from a request body; null when there is none */
+export function readSyncListTarget(value: unknown): SyncListTarget | null {
+  if (!value || typeof value !== 'object') return null;
+  const target = value as Record<string, unknown>;
+  if (typeof target.listId === 'string' && target.listId.trim()) return { listId: target.listId.trim() };
+  if (typeof target.nameTemplate === 'string') return { nameTemplate: target.nameTemplate };
+  return null;
+}
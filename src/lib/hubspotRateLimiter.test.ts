@@ -0,0 +1,37 @@
+import { test, before, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { withPortalLimit } from './hubspotRateLimiter';
+
+// A call that fails with the given SDK error codes, then succeeds
+function failingCall(codes: number[]) {
+  let calls = 0;
+  const call = async () => {
+    calls++;
+    const code = codes[calls - 1];
+    if (code) throw Object.assign(new Error(`HTTP ${code}`), { code, headers: { 'retry-after': '0' } });
+    return 'ok';
+  };
+  return { call, calls: () => calls };
+}
+
+before(() => {
+  mock.method(console, 'warn', () => {});
+});
+
+test('reads and updates are retried on a 5xx', async () => {
+  const { call, calls } = failingCall([502]);
+  assert.equal(await withPortalLimit('portal-retry-read', call), 'ok');
+  assert.equal(calls(), 2);
+});
+
+test('creates are not retried on a 5xx, which may have committed the create', async () => {
+  const { call, calls } = failingCall([502]);
+  await assert.rejects(withPortalLimit('portal-retry-create', call, { create: true }), /HTTP 502/);
+  assert.equal(calls(), 1);
+});
+
+test('creates are retried on a 429', async () => {
+  const { call, calls } = failingCall([429]);
+  assert.equal(await withPortalLimit('portal-retry-429', call, { create: true }), 'ok');
+  assert.equal(calls(), 2);
+});
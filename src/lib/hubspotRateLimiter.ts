@@ -0,0 +1,197 @@
+// Rate-limited HubSpot REST requests.
+// HubSpot allows OAuth apps 110 requests per 10 seconds per portal, and the
+// CRM search endpoints 5 requests per second on top of that. Each portal gets
+// a token bucket per limit; a 429 pauses the portal's bucket for the
+// Retry-After period so every caller for that portal backs off together.
+// 429s and 5xx responses are retried with exponential backoff. Calls made with
+// the HubSpot SDK go through the same buckets via withPortalLimit.
+// Creates are not idempotent: HubSpot can commit a create and still answer
+// with a 5xx or drop the connection, so a create is only retried on a 429,
+// which HubSpot sends before doing any work.
+
+const HUBSPOT_API_BASE = 'https://api.hubapi.com';
+
+export type RateLimitPool = 'default' | 'search';
+
+export interface RateLimitOptions {
+  pool?: RateLimitPool;
+  // The call creates records, so only a 429 is retried
+  create?: boolean;
+}
+
+// Kept just under HubSpot's limits to leave room for other API usage
+const POOL_LIMITS: Record<RateLimitPool, { capacity: number; refillPerSecond: number }> = {
+  default: { capacity: 100, refillPerSecond: 10 },
+  search: { capacity: 4, refillPerSecond: 4 },
+};
+
+const MAX_RETRIES = 5;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 30 * 1000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+
+  constructor(private capacity: number, private refillPerSecond: number) {
+    this.tokens = capacity;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.refillPerSecond);
+    this.lastRefill = now;
+  }
+
+  // Wait for a token (and for any Retry-After pause to pass), then take it
+  async take(): Promise<void> {
+    for (;;) {
+      this.refill();
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        await sleep(this.pausedUntil - now);
+        continue;
+      }
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(((1 - this.tokens) / this.refillPerSecond) * 1000);
+    }
+  }
+
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.tokens = 0;
+  }
+}
+
+const buckets = new Map<string, TokenBucket>();
+
+function getBucket(portalKey: string, pool: RateLimitPool): TokenBucket {
+  const key = `${portalKey}:${pool}`;
+  let bucket = buckets.get(key);
+  if (!bucket) {
+    const { capacity, refillPerSecond } = POOL_LIMITS[pool];
+    bucket = new TokenBucket(capacity, refillPerSecond);
+    buckets.set(key, bucket);
+  }
+  return bucket;
+}
+
+/**
+ * Delay before retry number `attempt` (0-based): the Retry-After header when
+ * HubSpot sends one (seconds or an HTTP date), otherwise exponential backoff
+ * with jitter.
+ */
+export function getRetryDelay(attempt: number, retryAfter: string | null): number {
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) return Math.max(0, date - Date.now());
+  }
+  const backoff = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * Math.pow(2, attempt));
+  return backoff / 2 + Math.random() * (backoff / 2);
+}
+
+// Whether a failed attempt with this HTTP status (undefined for a network
+// failure) may be sent again
+function isRetryable(status: number | undefined, options: RateLimitOptions): boolean {
+  if (status === 429) return true;
+  if (options.create) return false;
+  return status === undefined || status >= 500;
+}
+
+/**
+ * Call the HubSpot REST API through the portal's rate limiter. Resolves with
+ * the parsed JSON body; throws once a request fails for good. The error
+ * message carries the HTTP status so callers can spot auth failures (401).
+ */
+export async function hubspotRequest<T>(
+  portalKey: string,
+  accessToken: string,
+  path: string,
+  options: { method?: string; body?: unknown } & RateLimitOptions = {}
+): Promise<T> {
+  const method = options.method || 'GET';
+  const bucket = getBucket(portalKey, options.pool || 'default');
+
+  for (let attempt = 0; ; attempt++) {
+    await bucket.take();
+
+    let response: Response;
+    try {
+      response = await fetch(`${HUBSPOT_API_BASE}${path}`, {
+        method,
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: options.body === undefined ? undefined : JSON.stringify(options.body),
+      });
+    } catch (err) {
+      // Network failure — retry like a 5xx
+      if (!isRetryable(undefined, options) || attempt >= MAX_RETRIES) throw err;
+      await sleep(getRetryDelay(attempt, null));
+      continue;
+    }
+
+    if (response.ok) {
+      return (response.status === 204 ? undefined : await response.json()) as T;
+    }
+
+    if (isRetryable(response.status, options) && attempt < MAX_RETRIES) {
+      const delay = getRetryDelay(attempt, response.headers.get('retry-after'));
+      if (response.status === 429) bucket.pause(delay);
+      console.warn(
+        `[HubSpot] ${response.status} on ${method} ${path}, retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${MAX_RETRIES})`
+      );
+      await sleep(delay);
+      continue;
+    }
+
+    const text = await response.text();
+    let message = text;
+    try {
+      message = JSON.parse(text).message || text;
+    } catch {
+      // Not JSON — use the raw body
+    }
+    throw new Error(`HubSpot ${method} ${path} failed (${response.status}): ${message}`);
+  }
+}
+
+/**
+ * Run a HubSpot SDK call through the portal's rate limiter, with the same
+ * retries as hubspotRequest. The SDK throws its errors with the HTTP status as
+ * `code` and the response headers as `headers`; anything else is thrown as is.
+ */
+export async function withPortalLimit<T>(
+  portalKey: string,
+  call: () => Promise<T>,
+  options: RateLimitOptions = {}
+): Promise<T> {
+  const bucket = getBucket(portalKey, options.pool || 'default');
+
+  for (let attempt = 0; ; attempt++) {
+    await bucket.take();
+
+    try {
+      return await call();
+    } catch (err) {
+      const { code, headers } = (err || {}) as { code?: unknown; headers?: Record<string, string> };
+      if (typeof code !== 'number' || !isRetryable(code, options) || attempt >= MAX_RETRIES) throw err;
+
+      const delay = getRetryDelay(attempt, headers?.['retry-after'] || null);
+      if (code === 429) bucket.pause(delay);
+      console.warn(`[HubSpot] ${code} from SDK call, retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${MAX_RETRIES})`);
+      await sleep(delay);
+    }
+  }
+}
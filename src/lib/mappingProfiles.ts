@@ -0,0 +1,87 @@
+import type { HubSpotObjectType } from '@/types';
+
+/**
+ * A named import setup saved from the Map Columns step. Offered again when a
+ * new file's headers closely match the header set it was saved from.
+ */
+export interface MappingProfile {
+  id: string;
+  name: string;
+  objectType: HubSpotObjectType | null;
+  // Spreadsheet headers of the file the profile was saved from
+  headers: string[];
+  // Spreadsheet header → column heading (or "do not use")
+  columnMapping: Record<string, string>;
+  // questionId → answer, as stored by the Questions step
+  questionAnswers: Record<string, { value: string; isOverride: boolean }>;
+  // Column header → value added by the Questions step
+  questionColumnValues: Record<string, string>;
+  // ruleId → enabled, as stored by the Rules step
+  ruleOverrides: Record<string, boolean>;
+  useCount: number;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+export interface ProfileMatch {
+  profile: MappingProfile;
+  // Share of the combined header set the file and profile have in common (0-1)
+  score: number;
+}
+
+// Minimum header overlap before a profile is offered
+export const PROFILE_MATCH_THRESHOLD = 0.8;
+
+/**
+ * Header key used for matching: case, spacing and punctuation are ignored so
+ * "First Name" and "first_name" count as the same column.
+ */
+export function normalizeProfileHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Jaccard similarity of two header sets.
+ */
+export function headerSetSimilarity(a: string[], b: string[]): number {
+  const setA = new Set(a.map(normalizeProfileHeader).filter(Boolean));
+  const setB = new Set(b.map(normalizeProfileHeader).filter(Boolean));
+  if (setA.size === 0 && setB.size === 0) return 0;
+
+  let shared = 0;
+  setA.forEach((key) => {
+    if (setB.has(key)) shared++;
+  });
+  return shared / (setA.size + setB.size - shared);
+}
+
+/**
+ * Profiles whose header set matches the file's closely enough, best first
+ * (most recently used wins a tie).
+ */
+export function findMatchingProfiles(headers: string[], profiles: MappingProfile[]): ProfileMatch[] {
+  return profiles
+    .map((profile) => ({ profile, score: headerSetSimilarity(headers, profile.headers) }))
+    .filter((match) => match.score >= PROFILE_MATCH_THRESHOLD)
+    .sort((a, b) =>
+      b.score - a.score || (b.profile.lastUsedAt || '').localeCompare(a.profile.lastUsedAt || '')
+    );
+}
+
+/**
+ * The profile's mapping for each of the given headers it knows about, matched
+ * exactly first and then by normalized header. Unknown headers are left out.
+ */
+export function mapHeadersWithProfile(profile: MappingProfile, headers: string[]): Record<string, string> {
+  const byKey = new Map<string, string>();
+  for (const [header, heading] of Object.entries(profile.columnMapping)) {
+    byKey.set(normalizeProfileHeader(header), heading);
+  }
+
+  const mapping: Record<string, string> = {};
+  for (const header of headers) {
+    const heading = profile.columnMapping[header] ?? byKey.get(normalizeProfileHeader(header));
+    if (heading) mapping[header] = heading;
+  }
+  return mapping;
+}
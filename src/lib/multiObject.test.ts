@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { splitRowByObject, type MultiObjectColumn } from './multiObject';
+
+// A mixed import: contact, company and deal columns in one file
+const COLUMNS: MultiObjectColumn[] = [
+  { header: 'Email', objectType: 'contacts', property: 'email' },
+  { header: 'Phone', objectType: 'contacts', property: 'phone' },
+  { header: 'Company', objectType: 'companies', property: 'name' },
+  { header: 'Website', objectType: 'companies', property: 'domain' },
+  { header: 'Company Phone', objectType: 'companies', property: 'phone' },
+  { header: 'Deal', objectType: 'deals', property: 'dealname' },
+];
+
+test('assigned columns go to their record under their property', () => {
+  const split = splitRowByObject(
+    {
+      Email: 'ann@acme.com',
+      Phone: '555-0100',
+      Company: 'Acme',
+      Website: 'https://www.acme.com/about',
+      'Company Phone': '555-0199',
+      Deal: 'Acme renewal',
+    },
+    'contacts',
+    COLUMNS
+  );
+
+  assert.deepEqual(split, {
+    contactProperties: { email: 'ann@acme.com', phone: '555-0100' },
+    companyProperties: { name: 'Acme', domain: 'acme.com', phone: '555-0199' },
+    dealProperties: { dealname: 'Acme renewal' },
+  });
+});
+
+test('other values go to the imported record type under their own name', () => {
+  const split = splitRowByObject(
+    { Company: 'Acme', Notes: '', industry: 'Software', name: 'Enriched name' },
+    'companies',
+    [{ header: 'Company', objectType: 'companies', property: 'name' }]
+  );
+
+  assert.deepEqual(split, {
+    contactProperties: {},
+    companyProperties: { name: 'Acme', industry: 'Software' },
+    dealProperties: {},
+  });
+});
@@ -0,0 +1,241 @@
+import type { HubSpotObjectType, ParsedRow } from '@/types';
+import type { ColumnHeading } from './columnHeadings';
+
+/**
+ * Multi-object imports: one spreadsheet row carries contact, company and deal
+ * columns. Each mapped column is assigned a record type; every row becomes a
+ * contact plus (optionally) a company and a deal linked to it.
+ */
+
+export interface MultiObjectColumn {
+  // Spreadsheet header
+  header: string;
+  objectType: HubSpotObjectType;
+  // HubSpot property the column's values go to
+  property: string;
+}
+
+export interface MultiObjectRow {
+  rowIndex: number;
+  contactProperties: Record<string, string>;
+  companyProperties: Record<string, string>;
+  dealProperties: Record<string, string>;
+  // Rows sharing a key are the same company (blank when the row has no company)
+  companyKey: string;
+  // Rows sharing a key are the same deal (blank when the row has no deal)
+  dealKey: string;
+}
+
+export type RowObjectProperties = Pick<MultiObjectRow, 'contactProperties' | 'companyProperties' | 'dealProperties'>;
+
+export interface MultiObjectSummary {
+  contacts: number;
+  companies: number;
+  deals: number;
+}
+
+/**
+ * Resolve the mapped columns of a multi-object import. A column's HubSpot
+ * property comes from its heading (synced HubSpot headings carry the field
+ * name); columns that are unmapped or set to "do not use" are left out.
+ */
+export function getMultiObjectColumns(
+  headers: string[],
+  columnMapping: Record<string, string>,
+  columnObjectTypes: Record<string, HubSpotObjectType>,
+  headings: ColumnHeading[],
+  doNotUse: string
+): MultiObjectColumn[] {
+  const columns: MultiObjectColumn[] = [];
+  for (const header of headers) {
+    const headingName = columnMapping[header];
+    if (!headingName || headingName === doNotUse) continue;
+
+    const heading = headings.find((h) => h.name === headingName);
+    columns.push({
+      header,
+      objectType: columnObjectTypes[header] || (heading?.hubspotObjectType as HubSpotObjectType) || 'contacts',
+      property: heading?.hubspotFieldName || headingName,
+    });
+  }
+  return columns;
+}
+
+const OBJECT_TYPES: HubSpotObjectType[] = ['contacts', 'companies', 'deals'];
+
+export function isHubSpotObjectType(value: unknown): value is HubSpotObjectType {
+  return OBJECT_TYPES.includes(value as HubSpotObjectType);
+}
+
+/**
+ * Column assignments as an API client sent them; null when they aren't a
+ * list of { header, objectType, property }.
+ */
+export function readMultiObjectColumns(value: unknown): MultiObjectColumn[] | null {
+  if (!Array.isArray(value)) return null;
+  const valid = value.every((column) =>
+    column && typeof column === 'object' &&
+    typeof column.header === 'string' &&
+    isHubSpotObjectType(column.objectType) &&
+    typeof column.property === 'string' && column.property.trim() !== ''
+  );
+  return valid ? value.map(({ header, objectType, property }) => ({ header, objectType, property })) : null;
+}
+
+// Legal-form suffixes ignored when comparing company names
+const COMPANY_SUFFIXES = /\b(inc|incorporated|llc|l\.l\.c|ltd|limited|corp|corporation|co|company|plc|gmbh|pty|lp|llp)\b\.?/g;
+
+export function normalizeCompanyDomain(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .replace(/^www\./, '')
+    .replace(/[/?#].*$/, '');
+}
+
+export function normalizeCompanyName(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(COMPANY_SUFFIXES, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Key used to deduplicate company rows: the domain when there is one,
+ * otherwise the normalized name.
+ */
+export function getCompanyKey(properties: Record<string, string>): string {
+  const domain = normalizeCompanyDomain(properties.domain || properties.website || '');
+  if (domain) return `domain:${domain}`;
+  const name = normalizeCompanyName(properties.name || '');
+  return name ? `name:${name}` : '';
+}
+
+/**
+ * Split each row into contact, company and deal properties and deduplicate
+ * companies. Rows for the same company (same domain, or same name when no
+ * domain is given) share one merged set of company properties — the first
+ * non-empty value per property wins — so the company is created once.
+ * A company with no domain is merged into a domain-keyed company of the same
+ * name when one exists in the file.
+ */
+export function buildMultiObjectRows(rows: ParsedRow[], columns: MultiObjectColumn[]): MultiObjectRow[] {
+  const split: MultiObjectRow[] = rows.map((row, rowIndex) => {
+    const result: MultiObjectRow = {
+      rowIndex,
+      contactProperties: {},
+      companyProperties: {},
+      dealProperties: {},
+      companyKey: '',
+      dealKey: '',
+    };
+
+    for (const column of columns) {
+      const value = row[column.header];
+      if (value === null || value === undefined) continue;
+      const text = String(value).trim();
+      if (!text) continue;
+
+      const target =
+        column.objectType === 'companies' ? result.companyProperties
+        : column.objectType === 'deals' ? result.dealProperties
+        : result.contactProperties;
+      if (!(column.property in target)) target[column.property] = text;
+    }
+
+    // HubSpot matches companies on the bare domain
+    if (result.companyProperties.domain) {
+      result.companyProperties.domain = normalizeCompanyDomain(result.companyProperties.domain);
+    }
+    result.companyKey = getCompanyKey(result.companyProperties);
+    result.dealKey = (result.dealProperties.dealname || '').trim().toLowerCase();
+    return result;
+  });
+
+  // Companies known by domain, so name-only rows can join them
+  const domainKeyByName = new Map<string, string>();
+  for (const row of split) {
+    if (!row.companyKey.startsWith('domain:')) continue;
+    const name = normalizeCompanyName(row.companyProperties.name || '');
+    if (name && !domainKeyByName.has(name)) domainKeyByName.set(name, row.companyKey);
+  }
+  for (const row of split) {
+    if (!row.companyKey.startsWith('name:')) continue;
+    const domainKey = domainKeyByName.get(row.companyKey.slice('name:'.length));
+    if (domainKey) row.companyKey = domainKey;
+  }
+
+  // Merge company properties across the rows of each company
+  const merged = new Map<string, Record<string, string>>();
+  for (const row of split) {
+    if (!row.companyKey) continue;
+    const properties = merged.get(row.companyKey) || {};
+    for (const [key, value] of Object.entries(row.companyProperties)) {
+      if (!(key in properties)) properties[key] = value;
+    }
+    merged.set(row.companyKey, properties);
+  }
+  for (const row of split) {
+    if (row.companyKey) row.companyProperties = { ...merged.get(row.companyKey)! };
+  }
+
+  return split;
+}
+
+/**
+ * Split one stored row into contact, company and deal properties. Assigned
+ * columns go to their record type under their HubSpot property; any other
+ * value (enriched fields, question answers) goes to the imported record type
+ * under its own name. The first non-empty value per property wins.
+ */
+export function splitRowByObject(
+  data: Record<string, string>,
+  recordType: HubSpotObjectType,
+  columns: MultiObjectColumn[]
+): RowObjectProperties {
+  const split: RowObjectProperties = { contactProperties: {}, companyProperties: {}, dealProperties: {} };
+  const target = (objectType: HubSpotObjectType) =>
+    objectType === 'companies' ? split.companyProperties
+    : objectType === 'deals' ? split.dealProperties
+    : split.contactProperties;
+
+  const assigned = new Set<string>();
+  for (const column of columns) {
+    assigned.add(column.header);
+    const text = (data[column.header] || '').trim();
+    const properties = target(column.objectType);
+    if (text && !(column.property in properties)) properties[column.property] = text;
+  }
+
+  const recordProperties = target(recordType);
+  for (const [key, value] of Object.entries(data)) {
+    const text = (value || '').trim();
+    if (assigned.has(key) || !text || key in recordProperties) continue;
+    recordProperties[key] = text;
+  }
+
+  // HubSpot matches companies on the bare domain
+  if (split.companyProperties.domain) {
+    split.companyProperties.domain = normalizeCompanyDomain(split.companyProperties.domain);
+  }
+  return split;
+}
+
+/**
+ * How many records of each type the rows will produce.
+ */
+export function summarizeMultiObjectRows(rows: MultiObjectRow[]): MultiObjectSummary {
+  const companies = new Set<string>();
+  const deals = new Set<string>();
+  let contacts = 0;
+  rows.forEach((row, i) => {
+    if (Object.keys(row.contactProperties).length > 0) contacts++;
+    if (row.companyKey) companies.add(row.companyKey);
+    // Deals without a name can't be matched up, so each counts on its own
+    if (Object.keys(row.dealProperties).length > 0) deals.add(row.dealKey || `row:${i}`);
+  });
+  return { contacts, companies: companies.size, deals: deals.size };
+}
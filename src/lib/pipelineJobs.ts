@@ -0,0 +1,628 @@
+/**
+ * Pipeline Jobs — enrichment and sync as durable background jobs.
+ *
+ * A worker claims a job by taking its lease (lease_owner + lease_expires_at),
+ * processes rows a batch at a time after last_row_index and, after every
+ * batch, stores its progress and renews the lease. When a worker stops early —
+ * out of time, the tab closed, the function killed — the lease runs out and
+ * the next worker resumes from last_row_index. From start to finish the job
+ * holds its session's lock (upload_sessions.lock_job_id), so only one
+ * enrichment or sync runs on a session at a time.
+ */
+
+import { randomUUID } from 'crypto';
+import { getServerSupabase } from './supabase';
+import { validateSession } from './auth';
+import { createBatchContext, type BatchContext } from './hubspotBatch';
+import {
+  countJobRows,
+  enrichBatch,
+  enrichOutcome,
+  finishSync,
+  loadEnrichmentConfigs,
+  syncBatch,
+  type TaskBatch,
+} from './pipelineTasks';
+import type { MultiObjectColumn } from './multiObject';
+import type { EnrichmentConfig, HubSpotObjectType, PipelineJob, PipelineJobStatus, PipelineJobType } from '@/types';
+
+// How long a worker owns a job without a heartbeat
+const LEASE_MS = 2 * 60 * 1000;
+
+// Don't start another batch this close to the end of a worker's time
+const DEADLINE_MARGIN_MS = 10 * 1000;
+
+// Time an enrich or sync request spends on its own job before answering; the
+// worker route picks up whatever is left
+export const INLINE_WORK_MS = 25 * 1000;
+
+// Time the worker route runs jobs for
+export const WORKER_RUN_MS = 50 * 1000;
+
+// Session statuses a job can start from. A session left 'enriching' or
+// 'syncing' without a lock (by a request that died mid-way) can be restarted.
+const STARTABLE_STATUSES: Record<PipelineJobType, string[]> = {
+  enrich: ['uploaded', 'validated', 'invalid', 'failed', 'enriching'],
+  sync: ['enriched', 'failed', 'syncing'],
+};
+
+const SESSION_RUNNING_STATUS: Record<PipelineJobType, string> = {
+  enrich: 'enriching',
+  sync: 'syncing',
+};
+
+const JOB_LABELS: Record<PipelineJobType, string> = {
+  enrich: 'Enrichment',
+  sync: 'Sync',
+};
+
+const ACTIVE_STATUSES: PipelineJobStatus[] = ['queued', 'running', 'cancelling'];
+
+interface PipelineJobRow {
+  id: string;
+  account_id: string;
+  session_id: string;
+  type: PipelineJobType;
+  status: PipelineJobStatus;
+  params: Record<string, unknown>;
+  last_row_index: number;
+  total_rows: number;
+  processed_rows: number;
+  succeeded_rows: number;
+  failed_rows: number;
+  state: { skippedProperties?: Record<string, number> };
+  attempts: number;
+  max_attempts: number;
+  lease_owner: string | null;
+  lease_expires_at: string | null;
+  heartbeat_at: string | null;
+  error_message: string | null;
+  result: Record<string, unknown> | null;
+  created_by: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+interface JobSession {
+  id: string;
+  account_id: string;
+  file_name: string;
+  hubspot_list_id: string | null;
+  enrichment_config_ids: string[] | null;
+  expires_at: string;
+  field_mappings: Record<string, string> | null;
+  object_type: HubSpotObjectType | null;
+  object_columns: MultiObjectColumn[] | null;
+}
+
+export type PipelineJobResult = { job: PipelineJob } | { error: string; status: number };
+
+export function toPipelineJob(row: PipelineJobRow): PipelineJob {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    type: row.type,
+    status: row.status,
+    totalRows: row.total_rows,
+    processedRows: row.processed_rows,
+    succeededRows: row.succeeded_rows,
+    failedRows: row.failed_rows,
+    lastRowIndex: row.last_row_index,
+    attempts: row.attempts,
+    errorMessage: row.error_message,
+    result: row.result,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    heartbeatAt: row.heartbeat_at,
+    finishedAt: row.finished_at,
+  };
+}
+
+/** Display name of the signed-in user, recorded on the jobs and locks they start */
+export async function jobUserName(token: string | undefined): Promise<string | null> {
+  const user = token ? await validateSession(token) : null;
+  if (!user) return null;
+  return [user.firstName, user.lastName].filter(Boolean).join(' ') || user.username;
+}
+
+function leaseUntil(): string {
+  return new Date(Date.now() + LEASE_MS).toISOString();
+}
+
+// Lease is free: never taken, released, or run out
+function leaseFreeFilter(): string {
+  return `lease_expires_at.is.null,lease_expires_at.lt."${new Date().toISOString()}"`;
+}
+
+/**
+ * Take the session's lock for a job and move the session to 'enriching' or
+ * 'syncing'. Returns the status the session had, to restore on cancel.
+ */
+async function lockSession(
+  sessionId: string,
+  jobId: string,
+  type: PipelineJobType,
+  lockedBy: string | null
+): Promise<{ previousStatus: string } | { error: string; status: number }> {
+  const { data: session } = await getServerSupabase()
+    .from('upload_sessions')
+    .select('status, retry_count, lock_job_id, locked_by')
+    .eq('id', sessionId)
+    .single();
+
+  if (!session) return { error: 'Upload session not found', status: 404 };
+
+  if (session.lock_job_id) {
+    return {
+      error: `Another enrichment or sync is already running on this import${session.locked_by ? ` (started by ${session.locked_by})` : ''}`,
+      status: 409,
+    };
+  }
+
+  if (!STARTABLE_STATUSES[type].includes(session.status)) {
+    return { error: `Cannot ${type} session in status: ${session.status}`, status: 400 };
+  }
+
+  const sessionUpdate: Record<string, unknown> = {
+    status: SESSION_RUNNING_STATUS[type],
+    error_message: null,
+    lock_job_id: jobId,
+    locked_by: lockedBy,
+    locked_at: new Date().toISOString(),
+  };
+  if (type === 'sync' && session.status === 'failed') {
+    sessionUpdate.retry_count = (session.retry_count || 0) + 1;
+  }
+
+  // Only if nobody took the lock since we looked
+  const { data: locked } = await getServerSupabase()
+    .from('upload_sessions')
+    .update(sessionUpdate)
+    .eq('id', sessionId)
+    .eq('status', session.status)
+    .is('lock_job_id', null)
+    .select('id');
+
+  if (!locked || locked.length === 0) {
+    return { error: 'Another enrichment or sync was just started on this import', status: 409 };
+  }
+  return { previousStatus: session.status };
+}
+
+// Release the session's lock, if the job still holds it, with the job's final session fields
+async function releaseSession(job: PipelineJobRow, fields: Record<string, unknown>): Promise<void> {
+  await getServerSupabase()
+    .from('upload_sessions')
+    .update({ ...fields, lock_job_id: null, locked_by: null, locked_at: null })
+    .eq('id', job.session_id)
+    .eq('lock_job_id', job.id);
+}
+
+// Session status after a cancel: where it was before the job started
+function restoredStatus(job: PipelineJobRow): string {
+  const previous = typeof job.params.previousStatus === 'string' ? job.params.previousStatus : 'failed';
+  return previous === SESSION_RUNNING_STATUS[job.type] ? 'failed' : previous;
+}
+
+async function releaseCancelledSession(job: PipelineJobRow): Promise<void> {
+  await releaseSession(job, {
+    status: restoredStatus(job),
+    error_message: `${JOB_LABELS[job.type]} cancelled after ${job.processed_rows} of ${job.total_rows} rows`,
+  });
+}
+
+/**
+ * Queue an enrichment or sync of a session and take the session's lock.
+ * Fails with 409 while another job holds the lock.
+ */
+export async function enqueuePipelineJob(options: {
+  sessionId: string;
+  accountId?: string | null;
+  type: PipelineJobType;
+  params?: Record<string, unknown>;
+  createdBy?: string | null;
+}): Promise<PipelineJobResult> {
+  const { sessionId, type } = options;
+
+  let sessionQuery = getServerSupabase()
+    .from('upload_sessions')
+    .select('id, account_id')
+    .eq('id', sessionId);
+  if (options.accountId) sessionQuery = sessionQuery.eq('account_id', options.accountId);
+  const { data: session } = await sessionQuery.single();
+
+  if (!session) return { error: 'Upload session not found', status: 404 };
+
+  const { data: created, error: insertError } = await getServerSupabase()
+    .from('pipeline_jobs')
+    .insert({
+      account_id: session.account_id,
+      session_id: sessionId,
+      type,
+      status: 'queued',
+      params: options.params || {},
+      created_by: options.createdBy || null,
+    })
+    .select('*')
+    .single();
+
+  if (insertError || !created) {
+    console.error('[pipelineJobs] Failed to create job:', insertError?.message);
+    return { error: 'Failed to create job', status: 500 };
+  }
+
+  const lock = await lockSession(sessionId, created.id, type, options.createdBy || null);
+  if ('error' in lock) {
+    await getServerSupabase().from('pipeline_jobs').delete().eq('id', created.id);
+    return lock;
+  }
+
+  const { data: job } = await getServerSupabase()
+    .from('pipeline_jobs')
+    .update({
+      total_rows: await countJobRows(sessionId, type),
+      params: { ...(options.params || {}), previousStatus: lock.previousStatus },
+    })
+    .eq('id', created.id)
+    .select('*')
+    .single();
+
+  return { job: toPipelineJob((job || created) as PipelineJobRow) };
+}
+
+/**
+ * Cancel a job. A job no worker holds stops right away; a running one stops
+ * after its current batch. Rows already processed stay processed.
+ */
+export async function cancelPipelineJob(jobId: string, accountId: string): Promise<PipelineJobResult> {
+  const now = new Date().toISOString();
+
+  const { data: existing } = await getServerSupabase()
+    .from('pipeline_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .eq('account_id', accountId)
+    .single();
+
+  if (!existing) return { error: 'Job not found', status: 404 };
+  if (!ACTIVE_STATUSES.includes(existing.status)) {
+    return { error: `Job is already ${existing.status}`, status: 400 };
+  }
+
+  const { data: stopped } = await getServerSupabase()
+    .from('pipeline_jobs')
+    .update({ status: 'cancelled', cancel_requested_at: now, finished_at: now, lease_owner: null, lease_expires_at: null })
+    .eq('id', jobId)
+    .in('status', ACTIVE_STATUSES)
+    .or(leaseFreeFilter())
+    .select('*');
+
+  if (stopped && stopped.length > 0) {
+    await releaseCancelledSession(stopped[0] as PipelineJobRow);
+    return { job: toPipelineJob(stopped[0] as PipelineJobRow) };
+  }
+
+  const { data: cancelling } = await getServerSupabase()
+    .from('pipeline_jobs')
+    .update({ status: 'cancelling', cancel_requested_at: now })
+    .eq('id', jobId)
+    .in('status', ACTIVE_STATUSES)
+    .select('*')
+    .single();
+
+  return cancelling
+    ? { job: toPipelineJob(cancelling as PipelineJobRow) }
+    : { error: 'Job finished before it could be cancelled', status: 409 };
+}
+
+/**
+ * Queue a cancelled or failed job again. It keeps its progress and carries on
+ * after the last processed row.
+ */
+export async function resumePipelineJob(
+  jobId: string,
+  accountId: string,
+  resumedBy: string | null
+): Promise<PipelineJobResult> {
+  const { data: existing } = await getServerSupabase()
+    .from('pipeline_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .eq('account_id', accountId)
+    .single();
+
+  if (!existing) return { error: 'Job not found', status: 404 };
+  if (existing.status !== 'cancelled' && existing.status !== 'failed') {
+    return { error: `Only cancelled or failed jobs can be resumed (this one is ${existing.status})`, status: 400 };
+  }
+
+  const lock = await lockSession(existing.session_id, jobId, existing.type, resumedBy);
+  if ('error' in lock) return lock;
+
+  const { data: job } = await getServerSupabase()
+    .from('pipeline_jobs')
+    .update({
+      status: 'queued',
+      attempts: 0,
+      error_message: null,
+      result: null,
+      cancel_requested_at: null,
+      finished_at: null,
+      lease_owner: null,
+      lease_expires_at: null,
+      params: { ...existing.params, previousStatus: lock.previousStatus },
+    })
+    .eq('id', jobId)
+    .select('*')
+    .single();
+
+  return { job: toPipelineJob((job || existing) as PipelineJobRow) };
+}
+
+export async function fetchPipelineJob(jobId: string, accountId?: string | null): Promise<PipelineJob | null> {
+  let query = getServerSupabase()
+    .from('pipeline_jobs')
+    .select('*')
+    .eq('id', jobId);
+  if (accountId) query = query.eq('account_id', accountId);
+
+  const { data } = await query.single();
+  return data ? toPipelineJob(data as PipelineJobRow) : null;
+}
+
+/** The most recent job of each session, by session id */
+export async function fetchLatestJobs(sessionIds: string[]): Promise<Record<string, PipelineJob>> {
+  if (sessionIds.length === 0) return {};
+
+  const { data, error } = await getServerSupabase()
+    .from('pipeline_jobs')
+    .select('*')
+    .in('session_id', sessionIds)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('[pipelineJobs] Failed to fetch jobs:', error.message);
+    return {};
+  }
+
+  const latest: Record<string, PipelineJob> = {};
+  for (const row of (data || []) as PipelineJobRow[]) {
+    if (!latest[row.session_id]) latest[row.session_id] = toPipelineJob(row);
+  }
+  return latest;
+}
+
+async function failJob(job: PipelineJobRow, message: string): Promise<void> {
+  await getServerSupabase()
+    .from('pipeline_jobs')
+    .update({
+      status: 'failed',
+      error_message: message,
+      finished_at: new Date().toISOString(),
+      lease_owner: null,
+      lease_expires_at: null,
+    })
+    .eq('id', job.id);
+
+  await releaseSession(job, {
+    status: 'failed',
+    error_message: `${JOB_LABELS[job.type]} stopped after ${job.processed_rows} of ${job.total_rows} rows: ${message}`,
+  });
+}
+
+// Hand the job back for another worker; `fields` are stored with it
+async function releaseLease(jobId: string, workerId: string, fields: Record<string, unknown> = {}): Promise<void> {
+  await getServerSupabase()
+    .from('pipeline_jobs')
+    .update({ ...fields, lease_owner: null, lease_expires_at: null })
+    .eq('id', jobId)
+    .eq('lease_owner', workerId);
+}
+
+// A batch threw: retry later from the same row, or give up after max_attempts
+async function recordJobError(job: PipelineJobRow, workerId: string, err: unknown): Promise<void> {
+  const message = err instanceof Error ? err.message : String(err);
+  console.error(`[pipelineJobs] ${job.type} job ${job.id} error:`, message);
+
+  const attempts = job.attempts + 1;
+  if (attempts >= job.max_attempts) {
+    await failJob({ ...job, attempts }, message);
+  } else {
+    await releaseLease(job.id, workerId, { attempts, error_message: message });
+  }
+}
+
+/**
+ * Claim the oldest job whose lease is free. A lease that ran out while a
+ * worker held it counts as a failed attempt.
+ */
+async function claimJob(workerId: string, options: { jobId?: string; exclude: string[] }): Promise<PipelineJobRow | null> {
+  let query = getServerSupabase()
+    .from('pipeline_jobs')
+    .select('*')
+    .in('status', ACTIVE_STATUSES)
+    .or(leaseFreeFilter())
+    .order('created_at')
+    .limit(10);
+  if (options.jobId) query = query.eq('id', options.jobId);
+  if (options.exclude.length > 0) query = query.not('id', 'in', `(${options.exclude.join(',')})`);
+
+  const { data: candidates, error } = await query;
+  if (error) throw new Error(`Failed to look up jobs: ${error.message}`);
+
+  for (const candidate of (candidates || []) as PipelineJobRow[]) {
+    const attempts = candidate.attempts + (candidate.lease_owner ? 1 : 0);
+    if (attempts >= candidate.max_attempts) {
+      await failJob({ ...candidate, attempts }, candidate.error_message || 'The job stopped responding too many times');
+      continue;
+    }
+
+    const now = new Date().toISOString();
+    const { data: claimed } = await getServerSupabase()
+      .from('pipeline_jobs')
+      .update({
+        status: candidate.status === 'queued' ? 'running' : candidate.status,
+        attempts,
+        lease_owner: workerId,
+        lease_expires_at: leaseUntil(),
+        heartbeat_at: now,
+        started_at: candidate.started_at || now,
+      })
+      .eq('id', candidate.id)
+      .eq('attempts', candidate.attempts)
+      .in('status', ACTIVE_STATUSES)
+      .or(leaseFreeFilter())
+      .select('*');
+
+    if (claimed && claimed.length > 0) return claimed[0] as PipelineJobRow;
+  }
+  return null;
+}
+
+// Store a batch's progress and renew the lease. Returns the job's status, or
+// null when another worker has taken the job over.
+async function heartbeat(job: PipelineJobRow, workerId: string): Promise<PipelineJobStatus | null> {
+  const { data } = await getServerSupabase()
+    .from('pipeline_jobs')
+    .update({
+      last_row_index: job.last_row_index,
+      processed_rows: job.processed_rows,
+      succeeded_rows: job.succeeded_rows,
+      failed_rows: job.failed_rows,
+      state: job.state,
+      lease_expires_at: leaseUntil(),
+      heartbeat_at: new Date().toISOString(),
+    })
+    .eq('id', job.id)
+    .eq('lease_owner', workerId)
+    .select('status');
+
+  if (!data || data.length === 0) return null;
+
+  const progress: Record<string, unknown> = job.type === 'enrich'
+    ? { processed_rows: job.processed_rows, enriched_rows: job.succeeded_rows }
+    : { synced_rows: job.succeeded_rows, failed_rows: job.failed_rows, skipped_properties: job.state.skippedProperties || {} };
+  await getServerSupabase()
+    .from('upload_sessions')
+    .update(progress)
+    .eq('id', job.session_id)
+    .eq('lock_job_id', job.id);
+
+  return (data[0] as { status: PipelineJobStatus }).status;
+}
+
+async function completeJob(job: PipelineJobRow, session: JobSession, ctx: BatchContext | null): Promise<void> {
+  const outcome = job.type === 'enrich'
+    ? enrichOutcome(job.processed_rows, job.succeeded_rows)
+    : await finishSync(ctx as BatchContext, session, job.params.list, job.succeeded_rows, job.failed_rows);
+
+  await releaseSession(job, outcome.session);
+  await getServerSupabase()
+    .from('pipeline_jobs')
+    .update({
+      status: 'completed',
+      result: outcome.result,
+      error_message: null,
+      finished_at: new Date().toISOString(),
+      lease_owner: null,
+      lease_expires_at: null,
+    })
+    .eq('id', job.id);
+}
+
+async function runClaimedJob(claimed: PipelineJobRow, workerId: string, deadline: number): Promise<void> {
+  let job: PipelineJobRow = { ...claimed, state: { ...(claimed.state || {}) } };
+
+  if (job.status === 'cancelling') {
+    await getServerSupabase()
+      .from('pipeline_jobs')
+      .update({ status: 'cancelled', finished_at: new Date().toISOString(), lease_owner: null, lease_expires_at: null })
+      .eq('id', job.id);
+    await releaseCancelledSession(job);
+    return;
+  }
+
+  const { data: session } = await getServerSupabase()
+    .from('upload_sessions')
+    .select('id, account_id, file_name, hubspot_list_id, enrichment_config_ids, expires_at, field_mappings, object_type, object_columns')
+    .eq('id', job.session_id)
+    .single();
+
+  if (!session) {
+    await failJob(job, 'The import no longer exists');
+    return;
+  }
+
+  let configs: EnrichmentConfig[] = [];
+  let ctx: BatchContext | null = null;
+  const skippedProperties = { ...(job.state.skippedProperties || {}) };
+
+  try {
+    if (job.type === 'enrich') {
+      configs = await loadEnrichmentConfigs(session.enrichment_config_ids || []);
+    } else {
+      ctx = await createBatchContext(session.account_id);
+    }
+
+    while (Date.now() < deadline - DEADLINE_MARGIN_MS) {
+      const batch: TaskBatch = job.type === 'enrich'
+        ? await enrichBatch(session.id, configs, job.last_row_index)
+        : await syncBatch(ctx as BatchContext, session as JobSession, String(job.params.taskAssigneeId || ''), job.last_row_index, skippedProperties);
+
+      job = {
+        ...job,
+        last_row_index: batch.lastRowIndex ?? job.last_row_index,
+        processed_rows: job.processed_rows + batch.processed,
+        succeeded_rows: job.succeeded_rows + batch.succeeded,
+        failed_rows: job.failed_rows + batch.failed,
+        state: job.type === 'sync' ? { skippedProperties } : job.state,
+      };
+
+      const status = await heartbeat(job, workerId);
+      // Taken over by another worker, or cancelled while no one held it
+      if (!status || !ACTIVE_STATUSES.includes(status)) return;
+
+      if (status === 'cancelling') {
+        await getServerSupabase()
+          .from('pipeline_jobs')
+          .update({ status: 'cancelled', finished_at: new Date().toISOString(), lease_owner: null, lease_expires_at: null })
+          .eq('id', job.id);
+        await releaseCancelledSession(job);
+        return;
+      }
+
+      if (batch.done) {
+        await completeJob(job, session as JobSession, ctx);
+        return;
+      }
+    }
+
+    // Out of time: the next worker carries on from last_row_index
+    await releaseLease(job.id, workerId);
+  } catch (err) {
+    await recordJobError(job, workerId, err);
+  }
+}
+
+/**
+ * Run queued and abandoned jobs until the time budget is spent. With `jobId`,
+ * only that job is run (an enrich or sync request working on its own job).
+ * Returns the ids of the jobs worked on.
+ */
+export async function runPipelineWorker(options: { budgetMs: number; jobId?: string }): Promise<string[]> {
+  const workerId = randomUUID();
+  const deadline = Date.now() + options.budgetMs;
+  const ran: string[] = [];
+
+  while (Date.now() < deadline - DEADLINE_MARGIN_MS) {
+    const job = await claimJob(workerId, { jobId: options.jobId, exclude: ran });
+    if (!job) break;
+
+    ran.push(job.id);
+    await runClaimedJob(job, workerId, deadline);
+    if (options.jobId) break;
+  }
+
+  return ran;
+}
@@ -0,0 +1,521 @@
+/**
+ * Pipeline Tasks — the work behind enrichment and sync jobs, done one batch of
+ * rows at a time after a row_index cursor so a job can stop after any batch
+ * and resume from there.
+ */
+
+import { getServerSupabase } from './supabase';
+import { runEnrichment } from './enrichment';
+import {
+  previewContactRows,
+  syncContactChunk,
+  HUBSPOT_BATCH_SIZE,
+  type BatchContext,
+  type ContactBatchRow,
+  type SyncLedgerWriter,
+} from './hubspotBatch';
+import { processRowForHubSpot } from './hubspot';
+import { cache, CACHE_KEYS } from './cache';
+import { countSkippedProperties } from './propertyPolicies';
+import { createSyncLedgerWriter, resolvePendingCreates } from './syncLedger';
+import { addContactsToList, readSyncListTarget } from './hubspotLists';
+import { fetchAllUploadRows } from './pipelineValidation';
+import { getCompanyKey, splitRowByObject, type MultiObjectColumn } from './multiObject';
+import type {
+  EnrichmentConfig,
+  HubSpotCompany,
+  HubSpotDeal,
+  HubSpotObjectType,
+  HubSpotSyncResult,
+  ParsedRow,
+  PipelineJobType,
+  SyncListResult,
+  SyncPreviewRow,
+  SyncPreviewSummary,
+} from '@/types';
+
+// Rows per enrichment batch; each row can call several APIs, so keep batches
+// short enough to heartbeat well within the lease
+const ENRICH_BATCH_SIZE = 5;
+
+// One page of upload rows is one HubSpot batch
+const SYNC_BATCH_SIZE = HUBSPOT_BATCH_SIZE;
+
+// Rows each job type processes. Rows left mid-batch by a worker that died
+// ('enriching' / 'syncing') are picked up again.
+const JOB_ROW_STATUSES: Record<PipelineJobType, string[]> = {
+  enrich: ['pending', 'failed', 'enriching'],
+  sync: ['enriched', 'failed', 'syncing'],
+};
+
+export interface TaskBatch {
+  processed: number;
+  succeeded: number;
+  failed: number;
+  // Highest row_index handled, or null when the batch had no rows
+  lastRowIndex: number | null;
+  done: boolean;
+}
+
+// The session fields a sync batch reads: which HubSpot records its rows write
+export interface SyncSession {
+  id: string;
+  field_mappings: Record<string, string> | null;
+  object_type: HubSpotObjectType | null;
+  object_columns: MultiObjectColumn[] | null;
+}
+
+// Outcome of a finished job: the session's final fields and the job's result
+export interface TaskOutcome {
+  session: Record<string, unknown>;
+  result: Record<string, unknown>;
+}
+
+/** Rows a job of this type would process, for its progress total */
+export async function countJobRows(sessionId: string, type: PipelineJobType): Promise<number> {
+  const { count } = await getServerSupabase()
+    .from('upload_rows')
+    .select('*', { count: 'exact', head: true })
+    .eq('session_id', sessionId)
+    .in('status', JOB_ROW_STATUSES[type]);
+  return count || 0;
+}
+
+/** The session's enabled enrichment configs, in execution order */
+export async function loadEnrichmentConfigs(configIds: string[]): Promise<EnrichmentConfig[]> {
+  if (configIds.length === 0) return [];
+
+  const { data: configData } = await getServerSupabase()
+    .from('enrichment_configs')
+    .select('*, ai_model:ai_models!ai_model_id(name, provider, model_id, api_key_encrypted, use_env_key, env_key_name, base_url)')
+    .in('id', configIds)
+    .eq('is_enabled', true)
+    .order('execution_order');
+
+  if (!configData) return [];
+
+  return configData.map((c: Record<string, unknown>) => {
+    // Supabase may return ai_model as null, an object, or an array
+    let aiModel = c.ai_model as {
+      provider: string;
+      model_id: string;
+      api_key_encrypted: string | null;
+      use_env_key: boolean;
+      env_key_name: string | null;
+      base_url: string | null;
+    } | null;
+    if (Array.isArray(aiModel)) {
+      aiModel = aiModel[0] || null;
+    }
+    const hasAiModel = aiModel && aiModel.provider && aiModel.provider !== 'serp';
+
+    return {
+      id: c.id as string,
+      name: c.name as string,
+      description: (c.description as string) || '',
+      prompt: c.prompt_template as string,
+      inputFields: (c.input_fields as string[]) || [],
+      outputField: c.output_field as string,
+      service: hasAiModel ? 'ai' as const : 'serp' as const,
+      isEnabled: c.is_enabled as boolean,
+      createdAt: c.created_at as string,
+      updatedAt: c.updated_at as string,
+      aiModel: hasAiModel && aiModel ? {
+        provider: aiModel.provider,
+        modelId: aiModel.model_id,
+        apiKey: aiModel.use_env_key
+          ? undefined
+          : (aiModel.api_key_encrypted || undefined),
+        baseUrl: aiModel.base_url || undefined,
+        envKeyName: aiModel.env_key_name || undefined,
+      } : undefined,
+    };
+  });
+}
+
+async function fetchBatch(sessionId: string, type: PipelineJobType, afterRowIndex: number, size: number) {
+  const { data: rows, error } = await getServerSupabase()
+    .from('upload_rows')
+    .select('*')
+    .eq('session_id', sessionId)
+    .in('status', JOB_ROW_STATUSES[type])
+    .gt('row_index', afterRowIndex)
+    .order('row_index')
+    .limit(size);
+
+  if (error) throw new Error(`Failed to fetch rows: ${error.message}`);
+  return rows || [];
+}
+
+/** Enrich the next rows after `afterRowIndex` */
+export async function enrichBatch(sessionId: string, configs: EnrichmentConfig[], afterRowIndex: number): Promise<TaskBatch> {
+  // Without enrichment configs every row is ready for sync as it is
+  if (configs.length === 0) {
+    const { count, error } = await getServerSupabase()
+      .from('upload_rows')
+      .update({ status: 'enriched' }, { count: 'exact' })
+      .eq('session_id', sessionId)
+      .in('status', JOB_ROW_STATUSES.enrich);
+
+    if (error) throw new Error(`Failed to mark rows enriched: ${error.message}`);
+    return { processed: count || 0, succeeded: count || 0, failed: 0, lastRowIndex: null, done: true };
+  }
+
+  const rows = await fetchBatch(sessionId, 'enrich', afterRowIndex, ENRICH_BATCH_SIZE);
+  const batch: TaskBatch = { processed: 0, succeeded: 0, failed: 0, lastRowIndex: null, done: rows.length < ENRICH_BATCH_SIZE };
+
+  for (const row of rows) {
+    // Mark row as enriching
+    await getServerSupabase()
+      .from('upload_rows')
+      .update({ status: 'enriching' })
+      .eq('id', row.id);
+
+    const rowData = { ...row.raw_data, ...row.validated_data, ...row.enriched_data } as ParsedRow;
+    const enrichedData = { ...(row.enriched_data || {}) };
+    let rowSuccess = true;
+    let rowError: string | undefined;
+
+    for (const config of configs) {
+      try {
+        const result = await runEnrichment(config, rowData);
+        if (result.success && result.value) {
+          // For JSON output fields, parse the output field IDs
+          try {
+            const outputFields = JSON.parse(config.outputField);
+            if (Array.isArray(outputFields) && outputFields.length > 0) {
+              enrichedData[outputFields[0].id] = result.value;
+            }
+          } catch {
+            // Legacy single string output field
+            enrichedData[config.outputField] = result.value;
+          }
+        } else if (!result.success) {
+          rowSuccess = false;
+          rowError = result.error;
+        }
+      } catch (err) {
+        rowSuccess = false;
+        rowError = err instanceof Error ? err.message : 'Enrichment error';
+      }
+
+      // Rate limiting between API calls
+      await new Promise((resolve) => setTimeout(resolve, 500));
+    }
+
+    await getServerSupabase()
+      .from('upload_rows')
+      .update({
+        enriched_data: enrichedData,
+        status: rowSuccess ? 'enriched' : 'failed',
+        error_message: rowError || null,
+      })
+      .eq('id', row.id);
+
+    batch.processed++;
+    if (rowSuccess) batch.succeeded++;
+    else batch.failed++;
+    batch.lastRowIndex = row.row_index;
+  }
+
+  return batch;
+}
+
+export function enrichOutcome(processed: number, enriched: number): TaskOutcome {
+  return {
+    session: { status: 'enriched', processed_rows: processed, enriched_rows: enriched },
+    result: { status: 'enriched', totalProcessed: processed, totalEnriched: enriched },
+  };
+}
+
+// Column assignments of a session. Sessions uploaded without them send each
+// mapped column to the imported record type under its mapped property.
+function getSessionColumns(session: SyncSession): MultiObjectColumn[] {
+  if (session.object_columns?.length) return session.object_columns;
+  const objectType = session.object_type || 'contacts';
+  return Object.entries(session.field_mappings || {})
+    .filter(([, property]) => property)
+    .map(([header, property]) => ({ header, objectType, property }));
+}
+
+type SyncRow = ContactBatchRow & { dealProperties: Record<string, string> };
+
+// Merge a stored row's raw + validated + enriched data, then split it into
+// contact, company and deal properties by the session's column assignments
+function toSyncRow(row: Record<string, unknown>, recordType: HubSpotObjectType, columns: MultiObjectColumn[]): SyncRow {
+  const mergedData: Record<string, string> = {};
+  const rawData = row.raw_data as Record<string, unknown> || {};
+  const validatedData = row.validated_data as Record<string, unknown> || {};
+  const enrichedData = row.enriched_data as Record<string, unknown> || {};
+  for (const [key, value] of Object.entries({ ...rawData, ...validatedData, ...enrichedData })) {
+    if (value !== null && value !== undefined && String(value).trim()) {
+      mergedData[key] = String(value).trim();
+    }
+  }
+  return { rowIndex: row.row_index as number, ...splitRowByObject(mergedData, recordType, columns) };
+}
+
+interface SyncRowOutcome {
+  rowIndex: number;
+  result?: HubSpotSyncResult;
+  error?: string;
+}
+
+/**
+ * Sync rows one at a time through processRowForHubSpot — the company and deal
+ * logic of company imports, deal imports and contact imports with deal
+ * columns. Rows of the page with the same company or deal share the record an
+ * earlier row synced; deals in later pages are found again by name.
+ */
+async function syncRowsOneByOne(
+  ctx: BatchContext,
+  objectType: HubSpotObjectType,
+  rows: SyncRow[],
+  taskAssigneeId: string
+): Promise<SyncRowOutcome[]> {
+  // A change the ledger couldn't store stops the page, as in syncContactChunk:
+  // the rows after it would make changes the import couldn't roll back
+  const ledger = ctx.ledger;
+  let ledgerFailed = false;
+  const noteFailure = <T>(write: Promise<T>) => write.catch((err) => {
+    ledgerFailed = true;
+    throw err;
+  });
+  const rowLedger: SyncLedgerWriter | undefined = ledger && {
+    record: (entries) => noteFailure(ledger.record(entries)),
+    markPendingCreates: (companies) => noteFailure(ledger.markPendingCreates(companies)),
+    clearPendingCreates: (markerIds) => ledger.clearPendingCreates(markerIds),
+  };
+
+  const companiesByKey = new Map<string, HubSpotCompany>();
+  const dealsByKey = new Map<string, HubSpotDeal>();
+  const outcomes: SyncRowOutcome[] = [];
+
+  for (let i = 0; i < rows.length; i++) {
+    const row = rows[i];
+    const companyKey = objectType === 'contacts' ? getCompanyKey(row.companyProperties) : '';
+    const dealKey = objectType === 'contacts' ? (row.dealProperties.dealname || '').trim().toLowerCase() : '';
+
+    try {
+      const result = await processRowForHubSpot(ctx, row.rowIndex, row.contactProperties, row.companyProperties, taskAssigneeId, {
+        objectType,
+        dealProps: row.dealProperties,
+        existingCompany: companyKey ? companiesByKey.get(companyKey) : undefined,
+        existingDeal: dealKey ? dealsByKey.get(dealKey) : undefined,
+        policies: ctx.policies,
+        matchSettings: ctx.matchSettings,
+        ledger: rowLedger,
+      });
+      if (result.objectType === 'contacts') {
+        if (companyKey && result.matchedCompany) companiesByKey.set(companyKey, result.matchedCompany);
+        if (dealKey && result.deal) dealsByKey.set(dealKey, result.deal);
+      }
+      outcomes.push({ rowIndex: row.rowIndex, result });
+    } catch (err) {
+      const error = err instanceof Error ? err.message : 'HubSpot sync error';
+      if (ledgerFailed) {
+        outcomes.push(...rows.slice(i).map((rest) => ({ rowIndex: rest.rowIndex, error })));
+        break;
+      }
+      outcomes.push({ rowIndex: row.rowIndex, error });
+    }
+  }
+
+  return outcomes;
+}
+
+/**
+ * Push the next rows after `afterRowIndex` to HubSpot. Values kept by
+ * overwrite policies are added to `skippedProperties`.
+ */
+export async function syncBatch(
+  ctx: BatchContext,
+  session: SyncSession,
+  taskAssigneeId: string,
+  afterRowIndex: number,
+  skippedProperties: Record<string, number>
+): Promise<TaskBatch> {
+  const sessionId = session.id;
+  const rows = await fetchBatch(sessionId, 'sync', afterRowIndex, SYNC_BATCH_SIZE);
+  const batch: TaskBatch = {
+    processed: rows.length,
+    succeeded: 0,
+    failed: 0,
+    lastRowIndex: rows.length > 0 ? rows[rows.length - 1].row_index : null,
+    done: rows.length < SYNC_BATCH_SIZE,
+  };
+  if (rows.length === 0) return batch;
+
+  // Rows left 'syncing' by a worker that died may already have created their
+  // companies. Record any company it created without storing the id, and
+  // search HubSpot again instead of trusting cached "no match" answers from
+  // before those creates.
+  const orphanedCompanies = await resolvePendingCreates(ctx, sessionId);
+  if (orphanedCompanies > 0 || rows.some((row) => row.status === 'syncing')) {
+    cache.invalidatePrefix(CACHE_KEYS.companyDomain(ctx, ''));
+    cache.invalidatePrefix(CACHE_KEYS.companyName(ctx, ''));
+  }
+
+  // Mark the page as syncing
+  await getServerSupabase()
+    .from('upload_rows')
+    .update({ status: 'syncing' })
+    .in('id', rows.map((row) => row.id));
+
+  const recordType = session.object_type || 'contacts';
+  const columns = getSessionColumns(session);
+  const batchRows = rows.map((row) => toSyncRow(row, recordType, columns));
+
+  // Contact pages go through HubSpot's batch endpoints (rate limited per
+  // portal); company, deal and mixed imports go row by row. Either way each
+  // change is recorded as it is made so the import can be rolled back.
+  let outcomes: SyncRowOutcome[];
+  ctx.ledger = createSyncLedgerWriter(ctx.accountId, sessionId);
+  try {
+    outcomes = recordType === 'contacts' && !columns.some((column) => column.objectType === 'deals')
+      ? await syncContactChunk(ctx, batchRows, taskAssigneeId)
+      : await syncRowsOneByOne(ctx, recordType, batchRows, taskAssigneeId);
+  } catch (err) {
+    const errorMsg = err instanceof Error ? err.message : 'HubSpot sync error';
+    outcomes = batchRows.map((row) => ({ rowIndex: row.rowIndex, error: errorMsg }));
+  }
+
+  for (let i = 0; i < rows.length; i++) {
+    const result = outcomes[i].result;
+
+    if (result) {
+      countSkippedProperties(skippedProperties, result.skippedProperties);
+
+      // Mark as synced; synced rows are deleted when the job finishes
+      await getServerSupabase()
+        .from('upload_rows')
+        .update({
+          status: 'synced',
+          hubspot_contact_id: result.objectType === 'contacts' ? result.contact.id || null : null,
+          hubspot_company_id:
+            result.objectType === 'contacts' ? result.matchedCompany?.id || null
+            : result.objectType === 'companies' ? result.company.id
+            : result.associatedCompany?.id || null,
+          error_message: null,
+        })
+        .eq('id', rows[i].id);
+
+      batch.succeeded++;
+    } else {
+      await getServerSupabase()
+        .from('upload_rows')
+        .update({
+          status: 'failed',
+          error_message: outcomes[i].error || 'HubSpot sync error',
+        })
+        .eq('id', rows[i].id);
+
+      batch.failed++;
+    }
+  }
+
+  return batch;
+}
+
+/**
+ * Dry run of a session's sync: what each row a sync job would push would do,
+ * without writing to HubSpot. Covers contact imports (deal columns of mixed
+ * imports aren't previewed); returns null for company and deal imports.
+ */
+export async function previewSyncSession(
+  ctx: BatchContext,
+  session: SyncSession,
+  taskAssigneeId: string
+): Promise<{ rows: SyncPreviewRow[]; summary: SyncPreviewSummary } | null> {
+  const recordType = session.object_type || 'contacts';
+  if (recordType !== 'contacts') return null;
+
+  const columns = getSessionColumns(session);
+  const rows = (await fetchAllUploadRows(session.id, 'row_index, status, raw_data, validated_data, enriched_data'))
+    .filter((row) => JOB_ROW_STATUSES.sync.includes(String(row.status)))
+    .map((row) => toSyncRow(row, recordType, columns));
+  return previewContactRows(ctx, rows, taskAssigneeId);
+}
+
+/**
+ * Wrap up a sync: add the synced contacts to the static list (a list failure
+ * doesn't fail the sync) and delete the synced rows — PII is cleared.
+ */
+export async function finishSync(
+  ctx: BatchContext,
+  session: { id: string; file_name: string; hubspot_list_id: string | null; expires_at: string },
+  list: unknown,
+  totalSynced: number,
+  totalFailed: number
+): Promise<TaskOutcome> {
+  const sessionId = session.id;
+  // A retry keeps adding to the list the first run used
+  const listTarget = session.hubspot_list_id ? { listId: session.hubspot_list_id } : readSyncListTarget(list);
+  const sessionUpdate: Record<string, unknown> = {};
+
+  let listResult: SyncListResult | null = null;
+  let listError: string | null = null;
+  if (listTarget) {
+    const syncedContactIds = (await fetchAllUploadRows(sessionId, 'status, hubspot_contact_id'))
+      .filter((row) => row.status === 'synced' && row.hubspot_contact_id)
+      .map((row) => String(row.hubspot_contact_id));
+
+    if (syncedContactIds.length > 0) {
+      try {
+        listResult = await addContactsToList(ctx, listTarget, syncedContactIds, session.file_name);
+        sessionUpdate.hubspot_list_id = listResult.listId;
+        sessionUpdate.hubspot_list_name = listResult.listName;
+      } catch (err) {
+        listError = err instanceof Error ? err.message : 'Failed to add contacts to the HubSpot list';
+        console.error('Pipeline list error:', err);
+      }
+    }
+  }
+
+  await getServerSupabase()
+    .from('upload_rows')
+    .delete()
+    .eq('session_id', sessionId)
+    .eq('status', 'synced');
+
+  if (totalFailed === 0) {
+    return {
+      session: {
+        ...sessionUpdate,
+        status: 'completed',
+        synced_rows: totalSynced,
+        failed_rows: 0,
+        completed_at: new Date().toISOString(),
+      },
+      result: {
+        success: true,
+        status: 'completed',
+        totalSynced,
+        totalFailed: 0,
+        list: listResult,
+        listError,
+        message: `All ${totalSynced} rows synced to HubSpot. Data has been cleared.`,
+      },
+    };
+  }
+
+  // Some rows failed — failed rows are kept for retry
+  return {
+    session: {
+      ...sessionUpdate,
+      status: 'failed',
+      synced_rows: totalSynced,
+      failed_rows: totalFailed,
+      error_message: `${totalFailed} rows failed to sync to HubSpot. ${totalSynced} rows synced successfully.`,
+    },
+    result: {
+      success: false,
+      status: 'failed',
+      totalSynced,
+      totalFailed,
+      list: listResult,
+      listError,
+      message: `${totalFailed} rows failed to sync. Successfully synced rows have been cleared. Failed rows are retained for retry (expires ${session.expires_at}).`,
+    },
+  };
+}
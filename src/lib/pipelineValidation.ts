@@ -0,0 +1,256 @@
+/**
+ * Pipeline Validation — runs the account's enabled rules on rows posted to the
+ * pipeline API, the same way the validation step does in the browser, so rows
+ * that never went through the wizard still get every rule.
+ */
+
+import { getServerSupabase } from './supabase';
+import { fetchAccountRules, fetchEnabledRules } from './accountRules';
+import { getAccountContext, getHubSpotOwners } from './hubspot';
+import { cache, CACHE_TTL, CACHE_KEYS } from './cache';
+import { runAllScripts } from './scripts';
+import { fetchRequiredProperties, requiredFieldNames } from './requiredProperties';
+import { buildRuleRuntime, needsRuntimeData, type RuleRuntimeData } from './scripts/rule-runtime';
+import type { HubSpotOwner, HubSpotPropertyDefinition } from './scripts';
+import { splitResultsByRow, type RowValidationDetails } from './validationDetails';
+import type { HeaderMatch, HubSpotObjectType, ParsedRow, PipelineRowStatus } from '@/types';
+
+export interface PipelineRowValidation extends RowValidationDetails {
+  // The row after the rules' transforms
+  data: ParsedRow;
+}
+
+export interface PipelineValidation {
+  rows: PipelineRowValidation[];
+  ruleCount: number;
+  invalidRows: number;
+  totalErrors: number;
+  totalWarnings: number;
+  totalChanges: number;
+  // Problems with a rule itself (e.g. a custom rule that timed out), not with any one row
+  ruleErrors: string[];
+}
+
+interface DbHubSpotProperty {
+  field_name: string;
+  field_label: string;
+  field_type: string;
+  object_type: string;
+  hubspot_type: string;
+  options: Array<{ label: string; value: string }> | null;
+}
+
+async function fetchPropertyDefinitions(accountId: string): Promise<HubSpotPropertyDefinition[]> {
+  const { data, error } = await getServerSupabase()
+    .from('hubspot_properties')
+    .select('field_name, field_label, field_type, object_type, hubspot_type, options')
+    .eq('account_id', accountId);
+
+  if (error) {
+    console.error('[pipelineValidation] Failed to fetch HubSpot properties:', error.message);
+    return [];
+  }
+
+  return ((data || []) as DbHubSpotProperty[]).map((row) => ({
+    name: row.field_name,
+    label: row.field_label,
+    type: row.field_type,
+    fieldType: row.hubspot_type,
+    objectType: row.object_type as HubSpotObjectType,
+    options: row.options || [],
+  }));
+}
+
+async function fetchOwners(accountId: string): Promise<HubSpotOwner[]> {
+  try {
+    const account = await getAccountContext(accountId);
+    const cacheKey = CACHE_KEYS.hubspotOwners(account);
+    const cached = cache.get<HubSpotOwner[]>(cacheKey);
+    if (cached) return cached;
+
+    const owners = await getHubSpotOwners(account);
+    cache.set(cacheKey, owners, CACHE_TTL.OWNERS);
+    return owners;
+  } catch (err) {
+    console.error('[pipelineValidation] Failed to fetch HubSpot owners:', err);
+    return [];
+  }
+}
+
+// Header matches for pipeline rows: mapped columns from the session's field
+// mappings, everything else unmatched (rules then fall back to the row keys)
+function buildHeaderMatches(rows: ParsedRow[], fieldMappings: Record<string, string>): HeaderMatch[] {
+  const headers = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) headers.add(key);
+  }
+
+  const now = new Date().toISOString();
+  return Array.from(headers).map((header) => {
+    const hubspotField = fieldMappings[header];
+    return {
+      originalHeader: header,
+      isMatched: !!hubspotField,
+      confidence: hubspotField ? 1 : 0,
+      matchedField: hubspotField
+        ? {
+            id: hubspotField,
+            hubspotField,
+            hubspotLabel: header,
+            objectType: 'contacts',
+            variants: [],
+            isRequired: false,
+            createdAt: now,
+            updatedAt: now,
+          }
+        : null,
+    };
+  });
+}
+
+export interface PipelineValidationOptions {
+  // Import-level rule overrides (ruleId → enabled) from the Rules step; when
+  // given they replace the account's enabled flags, as in the wizard
+  ruleOverrides?: Record<string, boolean>;
+  // Import question answers (column → value), added to every validated row
+  questionAnswers?: Record<string, string>;
+}
+
+/**
+ * Run the account's enabled rules on pipeline rows and split the outcome by
+ * row. Rows with at least one error are invalid; warnings and changes alone
+ * don't stop a row.
+ */
+export async function validatePipelineRows(
+  accountId: string,
+  rows: ParsedRow[],
+  fieldMappings: Record<string, string>,
+  options: PipelineValidationOptions = {}
+): Promise<PipelineValidation> {
+  const overrides = options.ruleOverrides || {};
+  const rules = Object.keys(overrides).length > 0
+    ? (await fetchAccountRules(accountId)).filter((rule) => overrides[rule.ruleId])
+    : await fetchEnabledRules(accountId);
+  const needs = needsRuntimeData(rules);
+  const [properties, owners, requiredFields] = await Promise.all([
+    needs.properties ? fetchPropertyDefinitions(accountId) : Promise.resolve([]),
+    needs.owners ? fetchOwners(accountId) : Promise.resolve([]),
+    fetchRequiredProperties(accountId),
+  ]);
+  const runtimeData: RuleRuntimeData = { properties, owners };
+  const runtime = buildRuleRuntime(rules, runtimeData);
+
+  // Custom rule code is not run on the server: it would share the process
+  // with every other account's requests. Such rules only run in the browser
+  // validation step; here they are skipped and reported.
+  const skipped = runtime.dynamicScriptSources.filter((source) => !source.declarative);
+  const skippedIds = new Set(skipped.map((source) => source.id));
+  const dynamicScriptSources = runtime.dynamicScriptSources.filter((source) => !skippedIds.has(source.id));
+
+  const result = await runAllScripts(
+    rows,
+    buildHeaderMatches(rows, fieldMappings),
+    requiredFieldNames(requiredFields),
+    runtime.enabledScriptIds.filter((id) => !skippedIds.has(id)),
+    runtime.targetFieldsOverrides,
+    undefined,
+    dynamicScriptSources.length > 0 ? dynamicScriptSources : undefined,
+    runtime.ruleConfigs
+  );
+
+  const { rows: details, ruleErrors } = splitResultsByRow(result, rows.length);
+  for (const source of skipped) {
+    ruleErrors.push(`Custom rule "${source.name}" was not run: custom rule code only runs in the validation step of an upload.`);
+  }
+  const answers = options.questionAnswers || {};
+  const validated: PipelineRowValidation[] = details.map((detail, index) => ({
+    ...detail,
+    data: { ...(result.processedData[index] || rows[index]), ...answers },
+  }));
+
+  return {
+    rows: validated,
+    ruleCount: rules.length,
+    invalidRows: validated.filter((row) => row.errors.length > 0).length,
+    totalErrors: result.totalErrors,
+    totalWarnings: result.totalWarnings,
+    totalChanges: result.totalChanges,
+    ruleErrors,
+  };
+}
+
+const ROW_PAGE_SIZE = 1000;
+const BATCH_INSERT_SIZE = 500;
+
+/**
+ * Store validated rows on a session. Rows with errors are kept as 'invalid'
+ * and never enriched or synced; the rest are stored with `validStatus`.
+ */
+export async function insertValidatedRows(
+  sessionId: string,
+  rawRows: Record<string, unknown>[],
+  validation: PipelineValidation,
+  validStatus: PipelineRowStatus = 'pending'
+): Promise<void> {
+  for (let i = 0; i < rawRows.length; i += BATCH_INSERT_SIZE) {
+    const batch = rawRows.slice(i, i + BATCH_INSERT_SIZE).map((row, idx) => {
+      const result = validation.rows[i + idx];
+      return {
+        session_id: sessionId,
+        row_index: i + idx,
+        raw_data: row,
+        validated_data: result.data,
+        enriched_data: {},
+        validation_errors: result.errors,
+        validation_warnings: result.warnings,
+        validation_changes: result.changes,
+        status: result.errors.length > 0 ? 'invalid' : validStatus,
+        error_message: result.errors.length > 0 ? result.errors[0].message : null,
+      };
+    });
+
+    const { error } = await getServerSupabase()
+      .from('upload_rows')
+      .insert(batch);
+
+    if (error) {
+      throw new Error(`Failed to store rows (batch starting at row ${i}): ${error.message}`);
+    }
+  }
+}
+
+/** Session status and error message for a validation outcome */
+export function describeValidation(validation: PipelineValidation, totalRows: number): {
+  status: 'validated' | 'invalid';
+  errorMessage: string | null;
+} {
+  const problems: string[] = [];
+  if (validation.invalidRows > 0) {
+    problems.push(`${validation.invalidRows} of ${totalRows} rows failed validation and will not be synced.`);
+  }
+  problems.push(...validation.ruleErrors);
+  return {
+    status: problems.length > 0 ? 'invalid' : 'validated',
+    errorMessage: problems.length > 0 ? problems.join(' ') : null,
+  };
+}
+
+/**
+ * Every upload_rows row of a session, in row order. Pages past the API's
+ * row cap so filters and exports see the whole import.
+ */
+export async function fetchAllUploadRows(sessionId: string, columns: string): Promise<Record<string, unknown>[]> {
+  const rows: Record<string, unknown>[] = [];
+  for (let offset = 0; ; offset += ROW_PAGE_SIZE) {
+    const { data, error } = await getServerSupabase()
+      .from('upload_rows')
+      .select(columns)
+      .eq('session_id', sessionId)
+      .order('row_index')
+      .range(offset, offset + ROW_PAGE_SIZE - 1);
+
+    if (error) throw new Error(`Failed to fetch rows: ${error.message}`);
+    rows.push(...((data || []) as unknown as Record<string, unknown>[]));
+    if (!data || data.length < ROW_PAGE_SIZE) return rows;
+  }
+}
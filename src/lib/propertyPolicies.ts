@@ -0,0 +1,102 @@
+/**
+ * Property overwrite policies — per account, object type and HubSpot property,
+ * what a sync may do with a value that already exists in HubSpot. Properties
+ * without a policy are overwritten, as they always were.
+ */
+
+import { getServerSupabase } from './supabase';
+import type { HubSpotObjectType, PropertyOverwritePolicy, SkippedProperty } from '@/types';
+
+// objectType → property name → policy (only non-default policies are listed)
+export type PropertyPolicies = Partial<Record<HubSpotObjectType, Record<string, PropertyOverwritePolicy>>>;
+
+// Multi-checkbox values are stored by HubSpot as ';'-separated options
+const MULTI_VALUE_SEPARATOR = ';';
+
+/** Load an account's policies; an empty set (overwrite everything) on failure */
+export async function fetchPropertyPolicies(accountId: string): Promise<PropertyPolicies> {
+  const policies: PropertyPolicies = {};
+  if (!accountId) return policies;
+
+  const { data, error } = await getServerSupabase()
+    .from('hubspot_property_policies')
+    .select('object_type, property_name, policy')
+    .eq('account_id', accountId);
+
+  if (error) {
+    console.error('[propertyPolicies] Fetch error:', error);
+    return policies;
+  }
+
+  for (const row of data || []) {
+    const objectType = row.object_type as HubSpotObjectType;
+    if (row.policy === 'overwrite') continue;
+    policies[objectType] = { ...(policies[objectType] || {}), [row.property_name]: row.policy };
+  }
+  return policies;
+}
+
+/**
+ * Properties being written whose policy depends on the value already in
+ * HubSpot. When empty, the record doesn't need to be read before updating.
+ */
+export function getGuardedProperties(
+  policies: PropertyPolicies,
+  objectType: HubSpotObjectType,
+  properties: Record<string, string>
+): string[] {
+  const objectPolicies = policies[objectType] || {};
+  return Object.keys(properties).filter((property) => objectPolicies[property]);
+}
+
+function splitOptions(value: string): string[] {
+  return value.split(MULTI_VALUE_SEPARATOR).map((option) => option.trim()).filter(Boolean);
+}
+
+/**
+ * The properties an update may write, given the record's current values
+ * (null when the sync is creating the record, so every value is written).
+ * Values a policy keeps from being written are returned as skipped; values
+ * that already match HubSpot are dropped without being reported.
+ */
+export function applyPropertyPolicies(
+  policies: PropertyPolicies,
+  objectType: HubSpotObjectType,
+  properties: Record<string, string>,
+  current: Record<string, string | null | undefined> | null
+): { properties: Record<string, string>; skipped: SkippedProperty[] } {
+  const objectPolicies = policies[objectType] || {};
+  if (!current) return { properties, skipped: [] };
+
+  const allowed: Record<string, string> = {};
+  const skipped: SkippedProperty[] = [];
+
+  for (const [property, value] of Object.entries(properties)) {
+    const policy = objectPolicies[property] || 'overwrite';
+    const existing = (current[property] || '').trim();
+
+    if (existing === value) continue;
+
+    if (policy === 'overwrite' || (!existing && policy !== 'create_only')) {
+      allowed[property] = value;
+    } else if (policy === 'append') {
+      const options = splitOptions(existing);
+      const known = new Set(options.map((option) => option.toLowerCase()));
+      const added = splitOptions(value).filter((option) => !known.has(option.toLowerCase()));
+      if (added.length > 0) allowed[property] = options.concat(added).join(MULTI_VALUE_SEPARATOR);
+    } else {
+      // fill_empty with a value in HubSpot, or create_only on an existing record
+      skipped.push({ objectType, property, policy });
+    }
+  }
+
+  return { properties: allowed, skipped };
+}
+
+/** Tally skipped values by "objectType.property", for sync logs and sessions */
+export function countSkippedProperties(counts: Record<string, number>, skipped: SkippedProperty[] = []): void {
+  for (const { objectType, property } of skipped) {
+    const key = `${objectType}.${property}`;
+    counts[key] = (counts[key] || 0) + 1;
+  }
+}
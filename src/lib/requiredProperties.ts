@@ -0,0 +1,28 @@
+/**
+ * Required properties — per account, the HubSpot properties every imported
+ * row must have, stored as "objectType:field" keys.
+ */
+
+import { getServerSupabase } from './supabase';
+
+/** Load an account's required property keys; none on failure */
+export async function fetchRequiredProperties(accountId: string): Promise<string[]> {
+  if (!accountId) return [];
+
+  const { data, error } = await getServerSupabase()
+    .from('account_required_properties')
+    .select('properties')
+    .eq('account_id', accountId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[requiredProperties] Fetch error:', error);
+    return [];
+  }
+  return Array.isArray(data?.properties) ? data.properties : [];
+}
+
+/** Field names of required property keys (the objectType: prefix stripped) */
+export function requiredFieldNames(keys: string[]): string[] {
+  return keys.map((key) => (key.includes(':') ? key.split(':', 2)[1] : key));
+}
@@ -0,0 +1,300 @@
+import type { IValidationScript, ScriptContext, ScriptExecutionResult, ScriptChange, ScriptError, ScriptWarning } from './types';
+import type { ParsedRow } from '@/types';
+import { findColumnHeader } from './findColumn';
+import { DEFAULT_SANDBOX_LIMITS, testPatternsInSandbox, type SandboxLimits } from './sandbox';
+
+/**
+ * Declarative (no-code) rules.
+ *
+ * A declarative rule is stored as JSON in `AccountRule.config.declarative` and
+ * compiled into an IValidationScript at runtime. For every row, when the
+ * conditions hold (all or any of them), the actions run in order.
+ *
+ * `field` on a condition or action is a target field name (resolved to a column
+ * with findColumnHeader, like the built-in scripts). When omitted, the rule's
+ * first target field is used.
+ *
+ * Patterns are written by admins, so they are tested in the sandbox (see
+ * ./sandbox) under its timeout: a pattern that backtracks catastrophically
+ * stops the rule instead of hanging the import.
+ */
+
+export type DeclarativeCondition =
+  | { type: 'matches_regex'; field?: string; pattern: string; flags?: string; negate?: boolean }
+  | { type: 'in_list'; field?: string; values: string[]; caseSensitive?: boolean; negate?: boolean }
+  | { type: 'is_empty'; field?: string; negate?: boolean }
+  | { type: 'length_between'; field?: string; min?: number; max?: number; negate?: boolean };
+
+export type DeclarativeAction =
+  | { type: 'set_value'; field?: string; value: string }
+  | { type: 'trim'; field?: string }
+  | { type: 'map_values'; field?: string; mappings: { from: string; to: string }[]; caseSensitive?: boolean }
+  | { type: 'raise_error'; field?: string; message: string }
+  | { type: 'raise_warning'; field?: string; message: string };
+
+export interface DeclarativeRuleDefinition {
+  match: 'all' | 'any';
+  conditions: DeclarativeCondition[];
+  actions: DeclarativeAction[];
+}
+
+export type DeclarativeConditionType = DeclarativeCondition['type'];
+export type DeclarativeActionType = DeclarativeAction['type'];
+
+export const CONDITION_TYPES: { value: DeclarativeConditionType; label: string }[] = [
+  { value: 'matches_regex', label: 'matches pattern' },
+  { value: 'in_list', label: 'is in list' },
+  { value: 'is_empty', label: 'is empty' },
+  { value: 'length_between', label: 'length is between' },
+];
+
+export const ACTION_TYPES: { value: DeclarativeActionType; label: string }[] = [
+  { value: 'set_value', label: 'Set value' },
+  { value: 'trim', label: 'Trim whitespace' },
+  { value: 'map_values', label: 'Map via table' },
+  { value: 'raise_error', label: 'Raise error' },
+  { value: 'raise_warning', label: 'Raise warning' },
+];
+
+/**
+ * Read a declarative definition out of a rule's config.
+ * Returns null when the config has none or it is malformed.
+ */
+export function getDeclarativeDefinition(config: Record<string, unknown> | null | undefined): DeclarativeRuleDefinition | null {
+  const raw = config?.declarative as Partial<DeclarativeRuleDefinition> | undefined;
+  if (!raw || typeof raw !== 'object') return null;
+  if (!Array.isArray(raw.conditions) || !Array.isArray(raw.actions)) return null;
+  if (raw.actions.length === 0) return null;
+  return {
+    match: raw.match === 'any' ? 'any' : 'all',
+    conditions: raw.conditions,
+    actions: raw.actions,
+  };
+}
+
+// Replace {value} and {field} placeholders in a message
+function formatMessage(template: string, value: string, field: string): string {
+  return template.replace(/\{value\}/g, value).replace(/\{field\}/g, field);
+}
+
+function toText(value: ParsedRow[string] | undefined): string {
+  return value === null || value === undefined ? '' : String(value);
+}
+
+type PatternCondition = Extract<DeclarativeCondition, { type: 'matches_regex' }>;
+
+export class DeclarativeRuleScript implements IValidationScript {
+  description = 'No-code rule';
+
+  private patternConditions: PatternCondition[];
+
+  constructor(
+    public id: string,
+    public name: string,
+    public type: 'transform' | 'validate',
+    public targetFields: string[],
+    public order: number,
+    private definition: DeclarativeRuleDefinition,
+    private limits: SandboxLimits = DEFAULT_SANDBOX_LIMITS
+  ) {
+    // Check patterns up front so a bad regex fails the whole rule once, not per row
+    this.patternConditions = definition.conditions.filter(
+      (condition): condition is PatternCondition => condition.type === 'matches_regex'
+    );
+    for (const condition of this.patternConditions) {
+      try {
+        new RegExp(condition.pattern, condition.flags);
+      } catch {
+        throw new Error(`Invalid pattern "${condition.pattern}"`);
+      }
+    }
+  }
+
+  async execute(context: ScriptContext): Promise<ScriptExecutionResult> {
+    const { rows, headerMatches } = context;
+    const changes: ScriptChange[] = [];
+    const errors: ScriptError[] = [];
+    const warnings: ScriptWarning[] = [];
+    const modifiedRows: ParsedRow[] = [];
+
+    const defaultField = context.targetFields?.[0] || this.targetFields[0] || '';
+
+    // Resolve each referenced field to a column header once
+    const headerCache = new Map<string, string | null>();
+    const resolveHeader = (field: string): string | null => {
+      if (!headerCache.has(field)) {
+        headerCache.set(field, field ? findColumnHeader(field, headerMatches, rows) : null);
+      }
+      return headerCache.get(field) ?? null;
+    };
+    const conditionValue = (condition: DeclarativeCondition, row: ParsedRow): string => {
+      const header = resolveHeader(condition.field || defaultField);
+      return header ? toText(row[header]) : '';
+    };
+
+    // Test every pattern against every row in one sandbox run
+    const patternMatches = new Map<DeclarativeCondition, boolean[]>();
+    if (this.patternConditions.length > 0) {
+      const tested = await testPatternsInSandbox(
+        this.patternConditions.map((condition) => ({ pattern: condition.pattern, flags: condition.flags })),
+        this.patternConditions.map((condition) => rows.map((row) => conditionValue(condition, row))),
+        this.limits
+      );
+      if ('error' in tested) {
+        return {
+          success: false,
+          changes: [],
+          errors: [{
+            rowIndex: -1,
+            field: '',
+            value: null,
+            errorType: tested.timedOut ? 'script_timeout' : 'script_error',
+            message: `Rule "${this.name}" was stopped: ${tested.error}`,
+          }],
+          warnings: [],
+          modifiedRows: rows,
+        };
+      }
+      this.patternConditions.forEach((condition, i) => patternMatches.set(condition, tested.matches[i]));
+    }
+
+    rows.forEach((row, index) => {
+      const newRow = { ...row };
+
+      const results = this.definition.conditions.map((condition) => {
+        const holds = condition.type === 'matches_regex'
+          ? patternMatches.get(condition)![index]
+          : this.evaluateCondition(condition, conditionValue(condition, newRow));
+        return condition.negate ? !holds : holds;
+      });
+
+      const applies = results.length === 0
+        || (this.definition.match === 'any' ? results.some(Boolean) : results.every(Boolean));
+
+      if (!applies) {
+        modifiedRows.push(newRow);
+        return;
+      }
+
+      for (const action of this.definition.actions) {
+        const field = action.field || defaultField;
+        const header = resolveHeader(field);
+        if (!header) continue;
+
+        const originalValue = newRow[header] ?? null;
+        const valueStr = toText(originalValue);
+
+        switch (action.type) {
+          case 'raise_error':
+            errors.push({
+              rowIndex: index,
+              field,
+              value: originalValue,
+              errorType: 'rule_violation',
+              message: formatMessage(action.message || `"${valueStr}" failed rule "${this.name}"`, valueStr, field),
+            });
+            break;
+
+          case 'raise_warning':
+            warnings.push({
+              rowIndex: index,
+              field,
+              value: originalValue,
+              warningType: 'rule_warning',
+              message: formatMessage(action.message || `"${valueStr}" flagged by rule "${this.name}"`, valueStr, field),
+            });
+            break;
+
+          default: {
+            // Validate rules never modify data
+            if (this.type !== 'transform') break;
+
+            const newValue = this.applyTransform(action, valueStr);
+            if (newValue !== null && newValue !== valueStr) {
+              newRow[header] = newValue;
+              changes.push({
+                rowIndex: index,
+                field,
+                originalValue,
+                newValue,
+                reason: this.describeTransform(action, valueStr, newValue),
+              });
+            }
+          }
+        }
+      }
+
+      modifiedRows.push(newRow);
+    });
+
+    return {
+      success: errors.length === 0,
+      changes,
+      errors,
+      warnings,
+      modifiedRows,
+    };
+  }
+
+  // Conditions other than patterns, which are tested in the sandbox
+  private evaluateCondition(condition: Exclude<DeclarativeCondition, PatternCondition>, value: string): boolean {
+    switch (condition.type) {
+      case 'in_list': {
+        const values = (condition.values || []).map((v) => v.trim()).filter(Boolean);
+        if (condition.caseSensitive) return values.includes(value.trim());
+        const lower = value.trim().toLowerCase();
+        return values.some((v) => v.toLowerCase() === lower);
+      }
+      case 'is_empty':
+        return value.trim() === '';
+      case 'length_between': {
+        const length = value.trim().length;
+        if (condition.min !== undefined && condition.min !== null && length < condition.min) return false;
+        if (condition.max !== undefined && condition.max !== null && length > condition.max) return false;
+        return true;
+      }
+    }
+  }
+
+  // Returns the new value, or null when the action doesn't apply to this value
+  private applyTransform(action: DeclarativeAction, value: string): string | null {
+    switch (action.type) {
+      case 'set_value':
+        return action.value ?? '';
+      case 'trim':
+        return value.trim();
+      case 'map_values': {
+        const trimmed = value.trim();
+        const match = (action.mappings || []).find((m) =>
+          action.caseSensitive ? m.from === trimmed : m.from.toLowerCase() === trimmed.toLowerCase()
+        );
+        return match ? match.to : null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  private describeTransform(action: DeclarativeAction, from: string, to: string): string {
+    switch (action.type) {
+      case 'trim':
+        return 'Trimmed whitespace';
+      case 'map_values':
+        return `Mapped "${from}" → "${to}"`;
+      default:
+        return `Set to "${to}" by rule "${this.name}"`;
+    }
+  }
+}
+
+/**
+ * Compile a declarative definition into an executable script.
+ * Throws if the definition contains an invalid regex pattern.
+ */
+export function compileDeclarativeRule(
+  meta: { id: string; name: string; type: 'transform' | 'validate'; targetFields: string[]; order: number },
+  definition: DeclarativeRuleDefinition,
+  limits: SandboxLimits = DEFAULT_SANDBOX_LIMITS
+): IValidationScript {
+  return new DeclarativeRuleScript(meta.id, meta.name, meta.type, meta.targetFields, meta.order, definition, limits);
+}
@@ -1,11 +1,258 @@
 import type { IValidationScript, ScriptContext, ScriptExecutionResult, ScriptWarning } from './types';
-import type { ParsedRow } from '@/types';
+import type { ParsedRow, DuplicateCluster, DuplicateMerge, ScriptRunnerResult } from '@/types';
 import { findColumnHeader } from './findColumn';
+import { getNameKeys, areNicknameEquivalent } from './nicknames';
+
+/**
+ * Fuzzy duplicate detection.
+ *
+ * Rows are compared only within "blocks" that share a cheap key (email, phone,
+ * name key, email local-part variant), so large files don't need every pair.
+ * Each candidate pair gets a score from independent signals, combined as
+ * 1 - Π(1 - s). Pairs at or above the threshold are joined into clusters.
+ *
+ * Rule config (AccountRule.config): { threshold?: number } — default 0.7.
+ */
+
+const DEFAULT_THRESHOLD = 0.7;
+
+// Blocks bigger than this are too generic to be a useful duplicate signal
+const MAX_BLOCK_SIZE = 250;
+
+// Shared-inbox providers: similar local parts here are weaker evidence
+const FREE_EMAIL_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'hotmail.com', 'outlook.com',
+  'live.com', 'aol.com', 'icloud.com', 'me.com', 'msn.com', 'protonmail.com',
+]);
+
+interface Candidate {
+  email: string;
+  domain: string;
+  localKeys: Set<string>;
+  first: string;
+  last: string;
+  phone: string;
+}
+
+interface Signal {
+  score: number;
+  reason: string;
+  field: string;
+}
+
+function text(value: ParsedRow[string] | undefined): string {
+  return value === null || value === undefined ? '' : String(value).toLowerCase().trim();
+}
+
+/**
+ * Jaro-Winkler similarity (0-1) — tolerant of the short typos seen in names.
+ */
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - window);
+    const end = Math.min(i + window + 1, b.length);
+    for (let j = start; j < end; j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = true;
+      bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < 4 && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+/**
+ * Variants of an email local part that point at the same person:
+ * john.smith → johnsmith, jsmith, smithj. When the local part spells out the
+ * row's own name, the initial-based forms are added too.
+ */
+function getLocalKeys(local: string, first: string, last: string): Set<string> {
+  const keys = new Set<string>();
+  const tokens = local.replace(/\+.*$/, '').split(/[._\-]+/).map((t) => t.replace(/\d+/g, '')).filter(Boolean);
+  if (tokens.length === 0) return keys;
+
+  const joined = tokens.join('');
+  keys.add(joined);
+
+  if (tokens.length >= 2) {
+    const head = tokens[0];
+    const tail = tokens[tokens.length - 1];
+    keys.add(`${head[0]}${tail}`);
+    keys.add(`${tail}${head[0]}`);
+  }
+
+  const firstLetters = first.replace(/[^a-z]/g, '');
+  const lastLetters = last.replace(/[^a-z]/g, '');
+  if (firstLetters && lastLetters) {
+    if (joined === `${firstLetters}${lastLetters}` || joined === `${firstLetters[0]}${lastLetters}`) {
+      keys.add(`${firstLetters}${lastLetters}`);
+      keys.add(`${firstLetters[0]}${lastLetters}`);
+      keys.add(`${lastLetters}${firstLetters[0]}`);
+    }
+  }
+
+  return keys;
+}
+
+function scoreNames(a: Candidate, b: Candidate): Signal | null {
+  if (!a.first || !a.last || !b.first || !b.last) return null;
+
+  const lastSimilarity = jaroWinkler(a.last, b.last);
+  if (lastSimilarity < 0.85) return null;
+
+  const display = `${a.first} ${a.last} / ${b.first} ${b.last}`;
+
+  if (a.first === b.first && a.last === b.last) {
+    return { score: 0.8, reason: 'Same name', field: 'name' };
+  }
+  if (a.first !== b.first && areNicknameEquivalent(a.first, b.first) && lastSimilarity === 1) {
+    return { score: 0.75, reason: `Nickname match (${display})`, field: 'name' };
+  }
+
+  const firstSimilarity = a.first === b.first || areNicknameEquivalent(a.first, b.first) ? 1 : jaroWinkler(a.first, b.first);
+  if (firstSimilarity < 0.85) return null;
+
+  return { score: 0.8 * ((firstSimilarity + lastSimilarity) / 2), reason: `Similar name (${display})`, field: 'name' };
+}
+
+function scorePair(a: Candidate, b: Candidate): Signal[] {
+  const signals: Signal[] = [];
+
+  if (a.email && a.email === b.email) {
+    signals.push({ score: 1, reason: 'Same email', field: 'email' });
+  } else if (a.domain && a.domain === b.domain && Array.from(a.localKeys).some((k) => b.localKeys.has(k))) {
+    // Clearly different first names rule out an email variant (j.smith vs jane.smith)
+    const namesConflict = a.first && b.first && !areNicknameEquivalent(a.first, b.first) && jaroWinkler(a.first, b.first) < 0.7;
+    if (!namesConflict) {
+      signals.push({
+        score: FREE_EMAIL_DOMAINS.has(a.domain) ? 0.5 : 0.7,
+        reason: `Similar email (${a.email} / ${b.email})`,
+        field: 'email',
+      });
+    }
+  }
+
+  if (a.phone && a.phone === b.phone) {
+    signals.push({ score: 0.9, reason: 'Same phone', field: 'phone' });
+  }
+
+  const nameSignal = scoreNames(a, b);
+  if (nameSignal) signals.push(nameSignal);
+
+  return signals;
+}
+
+// Minimal union-find over row indices
+function createClusters(size: number) {
+  const parent = Array.from({ length: size }, (_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const union = (a: number, b: number) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) parent[Math.max(rootA, rootB)] = Math.min(rootA, rootB);
+  };
+  return { find, union };
+}
+
+/**
+ * Apply the user's merge decisions: each survivor takes the merged values and
+ * the other rows of its cluster are dropped. Row indices refer to `rows`.
+ */
+export function applyDuplicateMerges(rows: ParsedRow[], merges: DuplicateMerge[]): ParsedRow[] {
+  if (merges.length === 0) return rows;
+
+  const survivors = new Map<number, ParsedRow>();
+  const removed = new Set<number>();
+  for (const merge of merges) {
+    survivors.set(merge.survivorIndex, merge.values);
+    merge.rowIndices.filter((i) => i !== merge.survivorIndex).forEach((i) => removed.add(i));
+  }
+
+  return rows
+    .map((row, index) => (survivors.has(index) ? { ...row, ...survivors.get(index) } : row))
+    .filter((_, index) => !removed.has(index));
+}
+
+/**
+ * Where each row lands after applyDuplicateMerges: its new index, or null when
+ * it was merged into another row.
+ */
+export function mergedRowPositions(rowCount: number, merges: DuplicateMerge[]): (number | null)[] {
+  const removed = new Set<number>();
+  for (const merge of merges) {
+    merge.rowIndices.filter((i) => i !== merge.survivorIndex).forEach((i) => removed.add(i));
+  }
+  let next = 0;
+  return Array.from({ length: rowCount }, (_, index) => (removed.has(index) ? null : next++));
+}
+
+/**
+ * Script results for the rows as they are after the merges: changes, errors
+ * and warnings point at the rows' new positions, and those of rows merged into
+ * another row are dropped. Rule-level entries (rowIndex -1) are kept.
+ */
+export function remapScriptResults(result: ScriptRunnerResult, merges: DuplicateMerge[]): ScriptRunnerResult {
+  if (merges.length === 0) return result;
+
+  const positions = mergedRowPositions(result.processedData.length, merges);
+  const remap = <T extends { rowIndex: number }>(items: T[]): T[] =>
+    items.flatMap((item) => {
+      if (item.rowIndex < 0) return [item];
+      const position = positions[item.rowIndex];
+      return position === null || position === undefined ? [] : [{ ...item, rowIndex: position }];
+    });
+
+  const scriptResults = result.scriptResults.map((scriptResult) => ({
+    ...scriptResult,
+    changes: remap(scriptResult.changes),
+    errors: remap(scriptResult.errors),
+    warnings: remap(scriptResult.warnings),
+  }));
+
+  return {
+    ...result,
+    scriptResults,
+    totalChanges: scriptResults.reduce((sum, r) => sum + r.changes.length, 0),
+    totalErrors: scriptResults.reduce((sum, r) => sum + r.errors.length, 0),
+    totalWarnings: scriptResults.reduce((sum, r) => sum + r.warnings.length, 0),
+    processedData: applyDuplicateMerges(result.processedData, merges),
+  };
+}
 
 export class DuplicateDetectionScript implements IValidationScript {
   id = 'duplicate-detection';
   name = 'Duplicate Detection';
-  description = 'Identifies duplicate entries based on email, name combinations, or phone numbers';
+  description = 'Groups likely duplicates into scored clusters using email (including local-part variations), normalized phone, and names with nickname and typo tolerance';
   type: 'validate' = 'validate';
   targetFields = ['email', 'firstname', 'lastname', 'phone'];
   order = 40;
@@ -25,99 +272,95 @@ export class DuplicateDetectionScript implements IValidationScript {
     const lastHeader = findColumnHeader(lastField, headerMatches, rows);
     const phoneHeader = findColumnHeader(phoneField, headerMatches, rows);
 
-    // Check for email duplicates
-    if (emailHeader) {
-      const emailOccurrences = new Map<string, number[]>();
-
-      rows.forEach((row, index) => {
-        const email = String(row[emailHeader] || '').toLowerCase().trim();
-        if (email) {
-          const existing = emailOccurrences.get(email) || [];
-          existing.push(index);
-          emailOccurrences.set(email, existing);
-        }
-      });
+    const threshold = typeof context.config?.threshold === 'number' ? context.config.threshold : DEFAULT_THRESHOLD;
 
-      emailOccurrences.forEach((indices, email) => {
-        if (indices.length > 1) {
-          indices.forEach((idx) => {
-            warnings.push({
-              rowIndex: idx,
-              field: 'email',
-              value: email,
-              warningType: 'duplicate_email',
-              message: `Duplicate email found in rows: ${indices.map((i) => i + 1).join(', ')}`,
-            });
-          });
-        }
-      });
-    }
+    const candidates: Candidate[] = rows.map((row) => {
+      const email = emailHeader ? text(row[emailHeader]) : '';
+      const at = email.lastIndexOf('@');
+      const first = firstHeader ? text(row[firstHeader]) : '';
+      const last = lastHeader ? text(row[lastHeader]) : '';
+      // Compare the last 10 digits so +1 / 001 / national forms line up
+      const digits = phoneHeader ? text(row[phoneHeader]).replace(/\s*(?:ext\.?|x|#)\s*\d+$/, '').replace(/\D/g, '') : '';
+      return {
+        email,
+        domain: at > 0 ? email.slice(at + 1) : '',
+        localKeys: at > 0 ? getLocalKeys(email.slice(0, at), first, last) : new Set<string>(),
+        first,
+        last,
+        phone: digits.length >= 7 ? digits.slice(-10) : '',
+      };
+    });
 
-    // Check for name duplicates (first + last)
-    if (firstHeader && lastHeader) {
-      const nameOccurrences = new Map<string, number[]>();
+    // Group rows by blocking keys
+    const blocks = new Map<string, number[]>();
+    const addToBlock = (key: string, index: number) => {
+      const block = blocks.get(key) || [];
+      block.push(index);
+      blocks.set(key, block);
+    };
+    candidates.forEach((c, index) => {
+      if (c.email) addToBlock(`e:${c.email}`, index);
+      if (c.domain) c.localKeys.forEach((k) => addToBlock(`l:${c.domain}|${k}`, index));
+      if (c.phone) addToBlock(`p:${c.phone}`, index);
+      if (c.first && c.last) {
+        getNameKeys(c.first).forEach((k) => addToBlock(`n:${k}|${c.last[0]}`, index));
+        addToBlock(`s:${c.last}|${c.first[0]}`, index);
+      }
+    });
 
-      rows.forEach((row, index) => {
-        const firstName = String(row[firstHeader] || '').toLowerCase().trim();
-        const lastName = String(row[lastHeader] || '').toLowerCase().trim();
+    // Score each candidate pair once
+    const scored = new Set<string>();
+    const edges: { a: number; b: number; score: number; signals: Signal[] }[] = [];
+    blocks.forEach((block) => {
+      if (block.length < 2 || block.length > MAX_BLOCK_SIZE) return;
+      for (let i = 0; i < block.length; i++) {
+        for (let j = i + 1; j < block.length; j++) {
+          const pairKey = `${block[i]}:${block[j]}`;
+          if (scored.has(pairKey)) continue;
+          scored.add(pairKey);
 
-        if (firstName && lastName) {
-          const fullName = `${firstName}|${lastName}`;
-          const existing = nameOccurrences.get(fullName) || [];
-          existing.push(index);
-          nameOccurrences.set(fullName, existing);
+          const signals = scorePair(candidates[block[i]], candidates[block[j]]);
+          if (signals.length === 0) continue;
+          const score = 1 - signals.reduce((remaining, s) => remaining * (1 - s.score), 1);
+          if (score >= threshold) edges.push({ a: block[i], b: block[j], score, signals });
         }
-      });
+      }
+    });
 
-      nameOccurrences.forEach((indices, nameParts) => {
-        if (indices.length > 1) {
-          const [firstName, lastName] = nameParts.split('|');
-          indices.forEach((idx) => {
-            // Only warn if different emails (same email duplicates already flagged)
-            const rowEmails = indices.map((i) =>
-              emailHeader ? String(rows[i][emailHeader] || '').toLowerCase().trim() : ''
-            );
-            const uniqueEmails = new Set(rowEmails.filter((e) => e));
-
-            if (uniqueEmails.size > 1 || !emailHeader) {
-              warnings.push({
-                rowIndex: idx,
-                field: 'name',
-                value: `${firstName} ${lastName}`,
-                warningType: 'duplicate_name',
-                message: `Same name "${firstName} ${lastName}" appears in rows: ${indices.map((i) => i + 1).join(', ')} (different emails)`,
-              });
-            }
-          });
-        }
-      });
-    }
+    const { find, union } = createClusters(rows.length);
+    edges.forEach((e) => union(e.a, e.b));
 
-    // Check for phone duplicates
-    if (phoneHeader) {
-      const phoneOccurrences = new Map<string, number[]>();
+    // Collect clusters keyed by root row
+    const byRoot = new Map<number, { rows: Set<number>; scores: number[]; signals: Signal[] }>();
+    for (const edge of edges) {
+      const root = find(edge.a);
+      const entry = byRoot.get(root) || { rows: new Set<number>(), scores: [], signals: [] };
+      entry.rows.add(edge.a);
+      entry.rows.add(edge.b);
+      entry.scores.push(edge.score);
+      entry.signals.push(...edge.signals);
+      byRoot.set(root, entry);
+    }
 
-      rows.forEach((row, index) => {
-        const phone = String(row[phoneHeader] || '').replace(/\D/g, ''); // Normalize to digits only
-        if (phone && phone.length >= 7) {
-          const existing = phoneOccurrences.get(phone) || [];
-          existing.push(index);
-          phoneOccurrences.set(phone, existing);
-        }
-      });
+    const duplicateClusters: DuplicateCluster[] = Array.from(byRoot.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([root, entry]) => ({
+        id: `dup-${root}`,
+        rowIndices: Array.from(entry.rows).sort((a, b) => a - b),
+        score: Math.round((entry.scores.reduce((sum, s) => sum + s, 0) / entry.scores.length) * 100) / 100,
+        reasons: Array.from(new Set(entry.signals.map((s) => s.reason))),
+      }));
 
-      phoneOccurrences.forEach((indices, phone) => {
-        if (indices.length > 1) {
-          indices.forEach((idx) => {
-            warnings.push({
-              rowIndex: idx,
-              field: 'phone',
-              value: phone,
-              warningType: 'duplicate_phone',
-              message: `Duplicate phone number found in rows: ${indices.map((i) => i + 1).join(', ')}`,
-            });
-          });
-        }
+    // One warning per cluster, on its first row
+    for (const cluster of duplicateClusters) {
+      const entry = byRoot.get(cluster.rowIndices[0])!;
+      const strongest = entry.signals.reduce((best, s) => (s.score > best.score ? s : best));
+      warnings.push({
+        rowIndex: cluster.rowIndices[0],
+        field: strongest.field,
+        value: null,
+        warningType: 'duplicate_cluster',
+        message: `Possible duplicates (${Math.round(cluster.score * 100)}% match) in rows ${cluster.rowIndices.map((i) => i + 1).join(', ')}: ${cluster.reasons.join('; ')}`,
       });
     }
 
@@ -127,6 +370,7 @@ export class DuplicateDetectionScript implements IValidationScript {
       errors: [],
       warnings,
       modifiedRows,
+      duplicateClusters,
     };
   }
 }
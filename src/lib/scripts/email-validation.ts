@@ -3,7 +3,7 @@ import type { ParsedRow } from '@/types';
 import { findColumnHeader } from './findColumn';
 
 // Personal email domains that might need review
-const PERSONAL_DOMAINS = new Set([
+export const PERSONAL_DOMAINS = new Set([
   'gmail.com',
   'yahoo.com',
   'hotmail.com',
@@ -27,6 +27,7 @@ const HEADER_PATTERNS: Record<string, string[]> = {
   website: ['website', 'url', 'web', 'homepage'],
   deal_name: ['deal name', 'deal_name', 'deal', 'opportunity'],
   amount: ['amount', 'deal amount', 'value', 'revenue', 'price'],
+  hubspot_owner_id: ['hubspot owner id', 'hubspot owner', 'contact owner', 'account owner', 'sales representative', 'sales rep', 'salesrep', 'owner'],
 };
 
 /**
@@ -0,0 +1,255 @@
+import type { IValidationScript, ScriptContext, ScriptExecutionResult, ScriptChange, ScriptError } from './types';
+import type { ParsedRow, HubSpotObjectType } from '@/types';
+
+/**
+ * Checks mapped column values against the account's synced HubSpot property
+ * definitions (the `hubspot_properties` cache behind /api/hubspot/properties),
+ * so bad values surface before sync instead of as HubSpot rejections.
+ *
+ * The definitions aren't part of the rule's stored config — the caller loads
+ * them and passes them in at runtime as `config.properties`. Without them the
+ * script is a no-op.
+ */
+
+export interface HubSpotPropertyOption {
+  label: string;
+  value: string;
+}
+
+export interface HubSpotPropertyDefinition {
+  name: string;
+  label: string;
+  // HubSpot property type: string, number, date, datetime, enumeration, bool, ...
+  type: string;
+  // HubSpot field type: text, select, radio, checkbox, booleancheckbox, ...
+  fieldType: string;
+  objectType: HubSpotObjectType;
+  options: HubSpotPropertyOption[];
+}
+
+// Multi-checkbox values are sent to HubSpot separated by semicolons
+const MULTI_VALUE_SEPARATOR = ';';
+
+const BOOLEAN_VALUES = new Map<string, string>([
+  ['true', 'true'],
+  ['false', 'false'],
+  ['yes', 'true'],
+  ['no', 'false'],
+  ['y', 'true'],
+  ['n', 'false'],
+  ['1', 'true'],
+  ['0', 'false'],
+]);
+
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+function readPropertyDefinitions(config: Record<string, unknown> | undefined): HubSpotPropertyDefinition[] {
+  return Array.isArray(config?.properties) ? (config!.properties as HubSpotPropertyDefinition[]) : [];
+}
+
+function isValidCalendarDate(year: number, month: number, day: number): boolean {
+  if (month < 1 || month > 12 || day < 1) return false;
+  return day <= new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+// Date formats HubSpot accepts, plus the MM/DD/YYYY output of date-normalization
+function isValidDate(value: string): boolean {
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) return isValidCalendarDate(+iso[1], +iso[2], +iso[3]);
+
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (us) return isValidCalendarDate(+us[3], +us[1], +us[2]);
+
+  // Epoch milliseconds
+  return /^\d{10,13}$/.test(value);
+}
+
+// Datetime formats HubSpot accepts, plus the DD/MM/YYYY HH:MM output of date-normalization
+function isValidDateTime(value: string): boolean {
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/);
+  if (iso) {
+    if (!isValidCalendarDate(+iso[1], +iso[2], +iso[3])) return false;
+    return iso[4] === undefined || (+iso[4] < 24 && +iso[5] < 60 && (iso[6] === undefined || +iso[6] < 60));
+  }
+
+  const eu = value.match(/^(\d{2})\/(\d{2})\/(\d{4}) (\d{2}):(\d{2})$/);
+  if (eu) return isValidCalendarDate(+eu[3], +eu[2], +eu[1]) && +eu[4] < 24 && +eu[5] < 60;
+
+  return isValidDate(value);
+}
+
+// Short list of allowed labels for error messages
+function describeOptions(options: HubSpotPropertyOption[]): string {
+  const labels = options.slice(0, 5).map((o) => `"${o.label}"`).join(', ');
+  return options.length > 5 ? `${labels}, … (${options.length} options)` : labels;
+}
+
+export class HubSpotPropertyValidationScript implements IValidationScript {
+  id = 'hubspot-property-validation';
+  name = 'HubSpot Property Validation';
+  description = 'Checks mapped values against the synced HubSpot property definitions. Picklist labels are rewritten to their internal values; invalid options, numbers, dates and booleans are reported before sync.';
+  type: 'transform' = 'transform';
+  targetFields = ['*'];
+  order = 90;
+
+  execute(context: ScriptContext): ScriptExecutionResult {
+    const { rows, headerMatches } = context;
+    const properties = readPropertyDefinitions(context.config);
+
+    if (properties.length === 0) {
+      return {
+        success: true,
+        changes: [],
+        errors: [],
+        warnings: [],
+        modifiedRows: [...rows],
+      };
+    }
+
+    // Look up by object type + name first; fall back to the name alone
+    const byKey = new Map<string, HubSpotPropertyDefinition>();
+    const byName = new Map<string, HubSpotPropertyDefinition>();
+    for (const property of properties) {
+      byKey.set(`${property.objectType}:${property.name}`, property);
+      if (!byName.has(property.name)) byName.set(property.name, property);
+    }
+
+    const columns: { header: string; property: HubSpotPropertyDefinition }[] = [];
+    for (const match of headerMatches) {
+      if (!match.isMatched || !match.matchedField) continue;
+      const { hubspotField, objectType } = match.matchedField;
+      const property = byKey.get(`${objectType}:${hubspotField}`) || byName.get(hubspotField);
+      if (property) columns.push({ header: match.originalHeader, property });
+    }
+
+    const changes: ScriptChange[] = [];
+    const errors: ScriptError[] = [];
+
+    const modifiedRows: ParsedRow[] = rows.map((row, index) => {
+      const newRow = { ...row };
+
+      for (const { header, property } of columns) {
+        const originalValue = row[header];
+        if (originalValue === null || originalValue === undefined) continue;
+
+        const valueStr = String(originalValue).trim();
+        if (valueStr === '') continue;
+
+        const result = this.checkValue(property, valueStr);
+
+        if ('error' in result) {
+          errors.push({
+            rowIndex: index,
+            field: property.name,
+            value: originalValue,
+            errorType: result.errorType,
+            message: result.error,
+          });
+        } else if (result.value !== valueStr) {
+          newRow[header] = result.value;
+          changes.push({
+            rowIndex: index,
+            field: property.name,
+            originalValue,
+            newValue: result.value,
+            reason: `Mapped "${valueStr}" → HubSpot value "${result.value}"`,
+          });
+        }
+      }
+
+      return newRow;
+    });
+
+    return {
+      success: errors.length === 0,
+      changes,
+      errors,
+      warnings: [],
+      modifiedRows,
+    };
+  }
+
+  // Returns the value to send to HubSpot, or why the value is invalid
+  private checkValue(
+    property: HubSpotPropertyDefinition,
+    value: string
+  ): { value: string } | { error: string; errorType: string } {
+    switch (property.type) {
+      case 'enumeration': {
+        const options = property.options || [];
+        if (options.length === 0) return { value };
+
+        // Internal values and labels both resolve to the internal value
+        const lookup = new Map<string, string>();
+        options.forEach((o) => lookup.set(o.label.toLowerCase(), o.value));
+        options.forEach((o) => lookup.set(o.value.toLowerCase(), o.value));
+
+        if (property.fieldType === 'checkbox') {
+          const parts = value.split(MULTI_VALUE_SEPARATOR).map((p) => p.trim()).filter(Boolean);
+          const invalid = parts.filter((p) => !lookup.has(p.toLowerCase()));
+          if (invalid.length > 0) {
+            return {
+              errorType: 'invalid_option',
+              error: `${invalid.map((p) => `"${p}"`).join(', ')} ${invalid.length === 1 ? 'is not a valid option' : 'are not valid options'} for HubSpot property "${property.label}" (expected ${describeOptions(options)}, separated by "${MULTI_VALUE_SEPARATOR}")`,
+            };
+          }
+          return { value: parts.map((p) => lookup.get(p.toLowerCase())!).join(MULTI_VALUE_SEPARATOR) };
+        }
+
+        const resolved = lookup.get(value.toLowerCase());
+        if (resolved === undefined) {
+          return {
+            errorType: 'invalid_option',
+            error: `"${value}" is not a valid option for HubSpot property "${property.label}" (expected ${describeOptions(options)})`,
+          };
+        }
+        return { value: resolved };
+      }
+
+      case 'bool': {
+        const lower = value.toLowerCase();
+        const option = (property.options || []).find((o) => o.label.toLowerCase() === lower || o.value.toLowerCase() === lower);
+        const resolved = option?.value ?? BOOLEAN_VALUES.get(lower);
+        if (resolved === undefined) {
+          return {
+            errorType: 'invalid_boolean',
+            error: `"${value}" is not a valid true/false value for HubSpot property "${property.label}"`,
+          };
+        }
+        return { value: resolved };
+      }
+
+      case 'number':
+        if (!NUMBER_PATTERN.test(value)) {
+          return {
+            errorType: 'invalid_number',
+            error: `"${value}" is not a number — HubSpot property "${property.label}" only accepts numeric values`,
+          };
+        }
+        return { value };
+
+      case 'date':
+        if (!isValidDate(value)) {
+          return {
+            errorType: 'invalid_date',
+            error: `"${value}" is not a valid date for HubSpot property "${property.label}" (use YYYY-MM-DD)`,
+          };
+        }
+        return { value };
+
+      case 'datetime':
+        if (!isValidDateTime(value)) {
+          return {
+            errorType: 'invalid_datetime',
+            error: `"${value}" is not a valid date/time for HubSpot property "${property.label}" (use YYYY-MM-DDTHH:MM:SSZ)`,
+          };
+        }
+        return { value };
+
+      default:
+        return { value };
+    }
+  }
+}
+
+export const hubspotPropertyValidationScript = new HubSpotPropertyValidationScript();
@@ -1,10 +1,16 @@
 import type { ParsedRow, HeaderMatch, ScriptResult, ScriptRunnerResult, ValidationScript } from '@/types';
 import type { IValidationScript, ScriptContext, ScriptExecutionResult } from './types';
+import { runInSandbox, DEFAULT_SANDBOX_LIMITS, type SandboxLimits } from './sandbox';
+import { compileDeclarativeRule, type DeclarativeRuleDefinition } from './declarative-rule';
 
 /**
  * Dynamic script source info passed from the DB.
- * The `sourceCode` is a JavaScript function body that receives a `context`
+ * The `sourceCode` is a JavaScript function body that receives a frozen `context`
  * parameter and must return { success, changes, errors, warnings, modifiedRows }.
+ * It runs in the sandbox (see ./sandbox), never in the caller's scope.
+ * A `declarative` definition (no-code rule from `config.declarative`) takes
+ * precedence over `sourceCode` and is compiled in-process; only its patterns
+ * are tested in the sandbox.
  */
 export interface DynamicScriptSource {
   id: string;
@@ -12,14 +18,19 @@ export interface DynamicScriptSource {
   type: 'transform' | 'validate';
   targetFields: string[];
   order: number;
-  sourceCode: string;
+  sourceCode?: string;
+  declarative?: DeclarativeRuleDefinition;
 }
 
 /**
  * Create an IValidationScript from a source code string stored in the DB.
- * The source code is evaluated as a function body that receives `context`.
+ * The source code is evaluated in the sandbox as a function body that receives `context`.
  */
-function createDynamicScript(source: DynamicScriptSource): IValidationScript {
+function createDynamicScript(source: DynamicScriptSource, limits: SandboxLimits): IValidationScript {
+  if (source.declarative) {
+    return createDeclarativeScript(source, source.declarative, limits);
+  }
+
   return {
     id: source.id,
     name: source.name,
@@ -27,11 +38,32 @@ function createDynamicScript(source: DynamicScriptSource): IValidationScript {
     type: source.type,
     targetFields: source.targetFields,
     order: source.order,
-    execute(context: ScriptContext): ScriptExecutionResult {
-      try {
-        const fn = new Function('context', source.sourceCode) as (ctx: ScriptContext) => ScriptExecutionResult;
-        return fn(context);
-      } catch (err) {
+    execute(context: ScriptContext): Promise<ScriptExecutionResult> {
+      return runInSandbox(source.name, source.sourceCode || '', context, limits);
+    },
+  };
+}
+
+/**
+ * Compile a no-code rule. A definition that fails to compile (e.g. a bad regex)
+ * becomes a script that reports the problem instead of breaking the whole run.
+ */
+function createDeclarativeScript(
+  source: DynamicScriptSource,
+  definition: DeclarativeRuleDefinition,
+  limits: SandboxLimits
+): IValidationScript {
+  try {
+    return compileDeclarativeRule(source, definition, limits);
+  } catch (err) {
+    return {
+      id: source.id,
+      name: source.name,
+      description: 'No-code rule',
+      type: source.type,
+      targetFields: source.targetFields,
+      order: source.order,
+      execute(context: ScriptContext): ScriptExecutionResult {
         return {
           success: false,
           changes: [],
@@ -40,14 +72,14 @@ function createDynamicScript(source: DynamicScriptSource): IValidationScript {
             field: '',
             value: null,
             errorType: 'script_error',
-            message: `Dynamic script "${source.name}" failed: ${err instanceof Error ? err.message : 'Unknown error'}`,
+            message: `Rule "${source.name}" could not be compiled: ${err instanceof Error ? err.message : 'Unknown error'}`,
           }],
           warnings: [],
           modifiedRows: context.rows,
         };
-      }
-    },
-  };
+      },
+    };
+  }
 }
 
 // Import all built-in scripts
@@ -64,6 +96,8 @@ import { whitespaceValidationScript } from './whitespace-validation';
 import { newBusinessValidationScript } from './new-business-validation';
 import { programTypeNormalizationScript } from './program-type-normalization';
 import { solutionNormalizationScript } from './solution-normalization';
+import { ownerResolutionScript } from './owner-resolution';
+import { hubspotPropertyValidationScript } from './hubspot-property-validation';
 
 // Registry of all available scripts (ordered by execution order)
 const ALL_SCRIPTS: IValidationScript[] = [
@@ -79,6 +113,8 @@ const ALL_SCRIPTS: IValidationScript[] = [
   dateNormalizationScript,             // order: 35
   nameCapitalizationScript,            // order: 50
   companyNormalizationScript,          // order: 60
+  ownerResolutionScript,               // order: 85 - before property validation checks the owner IDs
+  hubspotPropertyValidationScript,     // order: 90 - after all normalization
   duplicateDetectionScript,            // order: 100 - run last
 ].sort((a, b) => a.order - b.order);
 
@@ -96,13 +132,14 @@ export function getAvailableScripts(): ValidationScript[] {
 }
 
 // Run a single script
-export function runScript(
+export async function runScript(
   scriptId: string,
   rows: ParsedRow[],
   headerMatches: HeaderMatch[],
   requiredFields: string[],
-  targetFieldsOverride?: string[]
-): ScriptResult {
+  targetFieldsOverride?: string[],
+  config?: Record<string, unknown>
+): Promise<ScriptResult> {
   const startTime = performance.now();
   const script = ALL_SCRIPTS.find((s) => s.id === scriptId);
 
@@ -134,10 +171,11 @@ export function runScript(
     headerMatches,
     requiredFields,
     targetFields: targetFieldsOverride || script.targetFields,
+    config,
   };
 
   try {
-    const result = script.execute(context);
+    const result = await script.execute(context);
     const executionTimeMs = performance.now() - startTime;
 
     return {
@@ -151,6 +189,7 @@ export function runScript(
       rowsProcessed: rows.length,
       rowsModified: result.changes.length > 0 ? new Set(result.changes.map((c) => c.rowIndex)).size : 0,
       executionTimeMs,
+      duplicateClusters: result.duplicateClusters,
     };
   } catch (err) {
     const executionTimeMs = performance.now() - startTime;
@@ -184,18 +223,23 @@ export type ScriptProgressCallback = (current: number, total: number, scriptName
 
 // Run all enabled scripts in order
 // targetFieldsOverrides: optional map of scriptId → targetFields from database
-// dynamicScriptSources: optional array of DB-stored script sources to evaluate dynamically
-export function runAllScripts(
+// dynamicScriptSources: optional array of DB-stored script sources to evaluate in the sandbox
+// ruleConfigs: optional map of scriptId → AccountRule.config from database
+// sandboxLimits: optional timeout / memory overrides for dynamic scripts
+export async function runAllScripts(
   rows: ParsedRow[],
   headerMatches: HeaderMatch[],
   requiredFields: string[],
   enabledScriptIds?: string[],
   targetFieldsOverrides?: Record<string, string[]>,
   onProgress?: ScriptProgressCallback,
-  dynamicScriptSources?: DynamicScriptSource[]
-): ScriptRunnerResult {
+  dynamicScriptSources?: DynamicScriptSource[],
+  ruleConfigs?: Record<string, Record<string, unknown>>,
+  sandboxLimits?: Partial<SandboxLimits>
+): Promise<ScriptRunnerResult> {
   // Build dynamic scripts from DB source code
-  const dynamicScripts = (dynamicScriptSources || []).map(createDynamicScript);
+  const limits: SandboxLimits = { ...DEFAULT_SANDBOX_LIMITS, ...sandboxLimits };
+  const dynamicScripts = (dynamicScriptSources || []).map((source) => createDynamicScript(source, limits));
 
   // Merge built-in + dynamic, with dynamic overriding built-in for same ID
   const dynamicIds = new Set(dynamicScripts.map((s) => s.id));
@@ -227,12 +271,13 @@ export function runAllScripts(
       headerMatches,
       requiredFields,
       targetFields: overriddenTargetFields || script.targetFields,
+      config: ruleConfigs?.[script.id],
     };
 
     let scriptResult: ScriptResult;
 
     try {
-      const result = script.execute(context);
+      const result = await script.execute(context);
       const executionTimeMs = performance.now() - startTime;
 
       scriptResult = {
@@ -246,6 +291,7 @@ export function runAllScripts(
         rowsProcessed: currentRows.length,
         rowsModified: result.changes.length > 0 ? new Set(result.changes.map((c) => c.rowIndex)).size : 0,
         executionTimeMs,
+        duplicateClusters: result.duplicateClusters,
       };
 
       totalChanges += result.changes.length;
@@ -314,7 +360,14 @@ export {
   duplicateDetectionScript,
   nameCapitalizationScript,
   companyNormalizationScript,
+  ownerResolutionScript,
+  hubspotPropertyValidationScript,
 };
 
 // Export types
 export type { IValidationScript, ScriptContext, ScriptExecutionResult } from './types';
+export type { SandboxLimits } from './sandbox';
+export type { DeclarativeRuleDefinition, DeclarativeCondition, DeclarativeAction } from './declarative-rule';
+export type { HubSpotPropertyDefinition, HubSpotPropertyOption } from './hubspot-property-validation';
+export type { HubSpotOwner } from './owner-resolution';
+export { getDeclarativeDefinition } from './declarative-rule';
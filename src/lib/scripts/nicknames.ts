@@ -0,0 +1,105 @@
+/**
+ * Common English given-name equivalences, used by duplicate detection.
+ * Each group is one formal name followed by its usual short forms.
+ * A name may appear in several groups (e.g. "Al" → Albert, Alan, Alfred).
+ */
+const NICKNAME_GROUPS: string[][] = [
+  ['abigail', 'abby', 'gail'],
+  ['albert', 'al', 'bert'],
+  ['alan', 'al'],
+  ['alfred', 'al', 'fred', 'alf'],
+  ['alexander', 'alex', 'al', 'sandy', 'xander'],
+  ['alexandra', 'alex', 'alexa', 'sandra', 'sandy', 'lexi'],
+  ['andrew', 'andy', 'drew'],
+  ['anthony', 'tony'],
+  ['barbara', 'barb', 'babs'],
+  ['benjamin', 'ben', 'benny', 'benji'],
+  ['catherine', 'cathy', 'cat', 'kate', 'katie'],
+  ['katherine', 'kathy', 'kate', 'katie', 'kat', 'kathryn'],
+  ['charles', 'charlie', 'chuck', 'chas'],
+  ['christina', 'chris', 'tina', 'christine'],
+  ['christopher', 'chris', 'kit', 'topher'],
+  ['daniel', 'dan', 'danny'],
+  ['david', 'dave', 'davey'],
+  ['deborah', 'deb', 'debbie', 'debra'],
+  ['donald', 'don', 'donnie'],
+  ['dorothy', 'dot', 'dottie'],
+  ['edward', 'ed', 'eddie', 'ted', 'ned'],
+  ['elizabeth', 'liz', 'beth', 'betty', 'eliza', 'lisa', 'libby', 'betsy'],
+  ['eugene', 'gene'],
+  ['frances', 'fran', 'frankie'],
+  ['francis', 'frank', 'fran'],
+  ['frederick', 'fred', 'freddie', 'rick'],
+  ['gregory', 'greg'],
+  ['harold', 'harry', 'hal'],
+  ['henry', 'hank', 'harry', 'hal'],
+  ['jacob', 'jake'],
+  ['james', 'jim', 'jimmy', 'jamie'],
+  ['janet', 'jan'],
+  ['jeffrey', 'jeff'],
+  ['jennifer', 'jen', 'jenny', 'jenn'],
+  ['jessica', 'jess', 'jessie'],
+  ['john', 'jack', 'johnny', 'jon'],
+  ['jonathan', 'jon', 'jonny', 'nathan'],
+  ['joseph', 'joe', 'joey'],
+  ['joshua', 'josh'],
+  ['kenneth', 'ken', 'kenny'],
+  ['lawrence', 'larry'],
+  ['leonard', 'leo', 'len', 'lenny'],
+  ['margaret', 'maggie', 'meg', 'peggy', 'marge', 'greta'],
+  ['matthew', 'matt'],
+  ['melissa', 'mel', 'missy'],
+  ['michael', 'mike', 'mikey', 'mick'],
+  ['michelle', 'shelly', 'mich'],
+  ['nathaniel', 'nate', 'nathan', 'nat'],
+  ['nicholas', 'nick', 'nicky'],
+  ['pamela', 'pam'],
+  ['patricia', 'pat', 'patty', 'trish', 'tricia'],
+  ['patrick', 'pat', 'paddy'],
+  ['peter', 'pete'],
+  ['philip', 'phil'],
+  ['rebecca', 'becky', 'becca'],
+  ['richard', 'rick', 'dick', 'rich', 'ricky'],
+  ['robert', 'rob', 'bob', 'bobby', 'robbie', 'bert'],
+  ['ronald', 'ron', 'ronnie'],
+  ['samantha', 'sam', 'sammy'],
+  ['samuel', 'sam', 'sammy'],
+  ['stephanie', 'steph'],
+  ['stephen', 'steve', 'stevie'],
+  ['steven', 'steve', 'stevie'],
+  ['susan', 'sue', 'suzy'],
+  ['theodore', 'ted', 'teddy', 'theo'],
+  ['thomas', 'tom', 'tommy'],
+  ['timothy', 'tim', 'timmy'],
+  ['victoria', 'vicky', 'tori'],
+  ['william', 'will', 'bill', 'billy', 'liam', 'willie'],
+  ['zachary', 'zach', 'zack'],
+];
+
+const NAME_TO_GROUPS = new Map<string, number[]>();
+NICKNAME_GROUPS.forEach((group, groupIndex) => {
+  for (const name of group) {
+    const groups = NAME_TO_GROUPS.get(name) || [];
+    groups.push(groupIndex);
+    NAME_TO_GROUPS.set(name, groups);
+  }
+});
+
+/**
+ * Keys shared by equivalent given names — "bob" and "robert" share one.
+ * Names outside the table are their own key.
+ */
+export function getNameKeys(firstName: string): string[] {
+  const lower = firstName.toLowerCase().trim();
+  const groups = NAME_TO_GROUPS.get(lower);
+  return groups ? groups.map((g) => NICKNAME_GROUPS[g][0]) : [lower];
+}
+
+/**
+ * Whether two given names are the same name or nickname equivalents.
+ */
+export function areNicknameEquivalent(a: string, b: string): boolean {
+  const keysA = getNameKeys(a);
+  const keysB = new Set(getNameKeys(b));
+  return keysA.some((k) => keysB.has(k));
+}
@@ -0,0 +1,296 @@
+import type { IValidationScript, ScriptContext, ScriptExecutionResult, ScriptChange, ScriptError, ScriptWarning } from './types';
+import type { ParsedRow } from '@/types';
+import { findColumnHeader } from './findColumn';
+import { jaroWinkler } from './duplicate-detection';
+import { getStateName } from './state-normalization';
+
+/**
+ * HubSpot owner as returned by GET /api/hubspot/owners. The caller supplies
+ * the account's owners at runtime as `config.owners`.
+ */
+export interface HubSpotOwner {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export type OwnerAssignment = 'none' | 'round_robin' | 'territory';
+
+/**
+ * Rule config (AccountRule.config):
+ *
+ *   {
+ *     assignment?: 'none' | 'round_robin' | 'territory',
+ *     roundRobinOwners?: ['jane@acme.com', '12345'],
+ *     territories?: { CA: 'jane@acme.com', Texas: '12345' },
+ *     defaultOwner?: '12345',
+ *     stateField?: 'state',
+ *     fuzzyThreshold?: 0.9
+ *   }
+ *
+ * Owners in the config are HubSpot owner IDs or emails. Assignment only fills
+ * rows without an owner; owners given in the file always win.
+ */
+export interface OwnerResolutionConfig {
+  assignment: OwnerAssignment;
+  // Owners that round-robin assignment cycles through, in order
+  roundRobinOwners: string[];
+  // State (abbreviation or name) → owner, for territory assignment
+  territories: Record<string, string>;
+  // Owner for rows whose state has no territory (territory assignment only)
+  defaultOwner: string;
+  // Target field of the column territory assignment reads
+  stateField: string;
+  // Minimum similarity (0-1) for a fuzzy name match
+  fuzzyThreshold: number;
+}
+
+export const DEFAULT_OWNER_CONFIG: OwnerResolutionConfig = {
+  assignment: 'none',
+  roundRobinOwners: [],
+  territories: {},
+  defaultOwner: '',
+  stateField: 'state',
+  fuzzyThreshold: 0.9,
+};
+
+const ASSIGNMENTS: OwnerAssignment[] = ['none', 'round_robin', 'territory'];
+
+export function readOwnerConfig(config: Record<string, unknown> | undefined): OwnerResolutionConfig {
+  const assignment = config?.assignment as OwnerAssignment;
+  const threshold = Number(config?.fuzzyThreshold);
+
+  const territories: Record<string, string> = {};
+  if (config?.territories && typeof config.territories === 'object' && !Array.isArray(config.territories)) {
+    for (const [state, owner] of Object.entries(config.territories as Record<string, unknown>)) {
+      if (state.trim() && typeof owner === 'string' && owner.trim()) territories[state.trim()] = owner.trim();
+    }
+  }
+
+  return {
+    assignment: ASSIGNMENTS.includes(assignment) ? assignment : DEFAULT_OWNER_CONFIG.assignment,
+    roundRobinOwners: Array.isArray(config?.roundRobinOwners)
+      ? config.roundRobinOwners.map((owner) => String(owner).trim()).filter(Boolean)
+      : DEFAULT_OWNER_CONFIG.roundRobinOwners,
+    territories,
+    defaultOwner: typeof config?.defaultOwner === 'string' ? config.defaultOwner.trim() : DEFAULT_OWNER_CONFIG.defaultOwner,
+    stateField: typeof config?.stateField === 'string' && config.stateField.trim()
+      ? config.stateField.trim()
+      : DEFAULT_OWNER_CONFIG.stateField,
+    fuzzyThreshold: config?.fuzzyThreshold !== undefined && !isNaN(threshold) && threshold > 0 && threshold <= 1
+      ? threshold
+      : DEFAULT_OWNER_CONFIG.fuzzyThreshold,
+  };
+}
+
+function readOwners(config: Record<string, unknown> | undefined): HubSpotOwner[] {
+  const owners = config?.owners;
+  return Array.isArray(owners) ? (owners as HubSpotOwner[]).filter((o) => o && o.id) : [];
+}
+
+// "Smith, Jane" → "jane smith"; case, punctuation and extra spaces are ignored
+function normalizeName(value: string): string {
+  const comma = value.indexOf(',');
+  const ordered = comma === -1 ? value : `${value.slice(comma + 1)} ${value.slice(0, comma)}`;
+  return ordered.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function describeOwner(owner: HubSpotOwner): string {
+  return owner.name || owner.email || owner.id;
+}
+
+type OwnerMatch =
+  | { owner: HubSpotOwner; matchedBy: 'id' | 'email' | 'name' | 'fuzzy'; score?: number }
+  | { ambiguous: HubSpotOwner[] }
+  | null;
+
+/**
+ * Resolve a value to one owner: the owner ID itself, then the email, then the
+ * full name, then the closest fuzzy name. Names shared by several owners are
+ * ambiguous rather than guessed.
+ */
+export function matchOwner(value: string, owners: HubSpotOwner[], fuzzyThreshold: number): OwnerMatch {
+  const trimmed = value.trim();
+  const byId = owners.find((o) => o.id === trimmed);
+  if (byId) return { owner: byId, matchedBy: 'id' };
+
+  const lower = trimmed.toLowerCase();
+  const byEmail = owners.find((o) => o.email && o.email.toLowerCase() === lower);
+  if (byEmail) return { owner: byEmail, matchedBy: 'email' };
+
+  const name = normalizeName(trimmed);
+  if (!name) return null;
+
+  const byName = owners.filter((o) => o.name && normalizeName(o.name) === name);
+  if (byName.length === 1) return { owner: byName[0], matchedBy: 'name' };
+  if (byName.length > 1) return { ambiguous: byName };
+
+  let best: HubSpotOwner[] = [];
+  let bestScore = 0;
+  for (const owner of owners) {
+    if (!owner.name) continue;
+    const score = jaroWinkler(name, normalizeName(owner.name));
+    if (score > bestScore) {
+      best = [owner];
+      bestScore = score;
+    } else if (score === bestScore && score > 0) {
+      best.push(owner);
+    }
+  }
+
+  if (bestScore < fuzzyThreshold) return null;
+  return best.length === 1 ? { owner: best[0], matchedBy: 'fuzzy', score: bestScore } : { ambiguous: best };
+}
+
+export class OwnerResolutionScript implements IValidationScript {
+  id = 'owner-resolution';
+  name = 'Owner Resolution';
+  description = 'Resolves owner names and emails (e.g. an "Owner" or "Sales Rep" column) to HubSpot owner IDs by email, full name or fuzzy name, and flags owners that can\'t be resolved. Rows without an owner can optionally be assigned round-robin or by state territory.';
+  type: 'transform' = 'transform';
+  targetFields = ['hubspot_owner_id'];
+  order = 85;
+
+  execute(context: ScriptContext): ScriptExecutionResult {
+    const { rows, headerMatches } = context;
+    const owners = readOwners(context.config);
+    const config = readOwnerConfig(context.config);
+
+    if (owners.length === 0) {
+      return {
+        success: true,
+        changes: [],
+        errors: [],
+        warnings: [],
+        modifiedRows: [...rows],
+      };
+    }
+
+    const changes: ScriptChange[] = [];
+    const errors: ScriptError[] = [];
+    const warnings: ScriptWarning[] = [];
+
+    const targetField = context.targetFields?.[0] || 'hubspot_owner_id';
+    const ownerHeader = findColumnHeader(targetField, headerMatches, rows);
+    const stateHeader = config.assignment === 'territory' ? findColumnHeader(config.stateField, headerMatches, rows) : null;
+    // Without an owner column, assigned owners go to a new hubspot_owner_id column
+    const writeHeader = ownerHeader || 'hubspot_owner_id';
+
+    // Owners named in the config must resolve exactly (ID or email)
+    const resolveConfigured = (value: string): HubSpotOwner | null => {
+      const match = matchOwner(value, owners, 1);
+      if (match && 'owner' in match && (match.matchedBy === 'id' || match.matchedBy === 'email')) return match.owner;
+      warnings.push({
+        rowIndex: -1,
+        field: targetField,
+        value,
+        warningType: 'unknown_assignment_owner',
+        message: `Assignment owner "${value}" is not a HubSpot owner ID or email — it is skipped`,
+      });
+      return null;
+    };
+
+    const roundRobin = config.assignment === 'round_robin'
+      ? config.roundRobinOwners.map(resolveConfigured).filter((o): o is HubSpotOwner => o !== null)
+      : [];
+    const territoryKey = (state: string) => (getStateName(state) || state.trim()).toLowerCase();
+    const territories = new Map<string, HubSpotOwner>();
+    if (config.assignment === 'territory') {
+      for (const [state, value] of Object.entries(config.territories)) {
+        const owner = resolveConfigured(value);
+        if (owner) territories.set(territoryKey(state), owner);
+      }
+    }
+    const defaultOwner = config.assignment === 'territory' && config.defaultOwner
+      ? resolveConfigured(config.defaultOwner)
+      : null;
+
+    let nextRoundRobin = 0;
+
+    // Owner for a row that has none, and why
+    const assign = (row: ParsedRow): { owner: HubSpotOwner; reason: string } | null => {
+      if (roundRobin.length > 0) {
+        const owner = roundRobin[nextRoundRobin++ % roundRobin.length];
+        return { owner, reason: 'round-robin' };
+      }
+      if (config.assignment === 'territory') {
+        const state = stateHeader ? String(row[stateHeader] ?? '').trim() : '';
+        const owner = state ? territories.get(territoryKey(state)) : undefined;
+        if (owner) return { owner, reason: `territory ${state}` };
+        if (defaultOwner) return { owner: defaultOwner, reason: state ? `no territory for ${state}, default owner` : 'no state, default owner' };
+      }
+      return null;
+    };
+
+    const modifiedRows: ParsedRow[] = rows.map((row, index) => {
+      const newRow = { ...row };
+      const originalValue = ownerHeader ? row[ownerHeader] : null;
+      const valueStr = originalValue === null || originalValue === undefined ? '' : String(originalValue).trim();
+
+      if (valueStr) {
+        const match = matchOwner(valueStr, owners, config.fuzzyThreshold);
+
+        if (match && 'owner' in match) {
+          if (match.matchedBy !== 'id') {
+            newRow[writeHeader] = match.owner.id;
+            changes.push({
+              rowIndex: index,
+              field: targetField,
+              originalValue,
+              newValue: match.owner.id,
+              reason: match.matchedBy === 'fuzzy'
+                ? `Matched owner "${valueStr}" to ${describeOwner(match.owner)} (${Math.round((match.score || 0) * 100)}% name match)`
+                : `Resolved owner "${valueStr}" by ${match.matchedBy} to ${describeOwner(match.owner)}`,
+            });
+          }
+          return newRow;
+        }
+
+        // HubSpot rejects records with an unknown owner, so the value is cleared
+        newRow[writeHeader] = '';
+        errors.push({
+          rowIndex: index,
+          field: targetField,
+          value: originalValue,
+          errorType: match ? 'ambiguous_owner' : 'unresolved_owner',
+          message: match
+            ? `Owner "${valueStr}" matches several HubSpot owners (${match.ambiguous.map((o) => o.email || o.id).join(', ')}) — cleared`
+            : `Owner "${valueStr}" doesn't match any HubSpot owner by email or name — cleared`,
+        });
+      }
+
+      if (config.assignment === 'none') return newRow;
+
+      const assigned = assign(newRow);
+      if (!assigned) {
+        warnings.push({
+          rowIndex: index,
+          field: targetField,
+          value: null,
+          warningType: 'unassigned_owner',
+          message: 'No assignment rule matched this row — it will be imported without an owner',
+        });
+        return newRow;
+      }
+
+      newRow[writeHeader] = assigned.owner.id;
+      changes.push({
+        rowIndex: index,
+        field: targetField,
+        originalValue: originalValue ?? null,
+        newValue: assigned.owner.id,
+        reason: `Assigned owner ${describeOwner(assigned.owner)} (${assigned.reason})`,
+      });
+      return newRow;
+    });
+
+    return {
+      success: errors.length === 0,
+      changes,
+      errors,
+      warnings,
+      modifiedRows,
+    };
+  }
+}
+
+export const ownerResolutionScript = new OwnerResolutionScript();
@@ -0,0 +1,132 @@
+/**
+ * Dialing metadata for the countries we import lists from.
+ * Lengths are for the national significant number (no trunk prefix, no country code).
+ */
+
+export interface PhoneCountry {
+  // ISO 3166-1 alpha-2
+  code: string;
+  name: string;
+  callingCode: string;
+  // Dialed before the national number domestically ("0" in the UK; none in NANP)
+  trunkPrefix: string;
+  nationalLengths: number[];
+  // Digit grouping for display, keyed by national number length
+  groups: Record<number, number[]>;
+  // Other spellings seen in country columns (matched case-insensitively)
+  aliases: string[];
+}
+
+export const PHONE_COUNTRIES: PhoneCountry[] = [
+  {
+    code: 'US', name: 'United States', callingCode: '1', trunkPrefix: '',
+    nationalLengths: [10], groups: { 10: [3, 3, 4] },
+    aliases: ['USA', 'U.S.', 'U.S.A.', 'United States of America', 'America'],
+  },
+  {
+    code: 'CA', name: 'Canada', callingCode: '1', trunkPrefix: '',
+    nationalLengths: [10], groups: { 10: [3, 3, 4] },
+    aliases: ['CAN'],
+  },
+  {
+    code: 'GB', name: 'United Kingdom', callingCode: '44', trunkPrefix: '0',
+    nationalLengths: [9, 10], groups: { 9: [4, 5], 10: [4, 6] },
+    aliases: ['UK', 'U.K.', 'GBR', 'Great Britain', 'Britain', 'England', 'Scotland', 'Wales', 'Northern Ireland'],
+  },
+  {
+    code: 'IE', name: 'Ireland', callingCode: '353', trunkPrefix: '0',
+    nationalLengths: [7, 8, 9], groups: { 7: [1, 3, 3], 8: [2, 3, 3], 9: [2, 3, 4] },
+    aliases: ['IRL', 'Republic of Ireland'],
+  },
+  {
+    code: 'AU', name: 'Australia', callingCode: '61', trunkPrefix: '0',
+    nationalLengths: [9], groups: { 9: [1, 4, 4] },
+    aliases: ['AUS'],
+  },
+  {
+    code: 'NZ', name: 'New Zealand', callingCode: '64', trunkPrefix: '0',
+    nationalLengths: [8, 9, 10], groups: { 8: [1, 3, 4], 9: [2, 3, 4], 10: [2, 4, 4] },
+    aliases: ['NZL'],
+  },
+  {
+    code: 'MX', name: 'Mexico', callingCode: '52', trunkPrefix: '',
+    nationalLengths: [10], groups: { 10: [2, 4, 4] },
+    aliases: ['MEX', 'México'],
+  },
+  {
+    code: 'BR', name: 'Brazil', callingCode: '55', trunkPrefix: '0',
+    nationalLengths: [10, 11], groups: { 10: [2, 4, 4], 11: [2, 5, 4] },
+    aliases: ['BRA', 'Brasil'],
+  },
+  {
+    code: 'AR', name: 'Argentina', callingCode: '54', trunkPrefix: '0',
+    // 11 digits = mobile with the international "9" prefix
+    nationalLengths: [10, 11], groups: { 10: [2, 4, 4], 11: [1, 2, 4, 4] },
+    aliases: ['ARG'],
+  },
+  {
+    code: 'CL', name: 'Chile', callingCode: '56', trunkPrefix: '',
+    nationalLengths: [9], groups: { 9: [1, 4, 4] },
+    aliases: ['CHL'],
+  },
+  {
+    code: 'CO', name: 'Colombia', callingCode: '57', trunkPrefix: '',
+    nationalLengths: [10], groups: { 10: [3, 3, 4] },
+    aliases: ['COL'],
+  },
+  {
+    code: 'PE', name: 'Peru', callingCode: '51', trunkPrefix: '0',
+    nationalLengths: [8, 9], groups: { 8: [1, 3, 4], 9: [3, 3, 3] },
+    aliases: ['PER', 'Perú'],
+  },
+  {
+    code: 'PR', name: 'Puerto Rico', callingCode: '1', trunkPrefix: '',
+    nationalLengths: [10], groups: { 10: [3, 3, 4] },
+    aliases: ['PRI'],
+  },
+];
+
+const COUNTRY_LOOKUP = new Map<string, PhoneCountry>();
+for (const country of PHONE_COUNTRIES) {
+  for (const key of [country.code, country.name, ...country.aliases]) {
+    COUNTRY_LOOKUP.set(key.toLowerCase(), country);
+  }
+}
+
+/**
+ * Resolve a country column value (ISO code, name or common alias) to its dialing metadata.
+ */
+export function findPhoneCountry(value: string): PhoneCountry | null {
+  return COUNTRY_LOOKUP.get(value.trim().toLowerCase()) || null;
+}
+
+/**
+ * Find the country whose calling code prefixes an international number's digits.
+ * Shared codes (+1) resolve to the preferred country when it uses that code.
+ */
+export function findCountryByCallingCode(digits: string, preferred?: PhoneCountry): PhoneCountry | null {
+  if (preferred && digits.startsWith(preferred.callingCode)) return preferred;
+  // Calling codes are 1-3 digits — longest match wins
+  for (let length = 3; length >= 1; length--) {
+    const prefix = digits.slice(0, length);
+    const country = PHONE_COUNTRIES.find((c) => c.callingCode === prefix);
+    if (country) return country;
+  }
+  return null;
+}
+
+/**
+ * Split a national number into the country's display groups (space separated).
+ */
+export function groupNationalNumber(country: PhoneCountry, nationalNumber: string): string {
+  const groups = country.groups[nationalNumber.length];
+  if (!groups) return nationalNumber;
+
+  const parts: string[] = [];
+  let position = 0;
+  for (const size of groups) {
+    parts.push(nationalNumber.slice(position, position + size));
+    position += size;
+  }
+  return parts.join(' ');
+}
@@ -1,11 +1,145 @@
 import type { IValidationScript, ScriptContext, ScriptExecutionResult, ScriptChange, ScriptWarning } from './types';
 import type { ParsedRow } from '@/types';
 import { findColumnHeader } from './findColumn';
+import {
+  findPhoneCountry,
+  findCountryByCallingCode,
+  groupNationalNumber,
+  type PhoneCountry,
+} from './phone-countries';
+
+export type PhoneDisplayFormat = 'e164' | 'international' | 'national';
+
+/**
+ * Rule config (AccountRule.config):
+ *
+ *   { defaultCountry?: 'US', displayFormat?: 'e164' | 'international' | 'national', countryField?: 'country' }
+ *
+ * The country comes from the row's country column when there is one, otherwise
+ * from defaultCountry.
+ */
+export interface PhoneNormalizationConfig {
+  // ISO code of the country assumed for numbers without a country code
+  defaultCountry: string;
+  displayFormat: PhoneDisplayFormat;
+  // Target field of the column holding each row's country
+  countryField: string;
+}
+
+export const DEFAULT_PHONE_CONFIG: PhoneNormalizationConfig = {
+  defaultCountry: 'US',
+  displayFormat: 'e164',
+  countryField: 'country',
+};
+
+export function readPhoneConfig(config: Record<string, unknown> | undefined): PhoneNormalizationConfig {
+  const displayFormat = config?.displayFormat;
+  return {
+    defaultCountry: typeof config?.defaultCountry === 'string' && config.defaultCountry.trim()
+      ? config.defaultCountry.trim().toUpperCase()
+      : DEFAULT_PHONE_CONFIG.defaultCountry,
+    displayFormat: displayFormat === 'international' || displayFormat === 'national'
+      ? displayFormat
+      : DEFAULT_PHONE_CONFIG.displayFormat,
+    countryField: typeof config?.countryField === 'string' && config.countryField.trim()
+      ? config.countryField.trim()
+      : DEFAULT_PHONE_CONFIG.countryField,
+  };
+}
+
+// "555-1234 x123", "555-1234 ext. 45", "555-1234 extension 7", "555-1234 #89"
+const EXTENSION_PATTERN = /\s*(?:,|;)?\s*(?:ext\.?|extension|x|#)\s*(\d{1,6})\s*$/i;
+
+function splitExtension(value: string): { number: string; extension: string | null } {
+  const match = value.match(EXTENSION_PATTERN);
+  if (!match || match.index === undefined) return { number: value, extension: null };
+  return { number: value.slice(0, match.index), extension: match[1] };
+}
+
+type PhoneResult =
+  | { ok: true; formatted: string }
+  | { ok: false; warningType: string; message: string };
+
+/**
+ * Normalize one phone number for a country. Numbers written with a "+" / "00"
+ * prefix keep their own country code; the given country only applies to
+ * national numbers.
+ */
+export function normalizePhoneNumber(
+  value: string,
+  country: PhoneCountry,
+  displayFormat: PhoneDisplayFormat
+): PhoneResult {
+  const { number, extension } = splitExtension(value.trim());
+  let digits = number.replace(/\D/g, '');
+  let international = number.trim().startsWith('+');
+
+  // International dialing prefixes instead of "+"
+  if (!international && digits.startsWith('00')) {
+    digits = digits.slice(2);
+    international = true;
+  } else if (!international && country.callingCode === '1' && digits.startsWith('011')) {
+    digits = digits.slice(3);
+    international = true;
+  }
+
+  if (digits.length < 7) {
+    return { ok: false, warningType: 'too_short', message: `Phone number appears too short: ${digits.length} digits` };
+  }
+
+  let target = country;
+  let national = digits;
+
+  if (international) {
+    const match = findCountryByCallingCode(digits, country);
+    if (!match) {
+      return { ok: false, warningType: 'unknown_country_code', message: `Unrecognized country code in "${value}" — left unchanged` };
+    }
+    target = match;
+    national = digits.slice(target.callingCode.length);
+    // "+44 (0)20 ..." — drop the trunk prefix written after the country code
+    if (target.trunkPrefix && national.startsWith(target.trunkPrefix) && !target.nationalLengths.includes(national.length)) {
+      national = national.slice(target.trunkPrefix.length);
+    }
+  } else if (!country.nationalLengths.includes(national.length)) {
+    if (country.trunkPrefix && national.startsWith(country.trunkPrefix)
+      && country.nationalLengths.includes(national.length - country.trunkPrefix.length)) {
+      // Domestic format with trunk prefix, e.g. UK "020 7946 0958"
+      national = national.slice(country.trunkPrefix.length);
+    } else if (national.startsWith(country.callingCode)
+      && country.nationalLengths.includes(national.length - country.callingCode.length)) {
+      // Country code written without "+", e.g. "1 555 123 4567"
+      national = national.slice(country.callingCode.length);
+    }
+  }
+
+  if (!target.nationalLengths.includes(national.length)) {
+    return {
+      ok: false,
+      warningType: 'invalid_length',
+      message: `Phone number has ${national.length} digits — ${target.name} numbers have ${target.nationalLengths.join(' or ')} (left unchanged)`,
+    };
+  }
+
+  let formatted: string;
+  switch (displayFormat) {
+    case 'international':
+      formatted = `+${target.callingCode} ${groupNationalNumber(target, national)}`;
+      break;
+    case 'national':
+      formatted = `${target.trunkPrefix}${groupNationalNumber(target, national)}`;
+      break;
+    default:
+      formatted = `+${target.callingCode}${national}`;
+  }
+
+  return { ok: true, formatted: extension ? `${formatted} ext. ${extension}` : formatted };
+}
 
 export class PhoneNormalizationScript implements IValidationScript {
   id = 'phone-normalization';
   name = 'Phone Number Normalization';
-  description = 'Standardizes phone numbers to +1XXXXXXXXXX format. Assumes US (+1) when no country code is present.';
+  description = 'Normalizes phone numbers to E.164 (+CCNNNN) using the row\'s country column or the rule\'s default country. Validates per-country length and keeps extensions; numbers that can\'t be normalized are left as-is with a warning.';
   type: 'transform' = 'transform';
   targetFields = ['phone'];
   order = 30;
@@ -29,6 +163,10 @@ export class PhoneNormalizationScript implements IValidationScript {
       };
     }
 
+    const config = readPhoneConfig(context.config);
+    const defaultCountry = findPhoneCountry(config.defaultCountry) || findPhoneCountry(DEFAULT_PHONE_CONFIG.defaultCountry)!;
+    const countryHeader = findColumnHeader(config.countryField, headerMatches, rows);
+
     rows.forEach((row, index) => {
       const newRow = { ...row };
       const originalValue = row[phoneHeader];
@@ -39,61 +177,45 @@ export class PhoneNormalizationScript implements IValidationScript {
       }
 
       const valueStr = String(originalValue).trim();
-      const digitsOnly = valueStr.replace(/\D/g, '');
 
-      if (digitsOnly.length < 7) {
-        warnings.push({
-          rowIndex: index,
-          field: 'phone',
-          value: valueStr,
-          warningType: 'too_short',
-          message: `Phone number appears too short: ${digitsOnly.length} digits`,
-        });
-        modifiedRows.push(newRow);
-        return;
+      let country = defaultCountry;
+      const countryValue = countryHeader ? String(row[countryHeader] ?? '').trim() : '';
+      if (countryValue) {
+        const rowCountry = findPhoneCountry(countryValue);
+        if (rowCountry) {
+          country = rowCountry;
+        } else if (!valueStr.startsWith('+') && !valueStr.startsWith('00')) {
+          // Guessing the country would risk mangling the number
+          warnings.push({
+            rowIndex: index,
+            field: 'phone',
+            value: valueStr,
+            warningType: 'unknown_country',
+            message: `Country "${countryValue}" not recognized — phone number left unchanged`,
+          });
+          modifiedRows.push(newRow);
+          return;
+        }
       }
 
-      let formatted: string;
-
-      if (digitsOnly.length === 10) {
-        // US number without country code — add +1
-        formatted = `+1${digitsOnly}`;
-      } else if (digitsOnly.length === 11 && digitsOnly.startsWith('1')) {
-        // US number with leading 1 — format as +1
-        formatted = `+${digitsOnly}`;
-      } else if (digitsOnly.length > 10 && valueStr.startsWith('+')) {
-        // International number with + — keep the + and digits
-        formatted = `+${digitsOnly}`;
-      } else if (digitsOnly.length > 10) {
-        // Longer number without + — might be international, keep as-is with +
-        formatted = `+${digitsOnly}`;
-        warnings.push({
-          rowIndex: index,
-          field: 'phone',
-          value: valueStr,
-          warningType: 'international',
-          message: `Phone number may be international (${digitsOnly.length} digits) — verify country code`,
-        });
-      } else {
-        // 7-9 digits — likely missing area code, add +1 anyway
-        formatted = `+1${digitsOnly}`;
+      const result = normalizePhoneNumber(valueStr, country, config.displayFormat);
+
+      if (!result.ok) {
         warnings.push({
           rowIndex: index,
           field: 'phone',
           value: valueStr,
-          warningType: 'missing_area_code',
-          message: `Phone number may be missing area code (${digitsOnly.length} digits)`,
+          warningType: result.warningType,
+          message: result.message,
         });
-      }
-
-      if (formatted !== valueStr) {
-        newRow[phoneHeader] = formatted;
+      } else if (result.formatted !== valueStr) {
+        newRow[phoneHeader] = result.formatted;
         changes.push({
           rowIndex: index,
           field: 'phone',
           originalValue,
-          newValue: formatted,
-          reason: `Formatted to ${formatted}`,
+          newValue: result.formatted,
+          reason: `Formatted to ${result.formatted}`,
         });
       }
 
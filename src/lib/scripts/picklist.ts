@@ -0,0 +1,174 @@
+import type { ScriptChange, ScriptWarning } from './types';
+import type { ParsedRow } from '@/types';
+
+/**
+ * Shared picklist normalization for the role / program type / solution rules.
+ *
+ * The allowed values, fallback and synonyms come from the rule's
+ * `AccountRule.config` when the account has configured them:
+ *
+ *   { validValues: string[], fallbackValue?: string | null, synonyms?: { [from]: to } }
+ *
+ * Each script's built-in list is only the default for accounts that haven't.
+ */
+
+export interface PicklistConfig {
+  validValues: string[];
+  // Value used when nothing matches. null leaves the value as-is and only warns.
+  fallbackValue: string | null;
+  // Alternate spellings → allowed value (matched case-insensitively)
+  synonyms: Record<string, string>;
+}
+
+export interface PicklistLabels {
+  // Human-readable name, e.g. "Program Type"
+  label: string;
+  // Field name reported on changes/warnings, e.g. "program_type"
+  field: string;
+  // warningType for values that didn't match
+  warningType: string;
+  // Whether replacing a value with the fallback also raises a warning
+  warnOnFallback: boolean;
+}
+
+/**
+ * Merge a rule's config over the script defaults.
+ */
+export function readPicklistConfig(
+  config: Record<string, unknown> | undefined,
+  defaults: PicklistConfig
+): PicklistConfig {
+  const validValues = Array.isArray(config?.validValues)
+    ? (config!.validValues as unknown[]).map((v) => String(v).trim()).filter(Boolean)
+    : defaults.validValues;
+
+  const fallbackValue = config && 'fallbackValue' in config
+    ? (typeof config.fallbackValue === 'string' && config.fallbackValue.trim() !== '' ? config.fallbackValue.trim() : null)
+    : defaults.fallbackValue;
+
+  const synonyms: Record<string, string> = { ...defaults.synonyms };
+  if (config?.synonyms && typeof config.synonyms === 'object') {
+    for (const [from, to] of Object.entries(config.synonyms as Record<string, unknown>)) {
+      if (from.trim() && typeof to === 'string' && to.trim()) {
+        synonyms[from.trim()] = to.trim();
+      }
+    }
+  }
+
+  return { validValues, fallbackValue, synonyms };
+}
+
+/**
+ * Normalize one column against a picklist.
+ * Order: exact match → case-insensitive match → synonym → fallback.
+ */
+export function normalizePicklistColumn(
+  rows: ParsedRow[],
+  header: string,
+  picklist: PicklistConfig,
+  labels: PicklistLabels
+): { changes: ScriptChange[]; warnings: ScriptWarning[]; modifiedRows: ParsedRow[] } {
+  const changes: ScriptChange[] = [];
+  const warnings: ScriptWarning[] = [];
+
+  // Nothing configured to validate against
+  if (picklist.validValues.length === 0) {
+    return { changes, warnings, modifiedRows: [...rows] };
+  }
+
+  const exact = new Set(picklist.validValues);
+
+  // Build a case-insensitive lookup: lowercase → correct casing
+  const lookup = new Map<string, string>();
+  picklist.validValues.forEach((v) => lookup.set(v.toLowerCase(), v));
+
+  // Synonyms resolve to the allowed value's casing when the target is on the list
+  const synonymLookup = new Map<string, string>();
+  Object.entries(picklist.synonyms).forEach(([from, to]) => {
+    synonymLookup.set(from.toLowerCase(), lookup.get(to.toLowerCase()) || to);
+  });
+
+  const modifiedRows = rows.map((row, index) => {
+    const originalValue = row[header];
+    if (originalValue === null || originalValue === undefined) return { ...row };
+
+    const valueStr = String(originalValue).trim();
+    if (valueStr === '' || exact.has(valueStr)) return { ...row };
+
+    const newRow = { ...row };
+    const lower = valueStr.toLowerCase();
+
+    const cased = lookup.get(lower);
+    if (cased) {
+      newRow[header] = cased;
+      changes.push({
+        rowIndex: index,
+        field: labels.field,
+        originalValue,
+        newValue: cased,
+        reason: `Fixed casing "${valueStr}" → "${cased}"`,
+      });
+      return newRow;
+    }
+
+    const synonym = synonymLookup.get(lower);
+    if (synonym) {
+      newRow[header] = synonym;
+      changes.push({
+        rowIndex: index,
+        field: labels.field,
+        originalValue,
+        newValue: synonym,
+        reason: `Mapped synonym "${valueStr}" → "${synonym}"`,
+      });
+      return newRow;
+    }
+
+    // Already the fallback value (which needn't be on the list itself)
+    if (picklist.fallbackValue !== null && lower === picklist.fallbackValue.toLowerCase()) {
+      if (valueStr !== picklist.fallbackValue) {
+        newRow[header] = picklist.fallbackValue;
+        changes.push({
+          rowIndex: index,
+          field: labels.field,
+          originalValue,
+          newValue: picklist.fallbackValue,
+          reason: `Fixed casing "${valueStr}" → "${picklist.fallbackValue}"`,
+        });
+      }
+      return newRow;
+    }
+
+    if (picklist.fallbackValue === null) {
+      warnings.push({
+        rowIndex: index,
+        field: labels.field,
+        value: originalValue,
+        warningType: labels.warningType,
+        message: `"${valueStr}" is not a recognized ${labels.label} value`,
+      });
+      return newRow;
+    }
+
+    newRow[header] = picklist.fallbackValue;
+    changes.push({
+      rowIndex: index,
+      field: labels.field,
+      originalValue,
+      newValue: picklist.fallbackValue,
+      reason: `"${valueStr}" is not a valid ${labels.label} — set to "${picklist.fallbackValue}"`,
+    });
+    if (labels.warnOnFallback) {
+      warnings.push({
+        rowIndex: index,
+        field: labels.field,
+        value: originalValue,
+        warningType: labels.warningType,
+        message: `"${valueStr}" is not a recognized ${labels.label} value — set to "${picklist.fallbackValue}"`,
+      });
+    }
+    return newRow;
+  });
+
+  return { changes, warnings, modifiedRows };
+}
@@ -1,9 +1,9 @@
-import type { IValidationScript, ScriptContext, ScriptExecutionResult, ScriptChange, ScriptWarning } from './types';
-import type { ParsedRow } from '@/types';
+import type { IValidationScript, ScriptContext, ScriptExecutionResult } from './types';
 import { findColumnHeader } from './findColumn';
+import { readPicklistConfig, normalizePicklistColumn } from './picklist';
 
-// Allowed Program Type values (exact match required)
-const VALID_PROGRAM_TYPES = new Set([
+// Default allowed Program Type values — used when the account hasn't configured config.validValues
+export const DEFAULT_PROGRAM_TYPES = [
   'ADN',
   'BSN',
   'OTHER-BSN',
@@ -52,27 +52,18 @@ const VALID_PROGRAM_TYPES = new Set([
   'TEAS Only',
   'Test Program Type',
   'Therapeutic Massage',
-]);
-
-// Build a case-insensitive lookup: lowercase → correct casing
-const PROGRAM_TYPE_LOOKUP = new Map<string, string>();
-for (const pt of VALID_PROGRAM_TYPES) {
-  PROGRAM_TYPE_LOOKUP.set(pt.toLowerCase(), pt);
-}
+];
 
 export class ProgramTypeNormalizationScript implements IValidationScript {
   id = 'program-type-normalization';
   name = 'Program Type Normalization';
-  description = 'Validates Program Type values against an allowed list. Non-matching values are set to "Other". Blank values stay blank.';
+  description = 'Validates Program Type values against the account\'s allowed list (with synonyms). Non-matching values are set to the fallback ("Other"). Blank values stay blank.';
   type: 'transform' = 'transform';
   targetFields = ['program_type'];
   order = 16;
 
   execute(context: ScriptContext): ScriptExecutionResult {
     const { rows, headerMatches } = context;
-    const changes: ScriptChange[] = [];
-    const warnings: ScriptWarning[] = [];
-    const modifiedRows: ParsedRow[] = [];
 
     // Find the program type field (uses DB-configured target field if available)
     const targetField = context.targetFields?.[0] || 'program_type';
@@ -88,56 +79,17 @@ export class ProgramTypeNormalizationScript implements IValidationScript {
       };
     }
 
-    rows.forEach((row, index) => {
-      const newRow = { ...row };
-      const originalValue = row[ptHeader];
-
-      if (originalValue !== null && originalValue !== undefined) {
-        const valueStr = String(originalValue).trim();
-
-        if (valueStr === '') {
-          modifiedRows.push(newRow);
-          return;
-        }
-
-        // Check for exact match first
-        if (VALID_PROGRAM_TYPES.has(valueStr)) {
-          modifiedRows.push(newRow);
-          return;
-        }
-
-        // Try case-insensitive match
-        const matched = PROGRAM_TYPE_LOOKUP.get(valueStr.toLowerCase());
-        if (matched) {
-          newRow[ptHeader] = matched;
-          changes.push({
-            rowIndex: index,
-            field: 'program_type',
-            originalValue,
-            newValue: matched,
-            reason: `Fixed casing "${valueStr}" → "${matched}"`,
-          });
-        } else {
-          // No match — set to "Other"
-          newRow[ptHeader] = 'Other';
-          changes.push({
-            rowIndex: index,
-            field: 'program_type',
-            originalValue,
-            newValue: 'Other',
-            reason: `"${valueStr}" is not a valid Program Type — set to "Other"`,
-          });
-          warnings.push({
-            rowIndex: index,
-            field: 'program_type',
-            value: originalValue,
-            warningType: 'invalid_program_type',
-            message: `"${valueStr}" is not a recognized Program Type — set to "Other"`,
-          });
-        }
-      }
+    const picklist = readPicklistConfig(context.config, {
+      validValues: DEFAULT_PROGRAM_TYPES,
+      fallbackValue: 'Other',
+      synonyms: {},
+    });
 
-      modifiedRows.push(newRow);
+    const { changes, warnings, modifiedRows } = normalizePicklistColumn(rows, ptHeader, picklist, {
+      label: 'Program Type',
+      field: 'program_type',
+      warningType: 'invalid_program_type',
+      warnOnFallback: true,
     });
 
     return {
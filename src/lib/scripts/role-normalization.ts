@@ -1,9 +1,9 @@
-import type { IValidationScript, ScriptContext, ScriptExecutionResult, ScriptChange } from './types';
-import type { ParsedRow } from '@/types';
+import type { IValidationScript, ScriptContext, ScriptExecutionResult } from './types';
 import { findColumnHeader } from './findColumn';
+import { readPicklistConfig, normalizePicklistColumn } from './picklist';
 
-// Allowed role values (exact match required)
-const VALID_ROLES = new Set([
+// Default allowed role values — used when the account hasn't configured config.validValues
+export const DEFAULT_ROLES = [
   'Admin',
   'Administrator',
   'Ascend Employee',
@@ -20,26 +20,18 @@ const VALID_ROLES = new Set([
   'Student',
   'TEAS Student',
   'LMS Admin',
-]);
-
-// Build a case-insensitive lookup: lowercase → correct casing
-const ROLE_LOOKUP = new Map<string, string>();
-for (const role of VALID_ROLES) {
-  ROLE_LOOKUP.set(role.toLowerCase(), role);
-}
+];
 
 export class RoleNormalizationScript implements IValidationScript {
   id = 'role-normalization';
   name = 'Role Normalization';
-  description = 'Validates role values against an allowed list. Non-matching values are set to "Other".';
+  description = 'Validates role values against the account\'s allowed list (with synonyms). Non-matching values are set to the fallback ("Other").';
   type: 'transform' = 'transform';
   targetFields = ['role'];
   order = 15;
 
   execute(context: ScriptContext): ScriptExecutionResult {
     const { rows, headerMatches } = context;
-    const changes: ScriptChange[] = [];
-    const modifiedRows: ParsedRow[] = [];
 
     const targetField = context.targetFields?.[0] || 'role';
     const roleHeader = findColumnHeader(targetField, headerMatches, rows);
@@ -54,56 +46,24 @@ export class RoleNormalizationScript implements IValidationScript {
       };
     }
 
-    rows.forEach((row, index) => {
-      const newRow = { ...row };
-      const originalValue = row[roleHeader];
-
-      if (originalValue !== null && originalValue !== undefined) {
-        const valueStr = String(originalValue).trim();
-
-        if (valueStr === '') {
-          modifiedRows.push(newRow);
-          return;
-        }
-
-        // Check for exact match first
-        if (VALID_ROLES.has(valueStr)) {
-          modifiedRows.push(newRow);
-          return;
-        }
-
-        // Try case-insensitive match
-        const matched = ROLE_LOOKUP.get(valueStr.toLowerCase());
-        if (matched) {
-          newRow[roleHeader] = matched;
-          changes.push({
-            rowIndex: index,
-            field: 'role',
-            originalValue,
-            newValue: matched,
-            reason: `Fixed casing "${valueStr}" → "${matched}"`,
-          });
-        } else {
-          // No match — set to "Other"
-          newRow[roleHeader] = 'Other';
-          changes.push({
-            rowIndex: index,
-            field: 'role',
-            originalValue,
-            newValue: 'Other',
-            reason: `"${valueStr}" is not a valid role — set to "Other"`,
-          });
-        }
-      }
+    const picklist = readPicklistConfig(context.config, {
+      validValues: DEFAULT_ROLES,
+      fallbackValue: 'Other',
+      synonyms: {},
+    });
 
-      modifiedRows.push(newRow);
+    const { changes, warnings, modifiedRows } = normalizePicklistColumn(rows, roleHeader, picklist, {
+      label: 'role',
+      field: 'role',
+      warningType: 'invalid_role',
+      warnOnFallback: false,
     });
 
     return {
       success: true,
       changes,
       errors: [],
-      warnings: [],
+      warnings,
       modifiedRows,
     };
   }
@@ -0,0 +1,89 @@
+import type { AccountRule } from '@/lib/accountRules';
+import type { DynamicScriptSource } from './index';
+import type { HubSpotPropertyDefinition } from './hubspot-property-validation';
+import type { HubSpotOwner } from './owner-resolution';
+import { getDeclarativeDefinition } from './declarative-rule';
+
+/**
+ * Turns an account's enabled rules into the arguments runAllScripts takes.
+ * Shared by the validation step in the browser and server-side pipeline
+ * validation, so both run exactly the same rules.
+ */
+
+// Account data some rules check against, supplied at runtime rather than stored in the rule config
+export interface RuleRuntimeData {
+  properties: HubSpotPropertyDefinition[];
+  owners: HubSpotOwner[];
+}
+
+export interface RuleRuntime {
+  enabledScriptIds: string[];
+  targetFieldsOverrides: Record<string, string[]>;
+  ruleConfigs: Record<string, Record<string, unknown>>;
+  dynamicScriptSources: DynamicScriptSource[];
+}
+
+type RuntimeRule = Pick<AccountRule, 'ruleId' | 'name' | 'ruleType' | 'targetFields' | 'config' | 'displayOrder' | 'sourceCode'>;
+
+// Which runtime data these rules need loaded
+export function needsRuntimeData(rules: RuntimeRule[]): { properties: boolean; owners: boolean } {
+  return {
+    properties: rules.some((r) => r.ruleId === 'hubspot-property-validation'),
+    owners: rules.some((r) => r.ruleId === 'owner-resolution'),
+  };
+}
+
+// Source code that looks like a full TypeScript module (imports/exports/class
+// definitions) is stored for display in the editor but can't run in the sandbox.
+// Only plain JavaScript function bodies are executable at runtime.
+export function isExecutableSource(code: string): boolean {
+  const trimmed = code.trimStart();
+  return !trimmed.startsWith('import ') && !trimmed.includes('export class ') && !trimmed.includes('implements IValidationScript');
+}
+
+export function buildRuleRuntime(rules: RuntimeRule[], data: RuleRuntimeData): RuleRuntime {
+  const targetFieldsOverrides: Record<string, string[]> = {};
+  const ruleConfigs: Record<string, Record<string, unknown>> = {};
+  for (const rule of rules) {
+    if (rule.targetFields.length > 0) {
+      targetFieldsOverrides[rule.ruleId] = rule.targetFields;
+    }
+    ruleConfigs[rule.ruleId] = rule.config;
+  }
+  // The property validation rule checks against the synced definitions
+  if (ruleConfigs['hubspot-property-validation']) {
+    ruleConfigs['hubspot-property-validation'] = {
+      ...ruleConfigs['hubspot-property-validation'],
+      properties: data.properties,
+    };
+  }
+  // Owner resolution matches against the account's HubSpot owners
+  if (ruleConfigs['owner-resolution']) {
+    ruleConfigs['owner-resolution'] = {
+      ...ruleConfigs['owner-resolution'],
+      owners: data.owners,
+    };
+  }
+
+  // Rules with executable source code in the DB run in the sandbox; no-code
+  // rules (config.declarative) are compiled from their JSON definition instead.
+  const dynamicScriptSources: DynamicScriptSource[] = rules
+    .map((rule) => ({ rule, declarative: getDeclarativeDefinition(rule.config) }))
+    .filter(({ rule, declarative }) => declarative || (rule.sourceCode && isExecutableSource(rule.sourceCode)))
+    .map(({ rule, declarative }) => ({
+      id: rule.ruleId,
+      name: rule.name,
+      type: rule.ruleType,
+      targetFields: rule.targetFields,
+      order: rule.displayOrder,
+      sourceCode: rule.sourceCode || undefined,
+      declarative: declarative || undefined,
+    }));
+
+  return {
+    enabledScriptIds: rules.map((r) => r.ruleId),
+    targetFieldsOverrides,
+    ruleConfigs,
+    dynamicScriptSources,
+  };
+}
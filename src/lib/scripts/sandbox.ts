@@ -0,0 +1,302 @@
+import type { QuickJSWASMModule } from 'quickjs-emscripten-core';
+import type { ScriptContext, ScriptExecutionResult, ScriptError } from './types';
+
+/**
+ * Sandbox for custom rule source code stored in `account_rules.source_code`.
+ *
+ * Each script runs in its own QuickJS runtime — a JavaScript engine compiled
+ * to WebAssembly — never in the caller's engine or scope. The runtime has the
+ * standard built-ins (JSON, Math, Date, RegExp, ...) and nothing else: no
+ * `require`, `module`, `process`, network, storage or module loader, so
+ * `import()` can't load anything either. The ScriptContext crosses in as JSON
+ * and is deep-frozen inside; the result crosses back as JSON. The runtime's
+ * heap is capped at the memory limit and execution is interrupted at the
+ * timeout, the same way in the browser and on the server.
+ */
+
+export interface SandboxLimits {
+  // Wall-clock budget for a single script run
+  timeoutMs: number;
+  // Heap ceiling of the script's runtime, including the copy of the context
+  maxMemoryMb: number;
+}
+
+export const DEFAULT_SANDBOX_LIMITS: SandboxLimits = {
+  timeoutMs: 5000,
+  maxMemoryMb: 128,
+};
+
+// Data-only view of the context — the only thing that crosses into the sandbox
+export interface SerializableScriptContext {
+  rows: ScriptContext['rows'];
+  headerMatches: ScriptContext['headerMatches'];
+  requiredFields: string[];
+  targetFields?: string[];
+  config?: Record<string, unknown>;
+}
+
+// How a sandboxed evaluation ended
+type SandboxOutcome =
+  | { type: 'value'; json: string }
+  | { type: 'timeout' }
+  | { type: 'violation'; message: string }
+  | { type: 'error'; message: string };
+
+// Stack for the sandboxed code; kept well under the host's own stack so deep
+// recursion fails inside the sandbox instead of overflowing the host
+const MAX_STACK_BYTES = 256 * 1024;
+
+/**
+ * Runs inside the sandbox. Compiles the rule with the sandbox's own Function
+ * constructor, so the rule's source is never spliced into other code, and
+ * returns { result } or { violation } as JSON.
+ */
+const RULE_RUNNER = `(function (sourceCode, input) {
+  'use strict';
+  function deepFreeze(value) {
+    if (value && typeof value === 'object' && !Object.isFrozen(value)) {
+      Object.freeze(value);
+      var keys = Object.keys(value);
+      for (var k = 0; k < keys.length; k++) deepFreeze(value[keys[k]]);
+    }
+    return value;
+  }
+
+  var rule = new Function('context', '"use strict";\\n' + sourceCode);
+  var result = rule(deepFreeze(JSON.parse(input)));
+  if (result && typeof result.then === 'function') {
+    return JSON.stringify({ violation: 'Custom rules must return synchronously' });
+  }
+  try {
+    return JSON.stringify({ result: result === undefined ? null : result });
+  } catch (err) {
+    return JSON.stringify({ violation: 'Result is not serializable' });
+  }
+})`;
+
+/**
+ * Runs inside the sandbox for no-code rules: tests each pattern against its
+ * list of values and returns, per pattern, a string of '1' (match) and '0'.
+ */
+const PATTERN_RUNNER = `(function (input) {
+  'use strict';
+  var request = JSON.parse(input);
+  return JSON.stringify(request.patterns.map(function (p, i) {
+    var regex = new RegExp(p.pattern, p.flags);
+    return request.values[i].map(function (value) {
+      regex.lastIndex = 0;
+      return regex.test(value) ? '1' : '0';
+    }).join('');
+  }));
+})`;
+
+let quickJS: Promise<QuickJSWASMModule> | null = null;
+
+// The engine is only loaded once a custom rule actually runs
+function loadQuickJS(): Promise<QuickJSWASMModule> {
+  if (!quickJS) {
+    quickJS = Promise.all([
+      import('quickjs-emscripten-core'),
+      import('@jitl/quickjs-singlefile-cjs-release-sync'),
+    ]).then(([core, variant]) => core.newQuickJSWASMModuleFromVariant(variant.default));
+    // Let a failed load be retried by the next run
+    quickJS.catch(() => {
+      quickJS = null;
+    });
+  }
+  return quickJS;
+}
+
+/**
+ * Evaluate `code` (a function expression) in a fresh runtime and call it with
+ * the given string arguments. Only strings cross the boundary in either
+ * direction; the function must return a string. Throws when the engine itself
+ * fails, after which it can't be used again.
+ */
+function evaluate(engine: QuickJSWASMModule, code: string, args: string[], limits: SandboxLimits): SandboxOutcome {
+  const runtime = engine.newRuntime();
+  runtime.setMemoryLimit(limits.maxMemoryMb * 1024 * 1024);
+  runtime.setMaxStackSize(MAX_STACK_BYTES);
+  const deadline = Date.now() + limits.timeoutMs;
+  let timedOut = false;
+  runtime.setInterruptHandler(() => {
+    timedOut = timedOut || Date.now() > deadline;
+    return timedOut;
+  });
+  const vm = runtime.newContext();
+
+  try {
+    const compiled = vm.evalCode(code);
+    if (compiled.error) {
+      const message = vm.dump(compiled.error)?.message;
+      compiled.error.dispose();
+      return { type: 'error', message: message || 'Could not compile' };
+    }
+
+    const argHandles = args.map((arg) => vm.newString(arg));
+    const called = vm.callFunction(compiled.value, vm.undefined, ...argHandles);
+    argHandles.forEach((handle) => handle.dispose());
+    compiled.value.dispose();
+
+    if (called.error) {
+      const error = vm.dump(called.error);
+      called.error.dispose();
+      if (timedOut) return { type: 'timeout' };
+      const message = error && typeof error === 'object' ? String(error.message) : String(error);
+      if (message === 'out of memory') {
+        return { type: 'violation', message: `Exceeded the sandbox memory limit of ${limits.maxMemoryMb}MB` };
+      }
+      return { type: 'error', message };
+    }
+
+    const value = vm.typeof(called.value) === 'string' ? vm.getString(called.value) : null;
+    called.value.dispose();
+    if (value === null) return { type: 'error', message: 'Sandbox returned no result' };
+    return { type: 'value', json: value };
+  } finally {
+    vm.dispose();
+    runtime.dispose();
+  }
+}
+
+function isResult(r: unknown): r is ScriptExecutionResult {
+  const result = r as ScriptExecutionResult | null;
+  return !!result && typeof result === 'object' &&
+    typeof result.success === 'boolean' &&
+    Array.isArray(result.changes) && Array.isArray(result.errors) &&
+    Array.isArray(result.warnings) && Array.isArray(result.modifiedRows);
+}
+
+/**
+ * Strip a ScriptContext down to plain data so it can be serialized into the sandbox.
+ */
+export function toSerializableContext(context: ScriptContext): SerializableScriptContext {
+  return {
+    rows: context.rows,
+    headerMatches: context.headerMatches,
+    requiredFields: context.requiredFields,
+    targetFields: context.targetFields,
+    config: context.config,
+  };
+}
+
+function failedResult(context: ScriptContext, error: ScriptError): ScriptExecutionResult {
+  return {
+    success: false,
+    changes: [],
+    errors: [error],
+    warnings: [],
+    modifiedRows: context.rows,
+  };
+}
+
+/**
+ * Run a custom rule's source code in the sandbox.
+ * Never throws — timeouts and violations come back as ScriptErrors of type
+ * `script_timeout` / `script_sandbox_violation`, with the input rows unchanged.
+ */
+export async function runInSandbox(
+  scriptName: string,
+  sourceCode: string,
+  context: ScriptContext,
+  limits: SandboxLimits = DEFAULT_SANDBOX_LIMITS
+): Promise<ScriptExecutionResult> {
+  let engine: QuickJSWASMModule;
+  try {
+    engine = await loadQuickJS();
+  } catch (err) {
+    return failedResult(context, {
+      rowIndex: -1,
+      field: '',
+      value: null,
+      errorType: 'script_error',
+      message: `Custom rule "${scriptName}" could not start: ${err instanceof Error ? err.message : 'Unknown error'}`,
+    });
+  }
+
+  let outcome: SandboxOutcome;
+  try {
+    outcome = evaluate(engine, RULE_RUNNER, [sourceCode, JSON.stringify(toSerializableContext(context))], limits);
+  } catch (err) {
+    // Start the next run on a fresh engine
+    quickJS = null;
+    outcome = { type: 'violation', message: `Sandbox crashed: ${err instanceof Error ? err.message : 'Unknown error'}` };
+  }
+
+  if (outcome.type === 'timeout') {
+    return failedResult(context, {
+      rowIndex: -1,
+      field: '',
+      value: null,
+      errorType: 'script_timeout',
+      message: `Custom rule "${scriptName}" timed out after ${limits.timeoutMs}ms and was stopped`,
+    });
+  }
+
+  if (outcome.type === 'error') {
+    return failedResult(context, {
+      rowIndex: -1,
+      field: '',
+      value: null,
+      errorType: 'script_error',
+      message: `Dynamic script "${scriptName}" failed: ${outcome.message}`,
+    });
+  }
+
+  let violation = outcome.type === 'violation' ? outcome.message : null;
+  if (outcome.type === 'value') {
+    const parsed = JSON.parse(outcome.json) as { result?: unknown; violation?: string };
+    if (parsed.violation) {
+      violation = parsed.violation;
+    } else if (isResult(parsed.result)) {
+      return parsed.result;
+    } else {
+      violation = 'Result must be { success, changes, errors, warnings, modifiedRows }';
+    }
+  }
+
+  return failedResult(context, {
+    rowIndex: -1,
+    field: '',
+    value: null,
+    errorType: 'script_sandbox_violation',
+    message: `Custom rule "${scriptName}" was stopped: ${violation}`,
+  });
+}
+
+export interface SandboxPattern {
+  pattern: string;
+  flags?: string;
+}
+
+/**
+ * Test regex patterns in the sandbox, so a pattern that backtracks
+ * catastrophically is stopped at the timeout instead of hanging the caller.
+ * `values[i]` are the values to test against `patterns[i]`; the result has the
+ * same shape. Never throws — a timeout or failure comes back as `error`.
+ */
+export async function testPatternsInSandbox(
+  patterns: SandboxPattern[],
+  values: string[][],
+  limits: SandboxLimits = DEFAULT_SANDBOX_LIMITS
+): Promise<{ matches: boolean[][] } | { error: string; timedOut: boolean }> {
+  let outcome: SandboxOutcome;
+  try {
+    const engine = await loadQuickJS();
+    outcome = evaluate(engine, PATTERN_RUNNER, [JSON.stringify({ patterns, values })], limits);
+  } catch (err) {
+    quickJS = null;
+    outcome = { type: 'error', message: err instanceof Error ? err.message : 'Sandbox crashed' };
+  }
+
+  switch (outcome.type) {
+    case 'value':
+      return {
+        matches: (JSON.parse(outcome.json) as string[]).map((bits) => bits.split('').map((bit) => bit === '1')),
+      };
+    case 'timeout':
+      return { error: `pattern matching timed out after ${limits.timeoutMs}ms`, timedOut: true };
+    default:
+      return { error: outcome.message, timedOut: false };
+  }
+}
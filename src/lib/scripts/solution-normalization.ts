@@ -1,8 +1,9 @@
-import type { IValidationScript, ScriptContext, ScriptExecutionResult, ScriptChange, ScriptWarning } from './types';
-import type { ParsedRow } from '@/types';
+import type { IValidationScript, ScriptContext, ScriptExecutionResult } from './types';
 import { findColumnHeader } from './findColumn';
+import { readPicklistConfig, normalizePicklistColumn } from './picklist';
 
-const VALID_SOLUTIONS = new Set([
+// Default allowed Solution values — used when the account hasn't configured config.validValues
+export const DEFAULT_SOLUTIONS = [
   'OPTIMAL',
   'SUPREME',
   'STO',
@@ -10,37 +11,18 @@ const VALID_SOLUTIONS = new Set([
   'BASIC',
   'MID-MARKET',
   'COMPLETE',
-]);
-
-// Case-insensitive lookup: uppercase → correct value
-const SOLUTION_LOOKUP = new Map<string, string>();
-for (const s of VALID_SOLUTIONS) {
-  SOLUTION_LOOKUP.set(s.toUpperCase(), s);
-}
+];
 
 export class SolutionNormalizationScript implements IValidationScript {
   id = 'solution-normalization';
   name = 'Solution Normalization';
-  description = 'Validates Solution values against an allowed list. Fixes casing mismatches; non-matching values are set to "Other".';
+  description = 'Validates Solution values against the account\'s allowed list (with synonyms). Fixes casing mismatches; non-matching values are set to the fallback ("Other").';
   type: 'transform' = 'transform';
   targetFields = ['solution'];
   order = 17;
 
   execute(context: ScriptContext): ScriptExecutionResult {
     const { rows, headerMatches } = context;
-    const changes: ScriptChange[] = [];
-    const warnings: ScriptWarning[] = [];
-    const modifiedRows: ParsedRow[] = [];
-
-    // DEBUG: Log all available headers
-    console.log('[SolutionNormalization] headerMatches:', headerMatches.map(m => ({
-      original: m.originalHeader,
-      matched: m.matchedField?.hubspotField,
-      isMatched: m.isMatched
-    })));
-    if (rows.length > 0) {
-      console.log('[SolutionNormalization] Row keys:', Object.keys(rows[0]));
-    }
 
     // Find the solution column (uses DB-configured target field if available)
     const targetField = context.targetFields?.[0] || 'solution';
@@ -59,69 +41,17 @@ export class SolutionNormalizationScript implements IValidationScript {
       };
     }
 
-    // DEBUG: Log sample values
-    if (rows.length > 0) {
-      console.log('[SolutionNormalization] Sample values:', rows.slice(0, 3).map(r => r[solHeader]));
-    }
-
-    rows.forEach((row, index) => {
-      const newRow = { ...row };
-      const originalValue = row[solHeader];
-
-      // Log first few rows for debugging
-      if (index < 5) {
-        console.log(`[SolutionNormalization] Row ${index}: value='${originalValue}', type=${typeof originalValue}`);
-      }
-
-      if (originalValue !== null && originalValue !== undefined) {
-        const valueStr = String(originalValue).trim();
-
-        if (valueStr === '') {
-          if (index < 5) console.log(`[SolutionNormalization] Row ${index}: Empty value, skipping`);
-          modifiedRows.push(newRow);
-          return;
-        }
-
-        // Exact match
-        if (VALID_SOLUTIONS.has(valueStr)) {
-          if (index < 5) console.log(`[SolutionNormalization] Row ${index}: Already valid solution`);
-          modifiedRows.push(newRow);
-          return;
-        }
-
-        // Case-insensitive match
-        const matched = SOLUTION_LOOKUP.get(valueStr.toUpperCase());
-        if (index < 5) console.log(`[SolutionNormalization] Row ${index}: Lookup '${valueStr.toUpperCase()}' → '${matched || 'NOT FOUND'}'`);
-        if (matched) {
-          newRow[solHeader] = matched;
-          changes.push({
-            rowIndex: index,
-            field: 'solution',
-            originalValue,
-            newValue: matched,
-            reason: `Fixed casing "${valueStr}" → "${matched}"`,
-          });
-        } else {
-          // Non-matching — set to "Other"
-          newRow[solHeader] = 'Other';
-          changes.push({
-            rowIndex: index,
-            field: 'solution',
-            originalValue,
-            newValue: 'Other',
-            reason: `"${valueStr}" is not a valid Solution — set to "Other"`,
-          });
-          warnings.push({
-            rowIndex: index,
-            field: 'solution',
-            value: originalValue,
-            warningType: 'invalid_solution',
-            message: `"${valueStr}" is not a recognized Solution value — set to "Other"`,
-          });
-        }
-      }
+    const picklist = readPicklistConfig(context.config, {
+      validValues: DEFAULT_SOLUTIONS,
+      fallbackValue: 'Other',
+      synonyms: {},
+    });
 
-      modifiedRows.push(newRow);
+    const { changes, warnings, modifiedRows } = normalizePicklistColumn(rows, solHeader, picklist, {
+      label: 'Solution',
+      field: 'solution',
+      warningType: 'invalid_solution',
+      warnOnFallback: true,
     });
 
     return {
@@ -99,6 +99,26 @@ const STATE_VARIANTS: Record<string, string> = {
 
 // Valid full state names (for checking if already correct)
 const VALID_STATE_NAMES = new Set(Object.values(STATE_MAP));
+const UPPER_STATE_NAMES = new Set(Array.from(VALID_STATE_NAMES).map((name) => name.toUpperCase()));
+
+/**
+ * Whether a value is a US state abbreviation or full state name (any case).
+ * Used by column detection to recognise state columns from their values.
+ */
+export function isUsState(value: string): boolean {
+  const upper = value.trim().toUpperCase();
+  return Object.prototype.hasOwnProperty.call(STATE_MAP, upper) || UPPER_STATE_NAMES.has(upper);
+}
+
+/**
+ * Full state name for an abbreviation or full name (any case), or null.
+ * Used by owner territories so "CA" and "California" are the same territory.
+ */
+export function getStateName(value: string): string | null {
+  const upper = value.trim().toUpperCase();
+  if (Object.prototype.hasOwnProperty.call(STATE_MAP, upper)) return STATE_MAP[upper];
+  return Array.from(VALID_STATE_NAMES).find((name) => name.toUpperCase() === upper) || null;
+}
 
 export class StateNormalizationScript implements IValidationScript {
   id = 'state-normalization';
@@ -1,4 +1,4 @@
-import type { ParsedRow, HeaderMatch } from '@/types';
+import type { ParsedRow, HeaderMatch, DuplicateCluster } from '@/types';
 
 // Context passed to each script
 export interface ScriptContext {
@@ -7,6 +7,8 @@ export interface ScriptContext {
   requiredFields: string[];
   // Target fields override from database — when set, scripts use these instead of hardcoded defaults
   targetFields?: string[];
+  // Per-account rule configuration (AccountRule.config) — e.g. allowed values for picklist rules
+  config?: Record<string, unknown>;
 }
 
 // Interface that all validation scripts must implement
@@ -18,8 +20,8 @@ export interface IValidationScript {
   targetFields: string[];
   order: number;
 
-  // Execute the script on the data
-  execute(context: ScriptContext): ScriptExecutionResult;
+  // Execute the script on the data (custom rules run asynchronously in the sandbox)
+  execute(context: ScriptContext): ScriptExecutionResult | Promise<ScriptExecutionResult>;
 }
 
 export interface ScriptChange {
@@ -52,4 +54,6 @@ export interface ScriptExecutionResult {
   errors: ScriptError[];
   warnings: ScriptWarning[];
   modifiedRows: ParsedRow[];
+  // Set by duplicate detection — rows grouped into likely-duplicate clusters
+  duplicateClusters?: DuplicateCluster[];
 }
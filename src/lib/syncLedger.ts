@@ -0,0 +1,371 @@
+/**
+ * Sync Ledger — the HubSpot changes each pipeline sync made, stored per upload
+ * session so the import can be rolled back from the History page.
+ *
+ * Changes are written step by step while a batch syncs. Companies about to be
+ * created are marked first ('pending' entries): a worker that dies after
+ * HubSpot created them but before their ids were stored leaves the markers,
+ * and resolvePendingCreates finds those companies before the sync resumes or
+ * the import is rolled back.
+ */
+
+import { getServerSupabase } from './supabase';
+import { hubspotRequest } from './hubspotRateLimiter';
+import { getValidAccessToken } from './hubspot';
+import type { BatchContext, SyncLedgerWriter } from './hubspotBatch';
+import type { RollbackPlan, SyncLedgerEntry } from '@/types';
+
+const PAGE_SIZE = 1000;
+const ROLLBACK_BATCH_SIZE = 100;
+
+// A pending company counts as the sync's when HubSpot created it after the
+// marker, allowing for the clocks of the database and HubSpot to differ
+const PENDING_CLOCK_SKEW_MS = 60 * 1000;
+// HubSpot's search finds new records after a few seconds; younger markers are
+// left for the next resolvePendingCreates
+const SEARCH_INDEX_DELAY_MS = 30 * 1000;
+
+export interface SyncLedgerRow {
+  id: string;
+  object_type: SyncLedgerEntry['objectType'];
+  action: SyncLedgerEntry['action'];
+  hubspot_id: string;
+  associated_id: string | null;
+  row_index: number | null;
+  previous_properties: Record<string, string | null> | null;
+  rolled_back_at: string | null;
+}
+
+export interface RollbackProgress {
+  step: string;
+  completed: number;
+  total: number;
+}
+
+export interface RollbackResult {
+  undone: number;
+  failed: number;
+  errors: string[];
+}
+
+/**
+ * Store the changes a sync made. Throws when they can't be stored, so the sync
+ * stops before making changes it couldn't undo.
+ */
+export async function recordSyncLedger(accountId: string, sessionId: string, entries: SyncLedgerEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+
+  const { error } = await getServerSupabase()
+    .from('sync_ledger')
+    .insert(
+      entries.map((entry) => ({
+        account_id: accountId,
+        session_id: sessionId,
+        row_index: entry.rowIndex ?? null,
+        object_type: entry.objectType,
+        action: entry.action,
+        hubspot_id: entry.hubspotId,
+        associated_id: entry.associatedId || null,
+        previous_properties: entry.previousProperties || null,
+      }))
+    );
+
+  if (error) {
+    throw new Error(`Failed to record ${entries.length} sync ledger entries: ${error.message}`);
+  }
+}
+
+/** The ledger writer for a session's sync */
+export function createSyncLedgerWriter(accountId: string, sessionId: string): SyncLedgerWriter {
+  return {
+    record: (entries) => recordSyncLedger(accountId, sessionId, entries),
+
+    async markPendingCreates(companies) {
+      if (companies.length === 0) return [];
+      const { data, error } = await getServerSupabase()
+        .from('sync_ledger')
+        .insert(
+          companies.map((company) => ({
+            account_id: accountId,
+            session_id: sessionId,
+            row_index: company.rowIndex ?? null,
+            object_type: 'companies',
+            action: 'pending',
+            hubspot_id: '',
+            previous_properties: { name: company.name },
+          }))
+        )
+        .select('id');
+
+      if (error) throw new Error(`Failed to mark companies before creating them: ${error.message}`);
+      return ((data || []) as { id: string }[]).map((row) => row.id);
+    },
+
+    async clearPendingCreates(markerIds) {
+      if (markerIds.length === 0) return;
+      // A marker left behind only costs a search in resolvePendingCreates
+      const { error } = await getServerSupabase()
+        .from('sync_ledger')
+        .delete()
+        .in('id', markerIds);
+      if (error) console.error('[syncLedger] Failed to clear pending markers:', error);
+    },
+  };
+}
+
+/**
+ * Find the companies behind the session's pending markers: companies with the
+ * marked name that HubSpot created after the marker are the ones a dead sync
+ * created, and are recorded as created so a rollback deletes them. The markers
+ * are then cleared. Returns how many companies were found.
+ */
+export async function resolvePendingCreates(ctx: BatchContext, sessionId: string): Promise<number> {
+  const { data: markers, error } = await getServerSupabase()
+    .from('sync_ledger')
+    .select('id, row_index, previous_properties, created_at')
+    .eq('session_id', sessionId)
+    .eq('action', 'pending')
+    .lt('created_at', new Date(Date.now() - SEARCH_INDEX_DELAY_MS).toISOString());
+
+  if (error) throw new Error(`Failed to load pending sync ledger entries: ${error.message}`);
+  if (!markers || markers.length === 0) return 0;
+
+  const accessToken = await getValidAccessToken(ctx.accountId);
+  if (!accessToken) {
+    throw new Error('HubSpot not connected. Please connect via OAuth in Admin settings.');
+  }
+
+  // Companies already recorded, when a worker died between recording them and clearing the markers
+  const recorded = new Set((await fetchSyncLedger(sessionId)).map((row) => `${row.object_type}:${row.hubspot_id}`));
+  const found: SyncLedgerEntry[] = [];
+  for (const marker of markers as { id: string; row_index: number | null; previous_properties: { name?: string } | null; created_at: string }[]) {
+    const name = marker.previous_properties?.name;
+    if (!name) continue;
+
+    const response = await hubspotRequest<{ results: { id: string }[] }>(
+      ctx.portalKey, accessToken, '/crm/v3/objects/companies/search', {
+        method: 'POST',
+        pool: 'search',
+        body: {
+          filterGroups: [{
+            filters: [
+              { propertyName: 'name', operator: 'EQ', value: name },
+              { propertyName: 'createdate', operator: 'GTE', value: String(Date.parse(marker.created_at) - PENDING_CLOCK_SKEW_MS) },
+            ],
+          }],
+          properties: ['name'],
+          limit: 100,
+        },
+      }
+    );
+    for (const company of response.results) {
+      if (recorded.has(`companies:${company.id}`)) continue;
+      recorded.add(`companies:${company.id}`);
+      found.push({ objectType: 'companies', action: 'created', hubspotId: company.id, rowIndex: marker.row_index ?? undefined });
+    }
+  }
+
+  await recordSyncLedger(ctx.accountId, sessionId, found);
+  const { error: deleteError } = await getServerSupabase()
+    .from('sync_ledger')
+    .delete()
+    .in('id', markers.map((marker: { id: string }) => marker.id));
+  if (deleteError) console.error('[syncLedger] Failed to clear pending markers:', deleteError);
+
+  return found.length;
+}
+
+/**
+ * The sessions that have ledger entries (pending markers included). Only
+ * pipeline syncs keep a ledger, so these are the imports that can be rolled back.
+ */
+export async function fetchSessionsWithLedger(sessionIds: string[]): Promise<Set<string>> {
+  const found = await Promise.all(
+    sessionIds.map(async (sessionId) => {
+      const { count, error } = await getServerSupabase()
+        .from('sync_ledger')
+        .select('id', { count: 'exact', head: true })
+        .eq('session_id', sessionId);
+      if (error) throw new Error(`Failed to check the sync ledger: ${error.message}`);
+      return count ? sessionId : null;
+    })
+  );
+  return new Set(found.filter((sessionId): sessionId is string => sessionId !== null));
+}
+
+/** Every ledger entry of a session, oldest first (without pending markers) */
+export async function fetchSyncLedger(sessionId: string): Promise<SyncLedgerRow[]> {
+  const rows: SyncLedgerRow[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await getServerSupabase()
+      .from('sync_ledger')
+      .select('id, object_type, action, hubspot_id, associated_id, row_index, previous_properties, rolled_back_at')
+      .eq('session_id', sessionId)
+      .neq('action', 'pending')
+      .order('created_at')
+      .order('id')
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) throw new Error(`Failed to load sync ledger: ${error.message}`);
+    rows.push(...((data || []) as SyncLedgerRow[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+// Records the import created, by object type
+function getCreatedIds(rows: SyncLedgerRow[]): Record<string, Set<string>> {
+  const created: Record<string, Set<string>> = { contacts: new Set(), companies: new Set(), deals: new Set(), tasks: new Set() };
+  for (const row of rows) {
+    if (row.action === 'created') created[row.object_type].add(row.hubspot_id);
+  }
+  return created;
+}
+
+// Updates of and associations to created records are undone by deleting them
+function dependsOnCreated(row: SyncLedgerRow, created: Record<string, Set<string>>): boolean {
+  if (row.action === 'updated') return created[row.object_type].has(row.hubspot_id);
+  if (row.action === 'associated') {
+    return created.contacts.has(row.hubspot_id) || created.companies.has(row.associated_id || '');
+  }
+  return false;
+}
+
+/** What rolling back the session's pending ledger entries would do */
+export function buildRollbackPlan(rows: SyncLedgerRow[]): RollbackPlan {
+  const pending = rows.filter((row) => !row.rolled_back_at);
+  const created = getCreatedIds(rows);
+  const toDelete = getCreatedIds(pending);
+  const restored = new Set<string>();
+  let associationsToRemove = 0;
+
+  for (const row of pending) {
+    if (dependsOnCreated(row, created)) continue;
+    if (row.action === 'updated') restored.add(`${row.object_type}:${row.hubspot_id}`);
+    if (row.action === 'associated') associationsToRemove++;
+  }
+
+  return {
+    contactsToDelete: toDelete.contacts.size,
+    companiesToDelete: toDelete.companies.size,
+    dealsToDelete: toDelete.deals.size,
+    tasksToDelete: toDelete.tasks.size,
+    recordsToRestore: restored.size,
+    associationsToRemove,
+    alreadyRolledBack: rows.length - pending.length,
+  };
+}
+
+async function markRolledBack(ids: string[], error?: string): Promise<void> {
+  for (let i = 0; i < ids.length; i += ROLLBACK_BATCH_SIZE) {
+    const { error: updateError } = await getServerSupabase()
+      .from('sync_ledger')
+      .update(error ? { rollback_error: error } : { rolled_back_at: new Date().toISOString(), rollback_error: null })
+      .in('id', ids.slice(i, i + ROLLBACK_BATCH_SIZE));
+    if (updateError) console.error('[syncLedger] Failed to mark entries:', updateError);
+  }
+}
+
+/**
+ * Undo the session's pending ledger entries: restore the previous values of
+ * updated records (the earliest value wins when a record was updated more than
+ * once), remove new associations, then delete created tasks, deals, contacts
+ * and companies. Each HubSpot batch that succeeds is marked as rolled back, so a
+ * failed rollback can be run again to finish.
+ */
+export async function rollbackSyncLedger(
+  ctx: BatchContext,
+  rows: SyncLedgerRow[],
+  onProgress: (progress: RollbackProgress) => void | Promise<void>
+): Promise<RollbackResult> {
+  const accessToken = await getValidAccessToken(ctx.accountId);
+  if (!accessToken) {
+    throw new Error('HubSpot not connected. Please connect via OAuth in Admin settings.');
+  }
+
+  const pending = rows.filter((row) => !row.rolled_back_at);
+  const created = getCreatedIds(rows);
+  const result: RollbackResult = { undone: 0, failed: 0, errors: [] };
+  const dropped = pending.filter((row) => dependsOnCreated(row, created)).map((row) => row.id);
+  const total = pending.length - dropped.length;
+  let completed = 0;
+
+  // Run one HubSpot call for a batch of ledger entries and record the outcome
+  const runBatch = async (step: string, entryIds: string[], call: () => Promise<unknown>) => {
+    try {
+      await call();
+      await markRolledBack(entryIds);
+      result.undone += entryIds.length;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      if (message.includes('(401)')) throw err;
+      await markRolledBack(entryIds, message);
+      result.failed += entryIds.length;
+      result.errors.push(`${step}: ${message}`);
+    }
+    completed += entryIds.length;
+    await onProgress({ step, completed, total });
+  };
+
+  // 1. Restore updated records
+  for (const objectType of ['contacts', 'companies', 'deals'] as const) {
+    const previous = new Map<string, Record<string, string>>();
+    const entryIds = new Map<string, string[]>();
+    for (const row of pending) {
+      if (row.object_type !== objectType || row.action !== 'updated' || dependsOnCreated(row, created)) continue;
+      const values = previous.get(row.hubspot_id) || {};
+      for (const [property, value] of Object.entries(row.previous_properties || {})) {
+        if (!(property in values)) values[property] = value ?? '';
+      }
+      previous.set(row.hubspot_id, values);
+      entryIds.set(row.hubspot_id, (entryIds.get(row.hubspot_id) || []).concat(row.id));
+    }
+
+    const inputs = Array.from(previous.entries()).map(([id, properties]) => ({ id, properties }));
+    for (let i = 0; i < inputs.length; i += ROLLBACK_BATCH_SIZE) {
+      const batch = inputs.slice(i, i + ROLLBACK_BATCH_SIZE);
+      const ids = batch.reduce<string[]>((all, input) => all.concat(entryIds.get(input.id) || []), []);
+      await runBatch(`Restore ${objectType}`, ids, () =>
+        hubspotRequest(ctx.portalKey, accessToken, `/crm/v3/objects/${objectType}/batch/update`, {
+          method: 'POST',
+          body: { inputs: batch },
+        })
+      );
+    }
+  }
+
+  // 2. Remove associations between records that existed before the import
+  const associations = pending.filter((row) => row.action === 'associated' && !dependsOnCreated(row, created));
+  for (let i = 0; i < associations.length; i += ROLLBACK_BATCH_SIZE) {
+    const batch = associations.slice(i, i + ROLLBACK_BATCH_SIZE);
+    await runBatch('Remove associations', batch.map((row) => row.id), () =>
+      hubspotRequest(ctx.portalKey, accessToken, '/crm/v4/associations/contacts/companies/batch/archive', {
+        method: 'POST',
+        body: {
+          inputs: batch.map((row) => ({ from: { id: row.hubspot_id }, to: [{ id: row.associated_id }] })),
+        },
+      })
+    );
+  }
+
+  // 3. Delete created records — tasks first, companies last
+  for (const objectType of ['tasks', 'deals', 'contacts', 'companies'] as const) {
+    const createdRows = pending.filter((row) => row.object_type === objectType && row.action === 'created');
+    for (let i = 0; i < createdRows.length; i += ROLLBACK_BATCH_SIZE) {
+      const batch = createdRows.slice(i, i + ROLLBACK_BATCH_SIZE);
+      await runBatch(`Delete ${objectType}`, batch.map((row) => row.id), () =>
+        hubspotRequest(ctx.portalKey, accessToken, `/crm/v3/objects/${objectType}/batch/archive`, {
+          method: 'POST',
+          body: { inputs: batch.map((row) => ({ id: row.hubspot_id })) },
+        })
+      );
+    }
+  }
+
+  // Entries that went with a deleted record are done once nothing failed
+  if (dropped.length > 0 && result.failed === 0) {
+    await markRolledBack(dropped);
+    result.undone += dropped.length;
+  }
+
+  return result;
+}
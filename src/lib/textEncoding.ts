@@ -0,0 +1,101 @@
+/**
+ * Character encoding detection for uploaded text files (CSV/TSV).
+ * Decoding with the right charset up front keeps accented characters intact
+ * instead of producing mojibake that has to be cleaned up afterwards.
+ */
+
+export type FileEncoding = 'utf-8' | 'windows-1252' | 'iso-8859-1' | 'utf-16le' | 'utf-16be';
+
+export const ENCODING_OPTIONS: { value: FileEncoding; label: string }[] = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'windows-1252', label: 'Windows-1252 (Western European)' },
+  { value: 'iso-8859-1', label: 'ISO-8859-1 (Latin-1)' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' },
+];
+
+export function isFileEncoding(value: unknown): value is FileEncoding {
+  return ENCODING_OPTIONS.some((option) => option.value === value);
+}
+
+export interface DecodedText {
+  text: string;
+  encoding: FileEncoding;
+  // How the encoding was chosen — shown in the upload log
+  detectedBy: 'bom' | 'heuristic' | 'manual';
+}
+
+// How much of the file to inspect for a UTF-16 byte pattern
+const SAMPLE_BYTES = 64 * 1024;
+
+function detectBom(bytes: Uint8Array): { encoding: FileEncoding; length: number } | null {
+  if (bytes.length >= 3 && bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { encoding: 'utf-8', length: 3 };
+  }
+  if (bytes.length >= 2 && bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { encoding: 'utf-16le', length: 2 };
+  }
+  if (bytes.length >= 2 && bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { encoding: 'utf-16be', length: 2 };
+  }
+  return null;
+}
+
+/**
+ * UTF-16 without a BOM: mostly-ASCII text leaves a zero byte in every other position.
+ */
+function detectUtf16(bytes: Uint8Array): FileEncoding | null {
+  const length = Math.min(bytes.length, SAMPLE_BYTES) & ~1;
+  if (length < 4) return null;
+
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < length; i += 2) {
+    if (bytes[i] === 0) evenZeros++;
+    if (bytes[i + 1] === 0) oddZeros++;
+  }
+
+  const pairs = length / 2;
+  if (oddZeros / pairs > 0.3 && evenZeros / pairs < 0.05) return 'utf-16le';
+  if (evenZeros / pairs > 0.3 && oddZeros / pairs < 0.05) return 'utf-16be';
+  return null;
+}
+
+// The whole file is checked: a single Latin-1 byte anywhere means it isn't UTF-8
+function isValidUtf8(bytes: Uint8Array): boolean {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Guess the encoding of raw file bytes: BOM first, then a UTF-16 byte pattern,
+ * then strict UTF-8. Anything that isn't valid UTF-8 is treated as Windows-1252,
+ * the superset of Latin-1 that Excel uses when saving CSV on Windows.
+ */
+export function detectEncoding(bytes: Uint8Array): { encoding: FileEncoding; detectedBy: 'bom' | 'heuristic' } {
+  const bom = detectBom(bytes);
+  if (bom) return { encoding: bom.encoding, detectedBy: 'bom' };
+
+  const utf16 = detectUtf16(bytes);
+  if (utf16) return { encoding: utf16, detectedBy: 'heuristic' };
+
+  return { encoding: isValidUtf8(bytes) ? 'utf-8' : 'windows-1252', detectedBy: 'heuristic' };
+}
+
+/**
+ * Decode file bytes to text, detecting the encoding unless one is given.
+ */
+export function decodeText(buffer: ArrayBuffer, encoding?: FileEncoding): DecodedText {
+  const bytes = new Uint8Array(buffer);
+  const detected = encoding ? { encoding, detectedBy: 'manual' as const } : detectEncoding(bytes);
+
+  // TextDecoder drops a matching BOM by default; strip a mismatched one as well
+  let text = new TextDecoder(detected.encoding).decode(bytes);
+  if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+
+  return { text, encoding: detected.encoding, detectedBy: detected.detectedBy };
+}
@@ -12,6 +12,7 @@ export interface WorkerInput {
   enabledScriptIds?: string[];
   targetFieldsOverrides?: Record<string, string[]>;
   dynamicScriptSources?: DynamicScriptSource[];
+  ruleConfigs?: Record<string, Record<string, unknown>>;
 }
 
 export interface WorkerProgressMessage {
@@ -37,11 +38,11 @@ export type WorkerOutputMessage = WorkerProgressMessage | WorkerResultMessage |
 
 const ctx = self as unknown as DedicatedWorkerGlobalScope;
 
-ctx.onmessage = (event: MessageEvent<WorkerInput>) => {
-  const { rows, headerMatches, requiredFields, enabledScriptIds, targetFieldsOverrides, dynamicScriptSources } = event.data;
+ctx.onmessage = async (event: MessageEvent<WorkerInput>) => {
+  const { rows, headerMatches, requiredFields, enabledScriptIds, targetFieldsOverrides, dynamicScriptSources, ruleConfigs } = event.data;
 
   try {
-    const result = validateAndTransform(
+    const result = await validateAndTransform(
       rows,
       headerMatches,
       requiredFields,
@@ -55,7 +56,8 @@ ctx.onmessage = (event: MessageEvent<WorkerInput>) => {
           scriptName,
         } satisfies WorkerProgressMessage);
       },
-      dynamicScriptSources
+      dynamicScriptSources,
+      ruleConfigs
     );
 
     ctx.postMessage({
@@ -0,0 +1,241 @@
+/**
+ * Validation Details — the errors, warnings and changes of a validation run,
+ * split per row so they can be stored on upload_rows and filtered later
+ * ("why did this email change?").
+ */
+
+import type { PipelineRowChange, PipelineRowIssue, RerunComparison, ScriptRunnerResult } from '@/types';
+
+export interface RowValidationDetails {
+  errors: PipelineRowIssue[];
+  warnings: PipelineRowIssue[];
+  changes: PipelineRowChange[];
+}
+
+export type ValidationDetailKind = 'error' | 'warning' | 'change';
+
+// Every criterion given must hold for the same error, warning or change
+export interface ValidationDetailFilter {
+  kind?: ValidationDetailKind;
+  // Error or warning type, e.g. "invalid_email" (changes have no type)
+  type?: string;
+  field?: string;
+  rule?: string;
+}
+
+/**
+ * Split a run's results by row. Errors that aren't about any one row (e.g. a
+ * custom rule that timed out) are returned separately as rule errors.
+ */
+export function splitResultsByRow(
+  result: ScriptRunnerResult,
+  rowCount: number
+): { rows: RowValidationDetails[]; ruleErrors: string[] } {
+  const rows: RowValidationDetails[] = [];
+  for (let i = 0; i < rowCount; i++) rows.push({ errors: [], warnings: [], changes: [] });
+  const ruleErrors: string[] = [];
+
+  for (const script of result.scriptResults) {
+    for (const err of script.errors) {
+      if (!rows[err.rowIndex]) {
+        ruleErrors.push(err.message);
+        continue;
+      }
+      rows[err.rowIndex].errors.push({
+        ruleId: script.scriptId,
+        field: err.field,
+        value: err.value,
+        type: err.errorType,
+        message: err.message,
+      });
+    }
+    for (const warning of script.warnings) {
+      rows[warning.rowIndex]?.warnings.push({
+        ruleId: script.scriptId,
+        field: warning.field,
+        value: warning.value,
+        type: warning.warningType,
+        message: warning.message,
+      });
+    }
+    for (const change of script.changes) {
+      rows[change.rowIndex]?.changes.push({
+        ruleId: script.scriptId,
+        field: change.field,
+        originalValue: change.originalValue,
+        newValue: change.newValue,
+        reason: change.reason,
+      });
+    }
+  }
+
+  return { rows, ruleErrors };
+}
+
+/** Read a filter from query params; empty params are ignored */
+export function readValidationDetailFilter(params: URLSearchParams): ValidationDetailFilter {
+  const kind = params.get('kind');
+  return {
+    kind: kind === 'error' || kind === 'warning' || kind === 'change' ? kind : undefined,
+    type: params.get('type') || undefined,
+    field: params.get('field') || undefined,
+    rule: params.get('rule') || undefined,
+  };
+}
+
+export function hasValidationDetailFilter(filter: ValidationDetailFilter): boolean {
+  return !!(filter.kind || filter.type || filter.field || filter.rule);
+}
+
+/** The errors, warnings and changes of a row that match the filter */
+export function filterRowDetails(details: RowValidationDetails, filter: ValidationDetailFilter): RowValidationDetails {
+  const matches = (item: { ruleId: string; field: string; type?: string }) =>
+    (!filter.type || item.type === filter.type) &&
+    (!filter.field || item.field === filter.field) &&
+    (!filter.rule || item.ruleId === filter.rule);
+
+  return {
+    errors: !filter.kind || filter.kind === 'error' ? details.errors.filter(matches) : [],
+    warnings: !filter.kind || filter.kind === 'warning' ? details.warnings.filter(matches) : [],
+    // A type filter only applies to errors and warnings
+    changes: (!filter.kind || filter.kind === 'change') && !filter.type ? details.changes.filter(matches) : [],
+  };
+}
+
+export function countRowDetails(details: RowValidationDetails): number {
+  return details.errors.length + details.warnings.length + details.changes.length;
+}
+
+/** Read the details stored on an upload_rows row (columns may be missing on old rows) */
+export function readRowDetails(row: Record<string, unknown>): RowValidationDetails {
+  return {
+    errors: Array.isArray(row.validation_errors) ? (row.validation_errors as PipelineRowIssue[]) : [],
+    warnings: Array.isArray(row.validation_warnings) ? (row.validation_warnings as PipelineRowIssue[]) : [],
+    changes: Array.isArray(row.validation_changes) ? (row.validation_changes as PipelineRowChange[]) : [],
+  };
+}
+
+/** One-line summaries for CSV export columns */
+export function formatRowDetails(details: RowValidationDetails): { errors: string; warnings: string; changes: string } {
+  const format = (value: unknown) => (value === null || value === undefined || value === '' ? '(empty)' : String(value));
+  return {
+    errors: details.errors.map((e) => `[${e.ruleId}] ${e.field}: ${e.message}`).join('; '),
+    warnings: details.warnings.map((w) => `[${w.ruleId}] ${w.field}: ${w.message}`).join('; '),
+    changes: details.changes
+      .map((c) => `[${c.ruleId}] ${c.field}: ${format(c.originalValue)} → ${format(c.newValue)} (${c.reason})`)
+      .join('; '),
+  };
+}
+
+export interface ValidationDetailCounts {
+  byRule: Record<string, number>;
+  byField: Record<string, number>;
+  byType: Record<string, number>;
+}
+
+export interface ValidationDetailSummary {
+  errors: ValidationDetailCounts;
+  warnings: ValidationDetailCounts;
+  changes: ValidationDetailCounts;
+}
+
+function emptyCounts(): ValidationDetailCounts {
+  return { byRule: {}, byField: {}, byType: {} };
+}
+
+function countItem(counts: ValidationDetailCounts, item: { ruleId: string; field: string; type?: string }): void {
+  counts.byRule[item.ruleId] = (counts.byRule[item.ruleId] || 0) + 1;
+  counts.byField[item.field] = (counts.byField[item.field] || 0) + 1;
+  if (item.type) counts.byType[item.type] = (counts.byType[item.type] || 0) + 1;
+}
+
+/** Counts of errors, warnings and changes by rule, field and type across rows */
+export function summarizeRowDetails(rows: RowValidationDetails[]): ValidationDetailSummary {
+  const summary: ValidationDetailSummary = { errors: emptyCounts(), warnings: emptyCounts(), changes: emptyCounts() };
+  for (const row of rows) {
+    row.errors.forEach((e) => countItem(summary.errors, e));
+    row.warnings.forEach((w) => countItem(summary.warnings, w));
+    row.changes.forEach((c) => countItem(summary.changes, c));
+  }
+  return summary;
+}
+
+export interface ComparedRow {
+  data: Record<string, unknown>;
+  errors: PipelineRowIssue[];
+}
+
+const MAX_DIFFERENCES = 50;
+
+// Errors are the same error when the same rule raised the same type on the same field
+function errorKey(error: PipelineRowIssue): string {
+  return `${error.ruleId}|${error.field}|${error.type}`;
+}
+
+// Errors in `from` with no counterpart in `to` (each counterpart used once)
+function unmatchedErrors(from: PipelineRowIssue[], to: PipelineRowIssue[]): PipelineRowIssue[] {
+  const remaining = new Map<string, number>();
+  for (const error of to) remaining.set(errorKey(error), (remaining.get(errorKey(error)) || 0) + 1);
+  return from.filter((error) => {
+    const count = remaining.get(errorKey(error)) || 0;
+    if (count === 0) return true;
+    remaining.set(errorKey(error), count - 1);
+    return false;
+  });
+}
+
+function normalizeValue(value: unknown): string {
+  return value === null || value === undefined ? '' : String(value);
+}
+
+/**
+ * Compare two runs over the same source rows, row by row (matched on index):
+ * which rows ended up with different values, which errors went away and
+ * which are new.
+ */
+export function compareRuns(
+  originalSessionId: string,
+  before: ComparedRow[],
+  after: ComparedRow[]
+): RerunComparison {
+  const comparison: RerunComparison = {
+    originalSessionId,
+    perRow: true,
+    comparedRows: Math.min(before.length, after.length),
+    rowsChanged: 0,
+    errorsFixed: 0,
+    newErrors: 0,
+    rowsFixed: 0,
+    rowsNewlyInvalid: 0,
+    originalInvalidRows: before.filter((row) => row.errors.length > 0).length,
+    invalidRows: after.filter((row) => row.errors.length > 0).length,
+    differences: [],
+  };
+
+  for (let i = 0; i < comparison.comparedRows; i++) {
+    const old = before[i];
+    const next = after[i];
+
+    const fields = Array.from(new Set(Object.keys(old.data).concat(Object.keys(next.data))));
+    const changedFields = fields
+      .filter((field) => normalizeValue(old.data[field]) !== normalizeValue(next.data[field]))
+      .map((field) => ({ field, before: old.data[field] ?? null, after: next.data[field] ?? null }));
+    const fixedErrors = unmatchedErrors(old.errors, next.errors);
+    const newErrors = unmatchedErrors(next.errors, old.errors);
+
+    if (changedFields.length > 0) comparison.rowsChanged++;
+    comparison.errorsFixed += fixedErrors.length;
+    comparison.newErrors += newErrors.length;
+    if (old.errors.length > 0 && next.errors.length === 0) comparison.rowsFixed++;
+    if (old.errors.length === 0 && next.errors.length > 0) comparison.rowsNewlyInvalid++;
+
+    if (
+      (changedFields.length > 0 || fixedErrors.length > 0 || newErrors.length > 0) &&
+      comparison.differences.length < MAX_DIFFERENCES
+    ) {
+      comparison.differences.push({ rowIndex: i, changedFields, fixedErrors, newErrors });
+    }
+  }
+
+  return comparison;
+}
@@ -12,13 +12,13 @@ export { runAllScripts, getAvailableScripts, runScript } from './scripts';
 export type { ScriptProgressCallback, DynamicScriptSource } from './scripts';
 
 // Legacy validation function (now uses script system internally)
-export function validateData(
+export async function validateData(
   rows: ParsedRow[],
   headerMatches: HeaderMatch[],
   requiredFields: string[]
-): ValidationResult {
+): Promise<ValidationResult> {
   // Run all validation scripts
-  const scriptResult = runAllScripts(rows, headerMatches, requiredFields);
+  const scriptResult = await runAllScripts(rows, headerMatches, requiredFields);
 
   // Convert script results to legacy ValidationResult format
   const errors: ValidationError[] = [];
@@ -61,22 +61,33 @@ export function validateData(
 }
 
 // Run validation and return both script results and transformed data
-export function validateAndTransform(
+export async function validateAndTransform(
   rows: ParsedRow[],
   headerMatches: HeaderMatch[],
   requiredFields: string[],
   enabledScriptIds?: string[],
   targetFieldsOverrides?: Record<string, string[]>,
   onProgress?: ScriptProgressCallback,
-  dynamicScriptSources?: DynamicScriptSource[]
-): {
+  dynamicScriptSources?: DynamicScriptSource[],
+  ruleConfigs?: Record<string, Record<string, unknown>>
+): Promise<{
   validationResult: ValidationResult;
   scriptRunnerResult: ScriptRunnerResult;
   transformedData: ParsedRow[];
-} {
-  const scriptRunnerResult = runAllScripts(rows, headerMatches, requiredFields, enabledScriptIds, targetFieldsOverrides, onProgress, dynamicScriptSources);
+}> {
+  const scriptRunnerResult = await runAllScripts(rows, headerMatches, requiredFields, enabledScriptIds, targetFieldsOverrides, onProgress, dynamicScriptSources, ruleConfigs);
+
+  const validationResult = toValidationResult(scriptRunnerResult, rows.length);
+
+  return {
+    validationResult,
+    scriptRunnerResult,
+    transformedData: scriptRunnerResult.processedData,
+  };
+}
 
-  // Convert to legacy format
+// Convert script results for rowCount rows to the legacy ValidationResult format
+export function toValidationResult(scriptRunnerResult: ScriptRunnerResult, rowCount: number): ValidationResult {
   const errors: ValidationError[] = [];
   const warnings: ValidationError[] = [];
 
@@ -104,21 +115,15 @@ export function validateAndTransform(
 
   const rowsWithErrors = new Set(errors.map((e) => e.row));
   const invalidRows = rowsWithErrors.size;
-  const validRows = rows.length - invalidRows;
+  const validRows = rowCount - invalidRows;
 
-  const validationResult: ValidationResult = {
+  return {
     isValid: errors.length === 0,
     errors,
     warnings,
     validRows,
     invalidRows,
   };
-
-  return {
-    validationResult,
-    scriptRunnerResult,
-    transformedData: scriptRunnerResult.processedData,
-  };
 }
 
 // Transform data to HubSpot-ready format
@@ -9,8 +9,10 @@ import type {
   LogEntry,
   ScriptRunnerResult,
   ValidationScript,
+  DuplicateMerge,
 } from '@/types';
 import { generateSessionId } from '@/lib/logger';
+import type { MultiObjectColumn } from '@/lib/multiObject';
 
 // Column mapping: original spreadsheet header → HubSpot column heading name
 export type ColumnMapping = Record<string, string>;
@@ -37,6 +39,9 @@ interface AppState {
   // Object type selection (contacts, companies, deals)
   objectType: HubSpotObjectType | null;
 
+  // One file carrying contact, company and deal columns (objectType stays null)
+  multiObjectImport: boolean;
+
   // File data
   parsedFile: ParsedFile | null;
   processedData: ParsedRow[];
@@ -48,6 +53,9 @@ interface AppState {
   // Column mapping (spreadsheet header → export heading name)
   columnMapping: ColumnMapping;
 
+  // Mapped columns with their record type and HubSpot property, for multi-object imports
+  multiObjectColumns: MultiObjectColumn[];
+
   // Import question answers
   questionAnswers: QuestionAnswers;
 
@@ -63,6 +71,9 @@ interface AppState {
   enabledScripts: string[];
   availableScripts: ValidationScript[];
 
+  // Duplicate clusters the user merged (re-applied after every validation run)
+  duplicateMerges: DuplicateMerge[];
+
   // Audit
   auditResult: AuditResult | null;
 
@@ -77,6 +88,7 @@ interface AppState {
   prevStep: () => void;
 
   setObjectType: (type: HubSpotObjectType | null) => void;
+  setMultiObjectImport: (enabled: boolean) => void;
 
   setParsedFile: (file: ParsedFile | null) => void;
   setProcessedData: (data: ParsedRow[]) => void;
@@ -86,6 +98,7 @@ interface AppState {
   setRequiredFields: (fields: string[]) => void;
 
   setColumnMapping: (mapping: ColumnMapping) => void;
+  setMultiObjectColumns: (columns: MultiObjectColumn[]) => void;
 
   setQuestionAnswers: (answers: QuestionAnswers) => void;
   setQuestionAnswer: (questionId: string, answer: QuestionAnswer) => void;
@@ -99,6 +112,7 @@ interface AppState {
   setEnabledScripts: (scriptIds: string[]) => void;
   toggleScript: (scriptId: string) => void;
   setAvailableScripts: (scripts: ValidationScript[]) => void;
+  setDuplicateMerges: (merges: DuplicateMerge[]) => void;
 
   setAuditResult: (result: AuditResult | null) => void;
 
@@ -113,7 +127,9 @@ const initialState = {
   currentStep: 0,
   steps: ['Upload', 'Questions', 'Rules', 'Map Columns', 'Finish'],
   objectType: null as HubSpotObjectType | null,
+  multiObjectImport: false,
   columnMapping: {} as ColumnMapping,
+  multiObjectColumns: [] as MultiObjectColumn[],
   questionAnswers: {} as QuestionAnswers,
   questionColumnValues: {} as QuestionColumnValues,
   importRuleOverrides: {} as ImportRuleOverrides,
@@ -125,6 +141,7 @@ const initialState = {
   scriptRunnerResult: null,
   enabledScripts: [] as string[],
   availableScripts: [] as ValidationScript[],
+  duplicateMerges: [] as DuplicateMerge[],
   auditResult: null,
   logs: [],
 };
@@ -142,9 +159,12 @@ export const useAppStore = create<AppState>((set) => ({
     currentStep: Math.max(state.currentStep - 1, 0)
   })),
 
-  setObjectType: (type) => set({ objectType: type }),
+  // Picking a single record type leaves multi-object mode and vice versa
+  setObjectType: (type) => set(type ? { objectType: type, multiObjectImport: false } : { objectType: null }),
+  setMultiObjectImport: (enabled) => set(enabled ? { multiObjectImport: true, objectType: null } : { multiObjectImport: false }),
 
-  setParsedFile: (file) => set({ parsedFile: file }),
+  // Merges refer to row indices, so they don't survive a new file
+  setParsedFile: (file) => set({ parsedFile: file, duplicateMerges: [] }),
   setProcessedData: (data) => set({ processedData: data }),
 
   setHeaderMatches: (matches) => set({ headerMatches: matches }),
@@ -152,6 +172,7 @@ export const useAppStore = create<AppState>((set) => ({
   setRequiredFields: (fields) => set({ requiredFields: fields }),
 
   setColumnMapping: (mapping) => set({ columnMapping: mapping }),
+  setMultiObjectColumns: (columns) => set({ multiObjectColumns: columns }),
 
   setQuestionAnswers: (answers) => set({ questionAnswers: answers }),
   setQuestionAnswer: (questionId, answer) => set((state) => ({
@@ -179,6 +200,7 @@ export const useAppStore = create<AppState>((set) => ({
     availableScripts: scripts,
     enabledScripts: scripts.map(s => s.id),
   }),
+  setDuplicateMerges: (merges) => set({ duplicateMerges: merges }),
 
   setAuditResult: (result) => set({ auditResult: result }),
 
@@ -22,6 +22,11 @@ export interface ParsedFile {
   rows: ParsedRow[];
   fileName: string;
   totalRows: number;
+  // How a text file was decoded and split (not set for Excel)
+  encoding?: string;
+  delimiter?: string;
+  // Title/note rows above the detected header row
+  skippedRows?: number;
 }
 
 // Header match result
@@ -30,6 +35,9 @@ export interface HeaderMatch {
   matchedField: FieldMapping | null;
   confidence: number;
   isMatched: boolean;
+  // Why the column was matched (or what its values look like when it wasn't),
+  // e.g. "92% of values look like emails"
+  matchReason?: string;
 }
 
 // Validation result types
@@ -97,14 +105,184 @@ export interface HubSpotContact {
   properties: Record<string, string>;
 }
 
-export interface HubSpotMatchResult {
+export interface HubSpotDeal {
+  id: string;
+  name: string;
+  properties: Record<string, string>;
+}
+
+// What a sync may do with a property that already has a value in HubSpot
+// (set per account, object type and property; unset means 'overwrite')
+export type PropertyOverwritePolicy = 'overwrite' | 'fill_empty' | 'create_only' | 'append';
+
+// A row value the sync didn't write because of the property's policy
+export interface SkippedProperty {
+  objectType: HubSpotObjectType;
+  property: string;
+  policy: PropertyOverwritePolicy;
+}
+
+// How a row's company is found in HubSpot, set per account. Signals are tried
+// in order: the company domain, the contact's email domain, a fuzzy name
+// match, or a fuzzy name match whose city/state agree with the row's.
+export type CompanyMatchSignal = 'domain' | 'email_domain' | 'name' | 'name_location';
+
+// How to pick when a signal finds several companies: most associated
+// contacts, most recently modified, or the best search hit plus a review task
+export type CompanyMatchTieBreak = 'most_contacts' | 'most_recent' | 'review_task';
+
+export interface CompanyMatchSettings {
+  signals: CompanyMatchSignal[];
+  // Minimum fuzzy name confidence (0-1) for 'name' and 'name_location'
+  nameThreshold: number;
+  nameLocationThreshold: number;
+  // Email domains that never identify a company
+  personalDomains: string[];
+  tieBreak: CompanyMatchTieBreak;
+}
+
+// Why a row matched (or didn't match) a company, to help tune the settings
+export interface CompanyMatchExplanation {
+  // Signal that produced the match (null = none did)
+  signal: CompanyMatchSignal | null;
+  // Domain or name the signal searched for
+  value?: string;
+  // Companies the signal found before the tie-break
+  candidates: number;
+  tieBreak?: CompanyMatchTieBreak;
+  // Several candidates and the tie-break asks for a review task
+  needsReview?: boolean;
+  // One line per signal checked, in order
+  steps: string[];
+}
+
+// Result of syncing one row of a contact import
+export interface HubSpotContactSyncResult {
+  objectType: 'contacts';
   rowIndex: number;
   contact: Partial<HubSpotContact>;
   matchedCompany: HubSpotCompany | null;
   matchConfidence: number;
   matchType: 'exact_domain' | 'fuzzy_name' | 'created_new' | 'no_match';
+  matchExplanation?: CompanyMatchExplanation;
+  taskCreated: boolean;
+  taskId?: string;
+  // Deal created from the row's deal columns (multi-object imports)
+  deal?: HubSpotDeal | null;
+  // Contact and company values kept from HubSpot by overwrite policies
+  skippedProperties?: SkippedProperty[];
+}
+
+// Result of syncing one row of a company import
+export interface HubSpotCompanySyncResult {
+  objectType: 'companies';
+  rowIndex: number;
+  company: HubSpotCompany;
+  action: 'created' | 'updated';
+  matchConfidence: number;
+  matchType: 'exact_domain' | 'fuzzy_name' | 'created_new';
+  matchExplanation?: CompanyMatchExplanation;
   taskCreated: boolean;
   taskId?: string;
+  skippedProperties?: SkippedProperty[];
+}
+
+// Result of syncing one row of a deal import
+export interface HubSpotDealSyncResult {
+  objectType: 'deals';
+  rowIndex: number;
+  deal: HubSpotDeal;
+  action: 'created' | 'updated';
+  // Matched on deal name (plus associated company when the row has one)
+  matchType: 'exact_name' | 'created_new';
+  associatedCompany: HubSpotCompany | null;
+  pipeline: string;
+  dealstage: string;
+  skippedProperties?: SkippedProperty[];
+}
+
+export type HubSpotSyncResult = HubSpotContactSyncResult | HubSpotCompanySyncResult | HubSpotDealSyncResult;
+
+// One HubSpot change made by a pipeline sync, kept so the import can be
+// rolled back: created records are deleted, updated ones get their previous
+// values back and new contact→company associations are removed
+export interface SyncLedgerEntry {
+  objectType: 'contacts' | 'companies' | 'deals' | 'tasks' | 'associations';
+  action: 'created' | 'updated' | 'associated';
+  // Record id; for associations, the contact's id
+  hubspotId: string;
+  // Associations only: the company's id
+  associatedId?: string;
+  // Row that caused the change (companies and tasks: the first such row)
+  rowIndex?: number;
+  // Updates only: the values the sync replaced (null = was empty)
+  previousProperties?: Record<string, string | null>;
+}
+
+export interface RollbackPlan {
+  contactsToDelete: number;
+  companiesToDelete: number;
+  dealsToDelete: number;
+  tasksToDelete: number;
+  recordsToRestore: number;
+  associationsToRemove: number;
+  // Changes already undone by an earlier (partial) rollback
+  alreadyRolledBack: number;
+}
+
+// Dry-run of a contact sync: what each row would do, without writing to HubSpot
+export interface SyncPropertyChange {
+  property: string;
+  // null when the contact doesn't exist yet or has no value for the property
+  oldValue: string | null;
+  newValue: string;
+}
+
+export interface SyncPreviewRow {
+  rowIndex: number;
+  email: string;
+  action: 'create' | 'update' | 'error';
+  // Existing HubSpot contact (updates only)
+  contactId?: string;
+  matchedCompany: HubSpotCompany | null;
+  matchType: HubSpotContactSyncResult['matchType'];
+  matchConfidence: number;
+  matchExplanation?: CompanyMatchExplanation;
+  // Company name that would be created when nothing matches
+  newCompanyName?: string;
+  changes: SyncPropertyChange[];
+  // Values the contact's overwrite policies would keep from HubSpot
+  skippedProperties?: SkippedProperty[];
+  error?: string;
+}
+
+export interface SyncPreviewSummary {
+  creates: number;
+  updates: number;
+  // Updates that wouldn't change any property
+  unchanged: number;
+  newCompanies: number;
+  tasks: number;
+  errors: number;
+}
+
+// Static HubSpot contact list a sync adds its contacts to: an existing list,
+// or a new one named from a template ("{fileName} – {date}")
+export type SyncListTarget = { listId: string } | { nameTemplate: string };
+
+export interface HubSpotStaticList {
+  listId: string;
+  name: string;
+  size: number | null;
+}
+
+export interface SyncListResult {
+  listId: string;
+  listName: string;
+  // Contacts added to the list (already-members included)
+  added: number;
+  // Link to the list in HubSpot, when the portal is known
+  url: string | null;
 }
 
 // Audit types
@@ -186,6 +364,24 @@ export interface ScriptWarning {
   message: string;
 }
 
+// A group of rows that likely describe the same record (from duplicate detection)
+export interface DuplicateCluster {
+  id: string;
+  rowIndices: number[];
+  // 0-1: average strength of the matches that joined the cluster
+  score: number;
+  // Why the rows matched, e.g. "Same email", "Nickname match (Bob / Robert)"
+  reasons: string[];
+}
+
+// How the user resolved a duplicate cluster: the surviving row and its merged values
+export interface DuplicateMerge {
+  clusterId: string;
+  rowIndices: number[];
+  survivorIndex: number;
+  values: ParsedRow;
+}
+
 export interface ScriptResult {
   scriptId: string;
   scriptName: string;
@@ -197,6 +393,7 @@ export interface ScriptResult {
   rowsProcessed: number;
   rowsModified: number;
   executionTimeMs: number;
+  duplicateClusters?: DuplicateCluster[];
 }
 
 export interface ValidationScript {
@@ -221,16 +418,24 @@ export interface ScriptRunnerResult {
 
 // Pipeline types - temporary DB storage for upload processing
 export type PipelineSessionStatus =
+  | 'uploading'   // Chunked upload in progress, rows not yet finalized
+  | 'validating'  // Account rules running on the uploaded rows
   | 'uploaded'    // Rows stored, awaiting processing
+  | 'validated'   // Every row passed the account rules
+  | 'invalid'     // Some rows failed the account rules; only valid rows continue
   | 'enriching'   // Enrichment in progress
   | 'enriched'    // Enrichment complete, awaiting sync
   | 'syncing'     // Pushing to HubSpot
   | 'completed'   // Successfully synced, rows deleted
   | 'failed'      // Sync failed, rows retained for retry
+  | 'rolling_back' // HubSpot changes being undone
+  | 'rolled_back' // HubSpot changes undone from History
   | 'expired';    // Past retention, rows purged
 
 export type PipelineRowStatus =
   | 'pending'     // Awaiting enrichment
+  | 'invalid'     // Failed the account rules (kept for review, never synced)
+  | 'validated'   // Passed the account rules in an import saved from the validation step
   | 'enriching'   // Enrichment in progress
   | 'enriched'    // Enrichment complete
   | 'syncing'     // Being pushed to HubSpot
@@ -269,10 +474,68 @@ export interface PipelineRow {
   hubspotContactId?: string;
   hubspotCompanyId?: string;
   errorMessage?: string;
+  validatedData: Record<string, unknown>;
+  validationErrors: PipelineRowIssue[];
+  validationWarnings: PipelineRowIssue[];
+  validationChanges: PipelineRowChange[];
   createdAt: string;
   updatedAt: string;
 }
 
+// A validation error or warning recorded on a pipeline row, tagged with the rule that raised it
+export interface PipelineRowIssue {
+  ruleId: string;
+  field: string;
+  value: string | number | boolean | null;
+  type: string;
+  message: string;
+}
+
+// A value a rule changed on a pipeline row
+export interface PipelineRowChange {
+  ruleId: string;
+  field: string;
+  originalValue: string | number | boolean | null;
+  newValue: string | number | boolean | null;
+  reason: string;
+}
+
+// A row of an import saved to history from the validation step
+export interface SavedImportRow {
+  rawData: Record<string, unknown>;
+  // The row after the rules' transforms
+  data: Record<string, unknown>;
+  errors: PipelineRowIssue[];
+  warnings: PipelineRowIssue[];
+  changes: PipelineRowChange[];
+}
+
+// A row whose values or errors differ between an import and its re-run
+export interface RerunRowDifference {
+  rowIndex: number;
+  changedFields: { field: string; before: unknown; after: unknown }[];
+  fixedErrors: PipelineRowIssue[];
+  newErrors: PipelineRowIssue[];
+}
+
+// How a re-run with the current rules compares with the run it was made from
+export interface RerunComparison {
+  originalSessionId: string;
+  // False when the original rows were no longer stored; only totals are compared then
+  perRow: boolean;
+  comparedRows: number;
+  rowsChanged: number;
+  errorsFixed: number;
+  newErrors: number;
+  // Rows that had errors before and have none now, and the reverse
+  rowsFixed: number;
+  rowsNewlyInvalid: number;
+  originalInvalidRows: number;
+  invalidRows: number;
+  // The first rows that differ
+  differences: RerunRowDifference[];
+}
+
 export interface PipelineProgress {
   sessionId: string;
   status: PipelineSessionStatus;
@@ -286,6 +549,37 @@ export interface PipelineProgress {
   expiresAt: string;
 }
 
+// Background enrichment and sync (see src/lib/pipelineJobs.ts)
+export type PipelineJobType = 'enrich' | 'sync';
+
+export type PipelineJobStatus =
+  | 'queued'      // Waiting for a worker
+  | 'running'     // Leased by a worker, or between workers
+  | 'cancelling'  // Cancel requested; stops after the current batch
+  | 'cancelled'   // Stopped by a user; can be resumed
+  | 'completed'
+  | 'failed';     // Gave up after repeated errors; can be resumed
+
+export interface PipelineJob {
+  id: string;
+  sessionId: string;
+  type: PipelineJobType;
+  status: PipelineJobStatus;
+  totalRows: number;
+  processedRows: number;
+  succeededRows: number;
+  failedRows: number;
+  // Resume point: rows up to this row_index are processed
+  lastRowIndex: number;
+  attempts: number;
+  errorMessage: string | null;
+  result: Record<string, unknown> | null;
+  createdBy: string | null;
+  createdAt: string;
+  heartbeatAt: string | null;
+  finishedAt: string | null;
+}
+
 // CRM Records & Properties
 export type CrmObjectType = 'contacts' | 'companies' | 'deals';
 
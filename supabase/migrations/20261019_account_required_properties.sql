@@ -0,0 +1,44 @@
+-- ============================================================================
+-- REQUIRED PROPERTIES (per account)
+-- ============================================================================
+-- The HubSpot properties every imported row must have, as "objectType:field"
+-- keys. Used to live in the global app_settings row 'required_properties',
+-- which every account shared; each account now keeps its own list.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS account_required_properties (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  account_id UUID NOT NULL UNIQUE REFERENCES accounts(id) ON DELETE CASCADE,
+  properties TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_account_required_properties_updated_at ON account_required_properties;
+CREATE TRIGGER update_account_required_properties_updated_at
+  BEFORE UPDATE ON account_required_properties
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Accessed only through the server (service role), like the other account tables
+ALTER TABLE account_required_properties ENABLE ROW LEVEL SECURITY;
+
+-- Start every existing account from the old global list. The settings API
+-- stored it either as a JSON array or as a JSON string holding one.
+DO $$
+BEGIN
+  IF to_regclass('public.app_settings') IS NOT NULL THEN
+    INSERT INTO account_required_properties (account_id, properties)
+    SELECT a.id, ARRAY(SELECT jsonb_array_elements_text(list.value))
+    FROM accounts a
+    CROSS JOIN (
+      SELECT CASE jsonb_typeof(value)
+               WHEN 'array' THEN value
+               WHEN 'string' THEN (value #>> '{}')::jsonb
+             END AS value
+      FROM app_settings
+      WHERE key = 'required_properties'
+    ) list
+    WHERE jsonb_typeof(list.value) = 'array'
+    ON CONFLICT (account_id) DO NOTHING;
+  END IF;
+END $$;
@@ -0,0 +1,33 @@
+-- ============================================================================
+-- COMPANY MATCH SETTINGS (per account)
+-- ============================================================================
+-- How a sync finds the HubSpot company for a row. Signals are tried in order:
+--   domain        - the row's company domain / website
+--   email_domain  - the contact's email domain (personal domains excluded)
+--   name          - fuzzy company name match
+--   name_location - fuzzy name match whose city/state agree with the row's
+-- When a signal finds several companies the tie-break picks one: the most
+-- associated contacts, the most recently modified, or the best search hit
+-- plus a review task. Accounts without a row use the defaults below.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS company_match_settings (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  account_id UUID NOT NULL UNIQUE REFERENCES accounts(id) ON DELETE CASCADE,
+  signals TEXT[] NOT NULL DEFAULT ARRAY['domain', 'email_domain', 'name'],
+  name_threshold NUMERIC(3, 2) NOT NULL DEFAULT 0.70,
+  name_location_threshold NUMERIC(3, 2) NOT NULL DEFAULT 0.60,
+  personal_domains TEXT[], -- NULL = the built-in personal email domains
+  tie_break VARCHAR(20) NOT NULL DEFAULT 'most_contacts'
+    CHECK (tie_break IN ('most_contacts', 'most_recent', 'review_task')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_company_match_settings_updated_at ON company_match_settings;
+CREATE TRIGGER update_company_match_settings_updated_at
+  BEFORE UPDATE ON company_match_settings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Accessed only through the server (service role), like the other account tables
+ALTER TABLE company_match_settings ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,14 @@
+-- Migration: Link CRM records imported from the same row
+-- Multi-object imports create a contact, company and deal per row; each
+-- record's associations holds the ids of its linked records per object type:
+--   { "contacts": [uuid, ...], "companies": [uuid], "deals": [uuid] }
+-- crm_records was dropped in 20260204_remove_unused_tables.sql on some
+-- databases, so only alter it where it still exists.
+
+DO $$
+BEGIN
+  IF to_regclass('public.crm_records') IS NOT NULL THEN
+    ALTER TABLE crm_records ADD COLUMN IF NOT EXISTS associations JSONB NOT NULL DEFAULT '{}';
+    CREATE INDEX IF NOT EXISTS idx_crm_records_associations ON crm_records USING gin(associations);
+  END IF;
+END $$;
@@ -0,0 +1,44 @@
+-- ============================================================================
+-- HUBSPOT PROPERTY OVERWRITE POLICIES (per account)
+-- ============================================================================
+-- What a sync may do with a HubSpot property that already has a value:
+--   overwrite   - write the file's value (the default when no row exists)
+--   fill_empty  - only write when the HubSpot value is empty
+--   create_only - only write when the sync creates the record
+--   append      - add the file's options to a multi-checkbox value
+-- Keeps values sales reps entered by hand from being clobbered by imports.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS hubspot_property_policies (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  object_type VARCHAR(50) NOT NULL, -- 'contacts' | 'companies' | 'deals'
+  property_name VARCHAR(255) NOT NULL, -- HubSpot internal property name
+  policy VARCHAR(20) NOT NULL DEFAULT 'overwrite'
+    CHECK (policy IN ('overwrite', 'fill_empty', 'create_only', 'append')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(account_id, object_type, property_name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_hubspot_property_policies_account ON hubspot_property_policies(account_id);
+
+DROP TRIGGER IF EXISTS update_hubspot_property_policies_updated_at ON hubspot_property_policies;
+CREATE TRIGGER update_hubspot_property_policies_updated_at
+  BEFORE UPDATE ON hubspot_property_policies
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Accessed only through the server (service role), like the other account tables
+ALTER TABLE hubspot_property_policies ENABLE ROW LEVEL SECURITY;
+
+-- Pipeline sessions keep a tally of the values policies kept, by
+-- "objectType.property". upload_sessions was dropped in
+-- 20260204_remove_unused_tables.sql on some databases, so only alter it where
+-- it still exists.
+DO $$
+BEGIN
+  IF to_regclass('public.upload_sessions') IS NOT NULL THEN
+    ALTER TABLE upload_sessions ADD COLUMN IF NOT EXISTS skipped_properties JSONB NOT NULL DEFAULT '{}';
+  END IF;
+END $$;
@@ -0,0 +1,16 @@
+-- Add the built-in HubSpot Property Validation rule to every account that
+-- already has rules. New accounts get it from DEFAULT_RULES in accountRules.ts.
+-- The property definitions themselves are read from hubspot_properties at
+-- validation time, so the rule config stays empty.
+
+INSERT INTO account_rules (account_id, rule_id, name, description, rule_type, target_fields, display_order, config)
+SELECT DISTINCT account_id,
+  'hubspot-property-validation',
+  'HubSpot Property Validation',
+  'Checks mapped values against the synced HubSpot property definitions. Picklist labels are rewritten to their internal values; invalid options, numbers, dates and booleans are reported before sync.',
+  'transform',
+  ARRAY['*'],
+  90,
+  '{}'::jsonb
+FROM account_rules
+ON CONFLICT (account_id, rule_id) DO NOTHING;
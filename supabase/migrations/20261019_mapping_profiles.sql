@@ -0,0 +1,38 @@
+-- ============================================================================
+-- MAPPING PROFILES (per account)
+-- ============================================================================
+-- Named, reusable import setups ("Conference badge scanner", "Partner referral
+-- export"). Unlike column_mapping_history, which keeps one heading per header
+-- name, each profile keeps the full header set it was saved from so different
+-- vendors can map the same header name differently. The Map Columns step
+-- offers a profile when a new file's headers closely match its header set.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS mapping_profiles (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  object_type VARCHAR(50), -- 'contacts' | 'companies' | 'deals'
+  headers JSONB NOT NULL DEFAULT '[]', -- Spreadsheet headers the profile was saved from
+  column_mapping JSONB NOT NULL DEFAULT '{}', -- Spreadsheet header → column heading
+  question_answers JSONB NOT NULL DEFAULT '{}', -- questionId → { value, isOverride }
+  question_column_values JSONB NOT NULL DEFAULT '{}', -- Column header → answer value
+  rule_overrides JSONB NOT NULL DEFAULT '{}', -- ruleId → enabled
+  use_count INTEGER NOT NULL DEFAULT 0,
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(account_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_mapping_profiles_account ON mapping_profiles(account_id);
+
+DROP TRIGGER IF EXISTS update_mapping_profiles_updated_at ON mapping_profiles;
+CREATE TRIGGER update_mapping_profiles_updated_at
+  BEFORE UPDATE ON mapping_profiles
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Accessed only through the server (service role), like the other account tables
+ALTER TABLE mapping_profiles ENABLE ROW LEVEL SECURITY;
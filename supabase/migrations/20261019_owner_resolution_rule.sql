@@ -0,0 +1,16 @@
+-- Add the built-in Owner Resolution rule to every account that already has
+-- rules. New accounts get it from DEFAULT_RULES in accountRules.ts.
+-- The HubSpot owners are fetched at validation time; the config only holds
+-- the optional assignment rules for rows without an owner.
+
+INSERT INTO account_rules (account_id, rule_id, name, description, rule_type, target_fields, display_order, config)
+SELECT DISTINCT account_id,
+  'owner-resolution',
+  'Owner Resolution',
+  'Resolves owner names and emails (e.g. an "Owner" or "Sales Rep" column) to HubSpot owner IDs by email, full name or fuzzy name, and flags owners that can''t be resolved. Rows without an owner can optionally be assigned round-robin or by state territory.',
+  'transform',
+  ARRAY['hubspot_owner_id'],
+  85,
+  '{"assignment": "none", "roundRobinOwners": [], "territories": {}, "defaultOwner": "", "stateField": "state", "fuzzyThreshold": 0.9}'::jsonb
+FROM account_rules
+ON CONFLICT (account_id, rule_id) DO NOTHING;
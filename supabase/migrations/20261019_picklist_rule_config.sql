@@ -0,0 +1,16 @@
+-- Picklist rules (role / program type / solution) now read their allowed values,
+-- fallback value and synonyms from account_rules.config instead of hardcoded lists.
+--
+-- The program type seed in 005_account_rules.sql never matched the list the
+-- script actually enforced, so accounts still on that seed get the enforced
+-- list — otherwise values like "Allied Health" would start falling back to "Other".
+
+UPDATE account_rules
+SET config = jsonb_set(config, '{validValues}', '["ADN", "BSN", "OTHER-BSN", "RN", "PN", "Allied Health", "Diploma", "Other", "Testing Center", "ATI Allied Health", "RN to BSN", "APRN", "Healthcare", "Bookstore", "LPN", "DNP", "MSN", "CNA", "ADN - Online", "BSN - Online", "BSN Philippines", "CT", "CV Sonography", "Dental Assisting", "Dental Hygiene", "HCO", "Health Occupations", "Healthcare-ADN", "Hospital", "ICV", "LPN to RN", "MRI", "Medical Assisting", "Medical Sonography", "NHA Allied Health", "Nuclear Medicine", "Occupational Assisting", "PN - Online", "PhD", "Physical Therapy", "Radiation Therapy", "Radiography", "Resident", "Respiratory Therapy", "Sports Medicine", "TEAS Only", "Test Program Type", "Therapeutic Massage"]'::jsonb)
+WHERE rule_id = 'program-type-normalization'
+  AND config -> 'validValues' = '["ADN", "ASN", "BSN", "LPN", "LVN", "MSN", "PN", "RN", "Other"]'::jsonb;
+
+-- Make the fallback and synonyms explicit so they show up in the rule editor
+UPDATE account_rules
+SET config = '{"fallbackValue": "Other", "synonyms": {}}'::jsonb || COALESCE(config, '{}'::jsonb)
+WHERE rule_id IN ('role-normalization', 'program-type-normalization', 'solution-normalization');
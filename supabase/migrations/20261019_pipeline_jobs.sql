@@ -0,0 +1,61 @@
+-- ============================================================================
+-- PIPELINE JOBS (background enrichment and sync)
+-- ============================================================================
+-- Enrichment and sync run as jobs instead of inside one HTTP request. A worker
+-- claims a job by taking its lease, processes rows in batches after
+-- last_row_index and renews the lease (heartbeat) after each batch. A job whose
+-- lease runs out — the tab closed, the function timed out — is picked up by the
+-- next worker and resumes where it stopped. Cancelled and failed jobs can be
+-- resumed from the History page.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS pipeline_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  account_id TEXT NOT NULL,
+  session_id UUID NOT NULL, -- upload_sessions.id
+  type VARCHAR(20) NOT NULL, -- 'enrich' | 'sync'
+  status VARCHAR(20) NOT NULL DEFAULT 'queued', -- queued | running | cancelling | cancelled | completed | failed
+  params JSONB NOT NULL DEFAULT '{}', -- Sync: taskAssigneeId, list; both: previousStatus
+  last_row_index INTEGER NOT NULL DEFAULT -1, -- Resume point: rows up to here are processed
+  total_rows INTEGER NOT NULL DEFAULT 0,
+  processed_rows INTEGER NOT NULL DEFAULT 0,
+  succeeded_rows INTEGER NOT NULL DEFAULT 0,
+  failed_rows INTEGER NOT NULL DEFAULT 0,
+  state JSONB NOT NULL DEFAULT '{}', -- Totals carried between batches (sync: skippedProperties)
+  attempts INTEGER NOT NULL DEFAULT 0, -- Batches that threw or leases that ran out
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  lease_owner TEXT, -- Worker currently running the job
+  lease_expires_at TIMESTAMP WITH TIME ZONE,
+  heartbeat_at TIMESTAMP WITH TIME ZONE,
+  cancel_requested_at TIMESTAMP WITH TIME ZONE,
+  error_message TEXT,
+  result JSONB, -- Outcome reported when the job completes
+  created_by TEXT, -- Name of the user who started the job
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_jobs_session ON pipeline_jobs(session_id);
+CREATE INDEX IF NOT EXISTS idx_pipeline_jobs_claimable ON pipeline_jobs(status, lease_expires_at);
+
+-- Accessed only through the server (service role), like the other account tables
+ALTER TABLE pipeline_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS update_pipeline_jobs_updated_at ON pipeline_jobs;
+CREATE TRIGGER update_pipeline_jobs_updated_at
+  BEFORE UPDATE ON pipeline_jobs
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Session lock: the job enriching or syncing the session, so two users can't
+-- run them at once. Only alter upload_sessions where it still exists (see
+-- 20261019_hubspot_property_policies.sql).
+DO $$
+BEGIN
+  IF to_regclass('public.upload_sessions') IS NOT NULL THEN
+    ALTER TABLE upload_sessions ADD COLUMN IF NOT EXISTS lock_job_id UUID;
+    ALTER TABLE upload_sessions ADD COLUMN IF NOT EXISTS locked_by TEXT;
+    ALTER TABLE upload_sessions ADD COLUMN IF NOT EXISTS locked_at TIMESTAMP WITH TIME ZONE;
+  END IF;
+END $$;
@@ -0,0 +1,15 @@
+-- Server-side validation of pipeline uploads: the rows after the account's
+-- rules ran, and the errors, warnings and changes each row got. Only alter
+-- the tables where they still exist (see 20261019_hubspot_property_policies.sql).
+DO $$
+BEGIN
+  IF to_regclass('public.upload_rows') IS NOT NULL THEN
+    ALTER TABLE upload_rows ADD COLUMN IF NOT EXISTS validated_data JSONB NOT NULL DEFAULT '{}';
+    ALTER TABLE upload_rows ADD COLUMN IF NOT EXISTS validation_errors JSONB NOT NULL DEFAULT '[]';
+    ALTER TABLE upload_rows ADD COLUMN IF NOT EXISTS validation_warnings JSONB NOT NULL DEFAULT '[]';
+    ALTER TABLE upload_rows ADD COLUMN IF NOT EXISTS validation_changes JSONB NOT NULL DEFAULT '[]';
+  END IF;
+  IF to_regclass('public.upload_sessions') IS NOT NULL THEN
+    ALTER TABLE upload_sessions ADD COLUMN IF NOT EXISTS invalid_rows INTEGER NOT NULL DEFAULT 0;
+  END IF;
+END $$;
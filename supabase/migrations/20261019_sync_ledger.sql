@@ -0,0 +1,30 @@
+-- ============================================================================
+-- SYNC LEDGER (per pipeline import)
+-- ============================================================================
+-- Every HubSpot change a pipeline sync makes: created contacts, companies,
+-- deals and review tasks, updated records with the values they had before,
+-- and new contact→company associations. The History page uses it to roll an
+-- import back — created records are deleted, previous values restored and
+-- associations removed. Entries are kept for the session's retention period.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS sync_ledger (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  session_id UUID NOT NULL, -- upload_sessions.id
+  row_index INTEGER, -- Row that caused the change
+  object_type VARCHAR(50) NOT NULL, -- 'contacts' | 'companies' | 'deals' | 'tasks' | 'associations'
+  action VARCHAR(20) NOT NULL, -- 'created' | 'updated' | 'associated' | 'pending' (company create in flight)
+  hubspot_id VARCHAR(255) NOT NULL, -- Record id (associations: the contact)
+  associated_id VARCHAR(255), -- Associations: the company
+  previous_properties JSONB, -- Updates: {property: value replaced, null = was empty}
+  rolled_back_at TIMESTAMP WITH TIME ZONE,
+  rollback_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_ledger_session ON sync_ledger(session_id);
+CREATE INDEX IF NOT EXISTS idx_sync_ledger_account ON sync_ledger(account_id);
+
+-- Accessed only through the server (service role), like the other account tables
+ALTER TABLE sync_ledger ENABLE ROW LEVEL SECURITY;
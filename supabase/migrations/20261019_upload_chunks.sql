@@ -0,0 +1,23 @@
+-- ============================================================================
+-- UPLOAD CHUNKS (chunked pipeline uploads)
+-- ============================================================================
+-- Row chunks of a pipeline upload sent in pieces: a session is started, chunks
+-- are appended by sequence number (a retried chunk replaces nothing — the same
+-- sequence with the same checksum is acknowledged again) and the finalize call
+-- checks the row count and checksum, validates the rows into upload_rows and
+-- deletes the chunks. Unfinished uploads are purged with their session.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS upload_chunks (
+  session_id UUID NOT NULL, -- upload_sessions.id
+  sequence INTEGER NOT NULL, -- 0-based chunk number
+  row_count INTEGER NOT NULL,
+  rows JSONB NOT NULL,
+  file_content TEXT, -- Optional slice of the base64 file, joined in sequence order
+  checksum VARCHAR(64) NOT NULL, -- SHA-256 hex of the chunk (see chunkChecksum)
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (session_id, sequence)
+);
+
+-- Accessed only through the server (service role), like the other account tables
+ALTER TABLE upload_chunks ENABLE ROW LEVEL SECURITY;
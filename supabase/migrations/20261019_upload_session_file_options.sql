@@ -0,0 +1,12 @@
+-- How an import's stored file was read: the workbook sheets that were chosen
+-- and the charset a text file was decoded with, so a re-run parsing the file
+-- again gets the same rows. NULL means the defaults (first sheet, detected
+-- charset). Only alter upload_sessions where it still exists (see
+-- 20261019_hubspot_property_policies.sql).
+DO $$
+BEGIN
+  IF to_regclass('public.upload_sessions') IS NOT NULL THEN
+    ALTER TABLE upload_sessions ADD COLUMN IF NOT EXISTS source_sheets TEXT[];
+    ALTER TABLE upload_sessions ADD COLUMN IF NOT EXISTS file_encoding TEXT;
+  END IF;
+END $$;
@@ -0,0 +1,11 @@
+-- When a chunked upload's finalize claimed the session (status 'validating').
+-- A finalize whose process died leaves the session in 'validating'; once the
+-- claim is old enough a retried finalize may claim the upload again. Only
+-- alter upload_sessions where it still exists (see
+-- 20261019_hubspot_property_policies.sql).
+DO $$
+BEGIN
+  IF to_regclass('public.upload_sessions') IS NOT NULL THEN
+    ALTER TABLE upload_sessions ADD COLUMN IF NOT EXISTS finalize_claimed_at TIMESTAMP WITH TIME ZONE;
+  END IF;
+END $$;
@@ -0,0 +1,10 @@
+-- Static HubSpot list a pipeline sync added its contacts to, linked from the
+-- History page. Only alter upload_sessions where it still exists (see
+-- 20261019_hubspot_property_policies.sql).
+DO $$
+BEGIN
+  IF to_regclass('public.upload_sessions') IS NOT NULL THEN
+    ALTER TABLE upload_sessions ADD COLUMN IF NOT EXISTS hubspot_list_id TEXT;
+    ALTER TABLE upload_sessions ADD COLUMN IF NOT EXISTS hubspot_list_name TEXT;
+  END IF;
+END $$;
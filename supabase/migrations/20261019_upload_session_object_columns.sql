@@ -0,0 +1,13 @@
+-- Which HubSpot records an import writes: the record type of its rows
+-- (contacts, companies or deals; NULL means contacts) and, per mapped column,
+-- the record type and property its values go to, so the pipeline sync can
+-- split each row into contact, company and deal properties. Only alter
+-- upload_sessions where it still exists (see
+-- 20261019_hubspot_property_policies.sql).
+DO $$
+BEGIN
+  IF to_regclass('public.upload_sessions') IS NOT NULL THEN
+    ALTER TABLE upload_sessions ADD COLUMN IF NOT EXISTS object_type TEXT;
+    ALTER TABLE upload_sessions ADD COLUMN IF NOT EXISTS object_columns JSONB;
+  END IF;
+END $$;
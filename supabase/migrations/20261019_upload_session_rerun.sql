@@ -0,0 +1,14 @@
+-- Re-running a past import with the current rules: the question answers and
+-- rule overrides it was validated with, the session a re-run was made from and
+-- how the re-run compared with it. Only alter upload_sessions where it still
+-- exists (see 20261019_hubspot_property_policies.sql).
+DO $$
+BEGIN
+  IF to_regclass('public.upload_sessions') IS NOT NULL THEN
+    ALTER TABLE upload_sessions ADD COLUMN IF NOT EXISTS question_answers JSONB NOT NULL DEFAULT '{}';
+    ALTER TABLE upload_sessions ADD COLUMN IF NOT EXISTS rule_overrides JSONB NOT NULL DEFAULT '{}';
+    ALTER TABLE upload_sessions ADD COLUMN IF NOT EXISTS rerun_of UUID REFERENCES upload_sessions(id) ON DELETE SET NULL;
+    ALTER TABLE upload_sessions ADD COLUMN IF NOT EXISTS rerun_comparison JSONB;
+    CREATE INDEX IF NOT EXISTS idx_upload_sessions_rerun_of ON upload_sessions(rerun_of);
+  END IF;
+END $$;
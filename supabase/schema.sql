@@ -264,6 +264,7 @@ CREATE TABLE IF NOT EXISTS upload_sessions (
   enriched_rows INTEGER NOT NULL DEFAULT 0,
   synced_rows INTEGER NOT NULL DEFAULT 0,
   failed_rows INTEGER NOT NULL DEFAULT 0,
+  skipped_properties JSONB NOT NULL DEFAULT '{}', -- {"objectType.property": count} kept by overwrite policies
   error_message TEXT,
   field_mappings JSONB NOT NULL DEFAULT '{}', -- {csvHeader -> hubspotField} mapping
   enrichment_config_ids UUID[] DEFAULT '{}', -- Which enrichment configs to run
@@ -335,6 +336,7 @@ CREATE TABLE IF NOT EXISTS crm_records (
   dedup_key VARCHAR(500),
   hubspot_record_id VARCHAR(255),
   upload_session_id UUID,
+  associations JSONB NOT NULL DEFAULT '{}',
   synced_at TIMESTAMP WITH TIME ZONE,
   expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT (NOW() + INTERVAL '15 days'),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
@@ -346,6 +348,7 @@ CREATE INDEX IF NOT EXISTS idx_crm_records_dedup ON crm_records(account_id, obje
 CREATE INDEX IF NOT EXISTS idx_crm_records_expires ON crm_records(expires_at);
 CREATE INDEX IF NOT EXISTS idx_crm_records_hubspot_id ON crm_records(hubspot_record_id);
 CREATE INDEX IF NOT EXISTS idx_crm_records_properties ON crm_records USING gin(properties);
+CREATE INDEX IF NOT EXISTS idx_crm_records_associations ON crm_records USING gin(associations);
 
 -- ============================================================================
 -- HELPER FUNCTIONS